@@ -1,38 +1,48 @@
-import { ipcMain, app, BrowserWindow } from 'electron'; // 合并导入, 添加 BrowserWindow
+import { ipcMain, app, BrowserWindow, WebContents, dialog } from 'electron'; // 合并导入, 添加 BrowserWindow
 import fs from 'fs/promises';
 import path from 'path';
 import { readStore, writeStore } from './storage/jsonStore';
 // 导入 StreamChunk 类型定义
-// eslint-disable-next-line @typescript-eslint/no-unused-vars
-import { BaseLLM, LLMChatOptions, LLMResponse, StreamChunk } from './llm/BaseLLM';
-import { llmServiceManager, LLMServiceManager } from './llm/LLMServiceManager'; // <--- 导入 LLMServiceManager 类
-import { proxyManager, ProxyConfig } from './ProxyManager';
+import { LLMChatOptions, LLMResponse, StreamChunk } from './llm/BaseLLM';
+import { llmServiceManager, LLMTarget } from './llm/LLMServiceManager';
+import { loadRetryPolicy, saveRetryPolicy } from './llm/retryPolicy';
+import { computeCost, loadModelPrices, saveModelPrices } from './llm/modelPricing';
+import { appendUsageRecord, readUsageRecords, clearUsageRecords, summarizeUsage } from './storage/usageLedger';
+import { appendRequestRecord, readRequestRecord, deleteRequestLog } from './storage/requestLog';
+import { updateSessionIndex, removeFromSessionIndex, addSessionUsage, resetSessionUsage, searchSessions, invalidateSessionIndex } from './storage/sessionIndex';
+import { getKeyVaultStatus, setupKeyVault, unlockKeyVault, resetKeyVault, encryptApiKey, maskAIConfig, isMaskedSecret, lockKeyVault } from './storage/keyVault';
+import { proxyManager, ProxyConfig } from './proxyManager';
 import { getSystemProxy } from 'os-proxy-config';
-import type { AICharacter, Script, AIConfig } from '../src/types'; // 导入 AIConfig 类型
-import { getAIConfigById as getAIConfigFromStore } from './storage/jsonStore'; // <--- 添加导入
+import type { AICharacter, Script, AIConfig, AIConfigRef, RetryPolicy, ModelPrice, UsageRecord, UsageSummary, LLMRequestRecord } from '../src/types'; // 导入 AIConfig 类型
+import { getAIConfigById as getAIConfigFromStore, getAIConfigs, saveAIConfigs } from './storage/jsonStore'; // <--- 添加导入
+import { readDocument, writeDocument, getMigrationReport, migrateAllDocuments } from './storage/documentStore';
+import { listSnapshots, createSnapshot, listSnapshotItems, restoreSnapshot, deleteSnapshot } from './storage/backupManager';
 // 导入聊天快照类型
-import type { ChatPageStateSnapshot } from '../src/types';
+import type { ChatPageStateSnapshot, SessionSearchQuery, SessionSearchResult, CharacterCardFile, ScenarioBundle, StorageMigrationReport, BackupSnapshot, BackupItem, PromptTemplate, PromptTemplateBundle, PromptTemplateDefaults } from '../src/types';
 // 导入日志工具和编码工具
 import { ipcLogger as logger } from './utils/logger';
 import { UTF8_OPTIONS } from './utils/encoding';
+import { isPng, readPngTextChunks, writePngTextChunks, createSolidPng } from './utils/pngText';
 
 // --- 文件名/目录常量 ---
-const API_KEYS_FILE = 'apiKeys.json';
 const CUSTOM_MODELS_FILE = 'customModels.json';
 const PROXY_CONFIG_FILE = 'proxyConfig.json';
-const AI_CONFIGURATIONS_FILE = 'aiConfigurations.json'; // 新增 AI 配置文件名
-const KNOWN_CONFIG_FILES = new Set([API_KEYS_FILE, CUSTOM_MODELS_FILE, PROXY_CONFIG_FILE, AI_CONFIGURATIONS_FILE]); // 添加到已知配置文件
+// 包含 API Key 的文件 (apiKeys.json、aiConfigurations.json) 不允许渲染进程直接读写，只能通过 AI 配置接口访问
+const KNOWN_CONFIG_FILES = new Set([CUSTOM_MODELS_FILE, PROXY_CONFIG_FILE]);
 
 const STORAGE_DIR_NAME = 'TheLLMAIImprovTheaterData';
 const CHARACTERS_DIR_NAME = 'characters';
 const SCRIPTS_DIR_NAME = 'scripts';
 const CHATS_DIR_NAME = 'chats'; // <-- 新增聊天记录文件夹名称
+const PROMPT_TEMPLATES_DIR_NAME = 'promptTemplates';
+const PROMPT_TEMPLATE_DEFAULTS_FILE = 'promptTemplateDefaults.json';
 
 // --- 辅助函数 ---
 const getStorageDir = () => path.join(app.getPath('userData'), STORAGE_DIR_NAME);
 const getCharactersDir = () => path.join(getStorageDir(), CHARACTERS_DIR_NAME);
 const getScriptsDir = () => path.join(getStorageDir(), SCRIPTS_DIR_NAME);
 const getChatsDir = () => path.join(getStorageDir(), CHATS_DIR_NAME); // <-- 新增获取聊天记录目录函数
+const getPromptTemplatesDir = () => path.join(getStorageDir(), PROMPT_TEMPLATES_DIR_NAME);
 
 // 文件名清理函数不再需要基于 name/title，可以直接用 ID
 // function sanitizeFilename(name: string): string { ... }
@@ -73,7 +83,7 @@ type CustomModelsStore = Record<string, string[]>;
  */
 export function registerStoreHandlers(): void {
   // 处理读取存储请求 (可读取根目录和 chats 目录)
-  ipcMain.handle('read-store', async (event, relativePath: string, defaultValue: unknown) => {
+  ipcMain.handle('read-store', async (_event, relativePath: string, defaultValue: unknown) => {
     console.log(`[IPC 处理器] 收到 'read-store' 请求，路径: ${relativePath}`);
     // 安全检查：阻止通过此接口读取角色/剧本目录下的文件
     const requestedPath = path.join(getStorageDir(), relativePath);
@@ -97,8 +107,14 @@ export function registerStoreHandlers(): void {
     }
 
     try {
+      // 会话文件带有版本信息，读取时按需升级；其他文件按普通 JSON 读取
       // readStore 现在需要能处理相对于 storageDir 的路径，包括子目录
-      const data = await readStore(relativePath, defaultValue);
+      const data = requestedPath.startsWith(chatsDir)
+        ? await readDocument(requestedPath, 'session').catch((error: unknown) => {
+            if (error && typeof error === 'object' && 'code' in error && error.code === 'ENOENT') return defaultValue;
+            throw error;
+          })
+        : await readStore(relativePath, defaultValue);
       console.log(`[IPC 处理器] 成功读取 'read-store' 路径: ${relativePath}`);
       return { success: true, data };
     } catch (error: unknown) {
@@ -109,7 +125,7 @@ export function registerStoreHandlers(): void {
   });
 
   // 处理写入存储请求 (仅限根目录的配置文件)
-  ipcMain.handle('write-store', async (event, fileName: string, data: unknown) => {
+  ipcMain.handle('write-store', async (_event, fileName: string, data: unknown) => {
     console.log(`[IPC 处理器] 收到 'write-store' 请求，文件名: ${fileName}`);
      // 安全检查：只允许写入根目录下的已知配置文件
      const requestedPath = path.join(getStorageDir(), fileName);
@@ -165,7 +181,7 @@ export function registerStoreHandlers(): void {
   });
 
   // 处理删除聊天会话文件请求 (在 chats 目录操作)
-  ipcMain.handle('delete-chat-session', async (event, fileName: string) => {
+  ipcMain.handle('delete-chat-session', async (_event, fileName: string) => {
     console.log(`[IPC 处理器] 收到 'delete-chat-session' 请求，文件名: ${fileName}`);
     // 安全校验：确保文件名是合法的，并且只包含字母、数字、连字符和点
     // 注意：这里允许 .json 后缀
@@ -186,12 +202,16 @@ export function registerStoreHandlers(): void {
     try {
       await fs.unlink(filePath); // 删除文件
       console.log(`[IPC 处理器] 成功删除文件: ${filePath}`);
+      await removeFromSessionIndex(fileName.replace(/\.json$/, ''));
+      await deleteRequestLog(fileName.replace(/\.json$/, ''));
       return { success: true };
     } catch (error: unknown) {
       console.error(`[IPC 处理器] 处理 'delete-chat-session' 请求 ${fileName} 时发生错误:`, error);
       // 如果文件不存在，也算成功（幂等性）
       if (error && typeof error === 'object' && 'code' in error && error.code === 'ENOENT') {
           console.log(`[IPC 处理器] 文件 ${fileName} 未找到，删除视为成功。`);
+          await removeFromSessionIndex(fileName.replace(/\.json$/, '')).catch(() => undefined);
+          await deleteRequestLog(fileName.replace(/\.json$/, '')).catch(() => undefined);
           return { success: true };
       }
       const message = error instanceof Error ? error.message : '删除聊天记录时发生未知错误';
@@ -199,7 +219,96 @@ export function registerStoreHandlers(): void {
     }
   });
 
-  console.log('已注册通用存储 IPC 处理程序（read-store, write-store, list/delete-chat-sessions）。');
+  // 获取本次启动以来的数据迁移报告 (升级了哪些旧版本文件，哪些文件升级失败)
+  ipcMain.handle('storage-migration-report', async (): Promise<{ success: boolean; data?: StorageMigrationReport; error?: string }> => {
+    return { success: true, data: getMigrationReport() };
+  });
+
+  // 检查并升级数据目录中的所有文件
+  ipcMain.handle('storage-migrate-all', async (): Promise<{ success: boolean; data?: StorageMigrationReport; error?: string }> => {
+    logger.info(`[IPC 处理器] 收到 'storage-migrate-all' 请求`);
+    try {
+      return { success: true, data: await migrateAllDocuments() };
+    } catch (error: unknown) {
+      logger.error('检查数据文件时出错:', error);
+      const message = error instanceof Error ? error.message : '检查数据文件时发生未知错误';
+      return { success: false, error: message };
+    }
+  });
+
+  // 列出数据目录快照
+  ipcMain.handle('backup-list', async (): Promise<{ success: boolean; data?: BackupSnapshot[]; error?: string }> => {
+    try {
+      return { success: true, data: await listSnapshots() };
+    } catch (error: unknown) {
+      logger.error('列出数据快照时出错:', error);
+      const message = error instanceof Error ? error.message : '列出数据快照时发生未知错误';
+      return { success: false, error: message };
+    }
+  });
+
+  // 立即给数据目录做一份快照
+  ipcMain.handle('backup-create', async (): Promise<{ success: boolean; data?: BackupSnapshot; error?: string }> => {
+    logger.info(`[IPC 处理器] 收到 'backup-create' 请求`);
+    try {
+      return { success: true, data: await createSnapshot('manual') };
+    } catch (error: unknown) {
+      logger.error('创建数据快照时出错:', error);
+      const message = error instanceof Error ? error.message : '创建数据快照时发生未知错误';
+      return { success: false, error: message };
+    }
+  });
+
+  // 列出快照中可以单独恢复的项
+  ipcMain.handle('backup-items', async (_, snapshotId: string): Promise<{ success: boolean; data?: BackupItem[]; error?: string }> => {
+    try {
+      return { success: true, data: await listSnapshotItems(snapshotId) };
+    } catch (error: unknown) {
+      logger.error(`读取快照 ${snapshotId} 的内容时出错:`, error);
+      const message = error instanceof Error ? error.message : '读取快照内容时发生未知错误';
+      return { success: false, error: message };
+    }
+  });
+
+  // 从快照恢复整个数据目录 (items 为空) 或所选的项
+  ipcMain.handle('backup-restore', async (_, snapshotId: string, items?: string[]): Promise<{ success: boolean; data?: string[]; error?: string }> => {
+    logger.warn(`[IPC 处理器] 收到 'backup-restore' 请求: ${snapshotId} (${items ? `${items.length} 项` : '全部'})`);
+    try {
+      const restored = await restoreSnapshot(snapshotId, items);
+      // 恢复后丢弃基于旧文件的缓存
+      await invalidateSessionIndex();
+      if (!items || restored.includes('keyVault.json')) {
+        lockKeyVault();
+      }
+      (await getAIConfigs()).forEach(config => llmServiceManager.invalidateServiceInstance(config.id));
+      for (const file of restored) {
+        const match = items ? /^chats\/([^/]+)\.json$/.exec(file) : null;
+        if (!match) continue;
+        const snapshot = await readDocument<ChatPageStateSnapshot>(path.join(getChatsDir(), `${match[1]}.json`), 'session');
+        await updateSessionIndex(match[1], snapshot);
+      }
+      return { success: true, data: restored };
+    } catch (error: unknown) {
+      logger.error(`从快照 ${snapshotId} 恢复数据时出错:`, error);
+      const message = error instanceof Error ? error.message : '恢复数据时发生未知错误';
+      return { success: false, error: message };
+    }
+  });
+
+  // 删除快照
+  ipcMain.handle('backup-delete', async (_, snapshotId: string): Promise<{ success: boolean; error?: string }> => {
+    logger.info(`[IPC 处理器] 收到 'backup-delete' 请求: ${snapshotId}`);
+    try {
+      await deleteSnapshot(snapshotId);
+      return { success: true };
+    } catch (error: unknown) {
+      logger.error(`删除快照 ${snapshotId} 时出错:`, error);
+      const message = error instanceof Error ? error.message : '删除快照时发生未知错误';
+      return { success: false, error: message };
+    }
+  });
+
+  console.log('已注册通用存储 IPC 处理程序（read-store, write-store, list/delete-chat-sessions, storage-migration-report, storage-migrate-all, backup-*）。');
 }
 
 
@@ -211,7 +320,7 @@ export function registerChatSessionHandlers(): void {
 
   // 保存聊天会话 (新增)
   // 参数: sessionId (不含 .json), data (ChatPageStateSnapshot)
-  ipcMain.handle('save-chat-session', async (event, sessionId: string, data: ChatPageStateSnapshot) => { // <-- 添加 data 类型
+  ipcMain.handle('save-chat-session', async (_event, sessionId: string, data: ChatPageStateSnapshot) => { // <-- 添加 data 类型
     console.log(`[IPC 处理器] 收到 'save-chat-session' 请求，会话 ID: ${sessionId}`);
     // 安全校验：确保 sessionId 是合法的，并且只包含字母、数字、连字符
     // 移除非必要的转义符
@@ -232,8 +341,10 @@ export function registerChatSessionHandlers(): void {
 
     try {
       await ensureDirExists(chatsDir); // 确保目录存在
-      await fs.writeFile(filePath, JSON.stringify(data, null, 2), UTF8_OPTIONS); // 使用格式化写入和UTF-8编码
+      await writeDocument(filePath, 'session', data); // 带版本信息写入
       logger.info(`聊天会话 ${fileName} 已成功保存.`);
+      // 索引更新失败不影响保存结果，下次加载索引时会重新对账
+      await updateSessionIndex(sessionId, data).catch(indexError => logger.error(`更新会话索引失败 ${sessionId}:`, indexError));
       return { success: true };
     } catch (error: unknown) {
       logger.error(`保存聊天会话时出错 ${sessionId}:`, error);
@@ -242,7 +353,57 @@ export function registerChatSessionHandlers(): void {
     }
   });
 
-  console.log('已注册聊天会话 IPC 处理程序 (save-chat-session)。');
+  // 设置会话标签：修改会话文件中的 tags 并更新索引
+  ipcMain.handle('set-chat-session-tags', async (_event, sessionId: string, tags: string[]) => {
+    if (!sessionId || !/^[a-zA-Z0-9-]+$/.test(sessionId)) {
+        return { success: false, error: '无效的会话 ID' };
+    }
+    const filePath = path.join(chatsDir, `${sessionId}.json`);
+    try {
+      const data = await readDocument<ChatPageStateSnapshot>(filePath, 'session');
+      data.tags = Array.from(new Set(tags.map(tag => tag.trim()).filter(Boolean)));
+      await writeDocument(filePath, 'session', data);
+      await updateSessionIndex(sessionId, data);
+      return { success: true };
+    } catch (error: unknown) {
+      logger.error(`设置会话标签时出错 ${sessionId}:`, error);
+      const message = error instanceof Error ? error.message : '设置会话标签时发生未知错误';
+      return { success: false, error: message };
+    }
+  });
+
+  // 按条件搜索会话 (会话索引 + 消息全文搜索)
+  ipcMain.handle('search-chat-sessions', async (_event, query: SessionSearchQuery): Promise<{ success: boolean; data?: SessionSearchResult[]; error?: string }> => {
+    try {
+      return { success: true, data: await searchSessions(query ?? {}) };
+    } catch (error: unknown) {
+      logger.error('搜索聊天会话时出错:', error);
+      const message = error instanceof Error ? error.message : '搜索聊天会话时发生未知错误';
+      return { success: false, error: message };
+    }
+  });
+
+  // 导出聊天会话：弹出保存对话框，把渲染进程生成的内容写入用户选择的文件
+  // 返回的 data 为保存的文件路径，用户取消时为 undefined
+  ipcMain.handle('export-chat-session', async (event, defaultFileName: string, content: string, filter: { name: string; extensions: string[] }): Promise<{ success: boolean; data?: string; error?: string }> => {
+    try {
+      const window = BrowserWindow.fromWebContents(event.sender);
+      const options = { defaultPath: defaultFileName, filters: [filter, { name: '所有文件', extensions: ['*'] }] };
+      const result = window ? await dialog.showSaveDialog(window, options) : await dialog.showSaveDialog(options);
+      if (result.canceled || !result.filePath) {
+        return { success: true };
+      }
+      await fs.writeFile(result.filePath, content, UTF8_OPTIONS);
+      logger.info(`聊天会话已导出到 ${result.filePath}`);
+      return { success: true, data: result.filePath };
+    } catch (error: unknown) {
+      logger.error('导出聊天会话时出错:', error);
+      const message = error instanceof Error ? error.message : '导出聊天会话时发生未知错误';
+      return { success: false, error: message };
+    }
+  });
+
+  console.log('已注册聊天会话 IPC 处理程序 (save-chat-session, set-chat-session-tags, search-chat-sessions, export-chat-session)。');
 }
 
 /**
@@ -264,8 +425,7 @@ export function registerCharacterHandlers(): void {
       for (const file of characterFiles) {
         const filePath = path.join(charactersDir, file);
         try {
-          const content = await fs.readFile(filePath, UTF8_OPTIONS);
-          const character = JSON.parse(content) as AICharacter;
+          const character = await readDocument<AICharacter>(filePath, 'character');
           // 这里可以添加校验逻辑，确保解析出的对象符合 AICharacter 结构
           if (character && character.id && character.name) {
              characters.push(character);
@@ -292,7 +452,7 @@ export function registerCharacterHandlers(): void {
   });
 
   // 保存角色 (新增或更新)
-  ipcMain.handle('save-character', async (event, character: AICharacter) => {
+  ipcMain.handle('save-character', async (_event, character: AICharacter) => {
     console.log(`[IPC 处理器] 收到 save-character 请求，角色: ${character?.name} (ID: ${character?.id})`);
     if (!character || !character.id || !character.name) {
       return { success: false, error: '无效的角色数据' };
@@ -313,7 +473,7 @@ export function registerCharacterHandlers(): void {
       // 3. 放弃使用名字做文件名，改用 ID (最简单可靠，但违背用户要求)。
       // 暂时采用覆盖逻辑，接受改名后旧文件残留的问题。
 
-      await fs.writeFile(filePath, JSON.stringify(character, null, 2), UTF8_OPTIONS);
+      await writeDocument(filePath, 'character', character);
       logger.info(`角色 ${character.name} 已成功保存到 ${fileName}.`);
       return { success: true };
     } catch (error: unknown) {
@@ -324,7 +484,7 @@ export function registerCharacterHandlers(): void {
   });
 
   // 删除角色 - 按 ID 删除
-  ipcMain.handle('delete-character', async (event, characterId: string) => { // <-- 参数改为 characterId
+  ipcMain.handle('delete-character', async (_event, characterId: string) => { // <-- 参数改为 characterId
     console.log(`[IPC 处理器] 收到 delete-character 请求，角色 ID: ${characterId}`);
     if (!characterId) {
       return { success: false, error: '未提供要删除的角色 ID' };
@@ -352,9 +512,115 @@ export function registerCharacterHandlers(): void {
     }
   });
 
+  // 导入角色卡：选择一个或多个 JSON / PNG 角色卡文件，返回每个文件中的角色卡 JSON (由渲染进程转换为角色)
+  ipcMain.handle('character-card-import', async (event): Promise<{ success: boolean; data?: CharacterCardFile[]; error?: string }> => {
+    try {
+      const window = BrowserWindow.fromWebContents(event.sender);
+      const options: Electron.OpenDialogOptions = {
+        properties: ['openFile', 'multiSelections'],
+        filters: [{ name: '角色卡', extensions: ['png', 'json'] }],
+      };
+      const result = window ? await dialog.showOpenDialog(window, options) : await dialog.showOpenDialog(options);
+      if (result.canceled) {
+        return { success: true, data: [] };
+      }
+      const files = await Promise.all(result.filePaths.map(readCharacterCardFile));
+      logger.info(`读取了 ${files.length} 个角色卡文件`);
+      return { success: true, data: files };
+    } catch (error: unknown) {
+      logger.error('导入角色卡时出错:', error);
+      const message = error instanceof Error ? error.message : '导入角色卡时发生未知错误';
+      return { success: false, error: message };
+    }
+  });
+
+  // 导出角色卡：JSON 直接写入；PNG 把角色卡写入头像图片 (没有 PNG 头像时使用纯色图片) 的 chara 文本块
+  // 返回的 data 为保存的文件路径，用户取消时为 undefined
+  ipcMain.handle('character-card-export', async (event, defaultFileName: string, card: unknown, format: 'json' | 'png', avatar?: string): Promise<{ success: boolean; data?: string; error?: string }> => {
+    try {
+      const window = BrowserWindow.fromWebContents(event.sender);
+      const options = {
+        defaultPath: `${defaultFileName}.${format}`,
+        filters: [format === 'png' ? { name: 'PNG 角色卡', extensions: ['png'] } : { name: 'JSON 角色卡', extensions: ['json'] }],
+      };
+      const result = window ? await dialog.showSaveDialog(window, options) : await dialog.showSaveDialog(options);
+      if (result.canceled || !result.filePath) {
+        return { success: true };
+      }
+      const json = JSON.stringify(card, null, 2);
+      if (format === 'json') {
+        await fs.writeFile(result.filePath, json, UTF8_OPTIONS);
+      } else {
+        const avatarMatch = avatar?.match(/^data:image\/png;base64,(.+)$/);
+        const avatarBuffer = avatarMatch ? Buffer.from(avatarMatch[1], 'base64') : null;
+        const image = avatarBuffer && isPng(avatarBuffer) ? avatarBuffer : createSolidPng(400, 600, [200, 200, 200]);
+        const chara = Buffer.from(JSON.stringify(card), 'utf8').toString('base64');
+        await fs.writeFile(result.filePath, writePngTextChunks(image, { chara }, ['ccv3']));
+      }
+      logger.info(`角色卡已导出到 ${result.filePath}`);
+      return { success: true, data: result.filePath };
+    } catch (error: unknown) {
+      logger.error('导出角色卡时出错:', error);
+      const message = error instanceof Error ? error.message : '导出角色卡时发生未知错误';
+      return { success: false, error: message };
+    }
+  });
+
   console.log('已注册角色 IPC 处理程序。');
 }
 
+/**
+ * 读取一个角色卡文件
+ * PNG 角色卡的 JSON 以 base64 保存在 chara (v2) 或 ccv3 (v3) 文本块中，图片本身 (去掉角色卡文本块) 作为头像返回
+ */
+async function readCharacterCardFile(filePath: string): Promise<CharacterCardFile> {
+  const fileName = path.basename(filePath);
+  try {
+    const buffer = await fs.readFile(filePath);
+    if (!isPng(buffer)) {
+      return { fileName, card: JSON.parse(buffer.toString('utf8')) };
+    }
+    const texts = readPngTextChunks(buffer);
+    const encoded = texts.ccv3 ?? texts.chara;
+    if (!encoded) {
+      return { fileName, error: 'PNG 图片中没有角色卡数据' };
+    }
+    const avatar = writePngTextChunks(buffer, {}, ['chara', 'ccv3']);
+    return {
+      fileName,
+      card: JSON.parse(Buffer.from(encoded, 'base64').toString('utf8')),
+      avatar: `data:image/png;base64,${avatar.toString('base64')}`,
+    };
+  } catch (error: unknown) {
+    logger.warn(`读取角色卡 ${fileName} 失败:`, error);
+    return { fileName, error: error instanceof Error ? error.message : '无法读取文件' };
+  }
+}
+
+// 可以内嵌到剧本包中的头像图片类型
+const AVATAR_MIME_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+};
+
+/**
+ * 头像为本地图片文件的绝对路径时读取为 data URL，其他情况 (URL、data URL、读取失败) 原样返回
+ */
+async function embedAvatar(avatar?: string): Promise<string | undefined> {
+  const mimeType = avatar && path.isAbsolute(avatar) ? AVATAR_MIME_TYPES[path.extname(avatar).toLowerCase()] : undefined;
+  if (!avatar || !mimeType) return avatar;
+  try {
+    const image = await fs.readFile(avatar);
+    return `data:${mimeType};base64,${image.toString('base64')}`;
+  } catch (error: unknown) {
+    logger.warn(`读取头像文件 ${avatar} 失败，保留原路径:`, error);
+    return avatar;
+  }
+}
+
 /**
  * 注册与剧本数据相关的 IPC 处理程序
  */
@@ -374,8 +640,7 @@ export function registerScriptHandlers(): void {
       for (const file of scriptFiles) {
         const filePath = path.join(scriptsDir, file);
         try {
-          const content = await fs.readFile(filePath, UTF8_OPTIONS);
-          const script = JSON.parse(content) as Script;
+          const script = await readDocument<Script>(filePath, 'script');
           // 这里可以添加校验逻辑，确保解析出的对象符合 Script 结构
           if (script && script.id && script.title) {
              scripts.push(script);
@@ -401,7 +666,7 @@ export function registerScriptHandlers(): void {
   });
 
   // 保存剧本 (新增或更新)
-  ipcMain.handle('save-script', async (event, script: Script) => {
+  ipcMain.handle('save-script', async (_event, script: Script) => {
     console.log(`[IPC 处理器] 收到 save-script 请求，剧本: ${script?.title} (ID: ${script?.id})`);
     if (!script || !script.id || !script.title) {
       return { success: false, error: '无效的剧本数据' };
@@ -416,7 +681,7 @@ export function registerScriptHandlers(): void {
       await ensureDirExists(scriptsDir); // 确保目录存在
 
       // 同样存在改名后旧文件残留的问题
-      await fs.writeFile(filePath, JSON.stringify(script, null, 2), UTF8_OPTIONS);
+      await writeDocument(filePath, 'script', script);
       logger.info(`剧本 ${script.title} 已成功保存到 ${fileName}.`);
       return { success: true };
     } catch (error: unknown) {
@@ -427,7 +692,7 @@ export function registerScriptHandlers(): void {
   });
 
   // 删除剧本 - 按 ID 删除
-  ipcMain.handle('delete-script', async (event, scriptId: string) => { // <-- 参数改为 scriptId
+  ipcMain.handle('delete-script', async (_event, scriptId: string) => { // <-- 参数改为 scriptId
     console.log(`[IPC 处理器] 收到 delete-script 请求，剧本 ID: ${scriptId}`);
      if (!scriptId) {
       return { success: false, error: '未提供要删除的剧本 ID' };
@@ -455,9 +720,276 @@ export function registerScriptHandlers(): void {
     }
   });
 
+  // 导出剧本包：角色头像为本地图片文件时内嵌为 data URL，使剧本包可以单独分享
+  // 返回的 data 为保存的文件路径，用户取消时为 undefined
+  ipcMain.handle('script-bundle-export', async (event, defaultFileName: string, bundle: ScenarioBundle): Promise<{ success: boolean; data?: string; error?: string }> => {
+    try {
+      const window = BrowserWindow.fromWebContents(event.sender);
+      const options = { defaultPath: `${defaultFileName}.json`, filters: [{ name: '剧本包', extensions: ['json'] }] };
+      const result = window ? await dialog.showSaveDialog(window, options) : await dialog.showSaveDialog(options);
+      if (result.canceled || !result.filePath) {
+        return { success: true };
+      }
+      const characters = await Promise.all(bundle.characters.map(async character => ({ ...character, avatar: await embedAvatar(character.avatar) })));
+      await fs.writeFile(result.filePath, JSON.stringify({ ...bundle, characters }, null, 2), UTF8_OPTIONS);
+      logger.info(`剧本包已导出到 ${result.filePath}`);
+      return { success: true, data: result.filePath };
+    } catch (error: unknown) {
+      logger.error('导出剧本包时出错:', error);
+      const message = error instanceof Error ? error.message : '导出剧本包时发生未知错误';
+      return { success: false, error: message };
+    }
+  });
+
+  // 选择并读取剧本包文件 (校验和冲突处理由渲染进程完成)，用户取消时 data 为 undefined
+  ipcMain.handle('script-bundle-import', async (event): Promise<{ success: boolean; data?: unknown; error?: string }> => {
+    try {
+      const window = BrowserWindow.fromWebContents(event.sender);
+      const options: Electron.OpenDialogOptions = { properties: ['openFile'], filters: [{ name: '剧本包', extensions: ['json'] }] };
+      const result = window ? await dialog.showOpenDialog(window, options) : await dialog.showOpenDialog(options);
+      if (result.canceled || result.filePaths.length === 0) {
+        return { success: true };
+      }
+      const content = await fs.readFile(result.filePaths[0], UTF8_OPTIONS);
+      return { success: true, data: JSON.parse(content) };
+    } catch (error: unknown) {
+      logger.error('读取剧本包时出错:', error);
+      const message = error instanceof Error ? error.message : '读取剧本包时发生未知错误';
+      return { success: false, error: message };
+    }
+  });
+
   console.log('已注册剧本 IPC 处理程序。');
 }
 
+/**
+ * 注册提示词模板相关的 IPC 处理程序 (内置模板由渲染进程提供，这里只保存用户创建的模板)
+ */
+export function registerPromptTemplateHandlers(): void {
+  const templatesDir = getPromptTemplatesDir();
+
+  // 列出用户创建的提示词模板
+  ipcMain.handle('prompt-template-list', async (): Promise<{ success: boolean; data?: PromptTemplate[]; error?: string }> => {
+    try {
+      await ensureDirExists(templatesDir);
+      const files = (await fs.readdir(templatesDir)).filter(file => file.endsWith('.json'));
+      const templates: PromptTemplate[] = [];
+      for (const file of files) {
+        try {
+          templates.push(await readDocument<PromptTemplate>(path.join(templatesDir, file), 'promptTemplate'));
+        } catch (readError) {
+          logger.error(`读取或解析提示词模板文件时出错 ${file}:`, readError);
+        }
+      }
+      return { success: true, data: templates.sort((a, b) => a.name.localeCompare(b.name)) };
+    } catch (error: unknown) {
+      logger.error('处理 prompt-template-list 请求时发生错误:', error);
+      const message = error instanceof Error ? error.message : '列出提示词模板时发生未知错误';
+      return { success: false, error: message };
+    }
+  });
+
+  // 保存提示词模板 (新增或更新)
+  ipcMain.handle('prompt-template-save', async (_event, template: PromptTemplate): Promise<{ success: boolean; error?: string }> => {
+    if (!template || !template.id || !template.name || !template.mode || template.builtIn) {
+      return { success: false, error: '无效的提示词模板数据' };
+    }
+    try {
+      await ensureDirExists(templatesDir);
+      await writeDocument(path.join(templatesDir, sanitizeIdForFilename(template.id)), 'promptTemplate', template);
+      logger.info(`提示词模板 ${template.name} 已保存。`);
+      return { success: true };
+    } catch (error: unknown) {
+      logger.error(`保存提示词模板时出错 ${template.name}:`, error);
+      const message = error instanceof Error ? error.message : '保存提示词模板时发生未知错误';
+      return { success: false, error: message };
+    }
+  });
+
+  // 删除提示词模板，同时清除以它为默认模板的设置
+  ipcMain.handle('prompt-template-delete', async (_event, templateId: string): Promise<{ success: boolean; error?: string }> => {
+    if (!templateId) {
+      return { success: false, error: '未提供要删除的提示词模板 ID' };
+    }
+    try {
+      await fs.rm(path.join(templatesDir, sanitizeIdForFilename(templateId)), { force: true });
+      const defaults = await readStore<PromptTemplateDefaults>(PROMPT_TEMPLATE_DEFAULTS_FILE, {});
+      const remaining = Object.fromEntries(Object.entries(defaults).filter(([, id]) => id !== templateId));
+      if (Object.keys(remaining).length !== Object.keys(defaults).length) {
+        await writeStore(PROMPT_TEMPLATE_DEFAULTS_FILE, remaining);
+      }
+      logger.info(`提示词模板 ${templateId} 已删除。`);
+      return { success: true };
+    } catch (error: unknown) {
+      logger.error(`删除提示词模板 ${templateId} 时出错:`, error);
+      const message = error instanceof Error ? error.message : '删除提示词模板时发生未知错误';
+      return { success: false, error: message };
+    }
+  });
+
+  // 读取各聊天模式的默认模板
+  ipcMain.handle('prompt-template-get-defaults', async (): Promise<{ success: boolean; data?: PromptTemplateDefaults; error?: string }> => {
+    try {
+      return { success: true, data: await readStore<PromptTemplateDefaults>(PROMPT_TEMPLATE_DEFAULTS_FILE, {}) };
+    } catch (error: unknown) {
+      logger.error('读取默认提示词模板时出错:', error);
+      const message = error instanceof Error ? error.message : '读取默认提示词模板时发生未知错误';
+      return { success: false, error: message };
+    }
+  });
+
+  // 保存各聊天模式的默认模板
+  ipcMain.handle('prompt-template-set-defaults', async (_event, defaults: PromptTemplateDefaults): Promise<{ success: boolean; error?: string }> => {
+    try {
+      await writeStore(PROMPT_TEMPLATE_DEFAULTS_FILE, defaults);
+      return { success: true };
+    } catch (error: unknown) {
+      logger.error('保存默认提示词模板时出错:', error);
+      const message = error instanceof Error ? error.message : '保存默认提示词模板时发生未知错误';
+      return { success: false, error: message };
+    }
+  });
+
+  // 导出提示词模板，返回的 data 为保存的文件路径，用户取消时为 undefined
+  ipcMain.handle('prompt-template-export', async (event, defaultFileName: string, bundle: PromptTemplateBundle): Promise<{ success: boolean; data?: string; error?: string }> => {
+    try {
+      const window = BrowserWindow.fromWebContents(event.sender);
+      const options = { defaultPath: `${defaultFileName}.json`, filters: [{ name: '提示词模板', extensions: ['json'] }] };
+      const result = window ? await dialog.showSaveDialog(window, options) : await dialog.showSaveDialog(options);
+      if (result.canceled || !result.filePath) {
+        return { success: true };
+      }
+      await fs.writeFile(result.filePath, JSON.stringify(bundle, null, 2), UTF8_OPTIONS);
+      logger.info(`提示词模板已导出到 ${result.filePath}`);
+      return { success: true, data: result.filePath };
+    } catch (error: unknown) {
+      logger.error('导出提示词模板时出错:', error);
+      const message = error instanceof Error ? error.message : '导出提示词模板时发生未知错误';
+      return { success: false, error: message };
+    }
+  });
+
+  // 选择并读取提示词模板文件 (校验由渲染进程完成)，用户取消时 data 为 undefined
+  ipcMain.handle('prompt-template-import', async (event): Promise<{ success: boolean; data?: unknown; error?: string }> => {
+    try {
+      const window = BrowserWindow.fromWebContents(event.sender);
+      const options: Electron.OpenDialogOptions = { properties: ['openFile'], filters: [{ name: '提示词模板', extensions: ['json'] }] };
+      const result = window ? await dialog.showOpenDialog(window, options) : await dialog.showOpenDialog(options);
+      if (result.canceled || result.filePaths.length === 0) {
+        return { success: true };
+      }
+      const content = await fs.readFile(result.filePaths[0], UTF8_OPTIONS);
+      return { success: true, data: JSON.parse(content) };
+    } catch (error: unknown) {
+      logger.error('读取提示词模板文件时出错:', error);
+      const message = error instanceof Error ? error.message : '读取提示词模板文件时发生未知错误';
+      return { success: false, error: message };
+    }
+  });
+
+  console.log('已注册提示词模板 IPC 处理程序。');
+}
+
+/**
+ * 将一次生成的 token 用量写入用量账本，并通知渲染进程刷新用量计数。
+ * 记录失败只写日志，不影响生成结果。
+ */
+async function recordUsage(sender: WebContents, entry: {
+  sessionId?: string;
+  characterId?: string;
+  configId: string;
+  model: string;
+  usage?: LLMResponse['usage'];
+  streaming: boolean;
+}): Promise<void> {
+  try {
+    const promptTokens = entry.usage?.promptTokens ?? 0;
+    const completionTokens = entry.usage?.completionTokens ?? 0;
+    const [aiConfig, prices] = await Promise.all([getAIConfigFromStore(entry.configId), loadModelPrices()]);
+    const record = await appendUsageRecord({
+      sessionId: entry.sessionId,
+      characterId: entry.characterId,
+      configId: entry.configId,
+      providerId: aiConfig?.serviceProvider,
+      model: entry.model,
+      promptTokens,
+      completionTokens,
+      cost: computeCost(prices, entry.model, promptTokens, completionTokens),
+      streaming: entry.streaming,
+    });
+    await addSessionUsage(record);
+    if (!sender.isDestroyed()) {
+      sender.send('usage-recorded', record);
+    }
+  } catch (error: unknown) {
+    logger.error('[IPC 主进程] 记录 token 用量失败:', error);
+  }
+}
+
+/**
+ * 把一次生成请求实际发送的内容和结果写入会话的请求日志，供请求查看器使用。
+ * 没有会话 ID 时不记录；记录失败只写日志，不影响生成结果。
+ * @returns 写入成功时返回记录 ID
+ */
+async function recordRequest(entry: {
+  sessionId?: string;
+  characterId?: string;
+  startedAt: number;
+  streaming: boolean;
+  targets: LLMTarget[];
+  options: LLMChatOptions;
+  configId: string;
+  model: string;
+  finishReason?: string;
+  usage?: LLMResponse['usage'];
+  error?: string;
+  cancelled?: boolean;
+}): Promise<string | undefined> {
+  if (!entry.sessionId) return undefined;
+  try {
+    const { options } = entry;
+    const aiConfig = await getAIConfigFromStore(entry.configId);
+    const record = await appendRequestRecord({
+      sessionId: entry.sessionId,
+      characterId: entry.characterId,
+      timestamp: entry.startedAt,
+      durationMs: Date.now() - entry.startedAt,
+      streaming: entry.streaming,
+      targets: entry.targets.map(({ configId, modelName }) => ({ configId, modelName })),
+      configId: entry.configId,
+      providerId: aiConfig?.serviceProvider,
+      model: entry.model,
+      systemPrompt: options.systemPrompt,
+      messages: options.messages,
+      params: {
+        temperature: options.temperature,
+        topP: options.topP,
+        maxTokens: options.maxTokens,
+        presencePenalty: options.presencePenalty,
+        frequencyPenalty: options.frequencyPenalty,
+        stopSequences: options.stopSequences,
+      },
+      finishReason: entry.finishReason,
+      usage: entry.usage,
+      error: entry.error,
+      cancelled: entry.cancelled,
+    });
+    return record.id;
+  } catch (error: unknown) {
+    logger.error('[IPC 主进程] 写入请求日志失败:', error);
+    return undefined;
+  }
+}
+
+// 正在进行的 LLM 请求 (流式与非流式)，用于响应 llm-cancel-stream 取消请求 (键由会话 ID 和角色 ID 组成)
+interface ActiveRequest {
+  sessionId?: string;
+  characterId?: string;
+  controller: AbortController;
+}
+const activeRequests = new Map<string, ActiveRequest>();
+const getRequestKey = (sessionId?: string, characterId?: string): string => `${sessionId ?? ''}::${characterId ?? ''}`;
+
 /**
  * 注册与 LLM 服务相关的 IPC 处理程序
  * @param getMainWindow Function to get the main browser window instance
@@ -471,7 +1003,7 @@ export function registerLLMServiceHandlers(getMainWindow: () => BrowserWindow |
       // 逻辑保持不变：返回所有已配置的 AIConfig 对象
       const aiConfigs = await llmServiceManager.getAllAIConfigs();
       logger.info(`[IPC 主进程] 'get-all-ai-configs': 返回 ${aiConfigs.length} 个 AI 配置。`);
-      return { success: true, data: aiConfigs }; // 前端将直接使用 AIConfig[]
+      return { success: true, data: aiConfigs.map(maskAIConfig) }; // 前端只会拿到掩码后的 API Key
     } catch (error: unknown) {
       logger.error('[IPC 主进程] 处理 \'get-all-ai-configs\' 时发生错误:', error);
       const message = error instanceof Error ? error.message : '获取 AI 配置列表时出错';
@@ -524,7 +1056,7 @@ export function registerLLMServiceHandlers(getMainWindow: () => BrowserWindow |
   });
 
    // 获取可用模型 (基于 configId)
-   ipcMain.handle('llm-get-available-models', async (event, configId: string) => {
+   ipcMain.handle('llm-get-available-models', async (_event, configId: string) => {
      logger.info(`[IPC 主进程] 收到 llm-get-available-models 请求，Config ID: ${configId}`);
      if (!configId) {
        return { success: false, error: '未提供 AI 配置 ID (configId)。' };
@@ -560,9 +1092,15 @@ export function registerLLMServiceHandlers(getMainWindow: () => BrowserWindow |
          return { success: false, error: `无法为配置 ID ${configId} 初始化服务。` };
        }
        
-       // 4. 合并模型列表
+       // 4. 从服务商接口动态发现模型 (例如 OpenAI 兼容接口的 /v1/models)，不支持的服务商返回空数组
+       const discoveredModels = await service.discoverModels();
+       if (discoveredModels.length > 0) {
+         logger.info(`[IPC 主进程] llm-get-available-models: 从服务商 ${providerId} 接口发现 ${discoveredModels.length} 个模型。`);
+       }
+
+       // 5. 合并模型列表
        // BaseLLM 的 getAvailableModels 方法会合并 defaultModels 和传入的 customModels
-       const availableModels = service.getAvailableModels(customProviderModels);
+       const availableModels = service.getAvailableModels([...discoveredModels, ...customProviderModels]);
        
        logger.info(`[IPC 主进程] llm-get-available-models: Config ID ${configId} (服务商 ${providerId}) 共找到 ${availableModels.length} 个可用模型。`);
        return { success: true, data: availableModels };
@@ -575,40 +1113,64 @@ export function registerLLMServiceHandlers(getMainWindow: () => BrowserWindow |
    });
 
    // 处理聊天生成请求 (非流式, 基于 configId)
-   ipcMain.handle('llm-generate-chat', async (event, configId: string, options: LLMChatOptions): Promise<{ success: boolean; data?: LLMResponse; error?: string }> => {
+   // characterId 和 sessionId 用于记录用量，并与流式请求一样标识该请求，以便通过 llm-cancel-stream 取消
+   // fallbacks 为备用配置链，主配置重试失败后按顺序改用备用配置
+   ipcMain.handle('llm-generate-chat', async (event, configId: string, options: LLMChatOptions, characterId?: string, sessionId?: string, fallbacks: AIConfigRef[] = []): Promise<{ success: boolean; data?: LLMResponse; error?: string }> => {
      if (!configId) {
        logger.error('[IPC 主进程] llm-generate-chat: 未提供 AI 配置 ID (configId)。');
        return { success: false, error: '未提供 AI 配置 ID (configId)。' };
      }
 
-     const service = await llmServiceManager.getServiceInstanceByConfigId(configId);
-     if (!service) {
-       logger.error(`[IPC 主进程] llm-generate-chat: 无法为 Config ID "${configId}" 获取服务实例。`);
-       return { success: false, error: `无法为配置 ID ${configId} 初始化服务。` };
-     }
-     
-     // 使用 service 上的属性来丰富日志
-     logger.info(`[IPC 主进程] 收到 llm-generate-chat 请求，使用配置: ${service.configName} (ID: ${service.configId}, 提供商: ${service.providerId})`);
+     const targets: LLMTarget[] = [{ configId, modelName: options.model }, ...fallbacks];
+     logger.info(`[IPC 主进程] 收到 llm-generate-chat 请求，配置链: ${targets.map(t => `${t.configId}(${t.modelName})`).join(' -> ')}`);
+
+     options.stream = false;
+
+     // 为本次请求创建取消控制器；同一会话同一角色的旧请求会被新请求取代
+     const requestKey = getRequestKey(sessionId, characterId);
+     activeRequests.get(requestKey)?.controller.abort();
+     const controller = new AbortController();
+     activeRequests.set(requestKey, { sessionId, characterId, controller });
+     options.signal = controller.signal;
 
      try {
-       options.stream = false;
-       const result: LLMResponse = await service.generateChatCompletion(options);
-       logger.info(`[IPC 主进程] 非流式聊天完成 (配置: ${service.configName} [${service.configId}]) - ${result.error ? `错误: ${result.error}` : '成功'}`);
+       const startedAt = Date.now();
+       const result: LLMResponse = await llmServiceManager.generateWithFailover(targets, options);
+       logger.info(`[IPC 主进程] 非流式聊天完成 (实际配置: ${result.configId ?? 'N/A'}) - ${result.cancelled ? '已取消' : result.error ? `错误: ${result.error}` : '成功'}`);
+       if (!result.error) {
+         await recordUsage(event.sender, {
+           sessionId, characterId, configId: result.configId ?? configId,
+           model: result.modelUsed || options.model, usage: result.usage, streaming: false,
+         });
+       }
+       result.requestId = await recordRequest({
+         sessionId, characterId, startedAt, streaming: false, targets, options,
+         configId: result.configId ?? configId, model: result.modelUsed || options.model,
+         finishReason: result.finishReason, usage: result.usage, error: result.error,
+         cancelled: result.cancelled,
+       });
        if (result.error) {
           return { success: false, error: result.error, data: result };
        }
        return { success: true, data: result };
      } catch (error: unknown) {
-       logger.error(`[IPC 主进程] 处理 llm-generate-chat (配置: ${service.configName} [${service.configId}]) 时发生错误:`, error);
+       logger.error(`[IPC 主进程] 处理 llm-generate-chat (配置: ${configId}) 时发生错误:`, error);
        const message = error instanceof Error ? error.message : '调用聊天生成时发生未知错误';
        return { success: false, error: message };
+     } finally {
+       // 只移除自己的控制器，避免误删已取代本请求的新请求
+       if (activeRequests.get(requestKey)?.controller === controller) {
+         activeRequests.delete(requestKey);
+       }
      }
    });
 
    // --- 新增：处理流式聊天生成请求 ---
    // --- 新增：处理流式聊天生成请求 (加入 sourceId/characterId) ---
    // IMPORTANT: The third argument `characterId` is ADDED here. Frontend needs to pass it!
-   ipcMain.handle('llm-generate-chat-stream', async (event, configId: string, options: LLMChatOptions, characterId?: string): Promise<{ success: boolean; error?: string }> => {
+   // 第四个参数 sessionId 用于与 characterId 一起标识该流，以便通过 llm-cancel-stream 取消
+   // 第五个参数 fallbacks 为备用配置链，规则与 llm-generate-chat 相同
+   ipcMain.handle('llm-generate-chat-stream', async (event, configId: string, options: LLMChatOptions, characterId?: string, sessionId?: string, fallbacks: AIConfigRef[] = []): Promise<{ success: boolean; error?: string }> => {
      if (!configId) {
        logger.error('[IPC 主进程] llm-generate-chat-stream: 未提供 AI 配置 ID (configId)。');
        return { success: false, error: '未提供 AI 配置 ID (configId)。' };
@@ -621,47 +1183,143 @@ export function registerLLMServiceHandlers(getMainWindow: () => BrowserWindow |
      }
      const webContents = mainWindow.webContents;
 
-     const service = await llmServiceManager.getServiceInstanceByConfigId(configId);
-     if (!service) {
-       logger.error(`[IPC 主进程] llm-generate-chat-stream: 无法为 Config ID "${configId}" 获取服务实例。`);
-       return { success: false, error: `无法为配置 ID ${configId} 初始化服务。` };
-     }
-
-     logger.info(`[IPC 主进程] 收到 llm-generate-chat-stream 请求，使用配置: ${service.configName} (ID: ${service.configId}, 提供商: ${service.providerId}), 角色ID: ${characterId ?? '未提供'}`);
+     const targets: LLMTarget[] = [{ configId, modelName: options.model }, ...fallbacks];
+     const chainLabel = targets.map(t => `${t.configId}(${t.modelName})`).join(' -> ');
+     logger.info(`[IPC 主进程] 收到 llm-generate-chat-stream 请求，配置链: ${chainLabel}, 角色ID: ${characterId ?? '未提供'}, 会话ID: ${sessionId ?? '未提供'}`);
      options.stream = true;
 
+     // 为本次流创建取消控制器；同一会话同一角色的旧流会被新请求取代
+     const requestKey = getRequestKey(sessionId, characterId);
+     activeRequests.get(requestKey)?.controller.abort();
+     const controller = new AbortController();
+     activeRequests.set(requestKey, { sessionId, characterId, controller });
+     options.signal = controller.signal;
+
      try {
-       logger.info(`[IPC 主进程] 开始为配置 ${service.configName} [${service.configId}] (角色ID: ${characterId ?? 'N/A'}) 启动流式输出...`);
-       if (typeof service.generateChatCompletionStream !== 'function') {
-           logger.error(`[IPC 主进程] 配置 ${service.configName} [${service.configId}] 对应的服务不支持流式输出。`);
-           return { success: false, error: `配置 ${service.configName} [${service.configId}] 对应的服务不支持流式输出。` };
-       }
-       const stream = service.generateChatCompletionStream(options);
+       logger.info(`[IPC 主进程] 开始为配置链 ${chainLabel} (角色ID: ${characterId ?? 'N/A'}) 启动流式输出...`);
+       const startedAt = Date.now();
+       const stream = llmServiceManager.generateStreamWithFailover(targets, options);
+       // 服务商自身的结束块 (包括出错的结束块) 不直接转发，而是合并到最后统一发送的结束块中，避免前端收到两次 done
+       let finalChunk: StreamChunk = { done: true };
+       let streamError: string | undefined;
        for await (const chunk of stream) {
          if (webContents.isDestroyed()) {
-            logger.warn('[IPC 主进程] WebContents 已销毁，停止为角色ID ${characterId ?? "N/A"} 发送流式数据。');
+            logger.warn(`[IPC 主进程] WebContents 已销毁，停止为角色ID ${characterId ?? "N/A"} 发送流式数据。`);
+           break;
+         }
+         if (chunk.error) {
+           // 出错即结束：错误块作为唯一的结束块发送 (保留其中的文本)
+           streamError = chunk.error;
+           finalChunk = { ...chunk, done: true };
            break;
          }
+         if (chunk.done) {
+           finalChunk = { ...chunk, text: undefined, done: true };
+           continue;
+         }
          webContents.send('llm-stream-chunk', { chunk, sourceId: characterId });
+         if (controller.signal.aborted) {
+           break; // 已取消，不再转发后续数据
+         }
+       }
+       // 正常结束，或被取消但服务商已返回用量时，记录本次生成的用量 (出错的流不记录，与非流式一致)
+       if (!streamError && (!controller.signal.aborted || finalChunk.usage)) {
+         await recordUsage(event.sender, {
+           sessionId, characterId, configId: finalChunk.configId ?? configId,
+           model: finalChunk.modelUsed || options.model, usage: finalChunk.usage, streaming: true,
+         });
+       }
+       const requestId = await recordRequest({
+         sessionId, characterId, startedAt, streaming: true, targets, options,
+         configId: finalChunk.configId ?? configId, model: finalChunk.modelUsed || options.model,
+         finishReason: finalChunk.finishReason, usage: finalChunk.usage, error: streamError,
+         cancelled: controller.signal.aborted || undefined,
+       });
+       finalChunk = { ...finalChunk, requestId };
+       if (controller.signal.aborted) {
+         finalChunk = { ...finalChunk, done: true, cancelled: true };
+         logger.info(`[IPC 主进程] 配置 ${finalChunk.configId ?? configId} (角色ID: ${characterId ?? 'N/A'}) 的流式输出已被取消。`);
+       } else {
+         logger.info(`[IPC 主进程] 配置 ${finalChunk.configId ?? configId} (角色ID: ${characterId ?? 'N/A'}) 的流式输出已完成。`);
        }
-       logger.info(`[IPC 主进程] 配置 ${service.configName} [${service.configId}] (角色ID: ${characterId ?? 'N/A'}) 的流式输出已完成。`);
        if (!webContents.isDestroyed()) {
-           webContents.send('llm-stream-chunk', { chunk: { done: true }, sourceId: characterId });
+           webContents.send('llm-stream-chunk', { chunk: finalChunk, sourceId: characterId });
        }
        return { success: true };
 
      } catch (error: unknown) {
-       logger.error(`[IPC 主进程] 处理 llm-generate-chat-stream (配置: ${service.configName} [${service.configId}], 角色ID: ${characterId ?? 'N/A'}) 时发生错误:`, error);
+       logger.error(`[IPC 主进程] 处理 llm-generate-chat-stream (配置链: ${chainLabel}, 角色ID: ${characterId ?? 'N/A'}) 时发生错误:`, error);
        const message = error instanceof Error ? error.message : '调用流式聊天生成时发生未知错误';
        if (!webContents.isDestroyed()) {
            webContents.send('llm-stream-chunk', { chunk: { error: message, done: true }, sourceId: characterId });
        }
        return { success: false, error: message };
+     } finally {
+       // 只移除自己的控制器，避免误删已取代本流的新请求
+       if (activeRequests.get(requestKey)?.controller === controller) {
+         activeRequests.delete(requestKey);
+       }
+     }
+   });
+
+   // 取消正在进行的请求 (流式与非流式)。未提供 characterId 时取消该会话下的所有请求 ("全部停止")
+   ipcMain.handle('llm-cancel-stream', async (_event, sessionId: string, characterId?: string): Promise<{ success: boolean; data?: number; error?: string }> => {
+     logger.info(`[IPC 主进程] 收到 llm-cancel-stream 请求，会话ID: ${sessionId}, 角色ID: ${characterId ?? '全部'}`);
+     let cancelledCount = 0;
+     activeRequests.forEach((activeStream, key) => {
+       const matches = characterId === undefined
+         ? activeStream.sessionId === sessionId
+         : key === getRequestKey(sessionId, characterId);
+       if (matches && !activeStream.controller.signal.aborted) {
+         activeStream.controller.abort();
+         cancelledCount++;
+       }
+     });
+     logger.info(`[IPC 主进程] llm-cancel-stream: 已取消 ${cancelledCount} 个请求。`);
+     return { success: true, data: cancelledCount };
+   });
+
+   // 读取会话请求日志中的一条记录 (请求查看器使用)，记录不存在时 data 为 null
+   ipcMain.handle('llm-get-request-record', async (_event, sessionId: string, requestId: string): Promise<{ success: boolean; data?: LLMRequestRecord | null; error?: string }> => {
+     if (!sessionId || !requestId) {
+       return { success: false, error: '未提供会话 ID 或请求 ID。' };
+     }
+     try {
+       return { success: true, data: await readRequestRecord(sessionId, requestId) };
+     } catch (error: unknown) {
+       logger.error(`[IPC 主进程] 读取请求记录 ${requestId} (会话: ${sessionId}) 时发生错误:`, error);
+       const message = error instanceof Error ? error.message : '读取请求记录时发生未知错误';
+       return { success: false, error: message };
+     }
+   });
+
+   // 获取重试策略
+   ipcMain.handle('llm-get-retry-policy', async (): Promise<{ success: boolean; data?: RetryPolicy; error?: string }> => {
+     try {
+       const policy = await loadRetryPolicy();
+       return { success: true, data: policy };
+     } catch (error: unknown) {
+       logger.error('[IPC 主进程] 处理 llm-get-retry-policy 请求时发生错误:', error);
+       const message = error instanceof Error ? error.message : '获取重试策略时出错';
+       return { success: false, error: message };
+     }
+   });
+
+   // 保存重试策略，返回规范化后实际保存的策略
+   ipcMain.handle('llm-set-retry-policy', async (_event, policy: Partial<RetryPolicy>): Promise<{ success: boolean; data?: RetryPolicy; error?: string }> => {
+     logger.info('[IPC 主进程] 收到 llm-set-retry-policy 请求:', policy);
+     try {
+       const saved = await saveRetryPolicy(policy);
+       return { success: true, data: saved };
+     } catch (error: unknown) {
+       logger.error('[IPC 主进程] 处理 llm-set-retry-policy 请求时发生错误:', error);
+       const message = error instanceof Error ? error.message : '保存重试策略时出错';
+       return { success: false, error: message };
      }
    });
 
    // 获取自定义模型列表
-   ipcMain.handle('llm-get-custom-models', async (event, providerId: string): Promise<{ success: boolean; data?: string[]; error?: string }> => {
+   ipcMain.handle('llm-get-custom-models', async (_event, providerId: string): Promise<{ success: boolean; data?: string[]; error?: string }> => {
       console.log(`[IPC 主进程] 收到 llm-get-custom-models 请求，服务商: ${providerId}`);
       try {
         const allCustomModels = await readStore<CustomModelsStore>(CUSTOM_MODELS_FILE, {});
@@ -675,7 +1333,7 @@ export function registerLLMServiceHandlers(getMainWindow: () => BrowserWindow |
    });
 
    // 保存自定义模型列表
-   ipcMain.handle('llm-save-custom-models', async (event, providerId: string, models: string[]): Promise<{ success: boolean; error?: string }> => {
+   ipcMain.handle('llm-save-custom-models', async (_event, providerId: string, models: string[]): Promise<{ success: boolean; error?: string }> => {
       console.log(`[IPC 主进程] 收到 llm-save-custom-models 请求，服务商: ${providerId}，模型列表:`, models);
       try {
         const allCustomModels = await readStore<CustomModelsStore>(CUSTOM_MODELS_FILE, {});
@@ -698,7 +1356,7 @@ export function registerLLMServiceHandlers(getMainWindow: () => BrowserWindow |
  */
 export function registerProxyHandlers(): void {
   // 设置代理
-  ipcMain.handle('proxy-set-config', async (event, incomingConfig: ProxyConfig) => {
+  ipcMain.handle('proxy-set-config', async (_event, incomingConfig: ProxyConfig) => {
     console.log(`[IPC 主进程] 收到 proxy-set-config 请求，配置:`, incomingConfig);
     try {
       // 1. 读取当前保存的配置以保留旧的 customProxyUrl
@@ -940,10 +1598,12 @@ export function registerAllIpcHandlers(getMainWindow: () => BrowserWindow | null
   registerStoreHandlers();
   registerCharacterHandlers();
   registerScriptHandlers();
+  registerPromptTemplateHandlers(); // 提示词模板
   registerChatSessionHandlers();
   registerLLMServiceHandlers(getMainWindow); // <-- 传递 getMainWindow
   registerProxyHandlers();
   registerAIConfigHandlers(); // 新增：注册 AI 配置处理程序
+  registerUsageHandlers(); // 用量统计与价格表
   console.log('[IPC 管理] 所有 IPC 处理程序已注册。');
 }
 
@@ -952,16 +1612,14 @@ export function registerAllIpcHandlers(getMainWindow: () => BrowserWindow | null
  * 注册与 AI 配置相关的 IPC 处理程序
  */
 export function registerAIConfigHandlers(): void {
-  const aiConfigFile = AI_CONFIGURATIONS_FILE;
-
   // 获取指定服务商的所有 AI 配置
-  ipcMain.handle('get-ai-configs-by-provider', async (event, serviceProvider: string) => {
+  ipcMain.handle('get-ai-configs-by-provider', async (_event, serviceProvider: string) => {
     logger.info(`[IPC AIConfig] 收到 'get-ai-configs-by-provider' 请求，服务商: ${serviceProvider}`);
     try {
-      const allConfigs = await readStore<AIConfig[]>(aiConfigFile, []);
+      const allConfigs = await getAIConfigs();
       const providerConfigs = allConfigs.filter(config => config.serviceProvider === serviceProvider);
       logger.info(`[IPC AIConfig] 为服务商 ${serviceProvider} 找到 ${providerConfigs.length} 个配置。`);
-      return { success: true, data: providerConfigs };
+      return { success: true, data: providerConfigs.map(maskAIConfig) };
     } catch (error: unknown) {
       logger.error(`[IPC AIConfig] 处理 'get-ai-configs-by-provider' 请求 ${serviceProvider} 时发生错误:`, error);
       const message = error instanceof Error ? error.message : '获取 AI 配置列表时发生未知错误';
@@ -970,17 +1628,17 @@ export function registerAIConfigHandlers(): void {
   });
 
   // 添加新的 AI 配置
-  ipcMain.handle('add-ai-config', async (event, configData: Omit<AIConfig, 'id'>) => {
+  ipcMain.handle('add-ai-config', async (_event, configData: Omit<AIConfig, 'id'>) => {
     logger.info(`[IPC AIConfig] 收到 'add-ai-config' 请求，配置名称: ${configData.name}`);
     try {
-      const allConfigs = await readStore<AIConfig[]>(aiConfigFile, []);
+      const allConfigs = await getAIConfigs();
       // 简单的 ID 生成：时间戳 + 随机数 (在实际应用中可能需要更健壮的 UUID)
       const newId = `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
-      const newConfig: AIConfig = { ...configData, id: newId };
+      const newConfig: AIConfig = { ...configData, id: newId, apiKey: await encryptApiKey(configData.apiKey) };
       allConfigs.push(newConfig);
-      await writeStore(aiConfigFile, allConfigs);
+      await saveAIConfigs(allConfigs);
       logger.info(`[IPC AIConfig] AI 配置 '${configData.name}' (ID: ${newId}) 已添加并保存。`);
-      return { success: true, data: newConfig };
+      return { success: true, data: maskAIConfig(newConfig) };
     } catch (error: unknown) {
       logger.error(`[IPC AIConfig] 处理 'add-ai-config' 请求时发生错误:`, error);
       const message = error instanceof Error ? error.message : '添加 AI 配置时发生未知错误';
@@ -989,20 +1647,27 @@ export function registerAIConfigHandlers(): void {
   });
 
   // 更新已有的 AI 配置
-  ipcMain.handle('update-ai-config', async (event, configId: string, updates: Partial<Omit<AIConfig, 'id'>>) => {
+  ipcMain.handle('update-ai-config', async (_event, configId: string, updates: Partial<Omit<AIConfig, 'id'>>) => {
     logger.info(`[IPC AIConfig] 收到 'update-ai-config' 请求，配置 ID: ${configId}`);
     try {
-      const allConfigs = await readStore<AIConfig[]>(aiConfigFile, []);
+      const allConfigs = await getAIConfigs();
       const configIndex = allConfigs.findIndex(config => config.id === configId);
       if (configIndex === -1) {
         logger.warn(`[IPC AIConfig] 未找到要更新的 AI 配置，ID: ${configId}`);
         return { success: false, error: `未找到配置 ID: ${configId}` };
       }
-      const updatedConfig = { ...allConfigs[configIndex], ...updates };
+      const storedUpdates = { ...updates };
+      if (storedUpdates.apiKey === undefined || isMaskedSecret(storedUpdates.apiKey)) {
+        delete storedUpdates.apiKey; // 未提交或提交的是掩码：保留原有的 API Key
+      } else {
+        storedUpdates.apiKey = await encryptApiKey(storedUpdates.apiKey);
+      }
+      const updatedConfig = { ...allConfigs[configIndex], ...storedUpdates };
       allConfigs[configIndex] = updatedConfig;
-      await writeStore(aiConfigFile, allConfigs);
+      await saveAIConfigs(allConfigs);
+      llmServiceManager.invalidateServiceInstance(configId); // 配置已变化，清除旧的服务实例缓存
       logger.info(`[IPC AIConfig] AI 配置 ID: ${configId} 已更新并保存。`);
-      return { success: true, data: updatedConfig };
+      return { success: true, data: maskAIConfig(updatedConfig) };
     } catch (error: unknown) {
       logger.error(`[IPC AIConfig] 处理 'update-ai-config' 请求 ${configId} 时发生错误:`, error);
       const message = error instanceof Error ? error.message : '更新 AI 配置时发生未知错误';
@@ -1011,10 +1676,10 @@ export function registerAIConfigHandlers(): void {
   });
 
   // 删除 AI 配置
-  ipcMain.handle('delete-ai-config', async (event, configId: string) => {
+  ipcMain.handle('delete-ai-config', async (_event, configId: string) => {
     logger.info(`[IPC AIConfig] 收到 'delete-ai-config' 请求，配置 ID: ${configId}`);
     try {
-      let allConfigs = await readStore<AIConfig[]>(aiConfigFile, []);
+      let allConfigs = await getAIConfigs();
       const initialLength = allConfigs.length;
       allConfigs = allConfigs.filter(config => config.id !== configId);
       if (allConfigs.length === initialLength) {
@@ -1022,7 +1687,8 @@ export function registerAIConfigHandlers(): void {
         // 即使未找到也返回成功，保持幂等性
         return { success: true };
       }
-      await writeStore(aiConfigFile, allConfigs);
+      await saveAIConfigs(allConfigs);
+      llmServiceManager.invalidateServiceInstance(configId);
       logger.info(`[IPC AIConfig] AI 配置 ID: ${configId} 已删除。`);
       return { success: true };
     } catch (error: unknown) {
@@ -1035,7 +1701,7 @@ export function registerAIConfigHandlers(): void {
   logger.info('已注册 AI 配置 IPC 处理程序。');
 
   // 新增：根据 ID 获取单个 AI 配置
-  ipcMain.handle('get-ai-config-by-id', async (event, configId: string) => {
+  ipcMain.handle('get-ai-config-by-id', async (_event, configId: string) => {
     logger.info(`[IPC AIConfig] 收到 'get-ai-config-by-id' 请求，配置 ID: ${configId}`);
     if (!configId) {
       return { success: false, error: '未提供 AI 配置 ID' };
@@ -1044,7 +1710,7 @@ export function registerAIConfigHandlers(): void {
       const config = await getAIConfigFromStore(configId); // 使用已导入的函数
       if (config) {
         logger.info(`[IPC AIConfig] 成功找到 AI 配置 ID: ${configId}`);
-        return { success: true, data: config };
+        return { success: true, data: maskAIConfig(config) };
       } else {
         logger.warn(`[IPC AIConfig] 未找到 AI 配置 ID: ${configId}`);
         return { success: false, error: `未找到具有 ID ${configId} 的 AI 配置` };
@@ -1056,20 +1722,135 @@ export function registerAIConfigHandlers(): void {
     }
   });
 
-  // 新增：获取支持的服务商列表
-  ipcMain.handle('get-supported-service-providers', async () => {
-    logger.info(`[IPC AIConfig] 收到 'get-supported-service-providers' 请求`);
+  // 获取 API Key 密钥库状态 (是否已设置主密码、是否已解锁)
+  ipcMain.handle('key-vault-status', async () => {
     try {
-      // 直接调用 LLMServiceManager 的静态方法
-      const providers = LLMServiceManager.getSupportedServiceProviders();
-      logger.info(`[IPC AIConfig] 成功获取支持的服务商列表: ${providers.join(', ')}`);
-      return { success: true, data: providers };
+      return { success: true, data: await getKeyVaultStatus() };
     } catch (error: unknown) {
-      logger.error(`[IPC AIConfig] 处理 'get-supported-service-providers' 请求时发生错误:`, error);
-      const message = error instanceof Error ? error.message : '获取支持的服务商列表时发生未知错误';
+      logger.error(`[IPC AIConfig] 处理 'key-vault-status' 请求时发生错误:`, error);
+      const message = error instanceof Error ? error.message : '获取密钥库状态时发生未知错误';
       return { success: false, error: message };
     }
   });
+
+  // 首次设置主密码
+  ipcMain.handle('key-vault-setup', async (_event, passphrase: string) => {
+    logger.info(`[IPC AIConfig] 收到 'key-vault-setup' 请求`);
+    try {
+      return { success: true, data: await setupKeyVault(passphrase) };
+    } catch (error: unknown) {
+      logger.error(`[IPC AIConfig] 处理 'key-vault-setup' 请求时发生错误:`, error);
+      const message = error instanceof Error ? error.message : '设置主密码时发生未知错误';
+      return { success: false, error: message };
+    }
+  });
+
+  // 用主密码解锁 (每次启动应用后一次)
+  ipcMain.handle('key-vault-unlock', async (_event, passphrase: string) => {
+    logger.info(`[IPC AIConfig] 收到 'key-vault-unlock' 请求`);
+    try {
+      return { success: true, data: await unlockKeyVault(passphrase) };
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : '解锁时发生未知错误';
+      return { success: false, error: message };
+    }
+  });
+
+  // 忘记主密码时重置密钥库 (已加密的 API Key 会被清空)
+  ipcMain.handle('key-vault-reset', async () => {
+    logger.warn(`[IPC AIConfig] 收到 'key-vault-reset' 请求`);
+    try {
+      const status = await resetKeyVault();
+      (await getAIConfigs()).forEach(config => llmServiceManager.invalidateServiceInstance(config.id));
+      return { success: true, data: status };
+    } catch (error: unknown) {
+      logger.error(`[IPC AIConfig] 处理 'key-vault-reset' 请求时发生错误:`, error);
+      const message = error instanceof Error ? error.message : '重置密钥库时发生未知错误';
+      return { success: false, error: message };
+    }
+  });
+
+  // 获取服务商注册表中所有服务商的描述信息 (配置模式、能力、默认模型)
+  ipcMain.handle('get-provider-descriptors', async () => {
+    logger.info(`[IPC AIConfig] 收到 'get-provider-descriptors' 请求`);
+    try {
+      const descriptors = llmServiceManager.getProviderDescriptors();
+      logger.info(`[IPC AIConfig] 成功获取 ${descriptors.length} 个服务商描述。`);
+      return { success: true, data: descriptors };
+    } catch (error: unknown) {
+      logger.error(`[IPC AIConfig] 处理 'get-provider-descriptors' 请求时发生错误:`, error);
+      const message = error instanceof Error ? error.message : '获取服务商列表时发生未知错误';
+      return { success: false, error: message };
+    }
+  });
+}
+
+
+
+/**
+ * 注册与 token 用量统计相关的 IPC 处理程序
+ */
+export function registerUsageHandlers(): void {
+  // 获取用量账本中的所有记录 (按时间排序)
+  ipcMain.handle('usage-get-records', async (): Promise<{ success: boolean; data?: UsageRecord[]; error?: string }> => {
+    try {
+      const records = await readUsageRecords();
+      return { success: true, data: records.sort((a, b) => a.timestamp - b.timestamp) };
+    } catch (error: unknown) {
+      logger.error('[IPC 主进程] 处理 usage-get-records 请求时发生错误:', error);
+      const message = error instanceof Error ? error.message : '读取用量记录时出错';
+      return { success: false, error: message };
+    }
+  });
+
+  // 获取指定会话的用量汇总 (用于聊天界面顶部的计数器)
+  ipcMain.handle('usage-get-session-summary', async (_event, sessionId: string): Promise<{ success: boolean; data?: UsageSummary; error?: string }> => {
+    try {
+      const records = await readUsageRecords();
+      return { success: true, data: summarizeUsage(records.filter(record => record.sessionId === sessionId)) };
+    } catch (error: unknown) {
+      logger.error(`[IPC 主进程] 处理 usage-get-session-summary 请求 (会话ID: ${sessionId}) 时发生错误:`, error);
+      const message = error instanceof Error ? error.message : '读取会话用量时出错';
+      return { success: false, error: message };
+    }
+  });
+
+  // 清空用量账本
+  ipcMain.handle('usage-clear', async (): Promise<{ success: boolean; error?: string }> => {
+    try {
+      await clearUsageRecords();
+      await resetSessionUsage();
+      return { success: true };
+    } catch (error: unknown) {
+      logger.error('[IPC 主进程] 处理 usage-clear 请求时发生错误:', error);
+      const message = error instanceof Error ? error.message : '清空用量记录时出错';
+      return { success: false, error: message };
+    }
+  });
+
+  // 获取模型价格表
+  ipcMain.handle('usage-get-model-prices', async (): Promise<{ success: boolean; data?: ModelPrice[]; error?: string }> => {
+    try {
+      return { success: true, data: await loadModelPrices() };
+    } catch (error: unknown) {
+      logger.error('[IPC 主进程] 处理 usage-get-model-prices 请求时发生错误:', error);
+      const message = error instanceof Error ? error.message : '读取价格表时出错';
+      return { success: false, error: message };
+    }
+  });
+
+  // 保存模型价格表 (只影响之后记录的费用，已记录的费用保持不变)
+  ipcMain.handle('usage-set-model-prices', async (_event, prices: ModelPrice[]): Promise<{ success: boolean; data?: ModelPrice[]; error?: string }> => {
+    try {
+      return { success: true, data: await saveModelPrices(prices) };
+    } catch (error: unknown) {
+      logger.error('[IPC 主进程] 处理 usage-set-model-prices 请求时发生错误:', error);
+      const message = error instanceof Error ? error.message : '保存价格表时出错';
+      return { success: false, error: message };
+    }
+  });
+
+  console.log('已注册用量统计 IPC 处理程序。');
 }
 
 
@@ -3,6 +3,17 @@ import Anthropic, { ClientOptions } from '@anthropic-ai/sdk';
 import { BaseLLM, LLMResponse, LLMChatOptions, StreamChunk } from './BaseLLM';
 import type { AIConfig } from '../../src/types'; // 导入 AIConfig 类型
 import { logChatMessage } from '../utils/chatLoggerUtil'; // <-- 导入聊天日志工具
+import { registerProvider } from './providerRegistry';
+import { classifyError } from './retryPolicy';
+
+const ANTHROPIC_DEFAULT_MODELS = [
+  'claude-3-opus-20240229',
+  'claude-3-sonnet-20240229',
+  'claude-3-haiku-20240307',
+  'claude-2.1',
+  'claude-2.0',
+  'claude-instant-1.2',
+];
 
 /**
  * Anthropic Claude 服务商的实现
@@ -13,14 +24,7 @@ export class AnthropicLLM extends BaseLLM {
   // baseApiUrl 将从 BaseLLM 的构造函数中通过 AIConfig 设置
 
   // 默认支持的模型列表 (Claude 3 系列等)
-  readonly defaultModels: string[] = [
-    'claude-3-opus-20240229',
-    'claude-3-sonnet-20240229',
-    'claude-3-haiku-20240307',
-    'claude-2.1',
-    'claude-2.0',
-    'claude-instant-1.2',
-  ];
+  readonly defaultModels: string[] = ANTHROPIC_DEFAULT_MODELS;
 
   private anthropic: Anthropic | null = null;
 
@@ -30,6 +34,7 @@ export class AnthropicLLM extends BaseLLM {
       const clientOptions: ClientOptions = {
         apiKey: this.apiKey, // 从基类获取 apiKey
         baseURL: this.baseApiUrl, // 从基类获取 baseApiUrl
+        maxRetries: 0, // 重试由 LLMServiceManager 按用户配置的重试策略统一处理
       };
 
       // 如果 baseURL 未定义或为空字符串，从选项中移除，让 SDK 使用默认值
@@ -45,6 +50,15 @@ export class AnthropicLLM extends BaseLLM {
     }
   }
 
+  /**
+   * Anthropic 的温度范围是 0-1 (OpenAI 为 0-2)，超出时按 1 处理
+   */
+  private clampTemperature(options: LLMChatOptions, sessionIdentifier: string): number | undefined {
+    if (options.temperature === undefined || options.temperature <= 1) return options.temperature;
+    this.warnParams(`${this.providerName} 的温度最高为 1，已将 ${options.temperature} 按 1 处理`, sessionIdentifier);
+    return 1;
+  }
+
   /**
    * 实现非流式聊天请求方法
    */
@@ -72,11 +86,14 @@ export class AnthropicLLM extends BaseLLM {
         messages: messages,
         system: systemPrompt,
         max_tokens: options.maxTokens ?? 1024,
-        temperature: options.temperature,
+        temperature: this.clampTemperature(options, sessionIdentifier),
+        top_p: options.topP,
+        stop_sequences: options.stopSequences?.length ? options.stopSequences : undefined,
       };
+      this.warnUnsupportedParams(options, ['presencePenalty', 'frequencyPenalty'], sessionIdentifier);
 
       logChatMessage(sessionIdentifier, 'TO_AI', this.providerId, 'Request Parameters', params, aiConfigLogInfo);
-      const completion: Anthropic.Messages.Message = await this.anthropic.messages.create(params);
+      const completion: Anthropic.Messages.Message = await this.anthropic.messages.create(params, { signal: options.signal });
       logChatMessage(sessionIdentifier, 'FROM_AI', this.providerId, 'API Response', completion, aiConfigLogInfo);
 
       let content = '';
@@ -92,6 +109,7 @@ export class AnthropicLLM extends BaseLLM {
       return {
         content: content,
         modelUsed: completion.model,
+        finishReason: completion.stop_reason ?? undefined,
         usage: {
           promptTokens: usage?.input_tokens,
           completionTokens: usage?.output_tokens,
@@ -111,7 +129,7 @@ export class AnthropicLLM extends BaseLLM {
       } else if (typeof error === 'string') {
         detailedError = error;
       }
-      return { content: '', error: detailedError };
+      return { content: '', error: detailedError, ...classifyError(error) };
     }
   }
 
@@ -143,12 +161,19 @@ export class AnthropicLLM extends BaseLLM {
         messages: messages,
         system: systemPrompt,
         max_tokens: options.maxTokens ?? 1024,
-        temperature: options.temperature,
+        temperature: this.clampTemperature(options, sessionIdentifier),
+        top_p: options.topP,
+        stop_sequences: options.stopSequences?.length ? options.stopSequences : undefined,
         stream: true,
       };
+      this.warnUnsupportedParams(options, ['presencePenalty', 'frequencyPenalty'], sessionIdentifier);
 
       logChatMessage(sessionIdentifier, 'TO_AI', this.providerId, 'Stream Request Parameters', params, aiConfigLogInfo);
-      const stream = await this.anthropic.messages.stream(params);
+      const stream = await this.anthropic.messages.stream(params, { signal: options.signal });
+      // 输入 token 在 message_start 中给出，输出 token 在 message_delta 中累计
+      let promptTokens: number | undefined;
+      let completionTokens: number | undefined;
+      let finishReason: string | undefined;
 
       for await (const event of stream) {
         logChatMessage(sessionIdentifier, 'FROM_AI', this.providerId, 'Stream Raw Event', event, aiConfigLogInfo);
@@ -160,14 +185,25 @@ export class AnthropicLLM extends BaseLLM {
             }
             break;
           case 'message_start':
+            promptTokens = event.message.usage.input_tokens;
+            completionTokens = event.message.usage.output_tokens;
             yield { modelUsed: event.message.model }; // modelUsed is useful here
             break;
           case 'message_delta':
-            // Potentially log usage if needed: event.usage.output_tokens
+            completionTokens = event.usage.output_tokens;
+            finishReason = event.delta.stop_reason ?? finishReason;
             break;
           case 'message_stop':
-            logChatMessage(sessionIdentifier, 'FROM_AI', this.providerId, 'Stream Ended', { model: options.model, event }, aiConfigLogInfo);
-            yield { done: true };
+            logChatMessage(sessionIdentifier, 'FROM_AI', this.providerId, 'Stream Ended', { model: options.model, event, promptTokens, completionTokens }, aiConfigLogInfo);
+            yield {
+              done: true,
+              finishReason,
+              usage: {
+                promptTokens,
+                completionTokens,
+                totalTokens: (promptTokens ?? 0) + (completionTokens ?? 0),
+              },
+            };
             break;
           case 'content_block_start':
           case 'content_block_stop':
@@ -177,6 +213,12 @@ export class AnthropicLLM extends BaseLLM {
         }
       }
     } catch (error: unknown) {
+      if (options.signal?.aborted) {
+        // 用户主动取消，不视为错误，已输出的文本由前端保留
+        logChatMessage(sessionIdentifier, 'SYSTEM_ACTION', this.providerId, 'Stream Cancelled', { model: options.model }, aiConfigLogInfo);
+        yield { done: true, cancelled: true };
+        return;
+      }
       const errorMessage = `模型 ${options.model} 流式聊天完成时发生错误：${error instanceof Error ? error.message : String(error)}`;
       logChatMessage(sessionIdentifier, 'FROM_AI', this.providerId, 'Stream Error', { error: error instanceof Error ? error.stack : String(error), params: options }, aiConfigLogInfo);
       console.error(`[AnthropicLLM Stream] ${errorMessage}`);
@@ -188,7 +230,19 @@ export class AnthropicLLM extends BaseLLM {
       } else if (typeof error === 'string') {
         detailedError = error;
       }
-      yield { error: detailedError, done: true };
+      yield { error: detailedError, done: true, ...classifyError(error) };
     }
   }
 }
+
+registerProvider({
+  id: 'anthropic',
+  displayName: 'Anthropic Claude',
+  configFields: [
+    { key: 'apiKey', label: 'API Key', required: true, secret: true },
+    { key: 'baseURL', label: 'Base URL', required: false, placeholder: '留空使用官方地址', tooltip: '使用代理或中转服务时填写。' },
+  ],
+  capabilities: { streaming: true, systemPrompt: true, vision: true, tools: true },
+  defaultModels: ANTHROPIC_DEFAULT_MODELS,
+  create: (config) => new AnthropicLLM(config),
+});
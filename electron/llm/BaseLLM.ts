@@ -4,25 +4,30 @@
 export interface LLMResponse {
   content: string; // AI 生成的内容
   modelUsed?: string; // 实际使用的模型
+  finishReason?: string; // 服务商返回的原始结束原因 (例如 stop、length、end_turn、MAX_TOKENS)
   usage?: { // token 使用情况 (可选)
     promptTokens?: number;
     completionTokens?: number;
     totalTokens?: number;
   };
   error?: string; // 如果发生错误
+  cancelled?: boolean; // 请求是否被用户取消 (与 error 一起出现)
+  retryable?: boolean; // 错误是否值得重试 (由 classifyError 判断)
+  retryAfterMs?: number; // 服务端建议的重试等待时间 (毫秒)
+  configId?: string; // 实际给出响应的 AI 配置 ID (由 LLMServiceManager 在故障转移时填写)
+  requestId?: string; // 本次请求在会话请求日志中的记录 ID (由主进程填写)
   rawResponse?: unknown; // 原始响应体 (可选, 用于调试) - 使用 unknown 替代 any
 }
 
 /**
  * 定义聊天请求的选项
  */
-export interface LLMChatOptions {
+export interface LLMChatOptions extends GenerationParams { // 生成参数：温度、top-p、最大 token 数、惩罚项和停止序列
   model: string; // 要使用的模型
   messages: { role: 'user' | 'assistant'; content: string }[]; // 对话历史 (只包含 user 和 assistant, system 通过 systemPrompt)
   systemPrompt?: string; // 系统提示 (如果模型支持)
-  temperature?: number; // 温度参数 (控制随机性)
-  maxTokens?: number; // 最大生成 token 数
   stream?: boolean; // 是否使用流式响应 (暂未实现流式处理)
+  signal?: AbortSignal; // 取消信号，由主进程为每个流式请求创建 (不经过 IPC 传输)
   // 可以添加更多特定于模型的选项
 }
 
@@ -33,6 +38,11 @@ export interface StreamChunk {
   text?: string;       // AI 生成的文本块 (可选)
   error?: string;      // 如果发生错误 (可选)
   done?: boolean;      // 指示流是否结束 (可选)
+  cancelled?: boolean; // 指示流是否被用户取消 (与 done 一起出现，已输出的文本保留)
+  retryable?: boolean; // 错误是否值得重试 (与 error 一起出现)
+  retryAfterMs?: number; // 服务端建议的重试等待时间 (毫秒)
+  configId?: string; // 实际给出响应的 AI 配置 ID (由 LLMServiceManager 在结束块中填写)
+  requestId?: string; // 本次请求在会话请求日志中的记录 ID (由主进程在结束块中填写)
   // 可以添加其他流式特有的信息，如 token 使用量等
   usage?: {
     promptTokens?: number;
@@ -40,6 +50,7 @@ export interface StreamChunk {
     totalTokens?: number;
   };
   modelUsed?: string; // 确认使用的模型 (可能在第一个块或最后一个块返回)
+  finishReason?: string; // 服务商返回的原始结束原因 (在结束块中返回)
   rawChunk?: unknown; // 原始数据块 (可选, 用于调试)
 }
 
@@ -48,7 +59,8 @@ export interface StreamChunk {
  * 所有 LLM 服务商实现的基类或接口
  * 定义了与不同 LLM 服务交互所需的通用方法和属性
  */
-import type { AIConfig } from '../../src/types'; // 导入 AIConfig 类型
+import type { AIConfig, GenerationParams } from '../../src/types'; // 导入 AIConfig 类型
+import { logChatMessage } from '../utils/chatLoggerUtil';
 
 export abstract class BaseLLM {
   // --- 属性 ---
@@ -94,13 +106,14 @@ export abstract class BaseLLM {
   /**
    * 构造函数
    * @param config AI 配置对象，包含 apiKey 和可选的 baseURL
+   * @param requireApiKey 是否要求必须提供 API Key (本地部署的兼容接口通常不需要)
    */
-  constructor(config: AIConfig) {
-    if (!config.apiKey) {
+  constructor(config: AIConfig, requireApiKey = true) {
+    if (requireApiKey && !config.apiKey) {
       // 在实际应用中，这里可能应该抛出更具体的错误或者有更完善的错误处理
       throw new Error(`[BaseLLM] API Key 未在配置 (ID: ${config.id}) 中提供。`);
     }
-    this.apiKey = config.apiKey;
+    this.apiKey = config.apiKey || '';
     this.baseApiUrl = config.baseURL;
     this.configId = config.id;
     this.configName = config.name;
@@ -128,6 +141,41 @@ export abstract class BaseLLM {
     return [...new Set([...this.defaultModels, ...customModels])];
   }
 
+  /**
+   * 从服务商接口动态发现可用模型 (默认不支持，返回空数组)
+   * 子类可以覆盖此方法，例如通过 `/v1/models` 接口查询
+   * @returns 模型名称数组
+   */
+  async discoverModels(): Promise<string[]> {
+    return [];
+  }
+
+  /**
+   * 记录本服务商不支持、将被忽略的生成参数
+   * @param unsupported 本服务商不支持的参数
+   */
+  protected warnUnsupportedParams(options: LLMChatOptions, unsupported: (keyof GenerationParams)[], sessionIdentifier: string): void {
+    const ignored = unsupported.filter(key => options[key] !== undefined);
+    if (ignored.length === 0) return;
+    this.warnParams(`${this.providerName} 不支持以下生成参数，已忽略: ${ignored.join(', ')}`, sessionIdentifier);
+  }
+
+  /**
+   * 截取服务商允许数量以内的停止序列 (超出的部分忽略并记录警告)
+   */
+  protected limitStopSequences(options: LLMChatOptions, max: number, sessionIdentifier: string): string[] | undefined {
+    if (!options.stopSequences || options.stopSequences.length === 0) return undefined;
+    if (options.stopSequences.length > max) {
+      this.warnParams(`${this.providerName} 最多支持 ${max} 个停止序列，已忽略其余 ${options.stopSequences.length - max} 个`, sessionIdentifier);
+    }
+    return options.stopSequences.slice(0, max);
+  }
+
+  protected warnParams(warning: string, sessionIdentifier: string): void {
+    console.warn(`[${this.providerName}] ${warning}`);
+    logChatMessage(sessionIdentifier, 'SYSTEM_ACTION', this.providerId, 'Generation Params Warning', warning, { id: this.configId, name: this.configName, serviceProvider: this.providerId });
+  }
+
   /**
    * 核心方法：发送聊天请求到 LLM API 并获取响应
    * @param options 聊天请求选项
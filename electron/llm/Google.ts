@@ -13,6 +13,17 @@ import { logChatMessage } from '../utils/chatLoggerUtil'; // <-- 导入聊天日
 // 导入 StreamChunk 类型定义
 import { BaseLLM, LLMResponse, LLMChatOptions, StreamChunk } from './BaseLLM';
 import type { AIConfig } from '../../src/types'; // 导入 AIConfig 类型
+import { registerProvider } from './providerRegistry';
+import { classifyError } from './retryPolicy';
+
+const GOOGLE_DEFAULT_MODELS = [
+  'gemini-1.5-flash-latest',
+  'gemini-1.5-pro-latest',
+  'gemini-1.0-pro', // 保持旧模型兼容性
+  // 'gemini-pro-vision', // 如果需要视觉模型
+];
+// Gemini 最多接受 5 个停止序列
+const GOOGLE_MAX_STOP_SEQUENCES = 5;
 
 /**
  * Google Gemini 服务商的实现 (使用 @google/genai)
@@ -22,12 +33,7 @@ export class GoogleLLM extends BaseLLM {
   readonly providerName = 'Google Gemini';
   // baseApiUrl 将从 BaseLLM 的构造函数中通过 AIConfig 设置 (对于 Google 可能为 undefined)
 
-  readonly defaultModels: string[] = [
-    'gemini-1.5-flash-latest',
-    'gemini-1.5-pro-latest',
-    'gemini-1.0-pro', // 保持旧模型兼容性
-    // 'gemini-pro-vision', // 如果需要视觉模型
-  ];
+  readonly defaultModels: string[] = GOOGLE_DEFAULT_MODELS;
 
   // 修改 sdk 类型为新库的 GoogleGenAI
   private sdk: GoogleGenAI | null = null;
@@ -46,8 +52,9 @@ export class GoogleLLM extends BaseLLM {
 
   /**
    * 将通用的消息历史转换为 Google Gemini API 的 Content[] 格式
+   * 连续的同角色消息会合并为一条 Content 的多个 parts (Gemini 要求 user 和 model 交替出现)
    */
-  private mapMessagesToGoogleContent(messages: LLMChatOptions['messages']): Content[] {
+  static mapMessagesToGoogleContent(messages: LLMChatOptions['messages']): Content[] {
     const history: Content[] = [];
     let lastRole: 'user' | 'model' | null = null;
 
@@ -80,6 +87,20 @@ export class GoogleLLM extends BaseLLM {
   }
 
 
+  /**
+   * 把通用的生成参数转换为 Gemini 的 generationConfig (Gemini 支持全部参数)
+   */
+  private buildGenerationConfig(options: LLMChatOptions, sessionIdentifier: string): GenerateContentConfig {
+    return {
+      temperature: options.temperature,
+      topP: options.topP,
+      maxOutputTokens: options.maxTokens,
+      presencePenalty: options.presencePenalty,
+      frequencyPenalty: options.frequencyPenalty,
+      stopSequences: this.limitStopSequences(options, GOOGLE_MAX_STOP_SEQUENCES, sessionIdentifier),
+    };
+  }
+
   /**
    * 实现非流式聊天请求方法
    */
@@ -110,12 +131,10 @@ export class GoogleLLM extends BaseLLM {
 
       // 后续操作都基于 effectiveMessages (可能是原始的，也可能是追加了伪造消息的)
       const messagesForHistory = effectiveMessages.slice(0, -1); // 获取除最后一条外的所有消息作为历史
-      const history = this.mapMessagesToGoogleContent(messagesForHistory); // 转换历史记录格式
+      const history = GoogleLLM.mapMessagesToGoogleContent(messagesForHistory); // 转换历史记录格式
 
-      const generationConfig: GenerateContentConfig = {
-        temperature: options.temperature, // 使用选项中的温度
-        maxOutputTokens: options.maxTokens,
-      };
+      const sessionIdentifier = 'non-stream-' + Date.now(); // 简单会话标识符
+      const generationConfig = this.buildGenerationConfig(options, sessionIdentifier);
       const safetySettings: SafetySetting[] = [
            { category: HarmCategory.HARM_CATEGORY_HARASSMENT, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE },
            { category: HarmCategory.HARM_CATEGORY_HATE_SPEECH, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE },
@@ -130,6 +149,7 @@ export class GoogleLLM extends BaseLLM {
             ...generationConfig,
             safetySettings: safetySettings,
             systemInstruction: options.systemPrompt ? options.systemPrompt : undefined,
+            abortSignal: options.signal, // 取消信号
          },
       });
 
@@ -144,9 +164,8 @@ export class GoogleLLM extends BaseLLM {
 
       // --- 记录请求详情 ---
       // === 聊天日志记录 ===
-      const sessionIdentifier = 'non-stream-' + Date.now(); // 简单会话标识符
       const aiConfigLogInfo = { id: this.configId, name: this.configName, serviceProvider: this.providerId };
-      logChatMessage(sessionIdentifier, 'TO_AI', this.providerId, 'Request Options', { model: options.model, systemPrompt: options.systemPrompt, temperature: options.temperature, maxTokens: options.maxTokens }, aiConfigLogInfo);
+      logChatMessage(sessionIdentifier, 'TO_AI', this.providerId, 'Request Options', { model: options.model, systemPrompt: options.systemPrompt, ...generationConfig }, aiConfigLogInfo);
       logChatMessage(sessionIdentifier, 'TO_AI', this.providerId, 'Effective Last Message', lastUserMessageContent, aiConfigLogInfo);
       logChatMessage(sessionIdentifier, 'TO_AI', this.providerId, 'API History', history, aiConfigLogInfo);
       // === 记录结束 ===
@@ -191,6 +210,12 @@ export class GoogleLLM extends BaseLLM {
       return {
         content: responseText ?? '',
         modelUsed: options.model,
+        finishReason,
+        usage: {
+          promptTokens: result.usageMetadata?.promptTokenCount,
+          completionTokens: result.usageMetadata?.candidatesTokenCount,
+          totalTokens: result.usageMetadata?.totalTokenCount,
+        },
       };
 
     } catch (error: unknown) {
@@ -201,7 +226,7 @@ export class GoogleLLM extends BaseLLM {
       } else if (typeof error === 'string') {
         detailedError = error;
       }
-      return { content: '', error: detailedError };
+      return { content: '', error: detailedError, ...classifyError(error) };
     }
   }
 
@@ -216,10 +241,8 @@ export class GoogleLLM extends BaseLLM {
     }
 
     // 提取通用配置和最后的用户消息
-    const generationConfig: GenerateContentConfig = {
-        temperature: options.temperature,
-        maxOutputTokens: options.maxTokens,
-    };
+    const sessionIdentifier = 'stream-' + Date.now();
+    const generationConfig = this.buildGenerationConfig(options, sessionIdentifier);
     const safetySettings: SafetySetting[] = [
          { category: HarmCategory.HARM_CATEGORY_HARASSMENT, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE },
          { category: HarmCategory.HARM_CATEGORY_HATE_SPEECH, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE },
@@ -260,10 +283,9 @@ export class GoogleLLM extends BaseLLM {
     // --- 根据历史记录长度选择不同的 API 调用方式 ---
     // 使用 effectiveMessages 来准备历史记录 (排除最后一条伪造的或真实的用户消息)
     const messagesForHistory = effectiveMessages.slice(0, -1);
-    const history = this.mapMessagesToGoogleContent(messagesForHistory); // 转换历史记录格式
+    const history = GoogleLLM.mapMessagesToGoogleContent(messagesForHistory); // 转换历史记录格式
 
     let stream: AsyncGenerator<GenerateContentResponse>; // 定义流的类型
-    const sessionIdentifier = 'stream-' + Date.now(); // <-- 把定义移到 try 外面
     const aiConfigLogInfo = { id: this.configId, name: this.configName, serviceProvider: this.providerId };
 
     try { // 外层 try...catch 捕获 API 调用和流处理中的错误
@@ -288,36 +310,51 @@ export class GoogleLLM extends BaseLLM {
                 contents: [{ role: 'user', parts: [{ text: lastUserMessageContent }] }],
                 // 修正：将配置参数放入 config 对象
                 config: {
-                    ...generationConfig, // 展开 temperature, maxOutputTokens
+                    ...generationConfig, // 展开温度、topP、maxOutputTokens 等生成参数
                     safetySettings: safetySettings,
                     systemInstruction: systemInstruction,
+                    abortSignal: options.signal, // 取消信号
                 }
             });
         } else {
             // --- 处理后续请求 (有历史记录) ---
              // === 聊天日志记录 ===
              console.log(`[GoogleLLM Stream] 发送后续流式请求到模型 ${options.model}。历史长度: ${history.length}`); // 保留简短控制台日志
-             logChatMessage(sessionIdentifier, 'TO_AI', this.providerId, 'Subsequent Request Options', { model: options.model, systemInstruction: systemInstruction, temperature: options.temperature, maxTokens: options.maxTokens, historyLength: history.length }, aiConfigLogInfo);
+             logChatMessage(sessionIdentifier, 'TO_AI', this.providerId, 'Subsequent Request Options', { model: options.model, systemInstruction: systemInstruction, ...generationConfig, historyLength: history.length }, aiConfigLogInfo);
              logChatMessage(sessionIdentifier, 'TO_AI', this.providerId, 'Effective Last Message', lastUserMessageContent, aiConfigLogInfo);
              logChatMessage(sessionIdentifier, 'TO_AI', this.providerId, 'API History', history, aiConfigLogInfo);
              // === 记录结束 ===
             const chat = this.sdk.chats.create({
                 model: options.model, // model 必须在这里
                 history: history, // history 在这里
-                config: { // config 应该在 chats.create 时传入
+                config: { // config 应该在 chats.create 时传入 (单次请求的 config 会整体覆盖而不是继承，所以取消信号也放在这里)
                     ...generationConfig,
                     safetySettings: safetySettings,
                     systemInstruction: systemInstruction,
+                    abortSignal: options.signal,
                 },
             });
             stream = await chat.sendMessageStream({ message: lastUserMessageContent });
         }
 
         // --- 统一处理流遍历和 Yield ---
+        let usage: StreamChunk['usage']; // usageMetadata 为累计值，保留最后一次即可
+        let lastFinishReason: string | undefined;
         for await (const chunk of stream) {
+           // 用户已取消：SDK 不一定会中断已建立的流，这里主动停止读取
+           if (options.signal?.aborted) {
+               break;
+           }
            // === 聊天日志记录 ===
            logChatMessage(sessionIdentifier, 'FROM_AI', this.providerId, 'API Raw Chunk', chunk, aiConfigLogInfo);
            // === 记录结束 ===
+            if (chunk.usageMetadata) {
+                usage = {
+                    promptTokens: chunk.usageMetadata.promptTokenCount,
+                    completionTokens: chunk.usageMetadata.candidatesTokenCount,
+                    totalTokens: chunk.usageMetadata.totalTokenCount,
+                };
+            }
             const chunkText = chunk.text; // 尝试获取文本 (保持不变)
 
             // 检查是否有错误或安全阻止 (保持不变)
@@ -332,6 +369,9 @@ export class GoogleLLM extends BaseLLM {
                 return; // 流中断
             }
             const finishReason = chunk.candidates?.[0]?.finishReason;
+            if (finishReason) {
+                lastFinishReason = finishReason;
+            }
             if (!chunkText && finishReason && finishReason !== FinishReason.STOP && finishReason !== FinishReason.MAX_TOKENS) {
                 const abortErrorMsg = `响应生成中止: ${finishReason}`;
                 console.error(`[GoogleLLM Stream] ${abortErrorMsg}`);
@@ -352,15 +392,28 @@ export class GoogleLLM extends BaseLLM {
             yield { text: chunkText ?? '' };
         }
 
+        if (options.signal?.aborted) {
+            console.log(`[GoogleLLM Stream] 模型 ${options.model} 的流式输出已被用户取消。`);
+            logChatMessage(sessionIdentifier, 'SYSTEM_ACTION', this.providerId, 'Stream Cancelled', { model: options.model }, aiConfigLogInfo);
+            yield { done: true, cancelled: true };
+            return;
+        }
+
         // --- 流正常结束 ---
         console.log(`[GoogleLLM Stream] 模型 ${options.model} 的流式输出正常结束。`);
 
         // 添加一个小延迟，确保所有数据都已经被发送
         await new Promise(resolve => setTimeout(resolve, 1000));
 
-        yield { done: true }; // 发送完成信号
+        yield { done: true, modelUsed: options.model, usage, finishReason: lastFinishReason }; // 发送完成信号 (附带 token 用量和结束原因)
 
     } catch (error: unknown) { // 这个 catch 块捕获 API 调用和流遍历过程中的错误
+      if (options.signal?.aborted) {
+        // 用户主动取消，不视为错误
+        logChatMessage(sessionIdentifier, 'SYSTEM_ACTION', this.providerId, 'Stream Cancelled', { model: options.model }, aiConfigLogInfo);
+        yield { done: true, cancelled: true };
+        return;
+      }
       // --- 记录流处理错误 ---
       const errorMsg = `模型 ${options.model} 流式处理时捕获到错误: ${error instanceof Error ? error.stack : error}`;
       console.error(`[GoogleLLM Stream] ${errorMsg}`);
@@ -374,7 +427,18 @@ export class GoogleLLM extends BaseLLM {
         detailedError = error;
       }
       // 发送错误并标记结束
-      yield { error: detailedError, done: true };
+      yield { error: detailedError, done: true, ...classifyError(error) };
     }
   }
 }
+
+registerProvider({
+  id: 'google',
+  displayName: 'Google Gemini',
+  configFields: [
+    { key: 'apiKey', label: 'API Key', required: true, secret: true },
+  ],
+  capabilities: { streaming: true, systemPrompt: true, vision: true, tools: true },
+  defaultModels: GOOGLE_DEFAULT_MODELS,
+  create: (config) => new GoogleLLM(config),
+});
@@ -1,11 +1,17 @@
-import { BaseLLM } from './BaseLLM';
-import { OpenAILLM } from './OpenAI';
-import { AnthropicLLM } from './Anthropic';
-import { GoogleLLM } from './Google';
+import { BaseLLM, LLMChatOptions, LLMResponse, StreamChunk } from './BaseLLM';
+import './registerProviders'; // 导入所有内置服务商，完成注册
+import { getProviderDefinition, listProviderDescriptors, findMissingRequiredFields } from './providerRegistry';
+import { computeBackoffDelay, loadRetryPolicy, waitForRetry } from './retryPolicy';
 import { getAIConfigById, getAIConfigs } from '../storage/jsonStore'; // 导入 jsonStore 方法
-import { AIConfig } from '../../src/types'; // 导入 AIConfig 类型
+import { isKeyVaultUnlocked, revealAIConfig } from '../storage/keyVault';
+import { AIConfig, AIConfigRef, ProviderDescriptor } from '../../src/types'; // 导入 AIConfig 类型
 import { llmLogger as logger } from '../utils/logger'; // 修正日志记录器导入
 
+/**
+ * 一次请求可以使用的 AI 配置及模型 (主配置或备用配置)
+ */
+export type LLMTarget = Pick<AIConfigRef, 'configId' | 'modelName'>;
+
 /**
  * 管理LLM服务实例，基于AIConfig进行动态获取和配置。
  */
@@ -38,44 +44,41 @@ export class LLMServiceManager { // <--- 添加 export
       return this.serviceInstances[configId];
     }
 
-    // 2. 从 jsonStore 获取 AIConfig
-    const aiConfig = await getAIConfigById(configId);
+    // 2. 从 jsonStore 获取 AIConfig，并解密 API Key
+    const storedConfig = await getAIConfigById(configId);
 
-    if (!aiConfig) {
+    if (!storedConfig) {
       logger.error(`[LLM 服务管家] 未找到 Config ID 为 "${configId}" 的 AI 配置。`);
       return undefined;
     }
+    let aiConfig: AIConfig;
+    try {
+      aiConfig = revealAIConfig(storedConfig);
+    } catch (error) {
+      logger.error(`[LLM 服务管家] 无法读取 Config ID 为 "${configId}" 的 API Key:`, error);
+      return undefined;
+    }
 
-    if (!aiConfig.apiKey) {
-      logger.error(`[LLM 服务管家] Config ID 为 "${configId}" 的 AI 配置缺少 API Key。`);
+    // 3. 从服务商注册表中查找服务商定义
+    const definition = getProviderDefinition(aiConfig.serviceProvider);
+    if (!definition) {
+      logger.error(`[LLM 服务管家] 未知的服务商: ${aiConfig.serviceProvider} (Config ID: ${configId})`);
+      return undefined;
+    }
+
+    // 按服务商的配置模式校验必填字段 (例如 API Key、Base URL)
+    const missingFields = findMissingRequiredFields(definition, aiConfig);
+    if (missingFields.length > 0) {
+      logger.error(`[LLM 服务管家] Config ID 为 "${configId}" 的 AI 配置缺少必填字段: ${missingFields.join(', ')}。`);
       return undefined;
     }
 
     logger.info(`[LLM 服务管家] 成功获取 AI 配置: ${aiConfig.name} (服务商: ${aiConfig.serviceProvider})`);
 
-    // 3. 根据 serviceProvider 创建和配置服务实例
+    // 4. 使用注册的工厂函数创建服务实例
     let service: BaseLLM | undefined;
     try {
-      switch (aiConfig.serviceProvider) {
-        case 'openai': {
-          // 直接将 aiConfig 传递给构造函数
-          service = new OpenAILLM(aiConfig);
-          break;
-        }
-        case 'google': {
-          // 直接将 aiConfig 传递给构造函数
-          service = new GoogleLLM(aiConfig);
-          break;
-        }
-        case 'anthropic': {
-          // 直接将 aiConfig 传递给构造函数
-          service = new AnthropicLLM(aiConfig);
-          break;
-        }
-        default:
-          logger.error(`[LLM 服务管家] 未知的服务商: ${aiConfig.serviceProvider} (Config ID: ${configId})`);
-          return undefined;
-      }
+      service = definition.create(aiConfig, { getService: id => this.getServiceInstanceByConfigId(id) });
 
       if (service) {
         logger.info(`[LLM 服务管家] 成功创建并配置服务实例: ${aiConfig.name} (Config ID: ${configId})`);
@@ -88,6 +91,34 @@ export class LLMServiceManager { // <--- 添加 export
     }
   }
 
+  /**
+   * 无法创建服务实例时返回给前端的错误信息 (密钥库未解锁时提示先解锁)
+   */
+  private describeUnavailableService(configId: string): string {
+    const hint = isKeyVaultUnlocked() ? '' : '如果 API Key 已加密保存，请先输入主密码解锁。';
+    return `无法为配置 ID ${configId} 初始化服务。${hint}`;
+  }
+
+  /**
+   * 请求被取消时返回的响应 (不再重试，也不再尝试备用配置)
+   */
+  private describeCancelled(configId: string): LLMResponse {
+    logger.info(`[LLM 服务管家] 请求已被取消，停止重试 (配置 ID: ${configId})。`);
+    return { content: '', error: '请求已被取消。', cancelled: true, retryable: false, configId };
+  }
+
+  /**
+   * 使指定配置的缓存服务实例失效。
+   * 在 AI 配置被更新或删除后调用，确保下次请求使用最新的配置 (例如新的 baseURL 或 API Key)。
+   * @param configId AI 配置的唯一ID
+   */
+  public invalidateServiceInstance(configId: string): void {
+    if (this.serviceInstances[configId]) {
+      delete this.serviceInstances[configId];
+      logger.info(`[LLM 服务管家] 已清除 Config ID 为 "${configId}" 的缓存服务实例。`);
+    }
+  }
+
   /**
    * 获取指定 AI 配置可用的模型列表。
    * @param configId AI 配置的唯一ID
@@ -106,6 +137,120 @@ export class LLMServiceManager { // <--- 添加 export
     return service.getAvailableModels();
   }
 
+  /**
+   * 带重试与故障转移的非流式聊天请求。
+   * 按顺序尝试 targets 中的配置：遇到可重试的错误 (429、5xx 等) 时按重试策略退避重试，
+   * 重试次数耗尽或遇到不可重试的错误 (例如 Key 无效、额度耗尽) 后改用下一个配置。
+   * @param targets 主配置在前、备用配置在后的配置列表
+   * @param options 聊天请求选项，model 会被替换为各配置对应的模型
+   * @returns 最后一次尝试的响应，其中 configId 为实际给出该响应的配置
+   */
+  public async generateWithFailover(targets: LLMTarget[], options: LLMChatOptions): Promise<LLMResponse> {
+    const policy = await loadRetryPolicy();
+    let lastResponse: LLMResponse = { content: '', error: '未提供可用的 AI 配置。' };
+
+    for (const target of targets) {
+      if (options.signal?.aborted) {
+        return this.describeCancelled(target.configId);
+      }
+      const service = await this.getServiceInstanceByConfigId(target.configId);
+      if (!service) {
+        lastResponse = { content: '', error: this.describeUnavailableService(target.configId), configId: target.configId };
+        continue;
+      }
+
+      for (let attempt = 1; attempt <= policy.maxAttempts; attempt++) {
+        if (options.signal?.aborted) {
+          return this.describeCancelled(target.configId);
+        }
+        const response = await service.generateChatCompletion({ ...options, model: target.modelName });
+        if (options.signal?.aborted) {
+          // 请求进行中被取消：服务商返回的是中断错误 (或取消前已完成的回复)，统一按取消处理
+          return this.describeCancelled(target.configId);
+        }
+        lastResponse = { ...response, configId: target.configId };
+        if (!response.error) {
+          return lastResponse;
+        }
+        if (!response.retryable || attempt === policy.maxAttempts) {
+          break;
+        }
+        const delay = computeBackoffDelay(policy, attempt, response.retryAfterMs);
+        logger.warn(`[LLM 服务管家] 配置 ${service.configName} [${target.configId}] 第 ${attempt} 次请求失败 (${response.error})，${delay}ms 后重试。`);
+        await waitForRetry(delay, options.signal);
+      }
+      logger.warn(`[LLM 服务管家] 配置 ${service.configName} [${target.configId}] 请求失败: ${lastResponse.error}，尝试下一个备用配置。`);
+    }
+
+    return lastResponse;
+  }
+
+  /**
+   * 带重试与故障转移的流式聊天请求，规则与 generateWithFailover 相同。
+   * 已经输出部分文本后出错时不再重试 (否则前端会收到重复内容)，直接返回错误。
+   * 结束块 (done) 中的 configId 为实际给出响应的配置。
+   * @param targets 主配置在前、备用配置在后的配置列表
+   * @param options 聊天请求选项，model 会被替换为各配置对应的模型
+   */
+  public async *generateStreamWithFailover(targets: LLMTarget[], options: LLMChatOptions): AsyncGenerator<StreamChunk> {
+    const policy = await loadRetryPolicy();
+    let lastError: StreamChunk = { error: '未提供可用的 AI 配置。', done: true };
+
+    for (const target of targets) {
+      if (options.signal?.aborted) {
+        yield { done: true, cancelled: true, configId: target.configId };
+        return;
+      }
+      const service = await this.getServiceInstanceByConfigId(target.configId);
+      if (!service) {
+        lastError = { error: this.describeUnavailableService(target.configId), done: true, configId: target.configId };
+        continue;
+      }
+
+      for (let attempt = 1; attempt <= policy.maxAttempts; attempt++) {
+        let hasOutput = false;
+        let errorChunk: StreamChunk | undefined;
+        for await (const chunk of service.generateChatCompletionStream({ ...options, model: target.modelName })) {
+          if (chunk.error) {
+            errorChunk = chunk;
+            break;
+          }
+          if (chunk.done) {
+            yield { ...chunk, configId: target.configId };
+            return;
+          }
+          if (chunk.text) {
+            hasOutput = true;
+          }
+          yield chunk;
+        }
+        if (!errorChunk) {
+          yield { done: true, modelUsed: target.modelName, configId: target.configId };
+          return;
+        }
+
+        lastError = { ...errorChunk, configId: target.configId };
+        if (hasOutput) {
+          yield lastError;
+          return;
+        }
+        if (!errorChunk.retryable || attempt === policy.maxAttempts) {
+          break;
+        }
+        const delay = computeBackoffDelay(policy, attempt, errorChunk.retryAfterMs);
+        logger.warn(`[LLM 服务管家] 配置 ${service.configName} [${target.configId}] 第 ${attempt} 次流式请求失败 (${errorChunk.error})，${delay}ms 后重试。`);
+        await waitForRetry(delay, options.signal);
+        if (options.signal?.aborted) {
+          yield { done: true, cancelled: true, configId: target.configId };
+          return;
+        }
+      }
+      logger.warn(`[LLM 服务管家] 配置 ${service.configName} [${target.configId}] 流式请求失败: ${lastError.error}，尝试下一个备用配置。`);
+    }
+
+    yield lastError;
+  }
+
   /**
    * 获取所有已保存的 AI 配置。
    * 用于前端展示所有可用的、已命名的Key配置供用户选择。
@@ -124,17 +269,14 @@ export class LLMServiceManager { // <--- 添加 export
   }
 
   /**
-   * 获取支持的服务商列表。
-   * @returns 返回一个包含支持的服务商名称的字符串数组。
-   *          例如：['google', 'openai', 'anthropic']
+   * 获取所有已注册服务商的描述信息 (id、显示名称、配置模式、能力、默认模型)。
+   * 前端据此动态渲染 AI 配置表单。
+   * @returns ProviderDescriptor 数组，顺序与注册顺序一致
    */
-  public static getSupportedServiceProviders(): string[] {
-    // 目前硬编码支持的服务商列表
-    // 未来可以考虑从配置文件或其他地方动态加载
-    logger.info('[LLM 服务管家] 获取支持的服务商列表...');
-    const providers = ['google', 'openai', 'anthropic'];
-    logger.info(`[LLM 服务管家] 支持的服务商: ${providers.join(', ')}`);
-    return providers;
+  public getProviderDescriptors(): ProviderDescriptor[] {
+    const descriptors = listProviderDescriptors();
+    logger.info(`[LLM 服务管家] 已注册的服务商: ${descriptors.map(d => d.id).join(', ')}`);
+    return descriptors;
   }
 
   /**
@@ -0,0 +1,253 @@
+import crypto from 'crypto';
+import { BaseLLM, LLMResponse, LLMChatOptions, StreamChunk } from './BaseLLM';
+import type { AIConfig } from '../../src/types';
+import { logChatMessage } from '../utils/chatLoggerUtil';
+import { registerProvider } from './providerRegistry';
+import { waitForRetry } from './retryPolicy';
+import { parseProviderOptions } from './providerOptions';
+import { estimateTokens } from '../../src/utils/tokenEstimate';
+
+/**
+ * 模拟服务商注入的错误类型
+ * rate-limit 和 server 可以重试 (会触发重试与故障转移)，auth 不可重试，network 模拟连接失败 (可以重试)
+ */
+export type MockErrorType = 'rate-limit' | 'server' | 'auth' | 'network';
+
+/**
+ * 模拟服务商的选项 (AIConfig.providerOptions 中的 JSON)
+ */
+export interface MockProviderOptions {
+  responses: string[]; // mock-script 模型按顺序循环返回的回复
+  rules: { match: string; reply: string }[]; // 最后一条消息匹配正则 match 时返回 reply (所有模型都优先使用)
+  loremWords: number; // mock-lorem 模型生成的单词数
+  latencyMs: number; // 返回响应 (流式为第一个数据块) 之前的延迟
+  chunkSize: number; // 流式输出每个数据块的字符数
+  chunkDelayMs: number; // 流式数据块之间的间隔
+  errorEvery: number; // 每 N 次请求注入一次错误，0 表示不按次数注入
+  errorRate: number; // 按概率注入错误 (0 ~ 1)
+  errorType: MockErrorType; // 注入的错误类型
+  errorAfterChunks: number; // 流式请求输出这么多数据块之后才出错 (0 表示开始输出前出错)
+}
+
+const DEFAULT_MOCK_OPTIONS: MockProviderOptions = {
+  responses: [],
+  rules: [],
+  loremWords: 40,
+  latencyMs: 200,
+  chunkSize: 8,
+  chunkDelayMs: 30,
+  errorEvery: 0,
+  errorRate: 0,
+  errorType: 'server',
+  errorAfterChunks: 0,
+};
+
+const MOCK_ERRORS: Record<MockErrorType, Pick<LLMResponse, 'error' | 'retryable' | 'retryAfterMs'>> = {
+  'rate-limit': { error: '429: 模拟的速率限制', retryable: true, retryAfterMs: 1000 },
+  server: { error: '500: 模拟的服务端错误', retryable: true },
+  auth: { error: '401: 模拟的 API Key 无效', retryable: false },
+  network: { error: 'fetch failed (模拟的网络错误)', retryable: true },
+};
+
+const LOREM_WORDS = (
+  'lorem ipsum dolor sit amet consectetur adipiscing elit sed do eiusmod tempor incididunt ut labore et dolore magna aliqua ' +
+  'ut enim ad minim veniam quis nostrud exercitation ullamco laboris nisi aliquip ex ea commodo consequat duis aute irure ' +
+  'in reprehenderit voluptate velit esse cillum fugiat nulla pariatur excepteur sint occaecat cupidatat non proident sunt culpa'
+).split(' ');
+
+/**
+ * 根据请求内容生成确定的随机数序列 (同样的请求总是得到同样的 lorem 文本)
+ */
+function seededRandom(seedText: string): () => number {
+  let state = crypto.createHash('sha256').update(seedText).digest().readUInt32LE(0);
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * 离线的模拟服务商，不访问网络，用于开发和自动化测试
+ * 模型决定回复内容：mock-echo 回显最后一条消息，mock-lorem 生成确定的占位文本，mock-script 按顺序返回配置的回复。
+ * 延迟、流式分块和错误注入由 providerOptions 配置。
+ */
+export class MockLLM extends BaseLLM {
+  readonly providerId = 'mock';
+  readonly providerName = '模拟服务商';
+  readonly defaultModels: string[] = ['mock-echo', 'mock-lorem', 'mock-script'];
+
+  private readonly options: MockProviderOptions = DEFAULT_MOCK_OPTIONS;
+  private readonly optionsError?: string;
+  private requestCount = 0; // 本实例收到的请求数 (用于 errorEvery)
+  private scriptIndex = 0; // mock-script 下一条回复的位置
+
+  constructor(config: AIConfig) {
+    super(config, false); // 不需要 API Key
+    try {
+      this.options = { ...DEFAULT_MOCK_OPTIONS, ...parseProviderOptions<MockProviderOptions>(config) };
+    } catch (error) {
+      this.optionsError = error instanceof Error ? error.message : String(error);
+      console.error(`[MockLLM] 配置 (ID: ${this.configId}, Name: ${this.configName}) 的选项无效：${this.optionsError}`);
+    }
+  }
+
+  /**
+   * 按模型和规则得到本次请求的完整回复
+   */
+  private composeReply(options: LLMChatOptions): string {
+    const lastMessage = options.messages.length > 0 ? options.messages[options.messages.length - 1].content : '';
+    for (const rule of this.options.rules) {
+      try {
+        if (new RegExp(rule.match).test(lastMessage)) return rule.reply;
+      } catch {
+        console.warn(`[MockLLM] 规则中的正则表达式无效，已跳过: ${rule.match}`);
+      }
+    }
+
+    switch (options.model) {
+      case 'mock-lorem': {
+        const random = seededRandom(JSON.stringify([options.systemPrompt ?? '', options.messages]));
+        const words = Array.from({ length: Math.max(this.options.loremWords, 1) }, () => LOREM_WORDS[Math.floor(random() * LOREM_WORDS.length)]);
+        const text = words.join(' ');
+        return `${text.charAt(0).toUpperCase()}${text.slice(1)}.`;
+      }
+      case 'mock-script': {
+        if (this.options.responses.length === 0) return '(模拟服务商的 responses 为空)';
+        const reply = this.options.responses[this.scriptIndex % this.options.responses.length];
+        this.scriptIndex++;
+        return reply;
+      }
+      default:
+        // mock-echo 以及未知的模型名：回显最后一条消息
+        return lastMessage || '(没有可回显的消息)';
+    }
+  }
+
+  /**
+   * 按停止序列和最大 token 数截断回复，返回截断后的内容和结束原因
+   */
+  private applyLimits(content: string, options: LLMChatOptions): { content: string; finishReason: string } {
+    let finishReason = 'stop';
+    const stopIndexes = (options.stopSequences ?? []).map(stop => content.indexOf(stop)).filter(index => index >= 0);
+    if (stopIndexes.length > 0) {
+      content = content.slice(0, Math.min(...stopIndexes));
+    }
+    if (options.maxTokens !== undefined && estimateTokens(content) > options.maxTokens) {
+      while (content && estimateTokens(content) > options.maxTokens) {
+        content = content.slice(0, -1);
+      }
+      finishReason = 'length';
+    }
+    return { content, finishReason };
+  }
+
+  /**
+   * 判断本次请求是否注入错误
+   */
+  private shouldInjectError(): boolean {
+    this.requestCount++;
+    if (this.options.errorEvery > 0 && this.requestCount % this.options.errorEvery === 0) return true;
+    return this.options.errorRate > 0 && Math.random() < this.options.errorRate;
+  }
+
+  private estimateUsage(options: LLMChatOptions, content: string): LLMResponse['usage'] {
+    const promptTokens = estimateTokens(options.systemPrompt ?? '') + options.messages.reduce((sum, message) => sum + estimateTokens(message.content), 0);
+    const completionTokens = estimateTokens(content);
+    return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+  }
+
+  /**
+   * 实现聊天请求方法
+   */
+  async generateChatCompletion(options: LLMChatOptions): Promise<LLMResponse> {
+    if (this.optionsError) {
+      return { content: '', error: this.optionsError, retryable: false };
+    }
+    const aiConfigLogInfo = { id: this.configId, name: this.configName, serviceProvider: this.providerId };
+    const sessionIdentifier = `mock-non-stream-${Date.now()}`;
+    logChatMessage(sessionIdentifier, 'TO_AI', this.providerId, 'Request Parameters', options, aiConfigLogInfo);
+
+    await waitForRetry(this.options.latencyMs, options.signal);
+    if (options.signal?.aborted) {
+      // 与流式一致：等待期间被取消时不再生成回复
+      logChatMessage(sessionIdentifier, 'SYSTEM_ACTION', this.providerId, 'Request Cancelled', { model: options.model }, aiConfigLogInfo);
+      return { content: '', error: '请求已被取消。', retryable: false };
+    }
+    if (this.shouldInjectError()) {
+      const injected = MOCK_ERRORS[this.options.errorType] ?? MOCK_ERRORS.server;
+      logChatMessage(sessionIdentifier, 'FROM_AI', this.providerId, 'Injected Error', injected, aiConfigLogInfo);
+      return { content: '', ...injected };
+    }
+
+    const { content, finishReason } = this.applyLimits(this.composeReply(options), options);
+    const response: LLMResponse = { content, modelUsed: options.model, finishReason, usage: this.estimateUsage(options, content) };
+    logChatMessage(sessionIdentifier, 'FROM_AI', this.providerId, 'API Response', response, aiConfigLogInfo);
+    return response;
+  }
+
+  /**
+   * 实现流式聊天请求方法：把完整回复按 chunkSize 分块，每块之间等待 chunkDelayMs
+   */
+  async *generateChatCompletionStream(options: LLMChatOptions): AsyncGenerator<StreamChunk> {
+    if (this.optionsError) {
+      yield { error: this.optionsError, done: true, retryable: false };
+      return;
+    }
+    const aiConfigLogInfo = { id: this.configId, name: this.configName, serviceProvider: this.providerId };
+    const sessionIdentifier = `mock-stream-${Date.now()}`;
+    logChatMessage(sessionIdentifier, 'TO_AI', this.providerId, 'Stream Request Parameters', options, aiConfigLogInfo);
+
+    const injectError = this.shouldInjectError();
+    const { content, finishReason } = this.applyLimits(this.composeReply(options), options);
+    const chunkSize = Math.max(Math.floor(this.options.chunkSize), 1);
+    const chunks: string[] = [];
+    for (let start = 0; start < content.length; start += chunkSize) {
+      chunks.push(content.slice(start, start + chunkSize));
+    }
+
+    await waitForRetry(this.options.latencyMs, options.signal);
+    for (let index = 0; ; index++) {
+      if (options.signal?.aborted) {
+        logChatMessage(sessionIdentifier, 'SYSTEM_ACTION', this.providerId, 'Stream Cancelled', { model: options.model }, aiConfigLogInfo);
+        yield { done: true, cancelled: true, modelUsed: options.model };
+        return;
+      }
+      if (injectError && index >= Math.min(this.options.errorAfterChunks, chunks.length)) {
+        const injected = MOCK_ERRORS[this.options.errorType] ?? MOCK_ERRORS.server;
+        logChatMessage(sessionIdentifier, 'FROM_AI', this.providerId, 'Injected Stream Error', injected, aiConfigLogInfo);
+        yield { ...injected, done: true };
+        return;
+      }
+      if (index === chunks.length) break;
+      yield { text: chunks[index] };
+      if (index < chunks.length - 1) {
+        await waitForRetry(this.options.chunkDelayMs, options.signal);
+      }
+    }
+
+    const usage = this.estimateUsage(options, content);
+    logChatMessage(sessionIdentifier, 'FROM_AI', this.providerId, 'Stream Ended', { model: options.model, finishReason, usage }, aiConfigLogInfo);
+    yield { done: true, modelUsed: options.model, usage, finishReason };
+  }
+}
+
+registerProvider({
+  id: 'mock',
+  displayName: '模拟服务商 (离线测试)',
+  configFields: [
+    {
+      key: 'providerOptions',
+      label: '模拟选项 (JSON)',
+      required: false,
+      json: true,
+      placeholder: '{ "latencyMs": 200, "chunkSize": 8, "chunkDelayMs": 30, "responses": ["第一句回复", "第二句回复"], "errorEvery": 0, "errorType": "server" }',
+      tooltip: '不访问网络。模型 mock-echo 回显最后一条消息，mock-lorem 生成占位文本，mock-script 按顺序循环返回 responses；rules ([{ "match": 正则, "reply": 回复 }]) 优先匹配最后一条消息。latencyMs、chunkSize、chunkDelayMs 控制延迟和流式分块；errorEvery / errorRate 按次数或概率注入 errorType (rate-limit、server、auth、network) 错误，errorAfterChunks 让流式请求在输出若干块后才出错。',
+    },
+  ],
+  capabilities: { streaming: true, systemPrompt: true, vision: false, tools: false },
+  defaultModels: ['mock-echo', 'mock-lorem', 'mock-script'],
+  create: (config) => new MockLLM(config),
+});
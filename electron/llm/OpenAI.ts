@@ -3,31 +3,54 @@ import OpenAI, { ClientOptions } from 'openai';
 import { BaseLLM, LLMResponse, LLMChatOptions, StreamChunk } from './BaseLLM';
 import type { AIConfig } from '../../src/types'; // 导入 AIConfig 类型
 import { logChatMessage } from '../utils/chatLoggerUtil'; // <-- 导入聊天日志工具
+import { registerProvider } from './providerRegistry';
+import { classifyError } from './retryPolicy';
+
+const OPENAI_DEFAULT_MODELS = [
+  'gpt-4o',
+  'gpt-4-turbo',
+  'gpt-4',
+  'gpt-3.5-turbo',
+];
+// OpenAI 接口最多接受 4 个停止序列
+const OPENAI_MAX_STOP_SEQUENCES = 4;
 
 /**
  * OpenAI 服务商的实现
  */
 export class OpenAILLM extends BaseLLM {
-  readonly providerId = 'openai';
-  readonly providerName = 'OpenAI';
+  readonly providerId: string = 'openai';
+  readonly providerName: string = 'OpenAI';
   // baseApiUrl 将从 BaseLLM 的构造函数中通过 AIConfig 设置
 
   // 默认支持的模型列表 (可以根据需要更新)
-  readonly defaultModels: string[] = [
-    'gpt-4o',
-    'gpt-4-turbo',
-    'gpt-4',
-    'gpt-3.5-turbo',
-  ];
+  readonly defaultModels: string[] = OPENAI_DEFAULT_MODELS;
+
+  // 客户端不可用时返回的错误信息 (子类可覆盖)
+  protected readonly clientUnavailableError: string = 'OpenAI API Key 未设置或客户端初始化失败';
+  // 单次请求允许的停止序列数量 (子类可覆盖)
+  protected readonly maxStopSequences: number = OPENAI_MAX_STOP_SEQUENCES;
+
+  protected openai: OpenAI | null = null;
 
-  private openai: OpenAI | null = null;
+  /**
+   * @param requireApiKey 是否要求必须提供 API Key (OpenAI 兼容接口的子类传 false)
+   */
+  constructor(config: AIConfig, requireApiKey = true) {
+    super(config, requireApiKey); // 调用基类构造函数，apiKey 和 baseApiUrl 会在那里被设置
+    this.openai = this.createClient();
+  }
 
-  constructor(config: AIConfig) {
-    super(config); // 调用基类构造函数，apiKey 和 baseApiUrl 会在那里被设置
+  /**
+   * 创建 OpenAI SDK 客户端，失败时返回 null
+   * 注意：在基类构造函数中调用，子类覆盖时不能依赖子类自身的字段初始值
+   */
+  protected createClient(): OpenAI | null {
     try {
       const clientOptions: ClientOptions = {
         apiKey: this.apiKey, // 从基类获取 apiKey
         baseURL: this.baseApiUrl, // 从基类获取 baseApiUrl
+        maxRetries: 0, // 重试由 LLMServiceManager 按用户配置的重试策略统一处理
       };
 
       // 如果 baseURL 未定义或为空字符串，从选项中移除，让 SDK 使用默认值
@@ -35,11 +58,12 @@ export class OpenAILLM extends BaseLLM {
         delete clientOptions.baseURL;
       }
 
-      this.openai = new OpenAI(clientOptions);
+      const client = new OpenAI(clientOptions);
       console.log(`[OpenAILLM] OpenAI 客户端已使用配置 (ID: ${this.configId}, Name: ${this.configName}) 初始化完成。Base URL: ${clientOptions.baseURL || '默认 OpenAI API'}`);
+      return client;
     } catch (error) {
        console.error(`[OpenAILLM] 使用配置 (ID: ${this.configId}, Name: ${this.configName}) 初始化 OpenAI 客户端失败：`, error);
-       this.openai = null; // 初始化失败，重置客户端
+       return null; // 初始化失败，不创建客户端
     }
   }
 
@@ -48,7 +72,7 @@ export class OpenAILLM extends BaseLLM {
    */
   async generateChatCompletion(options: LLMChatOptions): Promise<LLMResponse> {
     if (!this.openai) {
-      return { content: '', error: 'OpenAI API Key 未设置或客户端初始化失败' };
+      return { content: '', error: this.clientUnavailableError };
     }
     // 移除此处对模型的检查，因为前端选择时已经基于 llmGetAvailableModels (包含自定义)
     // if (!options.model || !this.getAvailableModels().includes(options.model)) {
@@ -56,7 +80,7 @@ export class OpenAILLM extends BaseLLM {
     // }
 
     const aiConfigLogInfo = { id: this.configId, name: this.configName, serviceProvider: this.providerId };
-    const sessionIdentifier = `openai-non-stream-${Date.now()}`;
+    const sessionIdentifier = `${this.providerId}-non-stream-${Date.now()}`;
 
     try {
       // 准备 OpenAI API 请求参数
@@ -65,6 +89,10 @@ export class OpenAILLM extends BaseLLM {
         messages: options.messages,
         temperature: options.temperature ?? 0.7, // 默认温度
         max_tokens: options.maxTokens, // 如果未提供，则由 OpenAI 决定
+        top_p: options.topP,
+        presence_penalty: options.presencePenalty,
+        frequency_penalty: options.frequencyPenalty,
+        stop: this.limitStopSequences(options, this.maxStopSequences, sessionIdentifier),
         stream: false,
       };
 
@@ -78,7 +106,7 @@ export class OpenAILLM extends BaseLLM {
       }
 
       logChatMessage(sessionIdentifier, 'TO_AI', this.providerId, 'Request Parameters', params, aiConfigLogInfo);
-      const completion: OpenAI.Chat.ChatCompletion = await this.openai.chat.completions.create(params);
+      const completion: OpenAI.Chat.ChatCompletion = await this.openai.chat.completions.create(params, { signal: options.signal });
       logChatMessage(sessionIdentifier, 'FROM_AI', this.providerId, 'API Response', completion, aiConfigLogInfo);
 
       const content = completion.choices[0]?.message?.content ?? '';
@@ -87,7 +115,8 @@ export class OpenAILLM extends BaseLLM {
       // 不再将原始响应发送回渲染进程
       return {
         content: content,
-        modelUsed: completion.model,
+        modelUsed: completion.model || options.model,
+        finishReason: completion.choices[0]?.finish_reason ?? undefined,
         usage: {
           promptTokens: usage?.prompt_tokens,
           completionTokens: usage?.completion_tokens,
@@ -128,7 +157,7 @@ export class OpenAILLM extends BaseLLM {
       }
 
       // 只返回错误消息字符串
-      return { content: '', error: detailedError /* rawResponse: error */ };
+      return { content: '', error: detailedError, ...classifyError(error) /* rawResponse: error */ };
     }
   }
 
@@ -137,12 +166,12 @@ export class OpenAILLM extends BaseLLM {
    */
   async *generateChatCompletionStream(options: LLMChatOptions): AsyncGenerator<StreamChunk> {
     if (!this.openai) {
-      yield { error: 'OpenAI API Key 未设置或客户端初始化失败', done: true };
+      yield { error: this.clientUnavailableError, done: true };
       return;
     }
 
     const aiConfigLogInfo = { id: this.configId, name: this.configName, serviceProvider: this.providerId };
-    const sessionIdentifier = `openai-stream-${Date.now()}`;
+    const sessionIdentifier = `${this.providerId}-stream-${Date.now()}`;
 
     try {
       const params: OpenAI.Chat.ChatCompletionCreateParams = {
@@ -150,7 +179,12 @@ export class OpenAILLM extends BaseLLM {
         messages: options.messages,
         temperature: options.temperature ?? 0.7,
         max_tokens: options.maxTokens,
+        top_p: options.topP,
+        presence_penalty: options.presencePenalty,
+        frequency_penalty: options.frequencyPenalty,
+        stop: this.limitStopSequences(options, this.maxStopSequences, sessionIdentifier),
         stream: true,
+        stream_options: { include_usage: true }, // 让最后一个数据块携带 token 用量
       };
 
       if (options.systemPrompt) {
@@ -163,12 +197,24 @@ export class OpenAILLM extends BaseLLM {
       }
 
       logChatMessage(sessionIdentifier, 'TO_AI', this.providerId, 'Stream Request Parameters', params, aiConfigLogInfo);
-      const stream = await this.openai.chat.completions.create(params);
+      const stream = await this.openai.chat.completions.create(params, { signal: options.signal });
 
       let finishReason: string | null = null;
+      let modelUsed = options.model;
+      let usage: StreamChunk['usage'];
 
       for await (const chunk of stream) {
         logChatMessage(sessionIdentifier, 'FROM_AI', this.providerId, 'Stream Raw Chunk', chunk, aiConfigLogInfo);
+        if (chunk.model) {
+          modelUsed = chunk.model; // 兼容接口的服务可能把模型别名解析为实际模型
+        }
+        if (chunk.usage) {
+          usage = {
+            promptTokens: chunk.usage.prompt_tokens,
+            completionTokens: chunk.usage.completion_tokens,
+            totalTokens: chunk.usage.total_tokens,
+          };
+        }
         const content = chunk.choices[0]?.delta?.content;
         const currentFinishReason = chunk.choices[0]?.finish_reason;
 
@@ -182,9 +228,15 @@ export class OpenAILLM extends BaseLLM {
         }
       }
 
-      logChatMessage(sessionIdentifier, 'FROM_AI', this.providerId, 'Stream Ended', { model: options.model, finishReason }, aiConfigLogInfo);
-      yield { done: true, modelUsed: options.model };
+      logChatMessage(sessionIdentifier, 'FROM_AI', this.providerId, 'Stream Ended', { model: modelUsed, finishReason, usage }, aiConfigLogInfo);
+      yield { done: true, modelUsed, usage, finishReason: finishReason ?? undefined };
     } catch (error: unknown) {
+      if (options.signal?.aborted) {
+        // 用户主动取消，不视为错误，已输出的文本由前端保留
+        logChatMessage(sessionIdentifier, 'SYSTEM_ACTION', this.providerId, 'Stream Cancelled', { model: options.model }, aiConfigLogInfo);
+        yield { done: true, cancelled: true, modelUsed: options.model };
+        return;
+      }
       const errorMessage = `模型 ${options.model} 流式聊天完成时出错：${error instanceof Error ? error.message : String(error)}`;
       logChatMessage(sessionIdentifier, 'FROM_AI', this.providerId, 'Stream Error', { error: error instanceof Error ? error.stack : String(error), params: options }, aiConfigLogInfo);
       console.error(`[OpenAILLM Stream] ${errorMessage}`);
@@ -207,9 +259,21 @@ export class OpenAILLM extends BaseLLM {
       } else if (typeof error === 'string') {
         detailedError = error;
       }
-      yield { error: detailedError, done: true };
+      yield { error: detailedError, done: true, ...classifyError(error) };
     }
   }
 
   // 可以选择性地实现 validateApiKey 或 getModelDetails 方法
 }
+
+registerProvider({
+  id: 'openai',
+  displayName: 'OpenAI',
+  configFields: [
+    { key: 'apiKey', label: 'API Key', required: true, secret: true },
+    { key: 'baseURL', label: 'Base URL', required: false, placeholder: '留空使用官方地址 https://api.openai.com/v1', tooltip: '使用代理或中转服务时填写。' },
+  ],
+  capabilities: { streaming: true, systemPrompt: true, vision: true, tools: true },
+  defaultModels: OPENAI_DEFAULT_MODELS,
+  create: (config) => new OpenAILLM(config),
+});
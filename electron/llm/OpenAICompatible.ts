@@ -0,0 +1,90 @@
+import OpenAI, { ClientOptions } from 'openai';
+import { OpenAILLM } from './OpenAI';
+import type { AIConfig } from '../../src/types'; // 导入 AIConfig 类型
+import { registerProvider } from './providerRegistry';
+
+/**
+ * 通用 OpenAI 兼容接口的实现
+ * 适用于 Ollama、LM Studio、vLLM、OpenRouter 等提供 `/v1/chat/completions` 接口的服务。
+ * 请求与流式处理沿用 OpenAILLM，区别只在于：必须配置 baseURL，API Key 可选，模型列表通过 `/v1/models` 动态获取。
+ */
+export class OpenAICompatibleLLM extends OpenAILLM {
+  readonly providerId: string = 'openai-compatible';
+  readonly providerName: string = 'OpenAI 兼容接口';
+
+  // 兼容接口的模型完全取决于对端服务，没有固定的默认模型
+  readonly defaultModels: string[] = [];
+
+  protected readonly clientUnavailableError: string = 'OpenAI 兼容接口未配置 Base URL 或客户端初始化失败';
+  // 停止序列数量的上限取决于对端服务，这里不做截取
+  protected readonly maxStopSequences: number = Number.POSITIVE_INFINITY;
+
+  constructor(config: AIConfig) {
+    super(config, false); // API Key 可选
+  }
+
+  /**
+   * 创建指向对端服务的客户端：baseURL 必填，未配置 API Key 时不发送 Authorization 请求头
+   */
+  protected createClient(): OpenAI | null {
+    if (!this.baseApiUrl) {
+      console.error(`[OpenAICompatibleLLM] 配置 (ID: ${this.configId}, Name: ${this.configName}) 未提供 Base URL，无法初始化客户端。`);
+      return null;
+    }
+    try {
+      const clientOptions: ClientOptions = {
+        // SDK 要求 apiKey 非空，未配置时使用占位值，并在下方移除 Authorization 请求头
+        apiKey: this.apiKey || 'not-needed',
+        baseURL: this.baseApiUrl,
+        maxRetries: 0, // 重试由 LLMServiceManager 按用户配置的重试策略统一处理
+      };
+      if (!this.apiKey) {
+        clientOptions.defaultHeaders = { Authorization: null };
+      }
+      const client = new OpenAI(clientOptions);
+      console.log(`[OpenAICompatibleLLM] 客户端已使用配置 (ID: ${this.configId}, Name: ${this.configName}) 初始化完成。Base URL: ${this.baseApiUrl}，API Key: ${this.apiKey ? '已设置' : '未设置'}`);
+      return client;
+    } catch (error) {
+      console.error(`[OpenAICompatibleLLM] 使用配置 (ID: ${this.configId}, Name: ${this.configName}) 初始化客户端失败：`, error);
+      return null;
+    }
+  }
+
+  /**
+   * 通过 `/v1/models` 接口获取对端服务提供的模型列表
+   */
+  async discoverModels(): Promise<string[]> {
+    if (!this.openai) {
+      return [];
+    }
+    try {
+      const models: string[] = [];
+      for await (const model of this.openai.models.list()) {
+        models.push(model.id);
+      }
+      console.log(`[OpenAICompatibleLLM] 从 ${this.baseApiUrl} 发现 ${models.length} 个模型。`);
+      return models.sort();
+    } catch (error) {
+      console.warn(`[OpenAICompatibleLLM] 从 ${this.baseApiUrl} 获取模型列表失败：`, error instanceof Error ? error.message : error);
+      return [];
+    }
+  }
+}
+
+registerProvider({
+  id: 'openai-compatible',
+  displayName: 'OpenAI 兼容接口 (Ollama / LM Studio / vLLM 等)',
+  configFields: [
+    {
+      key: 'baseURL',
+      label: 'Base URL',
+      required: true,
+      placeholder: '例如：http://localhost:11434/v1',
+      tooltip: '兼容 OpenAI 接口的服务地址，通常以 /v1 结尾。模型列表将通过该地址的 /models 接口自动获取。',
+    },
+    { key: 'apiKey', label: 'API Key', required: false, secret: true, tooltip: '本地部署的服务通常不需要 API Key，可留空。' },
+  ],
+  capabilities: { streaming: true, systemPrompt: true, vision: false, tools: false },
+  defaultModels: [],
+  create: (config) => new OpenAICompatibleLLM(config),
+});
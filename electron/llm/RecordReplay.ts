@@ -0,0 +1,261 @@
+import { BaseLLM, LLMResponse, LLMChatOptions, StreamChunk } from './BaseLLM';
+import type { AIConfig } from '../../src/types';
+import { logChatMessage } from '../utils/chatLoggerUtil';
+import { registerProvider, ProviderContext } from './providerRegistry';
+import { waitForRetry } from './retryPolicy';
+import { parseProviderOptions } from './providerOptions';
+import { getAIConfigs } from '../storage/jsonStore';
+import { CassetteEntry, CassetteRequest, getCassetteDir, hashCassetteRequest, listCassetteModels, readCassetteEntry, writeCassetteEntry } from '../storage/cassetteStore';
+
+/**
+ * 录制/回放模式
+ * replay：只回放，没有录制时返回错误；record：总是转发给上游配置并录制 (覆盖旧录制)；auto：有录制时回放，否则转发并录制
+ */
+export type RecordReplayMode = 'replay' | 'record' | 'auto';
+
+/**
+ * 录制/回放服务商的选项 (AIConfig.providerOptions 中的 JSON)
+ */
+export interface RecordReplayOptions {
+  mode: RecordReplayMode;
+  upstream: string; // 录制时转发请求的 AI 配置 (名称或 ID)
+  cassette: string; // 录制集名称，保存在数据目录的 cassettes/<名称> 中
+  cassetteDir?: string; // 录制集目录的绝对路径 (自动化测试中使用，优先于 cassette)
+  replayChunkDelayMs: number; // 回放流式数据块之间的间隔
+}
+
+const DEFAULT_RECORD_REPLAY_OPTIONS: RecordReplayOptions = {
+  mode: 'replay',
+  upstream: '',
+  cassette: 'default',
+  replayChunkDelayMs: 0,
+};
+
+/**
+ * 录制/回放服务商：把发往真实服务的请求和响应录制到磁盘，之后按请求哈希回放
+ * 回放不访问网络，同样的对话总是得到同样的回复，用于开发和自动化测试。
+ */
+export class RecordReplayLLM extends BaseLLM {
+  readonly providerId = 'record-replay';
+  readonly providerName = '录制 / 回放';
+  readonly defaultModels: string[] = [];
+
+  private readonly options: RecordReplayOptions = DEFAULT_RECORD_REPLAY_OPTIONS;
+  private readonly optionsError?: string;
+  private readonly cassetteDir: string;
+
+  constructor(config: AIConfig, private readonly context: ProviderContext) {
+    super(config, false); // 不需要 API Key，录制时使用上游配置的 Key
+    try {
+      this.options = { ...DEFAULT_RECORD_REPLAY_OPTIONS, ...parseProviderOptions<RecordReplayOptions>(config) };
+      if (!['replay', 'record', 'auto'].includes(this.options.mode)) {
+        throw new Error(`未知的录制/回放模式: ${this.options.mode}`);
+      }
+    } catch (error) {
+      this.optionsError = error instanceof Error ? error.message : String(error);
+      console.error(`[RecordReplayLLM] 配置 (ID: ${this.configId}, Name: ${this.configName}) 的选项无效：${this.optionsError}`);
+    }
+    this.cassetteDir = this.options.cassetteDir || getCassetteDir(this.options.cassette);
+  }
+
+  /**
+   * 录制集中录过的模型，以及上游配置可用的模型
+   */
+  async discoverModels(): Promise<string[]> {
+    const recorded = await listCassetteModels(this.cassetteDir);
+    if (this.options.mode === 'replay' || !this.options.upstream) {
+      return recorded;
+    }
+    const upstream = await this.resolveUpstream().catch(() => undefined);
+    if (!upstream) return recorded;
+    const upstreamModels = upstream.getAvailableModels(await upstream.discoverModels());
+    return [...new Set([...recorded, ...upstreamModels])];
+  }
+
+  /**
+   * 取得上游配置的服务实例 (按 ID 或名称查找)
+   * @throws 未配置、找不到或指向录制/回放配置时抛出错误
+   */
+  private async resolveUpstream(): Promise<BaseLLM> {
+    if (!this.options.upstream) {
+      throw new Error('录制需要在选项中指定上游配置 (upstream)。');
+    }
+    const configs = await getAIConfigs();
+    const upstreamConfig = configs.find(config => config.id === this.options.upstream) ?? configs.find(config => config.name === this.options.upstream);
+    if (!upstreamConfig) {
+      throw new Error(`未找到上游配置: ${this.options.upstream}`);
+    }
+    if (upstreamConfig.serviceProvider === this.providerId) {
+      throw new Error('上游配置不能是录制 / 回放配置。');
+    }
+    const service = await this.context.getService(upstreamConfig.id);
+    if (!service) {
+      throw new Error(`无法为上游配置 ${upstreamConfig.name} 初始化服务。`);
+    }
+    return service;
+  }
+
+  private toCassetteRequest(options: LLMChatOptions): CassetteRequest {
+    return {
+      model: options.model,
+      systemPrompt: options.systemPrompt,
+      messages: options.messages,
+      params: {
+        temperature: options.temperature,
+        topP: options.topP,
+        maxTokens: options.maxTokens,
+        presencePenalty: options.presencePenalty,
+        frequencyPenalty: options.frequencyPenalty,
+        stopSequences: options.stopSequences,
+      },
+    };
+  }
+
+  /**
+   * 按模式查找可以回放的录制
+   */
+  private async findRecording(hash: string): Promise<CassetteEntry | null> {
+    return this.options.mode === 'record' ? null : readCassetteEntry(this.cassetteDir, hash);
+  }
+
+  private describeMiss(hash: string): string {
+    return `回放未命中：录制集 ${this.cassetteDir} 中没有与该请求匹配的录制 (请求哈希 ${hash.slice(0, 12)})。`;
+  }
+
+  /**
+   * 实现聊天请求方法
+   */
+  async generateChatCompletion(options: LLMChatOptions): Promise<LLMResponse> {
+    if (this.optionsError) {
+      return { content: '', error: this.optionsError, retryable: false };
+    }
+    const aiConfigLogInfo = { id: this.configId, name: this.configName, serviceProvider: this.providerId };
+    const sessionIdentifier = `record-replay-non-stream-${Date.now()}`;
+    const request = this.toCassetteRequest(options);
+    const hash = hashCassetteRequest(request);
+
+    try {
+      const recording = await this.findRecording(hash);
+      if (recording) {
+        logChatMessage(sessionIdentifier, 'SYSTEM_ACTION', this.providerId, 'Replay', { hash, model: options.model }, aiConfigLogInfo);
+        const { response } = recording;
+        return { content: response.content, modelUsed: response.modelUsed ?? options.model, finishReason: response.finishReason, usage: response.usage };
+      }
+      if (this.options.mode === 'replay') {
+        return { content: '', error: this.describeMiss(hash), retryable: false };
+      }
+
+      const upstream = await this.resolveUpstream();
+      const response = await upstream.generateChatCompletion(options);
+      if (!response.error) {
+        await writeCassetteEntry(this.cassetteDir, {
+          hash,
+          recordedAt: Date.now(),
+          request,
+          response: { content: response.content, modelUsed: response.modelUsed, finishReason: response.finishReason, usage: response.usage },
+        });
+        logChatMessage(sessionIdentifier, 'SYSTEM_ACTION', this.providerId, 'Recorded', { hash, model: options.model, upstream: upstream.configName }, aiConfigLogInfo);
+      }
+      return response;
+    } catch (error: unknown) {
+      const detailedError = error instanceof Error ? error.message : String(error);
+      console.error(`[RecordReplayLLM] 模型 ${options.model} 录制/回放时出错：${detailedError}`);
+      return { content: '', error: detailedError, retryable: false };
+    }
+  }
+
+  /**
+   * 实现流式聊天请求方法：回放时按录制的数据块输出，录制时原样转发上游的数据块
+   */
+  async *generateChatCompletionStream(options: LLMChatOptions): AsyncGenerator<StreamChunk> {
+    if (this.optionsError) {
+      yield { error: this.optionsError, done: true, retryable: false };
+      return;
+    }
+    const aiConfigLogInfo = { id: this.configId, name: this.configName, serviceProvider: this.providerId };
+    const sessionIdentifier = `record-replay-stream-${Date.now()}`;
+    const request = this.toCassetteRequest(options);
+    const hash = hashCassetteRequest(request);
+
+    let upstream: BaseLLM;
+    try {
+      const recording = await this.findRecording(hash);
+      if (recording) {
+        logChatMessage(sessionIdentifier, 'SYSTEM_ACTION', this.providerId, 'Replay', { hash, model: options.model }, aiConfigLogInfo);
+        yield* this.replayStream(recording, options);
+        return;
+      }
+      if (this.options.mode === 'replay') {
+        yield { error: this.describeMiss(hash), done: true, retryable: false };
+        return;
+      }
+      upstream = await this.resolveUpstream();
+    } catch (error: unknown) {
+      const detailedError = error instanceof Error ? error.message : String(error);
+      console.error(`[RecordReplayLLM Stream] 模型 ${options.model} 录制/回放时出错：${detailedError}`);
+      yield { error: detailedError, done: true, retryable: false };
+      return;
+    }
+
+    const chunks: string[] = [];
+    for await (const chunk of upstream.generateChatCompletionStream(options)) {
+      if (chunk.text) {
+        chunks.push(chunk.text);
+      }
+      // 只录制正常结束的流 (出错或被取消的流不录制)
+      if (chunk.done && !chunk.error && !chunk.cancelled) {
+        try {
+          await writeCassetteEntry(this.cassetteDir, {
+            hash,
+            recordedAt: Date.now(),
+            request,
+            response: { content: chunks.join(''), modelUsed: chunk.modelUsed, finishReason: chunk.finishReason, usage: chunk.usage },
+            chunks,
+          });
+          logChatMessage(sessionIdentifier, 'SYSTEM_ACTION', this.providerId, 'Recorded', { hash, model: options.model, upstream: upstream.configName }, aiConfigLogInfo);
+        } catch (error) {
+          console.error(`[RecordReplayLLM Stream] 保存录制 ${hash} 失败：`, error);
+        }
+      }
+      yield chunk;
+      if (chunk.done) return;
+    }
+  }
+
+  /**
+   * 按录制的数据块回放流式响应
+   */
+  private async *replayStream(recording: CassetteEntry, options: LLMChatOptions): AsyncGenerator<StreamChunk> {
+    const { response } = recording;
+    const chunks = recording.chunks ?? (response.content ? [response.content] : []);
+    for (let index = 0; index < chunks.length; index++) {
+      if (index > 0) {
+        await waitForRetry(this.options.replayChunkDelayMs, options.signal);
+      }
+      if (options.signal?.aborted) {
+        yield { done: true, cancelled: true, modelUsed: response.modelUsed ?? options.model };
+        return;
+      }
+      yield { text: chunks[index] };
+    }
+    yield { done: true, modelUsed: response.modelUsed ?? options.model, usage: response.usage, finishReason: response.finishReason };
+  }
+}
+
+registerProvider({
+  id: 'record-replay',
+  displayName: '录制 / 回放 (确定性测试)',
+  configFields: [
+    {
+      key: 'providerOptions',
+      label: '录制 / 回放选项 (JSON)',
+      required: true,
+      json: true,
+      placeholder: '{ "mode": "auto", "upstream": "我的 OpenAI 配置", "cassette": "default" }',
+      tooltip: 'mode 为 replay 时只回放 (没有录制时报错)，record 时总是转发给 upstream (另一个 AI 配置的名称或 ID) 并录制，auto 时有录制就回放、否则录制。录制按请求哈希 (模型、系统提示词、消息和生成参数) 保存在数据目录的 cassettes/<cassette> 中；cassetteDir 可以指定录制集目录的绝对路径，replayChunkDelayMs 为回放流式数据块的间隔。',
+    },
+  ],
+  capabilities: { streaming: true, systemPrompt: true, vision: false, tools: false },
+  defaultModels: [],
+  create: (config, context) => new RecordReplayLLM(config, context),
+});
@@ -0,0 +1,74 @@
+import { readStore, writeStore } from '../storage/jsonStore';
+import type { ModelPrice } from '../../src/types';
+import { llmLogger as logger } from '../utils/logger';
+
+// 价格表的持久化文件名
+export const MODEL_PRICES_FILE = 'modelPrices.json';
+
+/**
+ * 内置的默认价格表 (美元 / 每百万 token)，用户可以在用量页面中修改
+ */
+export const DEFAULT_MODEL_PRICES: ModelPrice[] = [
+  { model: 'gpt-4o-mini', inputPerMillion: 0.15, outputPerMillion: 0.6 },
+  { model: 'gpt-4o', inputPerMillion: 2.5, outputPerMillion: 10 },
+  { model: 'gpt-4-turbo', inputPerMillion: 10, outputPerMillion: 30 },
+  { model: 'gpt-4', inputPerMillion: 30, outputPerMillion: 60 },
+  { model: 'gpt-3.5-turbo', inputPerMillion: 0.5, outputPerMillion: 1.5 },
+  { model: 'claude-3-5-sonnet', inputPerMillion: 3, outputPerMillion: 15 },
+  { model: 'claude-3-5-haiku', inputPerMillion: 0.8, outputPerMillion: 4 },
+  { model: 'claude-3-opus', inputPerMillion: 15, outputPerMillion: 75 },
+  { model: 'claude-3-sonnet', inputPerMillion: 3, outputPerMillion: 15 },
+  { model: 'claude-3-haiku', inputPerMillion: 0.25, outputPerMillion: 1.25 },
+  { model: 'claude-2', inputPerMillion: 8, outputPerMillion: 24 },
+  { model: 'claude-instant-1.2', inputPerMillion: 0.8, outputPerMillion: 2.4 },
+  { model: 'gemini-1.5-flash', inputPerMillion: 0.075, outputPerMillion: 0.3 },
+  { model: 'gemini-1.5-pro', inputPerMillion: 1.25, outputPerMillion: 5 },
+  { model: 'gemini-1.0-pro', inputPerMillion: 0.5, outputPerMillion: 1.5 },
+];
+
+/**
+ * 查找模型对应的价格：优先完全匹配，否则使用最长的前缀匹配
+ * (例如 "claude-3-haiku-20240307" 匹配 "claude-3-haiku")
+ */
+export function findModelPrice(prices: ModelPrice[], model: string): ModelPrice | undefined {
+  const exact = prices.find(price => price.model === model);
+  if (exact) {
+    return exact;
+  }
+  return prices
+    .filter(price => price.model && model.startsWith(price.model))
+    .sort((a, b) => b.model.length - a.model.length)[0];
+}
+
+/**
+ * 计算一次生成的费用 (美元)，价格表中没有该模型时返回 undefined
+ */
+export function computeCost(prices: ModelPrice[], model: string, promptTokens: number, completionTokens: number): number | undefined {
+  const price = findModelPrice(prices, model);
+  if (!price) {
+    return undefined;
+  }
+  return (promptTokens * price.inputPerMillion + completionTokens * price.outputPerMillion) / 1_000_000;
+}
+
+/**
+ * 读取价格表 (文件不存在时返回默认价格表)
+ */
+export async function loadModelPrices(): Promise<ModelPrice[]> {
+  const prices = await readStore<ModelPrice[]>(MODEL_PRICES_FILE, DEFAULT_MODEL_PRICES);
+  return Array.isArray(prices) ? prices : DEFAULT_MODEL_PRICES;
+}
+
+/**
+ * 保存价格表，忽略没有模型名称或价格非法的条目
+ * @returns 实际保存的价格表
+ */
+export async function saveModelPrices(prices: ModelPrice[]): Promise<ModelPrice[]> {
+  const isValidPrice = (value: unknown) => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+  const sanitized = prices
+    .filter(price => price.model?.trim() && isValidPrice(price.inputPerMillion) && isValidPrice(price.outputPerMillion))
+    .map(price => ({ model: price.model.trim(), inputPerMillion: price.inputPerMillion, outputPerMillion: price.outputPerMillion }));
+  await writeStore(MODEL_PRICES_FILE, sanitized);
+  logger.info(`[价格表] 已保存 ${sanitized.length} 条模型价格。`);
+  return sanitized;
+}
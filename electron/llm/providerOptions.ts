@@ -0,0 +1,21 @@
+import type { AIConfig } from '../../src/types';
+
+/**
+ * 解析 AIConfig.providerOptions 中的 JSON 选项，未填写时返回空对象
+ * @throws 不是合法的 JSON 对象时抛出错误
+ */
+export function parseProviderOptions<T extends object>(config: AIConfig): Partial<T> {
+  const text = config.providerOptions?.trim();
+  if (!text) return {};
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`服务商选项不是合法的 JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('服务商选项必须是 JSON 对象。');
+  }
+  return parsed as Partial<T>;
+}
+
@@ -0,0 +1,64 @@
+import type { BaseLLM } from './BaseLLM';
+import type { AIConfig, ProviderDescriptor } from '../../src/types';
+import { llmLogger as logger } from '../utils/logger';
+
+/**
+ * 创建服务实例时提供给工厂函数的上下文
+ */
+export interface ProviderContext {
+  // 按配置 ID 获取其他 AI 配置的服务实例 (例如录制/回放服务商转发请求的上游配置)
+  getService: (configId: string) => Promise<BaseLLM | undefined>;
+}
+
+/**
+ * 服务商定义：描述信息 + 创建服务实例的工厂函数
+ * 每个 BaseLLM 子类在自己的模块中调用 registerProvider 完成注册。
+ */
+export interface ProviderDefinition extends ProviderDescriptor {
+  create: (config: AIConfig, context: ProviderContext) => BaseLLM;
+}
+
+// 已注册的服务商，按注册顺序保存
+const providers = new Map<string, ProviderDefinition>();
+
+/**
+ * 注册一个服务商。重复注册同一 id 时，后注册的定义会覆盖先前的定义。
+ * @param definition 服务商定义
+ */
+export function registerProvider(definition: ProviderDefinition): void {
+  if (providers.has(definition.id)) {
+    logger.warn(`[服务商注册表] 服务商 "${definition.id}" 已注册，将被覆盖。`);
+  }
+  providers.set(definition.id, definition);
+}
+
+/**
+ * 根据 id 获取服务商定义
+ * @param providerId 服务商 id (即 AIConfig.serviceProvider)
+ */
+export function getProviderDefinition(providerId: string): ProviderDefinition | undefined {
+  return providers.get(providerId);
+}
+
+/**
+ * 获取所有已注册服务商的描述信息 (不含工厂函数，可通过 IPC 发送给渲染进程)
+ */
+export function listProviderDescriptors(): ProviderDescriptor[] {
+  return Array.from(providers.values()).map(({ id, displayName, configFields, capabilities, defaultModels }) => ({
+    id,
+    displayName,
+    configFields,
+    capabilities,
+    defaultModels: [...defaultModels],
+  }));
+}
+
+/**
+ * 根据服务商的配置模式检查 AIConfig 是否缺少必填字段
+ * @returns 缺失字段的标签数组，为空表示校验通过
+ */
+export function findMissingRequiredFields(definition: ProviderDescriptor, config: AIConfig): string[] {
+  return definition.configFields
+    .filter(field => field.required && !config[field.key]?.trim())
+    .map(field => field.label);
+}
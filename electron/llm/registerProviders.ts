@@ -0,0 +1,11 @@
+/**
+ * 导入所有内置服务商模块，使其完成在服务商注册表中的注册。
+ * 新增服务商时，只需实现 BaseLLM 子类、在其模块中调用 registerProvider，并在此处导入即可。
+ * 导入顺序即为 AI 配置页面中服务商的显示顺序。
+ */
+import './Google';
+import './OpenAI';
+import './Anthropic';
+import './OpenAICompatible';
+import './Mock';
+import './RecordReplay';
@@ -0,0 +1,189 @@
+import { readStore, writeStore } from '../storage/jsonStore';
+import type { RetryPolicy } from '../../src/types';
+import { llmLogger as logger } from '../utils/logger';
+
+// 重试策略的持久化文件名
+export const RETRY_POLICY_FILE = 'retryPolicy.json';
+
+/**
+ * 默认重试策略：最多尝试 3 次，退避时间 1s、2s、4s…，单次等待不超过 30s
+ */
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  initialDelayMs: 1000,
+  maxDelayMs: 30000,
+  backoffMultiplier: 2,
+};
+
+/**
+ * 服务商错误的重试提示，由各服务商在 catch 块中附加到 LLMResponse / StreamChunk 上
+ */
+export interface RetryHint {
+  retryable: boolean; // 是否值得重试 (429、5xx、网络错误等)
+  retryAfterMs?: number; // 服务端通过 Retry-After 等方式建议的等待时间
+}
+
+// 可重试的 HTTP 状态码 (408 请求超时、409 冲突、429 限流、529 Anthropic 过载，以及所有 5xx)
+const RETRYABLE_STATUS_CODES = new Set([408, 409, 429]);
+// 可重试的网络错误码
+const RETRYABLE_NETWORK_CODES = new Set(['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EPIPE', 'ENOTFOUND', 'EAI_AGAIN', 'UND_ERR_SOCKET', 'UND_ERR_CONNECT_TIMEOUT']);
+
+/**
+ * 读取对象上的属性 (安全地处理 unknown 类型)
+ */
+function readProperty(value: unknown, key: string): unknown {
+  return value && typeof value === 'object' && key in value ? (value as Record<string, unknown>)[key] : undefined;
+}
+
+/**
+ * 从错误对象的响应头中读取指定字段
+ * openai / anthropic SDK 的 APIError.headers 为普通对象，兼容 fetch 的 Headers 实例
+ */
+function readHeader(error: unknown, name: string): string | undefined {
+  const headers = readProperty(error, 'headers');
+  if (!headers || typeof headers !== 'object') {
+    return undefined;
+  }
+  if (typeof (headers as Headers).get === 'function') {
+    return (headers as Headers).get(name) ?? undefined;
+  }
+  const value = (headers as Record<string, unknown>)[name];
+  return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * 解析服务端建议的等待时间 (毫秒)
+ * 依次检查 retry-after-ms、Retry-After (秒数或 HTTP 日期)，以及 Google 错误体中的 retryDelay
+ */
+function parseRetryAfterMs(error: unknown): number | undefined {
+  const retryAfterMs = Number(readHeader(error, 'retry-after-ms'));
+  if (Number.isFinite(retryAfterMs) && retryAfterMs >= 0) {
+    return retryAfterMs;
+  }
+
+  const retryAfter = readHeader(error, 'retry-after');
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (Number.isFinite(seconds) && seconds >= 0) {
+      return seconds * 1000;
+    }
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) {
+      return Math.max(0, date - Date.now());
+    }
+  }
+
+  // Google 的错误只有消息文本，例如 ... "retryDelay":"30s" ...
+  const message = error instanceof Error ? error.message : '';
+  const match = message.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/);
+  return match ? Number(match[1]) * 1000 : undefined;
+}
+
+/**
+ * 读取错误对应的 HTTP 状态码
+ * openai / anthropic SDK 的错误带有 status 属性；@google/genai 只会把状态码写进消息 ("got status: 429 ...")
+ */
+function readStatusCode(error: unknown): number | undefined {
+  const status = readProperty(error, 'status');
+  if (typeof status === 'number') {
+    return status;
+  }
+  const message = error instanceof Error ? error.message : '';
+  const match = message.match(/got status: (\d{3})/);
+  return match ? Number(match[1]) : undefined;
+}
+
+/**
+ * 判断服务商抛出的错误是否值得重试，并提取服务端建议的等待时间
+ * @param error 服务商 SDK 抛出的错误
+ */
+export function classifyError(error: unknown): RetryHint {
+  const status = readStatusCode(error);
+  if (status !== undefined) {
+    const retryable = RETRYABLE_STATUS_CODES.has(status) || status >= 500;
+    return retryable ? { retryable, retryAfterMs: parseRetryAfterMs(error) } : { retryable };
+  }
+
+  // 没有状态码：连接失败、超时等网络错误可以重试
+  const name = readProperty(error, 'name');
+  if (name === 'APIConnectionError' || name === 'APIConnectionTimeoutError') {
+    return { retryable: true };
+  }
+  const code = readProperty(error, 'code') ?? readProperty(readProperty(error, 'cause'), 'code');
+  if (typeof code === 'string' && RETRYABLE_NETWORK_CODES.has(code)) {
+    return { retryable: true };
+  }
+  const message = error instanceof Error ? error.message : '';
+  return { retryable: /fetch failed|socket hang up|network/i.test(message) };
+}
+
+/**
+ * 计算第 attempt 次失败后 (从 1 开始) 的等待时间
+ * 服务端给出 Retry-After 时优先采用，否则按指数退避计算，结果不超过 maxDelayMs
+ */
+export function computeBackoffDelay(policy: RetryPolicy, attempt: number, retryAfterMs?: number): number {
+  if (retryAfterMs !== undefined) {
+    return Math.min(retryAfterMs, policy.maxDelayMs);
+  }
+  const delay = policy.initialDelayMs * Math.pow(policy.backoffMultiplier, attempt - 1);
+  return Math.min(delay, policy.maxDelayMs);
+}
+
+/**
+ * 等待指定时间，收到取消信号时提前结束
+ */
+export function waitForRetry(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * 规范化用户提交的重试策略，缺失或非法的字段使用默认值
+ */
+export function normalizeRetryPolicy(policy: Partial<RetryPolicy> | undefined): RetryPolicy {
+  const pick = (value: number | undefined, fallback: number, min: number) =>
+    typeof value === 'number' && Number.isFinite(value) && value >= min ? value : fallback;
+  return {
+    maxAttempts: Math.floor(pick(policy?.maxAttempts, DEFAULT_RETRY_POLICY.maxAttempts, 1)),
+    initialDelayMs: pick(policy?.initialDelayMs, DEFAULT_RETRY_POLICY.initialDelayMs, 0),
+    maxDelayMs: pick(policy?.maxDelayMs, DEFAULT_RETRY_POLICY.maxDelayMs, 0),
+    backoffMultiplier: pick(policy?.backoffMultiplier, DEFAULT_RETRY_POLICY.backoffMultiplier, 1),
+  };
+}
+
+/**
+ * 读取已保存的重试策略
+ */
+export async function loadRetryPolicy(): Promise<RetryPolicy> {
+  try {
+    const saved = await readStore<Partial<RetryPolicy>>(RETRY_POLICY_FILE, DEFAULT_RETRY_POLICY);
+    return normalizeRetryPolicy(saved);
+  } catch (error) {
+    logger.error('[重试策略] 读取重试策略失败，使用默认值:', error);
+    return { ...DEFAULT_RETRY_POLICY };
+  }
+}
+
+/**
+ * 保存重试策略
+ * @returns 规范化后实际保存的策略
+ */
+export async function saveRetryPolicy(policy: Partial<RetryPolicy>): Promise<RetryPolicy> {
+  const normalized = normalizeRetryPolicy(policy);
+  await writeStore(RETRY_POLICY_FILE, normalized);
+  logger.info('[重试策略] 已保存重试策略:', normalized);
+  return normalized;
+}
@@ -3,8 +3,9 @@ import path from 'node:path';
 import fs from 'node:fs'; // 导入 fs 模块
 import { fileURLToPath } from 'node:url'; // 导入 fileURLToPath
 import { registerAllIpcHandlers } from './ipcHandlers'; // <-- 只导入统一注册函数
+import { startDailySnapshots } from './storage/backupManager';
 import { llmServiceManager } from './llm/LLMServiceManager';
-import { proxyManager } from './ProxyManager';
+import { proxyManager } from './proxyManager';
 import { readStore } from './storage/jsonStore';
 import { mainLogger as logger } from './utils/logger'; // 导入日志工具
 import { setupGlobalEncoding } from './utils/encoding'; // 导入编码工具
@@ -302,6 +303,9 @@ app.whenReady().then(async () => {
     // 注册所有 IPC handlers, 并传入获取主窗口的函数
     registerAllIpcHandlers(() => win); // <-- 传递获取 win 的函数
 
+    // 每日数据快照 (后台进行，不阻塞窗口创建)
+    startDailySnapshots();
+
     createWindow();
     createMenu();
     logger.info('初始化成功.');
@@ -1,8 +1,8 @@
 import { contextBridge, ipcRenderer } from 'electron';
 import type { LLMChatOptions, LLMResponse } from './llm/BaseLLM';
-import type { ProxyConfig } from './ProxyManager';
+import type { ProxyConfig } from './proxyManager';
 // 导入角色和剧本类型，确保与后端和前端使用的类型一致
-import type { AICharacter, Script, AIConfig } from '../src/types'; // 导入 AIConfig 类型
+import type { AICharacter, Script, AIConfig, AIConfigRef, ProviderDescriptor, RetryPolicy, ModelPrice, UsageRecord, UsageSummary, SessionSearchQuery, SessionSearchResult, CharacterCardFile, ScenarioBundle, KeyVaultStatus, StorageMigrationReport, BackupSnapshot, BackupItem, PromptTemplate, PromptTemplateBundle, PromptTemplateDefaults, LLMRequestRecord } from '../src/types'; // 导入 AIConfig 类型
 import { mainLogger as logger } from './utils/logger'; // 导入日志工具
 import { setupGlobalEncoding } from './utils/encoding'; // 导入编码工具
 
@@ -25,10 +25,32 @@ contextBridge.exposeInMainWorld('electronAPI', { // 使用不同的键名，避
   // 新增：删除聊天会话文件
   deleteChatSession: (fileName: string): Promise<{ success: boolean; error?: string }> =>
     ipcRenderer.invoke('delete-chat-session', fileName),
+  // 数据文件迁移报告 / 检查并升级所有数据文件
+  storageMigrationReport: (): Promise<{ success: boolean; data?: StorageMigrationReport; error?: string }> =>
+    ipcRenderer.invoke('storage-migration-report'),
+  storageMigrateAll: (): Promise<{ success: boolean; data?: StorageMigrationReport; error?: string }> =>
+    ipcRenderer.invoke('storage-migrate-all'),
+  // 数据目录快照：列出 / 立即备份 / 查看内容 / 恢复 (不传 items 时恢复全部) / 删除
+  backupList: (): Promise<{ success: boolean; data?: BackupSnapshot[]; error?: string }> =>
+    ipcRenderer.invoke('backup-list'),
+  backupCreate: (): Promise<{ success: boolean; data?: BackupSnapshot; error?: string }> =>
+    ipcRenderer.invoke('backup-create'),
+  backupItems: (snapshotId: string): Promise<{ success: boolean; data?: BackupItem[]; error?: string }> =>
+    ipcRenderer.invoke('backup-items', snapshotId),
+  backupRestore: (snapshotId: string, items?: string[]): Promise<{ success: boolean; data?: string[]; error?: string }> =>
+    ipcRenderer.invoke('backup-restore', snapshotId, items),
+  backupDelete: (snapshotId: string): Promise<{ success: boolean; error?: string }> =>
+    ipcRenderer.invoke('backup-delete', snapshotId),
 
   // --- Chat Session API (Save only, List/Delete/Read via Store API) ---
   saveChatSession: (sessionId: string, data: unknown): Promise<{ success: boolean; error?: string }> => // <-- 新增保存聊天会话 API
     ipcRenderer.invoke('save-chat-session', sessionId, data),
+  setChatSessionTags: (sessionId: string, tags: string[]): Promise<{ success: boolean; error?: string }> =>
+    ipcRenderer.invoke('set-chat-session-tags', sessionId, tags),
+  searchChatSessions: (query: SessionSearchQuery): Promise<{ success: boolean; data?: SessionSearchResult[]; error?: string }> =>
+    ipcRenderer.invoke('search-chat-sessions', query),
+  exportChatSession: (defaultFileName: string, content: string, filter: { name: string; extensions: string[] }): Promise<{ success: boolean; data?: string; error?: string }> =>
+    ipcRenderer.invoke('export-chat-session', defaultFileName, content, filter),
 
   // --- Character Data API ---
   listCharacters: (): Promise<{ success: boolean; data?: AICharacter[]; error?: string }> =>
@@ -37,6 +59,10 @@ contextBridge.exposeInMainWorld('electronAPI', { // 使用不同的键名，避
     ipcRenderer.invoke('save-character', character),
   deleteCharacter: (characterId: string): Promise<{ success: boolean; error?: string }> => // <-- 参数改为 characterId
     ipcRenderer.invoke('delete-character', characterId), // <-- 传递 characterId
+  characterCardImport: (): Promise<{ success: boolean; data?: CharacterCardFile[]; error?: string }> =>
+    ipcRenderer.invoke('character-card-import'),
+  characterCardExport: (defaultFileName: string, card: unknown, format: 'json' | 'png', avatar?: string): Promise<{ success: boolean; data?: string; error?: string }> =>
+    ipcRenderer.invoke('character-card-export', defaultFileName, card, format, avatar),
 
   // --- Script Data API ---
   listScripts: (): Promise<{ success: boolean; data?: Script[]; error?: string }> =>
@@ -45,6 +71,26 @@ contextBridge.exposeInMainWorld('electronAPI', { // 使用不同的键名，避
     ipcRenderer.invoke('save-script', script),
   deleteScript: (scriptId: string): Promise<{ success: boolean; error?: string }> => // <-- 参数改为 scriptId
     ipcRenderer.invoke('delete-script', scriptId), // <-- 传递 scriptId
+  scriptBundleExport: (defaultFileName: string, bundle: ScenarioBundle): Promise<{ success: boolean; data?: string; error?: string }> =>
+    ipcRenderer.invoke('script-bundle-export', defaultFileName, bundle),
+  scriptBundleImport: (): Promise<{ success: boolean; data?: unknown; error?: string }> =>
+    ipcRenderer.invoke('script-bundle-import'),
+
+  // --- 提示词模板 API ---
+  promptTemplateList: (): Promise<{ success: boolean; data?: PromptTemplate[]; error?: string }> =>
+    ipcRenderer.invoke('prompt-template-list'),
+  promptTemplateSave: (template: PromptTemplate): Promise<{ success: boolean; error?: string }> =>
+    ipcRenderer.invoke('prompt-template-save', template),
+  promptTemplateDelete: (templateId: string): Promise<{ success: boolean; error?: string }> =>
+    ipcRenderer.invoke('prompt-template-delete', templateId),
+  promptTemplateGetDefaults: (): Promise<{ success: boolean; data?: PromptTemplateDefaults; error?: string }> =>
+    ipcRenderer.invoke('prompt-template-get-defaults'),
+  promptTemplateSetDefaults: (defaults: PromptTemplateDefaults): Promise<{ success: boolean; error?: string }> =>
+    ipcRenderer.invoke('prompt-template-set-defaults', defaults),
+  promptTemplateExport: (defaultFileName: string, bundle: PromptTemplateBundle): Promise<{ success: boolean; data?: string; error?: string }> =>
+    ipcRenderer.invoke('prompt-template-export', defaultFileName, bundle),
+  promptTemplateImport: (): Promise<{ success: boolean; data?: unknown; error?: string }> =>
+    ipcRenderer.invoke('prompt-template-import'),
 
   // --- LLM 服务相关 API ---
   // 修改：函数名和返回类型以匹配 AIConfig[]
@@ -62,12 +108,24 @@ contextBridge.exposeInMainWorld('electronAPI', { // 使用不同的键名，避
 // 新增：调用聊天生成 API
    // 需要在调用处确保 options 符合 LLMChatOptions 结构 (从 './llm/BaseLLM' 导入)
    // 返回值 data 符合 LLMResponse 结构
-   llmGenerateChat: (providerId: string, options: LLMChatOptions): Promise<{ success: boolean; data?: LLMResponse; error?: string }> =>
-     ipcRenderer.invoke('llm-generate-chat', providerId, options),
+   // characterId 和 sessionId 用于记录用量；fallbacks 为备用配置链，主配置重试失败后按顺序使用
+   llmGenerateChat: (providerId: string, options: LLMChatOptions, characterId?: string, sessionId?: string, fallbacks?: AIConfigRef[]): Promise<{ success: boolean; data?: LLMResponse; error?: string }> =>
+     ipcRenderer.invoke('llm-generate-chat', providerId, options, characterId, sessionId, fallbacks),
   // 新增：调用流式聊天生成 API (只负责启动，实际数据通过 onLLMStreamChunk 接收)
-  // 修改：添加 characterId 参数
-  llmGenerateChatStream: (providerId: string, options: LLMChatOptions, characterId?: string): Promise<{ success: boolean; error?: string }> =>
-    ipcRenderer.invoke('llm-generate-chat-stream', providerId, options, characterId),
+  // 修改：添加 characterId 参数；sessionId 用于取消；fallbacks 为备用配置链
+  llmGenerateChatStream: (providerId: string, options: LLMChatOptions, characterId?: string, sessionId?: string, fallbacks?: AIConfigRef[]): Promise<{ success: boolean; error?: string }> =>
+    ipcRenderer.invoke('llm-generate-chat-stream', providerId, options, characterId, sessionId, fallbacks),
+  // 取消正在进行的生成请求 (流式与非流式，省略 characterId 时取消该会话下的所有请求)，返回被取消的请求数量
+  llmCancelStream: (sessionId: string, characterId?: string): Promise<{ success: boolean; data?: number; error?: string }> =>
+    ipcRenderer.invoke('llm-cancel-stream', sessionId, characterId),
+  // 读取会话请求日志中的一条记录 (实际发送给模型的提示词、消息和参数)，记录不存在时 data 为 null
+  llmGetRequestRecord: (sessionId: string, requestId: string): Promise<{ success: boolean; data?: LLMRequestRecord | null; error?: string }> =>
+    ipcRenderer.invoke('llm-get-request-record', sessionId, requestId),
+  // 获取和保存 LLM 请求的重试策略
+  llmGetRetryPolicy: (): Promise<{ success: boolean; data?: RetryPolicy; error?: string }> =>
+    ipcRenderer.invoke('llm-get-retry-policy'),
+  llmSetRetryPolicy: (policy: Partial<RetryPolicy>): Promise<{ success: boolean; data?: RetryPolicy; error?: string }> =>
+    ipcRenderer.invoke('llm-set-retry-policy', policy),
 // 新增：获取和保存自定义模型列表
   llmGetCustomModels: (providerId: string): Promise<{ success: boolean; data?: string[]; error?: string }> =>
     ipcRenderer.invoke('llm-get-custom-models', providerId),
@@ -94,9 +152,18 @@ contextBridge.exposeInMainWorld('electronAPI', { // 使用不同的键名，避
    // 新增：根据 ID 获取单个 AI 配置
    getAIConfigById: (configId: string): Promise<{ success: boolean; data?: AIConfig; error?: string }> =>
      ipcRenderer.invoke('get-ai-config-by-id', configId),
-   // 新增：获取支持的服务商列表
-   getSupportedServiceProviders: (): Promise<{ success: boolean; data?: string[]; error?: string }> =>
-     ipcRenderer.invoke('get-supported-service-providers'),
+   // API Key 密钥库 (主密码)
+   keyVaultStatus: (): Promise<{ success: boolean; data?: KeyVaultStatus; error?: string }> =>
+     ipcRenderer.invoke('key-vault-status'),
+   keyVaultSetup: (passphrase: string): Promise<{ success: boolean; data?: KeyVaultStatus; error?: string }> =>
+     ipcRenderer.invoke('key-vault-setup', passphrase),
+   keyVaultUnlock: (passphrase: string): Promise<{ success: boolean; data?: KeyVaultStatus; error?: string }> =>
+     ipcRenderer.invoke('key-vault-unlock', passphrase),
+   keyVaultReset: (): Promise<{ success: boolean; data?: KeyVaultStatus; error?: string }> =>
+     ipcRenderer.invoke('key-vault-reset'),
+   // 获取服务商注册表中的服务商描述 (配置模式、能力、默认模型)
+   getProviderDescriptors: (): Promise<{ success: boolean; data?: ProviderDescriptor[]; error?: string }> =>
+     ipcRenderer.invoke('get-provider-descriptors'),
 
      // 如果还需要通用的 on/off/send，可以在这里单独暴露，或者按需添加
      // on: (channel, listener) => { /* ... 安全实现 ... */ },
@@ -126,6 +193,29 @@ contextBridge.exposeInMainWorld('electronAPI', { // 使用不同的键名，避
     };
   },
 
+  // --- 用量统计 API ---
+  usageGetRecords: (): Promise<{ success: boolean; data?: UsageRecord[]; error?: string }> =>
+    ipcRenderer.invoke('usage-get-records'),
+  usageGetSessionSummary: (sessionId: string): Promise<{ success: boolean; data?: UsageSummary; error?: string }> =>
+    ipcRenderer.invoke('usage-get-session-summary', sessionId),
+  usageClear: (): Promise<{ success: boolean; error?: string }> =>
+    ipcRenderer.invoke('usage-clear'),
+  usageGetModelPrices: (): Promise<{ success: boolean; data?: ModelPrice[]; error?: string }> =>
+    ipcRenderer.invoke('usage-get-model-prices'),
+  usageSetModelPrices: (prices: ModelPrice[]): Promise<{ success: boolean; data?: ModelPrice[]; error?: string }> =>
+    ipcRenderer.invoke('usage-set-model-prices', prices),
+  // 每次生成结束并记录用量后触发
+  onUsageRecorded: (listener: (record: UsageRecord) => void): { dispose: () => void } => {
+    const channel = 'usage-recorded';
+    const internalListener = (_event: Electron.IpcRendererEvent, record: UsageRecord) => listener(record);
+    ipcRenderer.on(channel, internalListener);
+    return {
+      dispose: () => {
+        ipcRenderer.removeListener(channel, internalListener);
+      }
+    };
+  },
+
   // 日志 API
   logToFile: (level: string, message: string, ...args: unknown[]): void => {
     ipcRenderer.send('log-message', level, message, ...args);
@@ -0,0 +1,41 @@
+import fs from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+
+// Windows 上目标文件被其他程序 (例如杀毒软件) 短暂占用时，重命名会失败，稍后重试即可
+const RENAME_RETRY_CODES = new Set(['EPERM', 'EACCES', 'EBUSY']);
+const RENAME_ATTEMPTS = 5;
+const RENAME_RETRY_DELAY_MS = 50;
+
+const errorCode = (error: unknown): string | undefined =>
+  error && typeof error === 'object' && 'code' in error ? (error as { code: string }).code : undefined;
+
+/**
+ * 原子地写入文件：先写入同目录下的临时文件并刷新到磁盘，再重命名覆盖目标文件
+ * 写入过程中崩溃或断电时，目标文件要么是旧内容，要么是完整的新内容，不会只写了一半
+ */
+export async function writeFileAtomic(filePath: string, content: string | Buffer): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.${process.pid}.${crypto.randomBytes(4).toString('hex')}.tmp`;
+  try {
+    const handle = await fs.open(tempPath, 'w');
+    try {
+      await handle.writeFile(content, typeof content === 'string' ? 'utf8' : undefined);
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await fs.rename(tempPath, filePath);
+        return;
+      } catch (error) {
+        if (attempt >= RENAME_ATTEMPTS || !RENAME_RETRY_CODES.has(errorCode(error) ?? '')) throw error;
+        await new Promise(resolve => setTimeout(resolve, RENAME_RETRY_DELAY_MS * attempt));
+      }
+    }
+  } catch (error) {
+    await fs.rm(tempPath, { force: true }).catch(() => undefined);
+    throw error;
+  }
+}
@@ -0,0 +1,299 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { app } from 'electron';
+import { storageLogger as logger } from '../utils/logger';
+import { UTF8_OPTIONS } from '../utils/encoding';
+import { writeFileAtomic } from './atomicFile';
+import { REQUEST_LOG_DIR_NAME } from './requestLog';
+import type { BackupItem, BackupReason, BackupSnapshot } from '../../src/types';
+
+/**
+ * 数据目录快照
+ * 把 TheLLMAIImprovTheaterData 中的数据 (不含日志、请求日志和备份本身) 完整复制到 backups/snapshots/<快照 ID>，
+ * 每天自动一份、本次启动第一次迁移旧数据前一份、恢复前一份，按类型保留最近的若干份。
+ */
+
+const getStorageDir = () => path.join(app.getPath('userData'), 'TheLLMAIImprovTheaterData');
+const getSnapshotsDir = () => path.join(getStorageDir(), 'backups', 'snapshots');
+const SNAPSHOT_MANIFEST = '.snapshot.json';
+// 不放进快照的顶层目录 (请求日志只用于排查问题，体积随生成次数增长)
+const EXCLUDED_ENTRIES = new Set(['backups', 'logs', REQUEST_LOG_DIR_NAME]);
+const SNAPSHOT_ID_PATTERN = /^[A-Za-z0-9-]+$/;
+
+// 每种快照保留的份数
+const RETENTION: Record<BackupReason, number> = {
+  daily: 7,
+  'pre-migration': 5,
+  'pre-restore': 5,
+  manual: 10,
+};
+const DAILY_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+// 快照的创建、恢复和删除依次执行
+let queue: Promise<unknown> = Promise.resolve();
+
+function serialize<T>(task: () => Promise<T>): Promise<T> {
+  const result = queue.then(task);
+  queue = result.catch(() => undefined);
+  return result;
+}
+
+const isSnapshotFile = (name: string) => !name.endsWith('.tmp');
+
+/**
+ * 递归列出目录中的文件 (相对路径，使用 / 分隔)
+ */
+async function listFiles(dir: string, prefix = ''): Promise<string[]> {
+  const entries = await fs.readdir(dir, { withFileTypes: true });
+  const files: string[] = [];
+  for (const entry of entries) {
+    const relative = prefix ? `${prefix}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) {
+      files.push(...await listFiles(path.join(dir, entry.name), relative));
+    } else if (entry.isFile() && isSnapshotFile(entry.name)) {
+      files.push(relative);
+    }
+  }
+  return files;
+}
+
+async function takeSnapshot(reason: BackupReason): Promise<BackupSnapshot> {
+  const storageDir = getStorageDir();
+  const createdAt = Date.now();
+  const id = `${new Date(createdAt).toISOString().replace(/[:.]/g, '-')}-${reason}`;
+  const snapshotDir = path.join(getSnapshotsDir(), id);
+  await fs.mkdir(snapshotDir, { recursive: true });
+
+  const entries = (await fs.readdir(storageDir)).filter(entry => !EXCLUDED_ENTRIES.has(entry) && isSnapshotFile(entry));
+  for (const entry of entries) {
+    await fs.cp(path.join(storageDir, entry), path.join(snapshotDir, entry), { recursive: true, filter: source => isSnapshotFile(source) });
+  }
+
+  const files = (await listFiles(snapshotDir)).filter(file => file !== SNAPSHOT_MANIFEST);
+  let totalBytes = 0;
+  for (const file of files) {
+    totalBytes += (await fs.stat(path.join(snapshotDir, file))).size;
+  }
+  const snapshot: BackupSnapshot = { id, reason, createdAt, fileCount: files.length, totalBytes };
+  await writeFileAtomic(path.join(snapshotDir, SNAPSHOT_MANIFEST), JSON.stringify(snapshot, null, 2));
+  logger.info(`[备份] 已创建快照 ${id} (${files.length} 个文件)。`);
+  await pruneSnapshots(reason);
+  return snapshot;
+}
+
+async function readSnapshots(): Promise<BackupSnapshot[]> {
+  let ids: string[];
+  try {
+    ids = await fs.readdir(getSnapshotsDir());
+  } catch (error: unknown) {
+    if (error && typeof error === 'object' && 'code' in error && (error as { code: string }).code === 'ENOENT') return [];
+    throw error;
+  }
+  const snapshots: BackupSnapshot[] = [];
+  for (const id of ids) {
+    try {
+      snapshots.push(JSON.parse(await fs.readFile(path.join(getSnapshotsDir(), id, SNAPSHOT_MANIFEST), UTF8_OPTIONS)) as BackupSnapshot);
+    } catch {
+      // 没有清单的目录是未完成的快照，忽略
+    }
+  }
+  return snapshots.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+async function pruneSnapshots(reason: BackupReason): Promise<void> {
+  const expired = (await readSnapshots()).filter(snapshot => snapshot.reason === reason).slice(RETENTION[reason]);
+  for (const snapshot of expired) {
+    await fs.rm(path.join(getSnapshotsDir(), snapshot.id), { recursive: true, force: true });
+    logger.info(`[备份] 已删除过期快照 ${snapshot.id}。`);
+  }
+}
+
+/**
+ * @throws 快照 ID 无效或快照不存在时抛出错误
+ */
+async function resolveSnapshotDir(id: string): Promise<string> {
+  if (!SNAPSHOT_ID_PATTERN.test(id)) {
+    throw new Error('无效的快照 ID');
+  }
+  const snapshotDir = path.join(getSnapshotsDir(), id);
+  try {
+    await fs.access(path.join(snapshotDir, SNAPSHOT_MANIFEST));
+  } catch {
+    throw new Error(`快照 ${id} 不存在`);
+  }
+  return snapshotDir;
+}
+
+/**
+ * 列出所有快照 (最新的在前)
+ */
+export function listSnapshots(): Promise<BackupSnapshot[]> {
+  return serialize(readSnapshots);
+}
+
+/**
+ * 立即创建一份快照
+ */
+export function createSnapshot(reason: BackupReason): Promise<BackupSnapshot> {
+  return serialize(() => takeSnapshot(reason));
+}
+
+/**
+ * 今天还没有每日快照时创建一份
+ */
+export function ensureDailySnapshot(): Promise<BackupSnapshot | null> {
+  return serialize(async () => {
+    const today = new Date().toDateString();
+    const snapshots = await readSnapshots();
+    if (snapshots.some(snapshot => snapshot.reason === 'daily' && new Date(snapshot.createdAt).toDateString() === today)) {
+      return null;
+    }
+    return takeSnapshot('daily');
+  });
+}
+
+/**
+ * 启动时检查一次每日快照，之后每小时检查一次 (应用跨天运行时也会生成新的每日快照)
+ */
+export function startDailySnapshots(): void {
+  const check = () => ensureDailySnapshot().catch(error => logger.error('[备份] 创建每日快照失败:', error));
+  check();
+  setInterval(check, DAILY_CHECK_INTERVAL_MS).unref();
+}
+
+let preMigrationSnapshot: Promise<void> | null = null;
+
+/**
+ * 本次启动第一次迁移旧数据前给数据目录做一次快照，之后的迁移直接返回
+ * 快照失败不阻止迁移 (每个被迁移的文件另有单独的备份)
+ */
+export function ensurePreMigrationSnapshot(): Promise<void> {
+  if (!preMigrationSnapshot) {
+    preMigrationSnapshot = createSnapshot('pre-migration').then(
+      () => undefined,
+      error => logger.error('[备份] 迁移前创建快照失败:', error),
+    );
+  }
+  return preMigrationSnapshot;
+}
+
+function categorize(file: string): BackupItem['category'] {
+  const [dir] = file.split('/');
+  if (dir === 'characters') return 'character';
+  if (dir === 'scripts') return 'script';
+  if (dir === 'chats') return 'session';
+  if (dir === 'promptTemplates') return 'template';
+  return 'config';
+}
+
+/**
+ * 读取快照文件的显示名称 (带版本信息的文件取 data 中的内容)
+ */
+async function describeItem(filePath: string, file: string, category: BackupItem['category']): Promise<string> {
+  if (category === 'config' || !file.endsWith('.json')) return file;
+  try {
+    const raw = JSON.parse(await fs.readFile(filePath, UTF8_OPTIONS)) as Record<string, unknown>;
+    const data = (raw && typeof raw.version === 'number' && 'data' in raw ? raw.data : raw) as Record<string, unknown>;
+    if (category === 'character' && typeof data.name === 'string') return data.name;
+    if (category === 'script' && typeof data.title === 'string') return data.title;
+    if (category === 'template' && typeof data.name === 'string') return data.name;
+    if (category === 'session') {
+      const script = (data.chatConfig as { script?: { title?: string } } | undefined)?.script;
+      return `${script?.title || '无标题剧本'} (${path.basename(file, '.json')})`;
+    }
+  } catch {
+    // 无法解析时显示文件名
+  }
+  return file;
+}
+
+/**
+ * 列出快照中可以单独恢复的项
+ */
+export function listSnapshotItems(id: string): Promise<BackupItem[]> {
+  return serialize(async () => {
+    const snapshotDir = await resolveSnapshotDir(id);
+    const files = (await listFiles(snapshotDir)).filter(file => file !== SNAPSHOT_MANIFEST);
+    const items: BackupItem[] = [];
+    for (const file of files) {
+      const filePath = path.join(snapshotDir, file);
+      const category = categorize(file);
+      items.push({ path: file, category, label: await describeItem(filePath, file, category), modifiedAt: (await fs.stat(filePath)).mtimeMs });
+    }
+    return items;
+  });
+}
+
+/**
+ * 从快照恢复数据，恢复前会先给当前数据做一份快照
+ * @param items 要恢复的项 (快照中的相对路径)；不提供时恢复整个数据目录 (快照中没有的文件会被删除)
+ * @returns 已恢复的文件 (相对路径)
+ */
+export function restoreSnapshot(id: string, items?: string[]): Promise<string[]> {
+  return serialize(async () => {
+    const snapshotDir = await resolveSnapshotDir(id);
+    const storageDir = getStorageDir();
+    const files = (await listFiles(snapshotDir)).filter(file => file !== SNAPSHOT_MANIFEST);
+
+    let restored: string[];
+    if (items) {
+      restored = items.filter(item => files.includes(item));
+      if (restored.length !== items.length) {
+        throw new Error('快照中没有要恢复的部分项目');
+      }
+    } else {
+      restored = files;
+    }
+
+    await takeSnapshot('pre-restore');
+    if (!items) {
+      const entries = (await fs.readdir(storageDir)).filter(entry => !EXCLUDED_ENTRIES.has(entry));
+      for (const entry of entries) {
+        await fs.rm(path.join(storageDir, entry), { recursive: true, force: true });
+      }
+    }
+    for (const file of restored) {
+      await writeFileAtomic(path.join(storageDir, ...file.split('/')), await fs.readFile(path.join(snapshotDir, ...file.split('/'))));
+    }
+    logger.info(`[备份] 已从快照 ${id} 恢复 ${restored.length} 个文件${items ? '' : ' (整个数据目录)'}。`);
+    return restored;
+  });
+}
+
+/**
+ * 改写备份目录 (快照和迁移前的原文件备份) 中的文件，例如把其中仍为明文的 API Key 加密
+ * @param match 按备份目录中的相对路径 (使用 / 分隔) 选出要改写的文件
+ * @param transform 返回新内容；返回 null 表示不需要改写
+ * @returns 改写的文件数
+ */
+export function rewriteBackupFiles(match: (file: string) => boolean, transform: (content: string) => string | null): Promise<number> {
+  return serialize(async () => {
+    const backupsDir = path.join(getStorageDir(), 'backups');
+    let files: string[];
+    try {
+      files = (await listFiles(backupsDir)).filter(match);
+    } catch (error: unknown) {
+      if (error && typeof error === 'object' && 'code' in error && (error as { code: string }).code === 'ENOENT') return 0;
+      throw error;
+    }
+    let count = 0;
+    for (const file of files) {
+      const filePath = path.join(backupsDir, ...file.split('/'));
+      const content = transform(await fs.readFile(filePath, UTF8_OPTIONS));
+      if (content === null) continue;
+      await writeFileAtomic(filePath, content);
+      count++;
+    }
+    return count;
+  });
+}
+
+/**
+ * 删除快照
+ */
+export function deleteSnapshot(id: string): Promise<void> {
+  return serialize(async () => {
+    await fs.rm(await resolveSnapshotDir(id), { recursive: true, force: true });
+    logger.info(`[备份] 已删除快照 ${id}。`);
+  });
+}
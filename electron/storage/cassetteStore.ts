@@ -0,0 +1,117 @@
+import fs from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+import { app } from 'electron';
+import { storageLogger as logger } from '../utils/logger';
+import { UTF8_OPTIONS } from '../utils/encoding';
+import { writeFileAtomic } from './atomicFile';
+import type { GenerationParams } from '../../src/types';
+
+/**
+ * 录制的请求内容 (决定请求哈希的全部字段)
+ */
+export interface CassetteRequest {
+  model: string;
+  systemPrompt?: string;
+  messages: { role: 'user' | 'assistant'; content: string }[];
+  params: GenerationParams;
+}
+
+/**
+ * 录制集中的一次请求与响应，每条保存为 <录制集目录>/<请求哈希>.json
+ */
+export interface CassetteEntry {
+  hash: string; // 请求哈希
+  recordedAt: number; // 录制时间
+  request: CassetteRequest;
+  response: {
+    content: string;
+    modelUsed?: string;
+    finishReason?: string;
+    usage?: { promptTokens?: number; completionTokens?: number; totalTokens?: number };
+  };
+  chunks?: string[]; // 流式录制时的原始数据块，回放时按同样的分块输出
+}
+
+const HASH_PATTERN = /^[a-f0-9]{64}$/;
+
+/**
+ * 数据目录中指定名称的录制集目录 (cassettes/<名称>)
+ */
+export function getCassetteDir(name: string): string {
+  const safeName = name.replace(/[^A-Za-z0-9_-]/g, '_') || 'default';
+  return path.join(app.getPath('userData'), 'TheLLMAIImprovTheaterData', 'cassettes', safeName);
+}
+
+/**
+ * 计算请求哈希：模型、系统提示词、消息列表和生成参数完全相同的请求得到相同的哈希
+ * 是否流式不参与哈希，流式和非流式请求可以共用录制
+ */
+export function hashCassetteRequest(request: CassetteRequest): string {
+  const { params } = request;
+  // 固定字段顺序，保证同样的请求总是序列化为同样的文本
+  const canonical = JSON.stringify({
+    model: request.model,
+    systemPrompt: request.systemPrompt ?? '',
+    messages: request.messages.map(({ role, content }) => ({ role, content })),
+    params: {
+      temperature: params.temperature,
+      topP: params.topP,
+      maxTokens: params.maxTokens,
+      presencePenalty: params.presencePenalty,
+      frequencyPenalty: params.frequencyPenalty,
+      stopSequences: params.stopSequences,
+    },
+  });
+  return crypto.createHash('sha256').update(canonical).digest('hex');
+}
+
+/**
+ * 读取录制集中与哈希对应的一条录制
+ * @returns 没有录制时返回 null
+ */
+export async function readCassetteEntry(cassetteDir: string, hash: string): Promise<CassetteEntry | null> {
+  if (!HASH_PATTERN.test(hash)) return null;
+  try {
+    const content = await fs.readFile(path.join(cassetteDir, `${hash}.json`), UTF8_OPTIONS);
+    return JSON.parse(content) as CassetteEntry;
+  } catch (error: unknown) {
+    if (error && typeof error === 'object' && 'code' in error && (error as { code: string }).code === 'ENOENT') {
+      return null;
+    }
+    logger.error(`读取录制 ${hash} (${cassetteDir}) 失败:`, error);
+    throw error;
+  }
+}
+
+/**
+ * 保存一条录制 (同一请求再次录制时覆盖旧的录制)
+ */
+export async function writeCassetteEntry(cassetteDir: string, entry: CassetteEntry): Promise<void> {
+  await fs.mkdir(cassetteDir, { recursive: true });
+  await writeFileAtomic(path.join(cassetteDir, `${entry.hash}.json`), JSON.stringify(entry, null, 2));
+  logger.info(`已录制请求 ${entry.hash} (模型: ${entry.request.model}) 到 ${cassetteDir}`);
+}
+
+/**
+ * 列出录制集中录制过的模型
+ */
+export async function listCassetteModels(cassetteDir: string): Promise<string[]> {
+  let files: string[];
+  try {
+    files = await fs.readdir(cassetteDir);
+  } catch {
+    return [];
+  }
+  const models = new Set<string>();
+  for (const file of files) {
+    if (!file.endsWith('.json')) continue;
+    try {
+      const entry = JSON.parse(await fs.readFile(path.join(cassetteDir, file), UTF8_OPTIONS)) as CassetteEntry;
+      if (entry.request?.model) models.add(entry.request.model);
+    } catch {
+      logger.warn(`录制文件 ${file} 无法解析，已跳过。`);
+    }
+  }
+  return Array.from(models).sort();
+}
@@ -0,0 +1,150 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { app } from 'electron';
+import { storageLogger as logger } from '../utils/logger';
+import { UTF8_OPTIONS } from '../utils/encoding';
+import { DOCUMENT_MIGRATIONS, currentDocumentVersion } from './migrations';
+import { writeFileAtomic } from './atomicFile';
+import { ensurePreMigrationSnapshot } from './backupManager';
+import type { StorageMigrationEntry, StorageMigrationReport, StoredDocumentKind } from '../../src/types';
+
+/**
+ * 带版本信息的文档存储
+ * 角色、剧本、会话、提示词模板和 AI 配置保存为 { kind, version, data } 信封。读取时如果版本较旧，
+ * 按 migrations.ts 中的步骤逐步升级，先把原文件备份到 backups/migrations，再写回新版本。
+ */
+
+const getStorageDir = () => path.join(app.getPath('userData'), 'TheLLMAIImprovTheaterData');
+const MIGRATION_BACKUP_DIR = path.join('backups', 'migrations');
+
+// 数据目录中保存的文档 (用于一次性检查所有文件)
+const DOCUMENT_DIRECTORIES: [string, StoredDocumentKind][] = [
+  ['characters', 'character'], ['scripts', 'script'], ['chats', 'session'], ['promptTemplates', 'promptTemplate'],
+];
+const DOCUMENT_FILES: [string, StoredDocumentKind][] = [['aiConfigurations.json', 'aiConfigs']];
+
+interface DocumentEnvelope<T> {
+  kind: StoredDocumentKind;
+  version: number;
+  data: T;
+}
+
+// 本次启动以来迁移成功和失败的文件 (失败的文件在之后读取成功时移除)
+const migratedEntries: StorageMigrationEntry[] = [];
+const failedEntries = new Map<string, StorageMigrationEntry>();
+
+const isNotFoundError = (error: unknown): boolean =>
+  !!error && typeof error === 'object' && 'code' in error && (error as { code: string }).code === 'ENOENT';
+
+function isDocumentEnvelope(raw: unknown): raw is DocumentEnvelope<unknown> {
+  return typeof raw === 'object' && raw !== null && !Array.isArray(raw)
+    && typeof (raw as DocumentEnvelope<unknown>).kind === 'string'
+    && typeof (raw as DocumentEnvelope<unknown>).version === 'number'
+    && 'data' in raw;
+}
+
+/**
+ * 把读取到的 JSON 升级到当前版本
+ * @returns 当前版本的数据，以及文件原来的版本
+ * @throws 文档类型不符、版本比当前应用新或某一步迁移失败时抛出错误
+ */
+export function upgradeDocument(raw: unknown, kind: StoredDocumentKind): { data: unknown; fromVersion: number } {
+  const envelope = isDocumentEnvelope(raw) ? raw : null;
+  if (envelope && envelope.kind !== kind) {
+    throw new Error(`文档类型不符 (应为 ${kind}，实际为 ${envelope.kind})`);
+  }
+  const fromVersion = envelope ? envelope.version : 0;
+  const toVersion = currentDocumentVersion(kind);
+  if (fromVersion > toVersion) {
+    throw new Error(`文件由更新版本的应用保存 (版本 ${fromVersion}，当前支持到 ${toVersion})，请先升级应用`);
+  }
+  let data = envelope ? envelope.data : raw;
+  for (let version = fromVersion; version < toVersion; version++) {
+    try {
+      data = DOCUMENT_MIGRATIONS[kind][version](data);
+    } catch (error) {
+      throw new Error(`从版本 ${version} 升级到 ${version + 1} 失败: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  return { data, fromVersion };
+}
+
+/**
+ * 把文档写为当前版本的信封格式
+ */
+export async function writeDocument<T>(filePath: string, kind: StoredDocumentKind, data: T): Promise<void> {
+  const envelope: DocumentEnvelope<T> = { kind, version: currentDocumentVersion(kind), data };
+  await writeFileAtomic(filePath, JSON.stringify(envelope, null, 2));
+}
+
+async function backupOriginal(relativeFile: string, content: string, fromVersion: number): Promise<string> {
+  const parsed = path.parse(relativeFile);
+  const backupFile = path.join(MIGRATION_BACKUP_DIR, parsed.dir, `${parsed.name}.v${fromVersion}.${Date.now()}${parsed.ext}`);
+  const backupPath = path.join(getStorageDir(), backupFile);
+  await fs.mkdir(path.dirname(backupPath), { recursive: true });
+  await fs.writeFile(backupPath, content, UTF8_OPTIONS);
+  return backupFile;
+}
+
+/**
+ * 读取文档，必要时升级到当前版本并写回 (原文件先备份；本次启动第一次迁移前还会给整个数据目录做一次快照)
+ * @throws 文件不存在时抛出原始的 ENOENT 错误；解析或迁移失败时记录到迁移报告并抛出错误 (原文件保持不变)
+ */
+export async function readDocument<T>(filePath: string, kind: StoredDocumentKind): Promise<T> {
+  const content = await fs.readFile(filePath, UTF8_OPTIONS);
+  const relativeFile = path.relative(getStorageDir(), filePath);
+  const toVersion = currentDocumentVersion(kind);
+  let raw: unknown;
+  let upgraded: { data: unknown; fromVersion: number };
+  try {
+    raw = JSON.parse(content);
+    upgraded = upgradeDocument(raw, kind);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const fromVersion = isDocumentEnvelope(raw) ? raw.version : 0;
+    failedEntries.set(relativeFile, { file: relativeFile, kind, fromVersion, toVersion, error: message, at: Date.now() });
+    logger.error(`[数据迁移] 读取 ${relativeFile} 失败: ${message}`);
+    throw new Error(`${relativeFile}: ${message}`);
+  }
+  failedEntries.delete(relativeFile);
+
+  if (upgraded.fromVersion < toVersion) {
+    await ensurePreMigrationSnapshot();
+    const backupFile = await backupOriginal(relativeFile, content, upgraded.fromVersion);
+    await writeDocument(filePath, kind, upgraded.data);
+    migratedEntries.push({ file: relativeFile, kind, fromVersion: upgraded.fromVersion, toVersion, backupFile, at: Date.now() });
+    logger.info(`[数据迁移] ${relativeFile} 已从版本 ${upgraded.fromVersion} 升级到 ${toVersion}，原文件备份为 ${backupFile}`);
+  }
+  return upgraded.data as T;
+}
+
+/**
+ * 本次启动以来的迁移报告
+ */
+export function getMigrationReport(): StorageMigrationReport {
+  return { migrated: [...migratedEntries], failed: Array.from(failedEntries.values()) };
+}
+
+/**
+ * 读取数据目录中的所有文档，把旧版本文件全部升级，并返回迁移报告
+ */
+export async function migrateAllDocuments(): Promise<StorageMigrationReport> {
+  const storageDir = getStorageDir();
+  const targets: [string, StoredDocumentKind][] = DOCUMENT_FILES.map(([fileName, kind]) => [path.join(storageDir, fileName), kind]);
+  for (const [dirName, kind] of DOCUMENT_DIRECTORIES) {
+    try {
+      const files = await fs.readdir(path.join(storageDir, dirName));
+      files.filter(file => file.endsWith('.json')).forEach(file => targets.push([path.join(storageDir, dirName, file), kind]));
+    } catch (error) {
+      if (!isNotFoundError(error)) throw error;
+    }
+  }
+  for (const [filePath, kind] of targets) {
+    try {
+      await readDocument(filePath, kind);
+    } catch {
+      // 解析或迁移失败已记录在报告中，文件不存在时直接跳过
+    }
+  }
+  return getMigrationReport();
+}
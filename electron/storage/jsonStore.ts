@@ -5,11 +5,13 @@ import { storageLogger as logger } from '../utils/logger'; // 导入日志工具
 import { UTF8_OPTIONS } from '../utils/encoding'; // 导入编码工具
 import { AIConfig } from '../../src/types'; // 导入 AIConfig 类型
 import crypto from 'crypto'; // 用于生成 UUID
+import { readDocument, writeDocument } from './documentStore';
+import { writeFileAtomic } from './atomicFile';
 
 // 定义存储目录，使用 userData 目录确保数据持久性
 const storageDir = path.join(app.getPath('userData'), 'TheLLMAIImprovTheaterData');
-const AI_CONFIG_FILE_NAME = 'aiConfigurations.json'; // AI配置存储文件名
-const LEGACY_AI_CONFIG_FILE_NAME = 'legacy_ai_config.json'; // 假设的旧配置文件名，用于迁移
+export const AI_CONFIG_FILE_NAME = 'aiConfigurations.json'; // AI配置存储文件名
+export const LEGACY_AI_CONFIG_FILE_NAME = 'legacy_ai_config.json'; // 假设的旧配置文件名，用于迁移
 
 /**
  * 确保存储目录存在，如果不存在则创建。
@@ -39,9 +41,11 @@ async function ensureStorageDirExists(): Promise<void> {
 
 /**
  * 从指定的 JSON 文件读取数据。
+ * 文件无法解析时先把它改名为 <文件名>.corrupt-<时间戳> 保留下来，避免之后的写入覆盖原有数据。
  * @param fileName 文件名
- * @param defaultValue 如果文件不存在或为空或解析失败，返回的默认值
+ * @param defaultValue 如果文件不存在、为空或解析失败，返回的默认值
  * @returns 解析后的数据或默认值
+ * @throws 读取文件本身出错 (例如没有权限) 时抛出错误
  */
 export async function readStore<T>(fileName: string, defaultValue: T): Promise<T> {
   await ensureStorageDirExists();
@@ -56,7 +60,9 @@ export async function readStore<T>(fileName: string, defaultValue: T): Promise<T
     try {
       return JSON.parse(fileContent) as T;
     } catch (parseError) {
-       logger.error(`解析JSON文件失败 ${filePath}:`, parseError);
+       const corruptPath = `${filePath}.corrupt-${Date.now()}`;
+       logger.error(`解析JSON文件失败 ${filePath}，已另存为 ${corruptPath}:`, parseError);
+       await fs.rename(filePath, corruptPath);
        return defaultValue;
     }
   } catch (error: unknown) {
@@ -65,7 +71,7 @@ export async function readStore<T>(fileName: string, defaultValue: T): Promise<T
       return defaultValue;
     }
     logger.error(`读取存储文件失败 ${filePath}:`, error);
-    return defaultValue;
+    throw new Error(`读取存储文件失败: ${fileName}. 原因: ${error instanceof Error ? error.message : String(error)}`);
   }
 }
 
@@ -80,7 +86,7 @@ export async function writeStore<T>(fileName: string, data: T): Promise<void> {
 
   try {
     const fileContent = JSON.stringify(data, null, 2); // 格式化JSON输出
-    await fs.writeFile(filePath, fileContent, UTF8_OPTIONS);
+    await writeFileAtomic(filePath, fileContent); // 先写临时文件再重命名，避免写入中途崩溃损坏文件
     logger.info(`数据已成功写入 ${filePath}`);
   } catch (error: unknown) {
     logger.error(`写入存储文件失败 ${filePath}:`, error);
@@ -125,10 +131,9 @@ async function migrateLegacyAIConfigs(): Promise<AIConfig[]> {
 
     if (migratedConfigs.length > 0) {
       // 将迁移后的配置写入新的存储文件
-      await writeStore(AI_CONFIG_FILE_NAME, migratedConfigs);
+      await saveAIConfigs(migratedConfigs);
+      // 旧的配置文件中是明文 API Key，在 API Key 加密保存后由密钥库删除 (见 deleteLegacyAIConfigFile)
       logger.info(`旧AI配置已成功迁移到 ${AI_CONFIG_FILE_NAME}`);
-      // 可选：删除或重命名旧的配置文件，防止重复迁移
-      // await fs.rename(path.join(storageDir, LEGACY_AI_CONFIG_FILE_NAME), path.join(storageDir, `${LEGACY_AI_CONFIG_FILE_NAME}.migrated`));
     }
     return migratedConfigs;
   } catch (error) {
@@ -138,12 +143,44 @@ async function migrateLegacyAIConfigs(): Promise<AIConfig[]> {
 }
 
 
+/**
+ * 删除旧格式的 AI 配置文件 (其中的 API Key 为明文)
+ * @returns 是否删除了文件 (文件不存在时为 false)
+ */
+export async function deleteLegacyAIConfigFile(): Promise<boolean> {
+  try {
+    await fs.unlink(path.join(storageDir, LEGACY_AI_CONFIG_FILE_NAME));
+    logger.info(`已删除旧的AI配置文件 ${LEGACY_AI_CONFIG_FILE_NAME}。`);
+    return true;
+  } catch (error: unknown) {
+    if (error && typeof error === 'object' && 'code' in error && (error as { code: string }).code === 'ENOENT') {
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * 读取 AI 配置文件 (带版本信息，旧版本文件读取时自动升级)
+ * @throws 文件存在但无法解析或升级时抛出错误，避免之后的保存覆盖原有配置
+ */
+async function readAIConfigFile(): Promise<AIConfig[]> {
+  try {
+    return await readDocument<AIConfig[]>(path.join(storageDir, AI_CONFIG_FILE_NAME), 'aiConfigs');
+  } catch (error: unknown) {
+    if (error && typeof error === 'object' && 'code' in error && (error as { code: string }).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+}
+
 /**
  * 获取所有AI配置。会先尝试迁移旧配置（如果尚未迁移且存在旧配置）。
  * @returns {Promise<AIConfig[]>} AI配置数组
  */
 export async function getAIConfigs(): Promise<AIConfig[]> {
-  let configs = await readStore<AIConfig[]>(AI_CONFIG_FILE_NAME, []);
+  let configs = await readAIConfigFile();
   // 简单检查是否需要迁移：如果新配置文件为空，且旧配置文件存在，则尝试迁移
   if (configs.length === 0) {
       try {
@@ -163,6 +200,15 @@ export async function getAIConfigs(): Promise<AIConfig[]> {
   return configs;
 }
 
+/**
+ * 覆盖保存全部AI配置。
+ * @param configs 完整的AI配置数组
+ */
+export async function saveAIConfigs(configs: AIConfig[]): Promise<void> {
+  await ensureStorageDirExists();
+  await writeDocument(path.join(storageDir, AI_CONFIG_FILE_NAME), 'aiConfigs', configs);
+}
+
 /**
  * 添加一个新的AI配置。
  * @param configData 要添加的配置数据 (除了id，id会自动生成)
@@ -178,7 +224,7 @@ export async function addAIConfig(configData: Omit<AIConfig, 'id'>): Promise<AIC
     id: crypto.randomUUID(), // 自动生成唯一ID
   };
   configs.push(newConfig);
-  await writeStore(AI_CONFIG_FILE_NAME, configs);
+  await saveAIConfigs(configs);
   logger.info(`已添加新的AI配置: ${newConfig.name} (ID: ${newConfig.id})`);
   return newConfig;
 }
@@ -212,7 +258,7 @@ export async function updateAIConfig(id: string, updates: Partial<Omit<AIConfig,
   const updatedConfig = { ...configs[configIndex], ...updates, id };
   configs[configIndex] = updatedConfig;
 
-  await writeStore(AI_CONFIG_FILE_NAME, configs);
+  await saveAIConfigs(configs);
   logger.info(`AI配置已更新: ${updatedConfig.name} (ID: ${id})`);
   return updatedConfig;
 }
@@ -232,7 +278,7 @@ export async function deleteAIConfig(id: string): Promise<boolean> {
     return false; // 未找到，未删除
   }
 
-  await writeStore(AI_CONFIG_FILE_NAME, filteredConfigs);
+  await saveAIConfigs(filteredConfigs);
   logger.info(`AI配置已删除 (ID: ${id})`);
   return true;
 }
@@ -0,0 +1,258 @@
+import crypto from 'crypto';
+import { storageLogger as logger } from '../utils/logger';
+import {
+  AI_CONFIG_FILE_NAME, LEGACY_AI_CONFIG_FILE_NAME, deleteLegacyAIConfigFile, getAIConfigs, readStore, saveAIConfigs, writeStore,
+} from './jsonStore';
+import { rewriteBackupFiles } from './backupManager';
+import type { AIConfig, KeyVaultStatus } from '../../src/types';
+
+/**
+ * API Key 加密存储
+ * 主密码经 scrypt 派生出 256 位密钥，API Key 使用 AES-256-GCM 加密后写入 aiConfigurations.json。
+ * 派生出的密钥只保存在内存中，每次启动应用后需要输入一次主密码解锁。
+ * 解锁后还会删除旧格式的明文配置文件，并加密快照和迁移备份中 AI 配置文件副本里的明文 API Key。
+ */
+
+const KEY_VAULT_FILE_NAME = 'keyVault.json';
+const KEY_VAULT_VERSION = 1;
+const ENCRYPTED_PREFIX = 'enc:v1:';
+// 发送给渲染进程的掩码前缀，渲染进程原样提交时表示 "不修改 API Key"
+const MASKED_SECRET_PREFIX = '••••••••';
+// 用于校验主密码是否正确的固定明文
+const VERIFIER_TEXT = 'improv-theater-key-vault';
+
+const SCRYPT_PARAMS = { N: 1 << 15, r: 8, p: 1 };
+const SCRYPT_MAXMEM = 64 * 1024 * 1024;
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+
+interface KeyVaultFile {
+  version: number;
+  kdf: { name: 'scrypt'; salt: string; N: number; r: number; p: number };
+  verifier: string; // 用主密码加密的 VERIFIER_TEXT
+}
+
+let masterKey: Buffer | null = null;
+
+function deriveKey(passphrase: string, kdf: KeyVaultFile['kdf']): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    crypto.scrypt(passphrase, Buffer.from(kdf.salt, 'base64'), KEY_LENGTH, { N: kdf.N, r: kdf.r, p: kdf.p, maxmem: SCRYPT_MAXMEM }, (error, key) => {
+      if (error) reject(error);
+      else resolve(key);
+    });
+  });
+}
+
+function encryptWithKey(key: Buffer, plainText: string): string {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+  const data = Buffer.concat([cipher.update(plainText, 'utf8'), cipher.final()]);
+  return `${ENCRYPTED_PREFIX}${[iv, cipher.getAuthTag(), data].map(part => part.toString('base64')).join(':')}`;
+}
+
+/**
+ * @throws 密文被篡改或密钥不正确时抛出错误 (GCM 认证失败)
+ */
+function decryptWithKey(key: Buffer, value: string): string {
+  const [iv, tag, data] = value.slice(ENCRYPTED_PREFIX.length).split(':').map(part => Buffer.from(part, 'base64'));
+  if (!iv || !tag || !data) {
+    throw new Error('加密数据格式无效');
+  }
+  const decipher = crypto.createDecipheriv('aes-256-gcm', key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(data), decipher.final()]).toString('utf8');
+}
+
+const readVaultFile = () => readStore<KeyVaultFile | null>(KEY_VAULT_FILE_NAME, null);
+
+export const isEncryptedSecret = (value: string | undefined): boolean => !!value && value.startsWith(ENCRYPTED_PREFIX);
+
+export const isMaskedSecret = (value: string | undefined): boolean => !!value && value.startsWith(MASKED_SECRET_PREFIX);
+
+/**
+ * 获取密钥库状态
+ */
+export async function getKeyVaultStatus(): Promise<KeyVaultStatus> {
+  const [vault, configs] = await Promise.all([readVaultFile(), getAIConfigs()]);
+  return {
+    initialized: !!vault,
+    unlocked: masterKey !== null,
+    plaintextKeyCount: configs.filter(config => config.apiKey && !isEncryptedSecret(config.apiKey)).length,
+  };
+}
+
+/**
+ * 把仍以明文保存的 API Key 加密 (首次解锁时迁移旧配置)
+ * @returns 加密的 API Key 数量
+ */
+async function encryptPlaintextApiKeys(key: Buffer): Promise<number> {
+  const configs = await getAIConfigs();
+  let count = 0;
+  const updated = configs.map(config => {
+    if (!config.apiKey || isEncryptedSecret(config.apiKey)) return config;
+    count++;
+    return { ...config, apiKey: encryptWithKey(key, config.apiKey) };
+  });
+  if (count > 0) {
+    await saveAIConfigs(updated);
+    logger.info(`[密钥库] 已加密 ${count} 个明文保存的 API Key。`);
+  }
+  return count;
+}
+
+/**
+ * 备份目录中的 AI 配置文件副本：快照中的原样副本，以及迁移备份 (<文件名>.v<版本>.<时间戳>.json)
+ */
+function isAIConfigCopy(file: string): boolean {
+  const name = file.slice(file.lastIndexOf('/') + 1);
+  return [AI_CONFIG_FILE_NAME, LEGACY_AI_CONFIG_FILE_NAME].some(fileName => {
+    const base = fileName.replace(/\.json$/, '');
+    return name === fileName || (name.startsWith(`${base}.v`) && name.endsWith('.json'));
+  });
+}
+
+/**
+ * 加密 JSON 中所有明文的 apiKey 字段 (AI 配置的各种旧格式都适用)
+ * @returns 加密后的 JSON；无法解析或没有明文 API Key 时为 null
+ */
+function encryptApiKeysInJson(key: Buffer, content: string): string | null {
+  let changed = false;
+  const visit = (value: unknown): unknown => {
+    if (Array.isArray(value)) return value.map(visit);
+    if (!value || typeof value !== 'object') return value;
+    return Object.fromEntries(Object.entries(value).map(([field, fieldValue]) => {
+      if (field === 'apiKey' && typeof fieldValue === 'string' && fieldValue && !isEncryptedSecret(fieldValue)) {
+        changed = true;
+        return [field, encryptWithKey(key, fieldValue)];
+      }
+      return [field, visit(fieldValue)];
+    }));
+  };
+  try {
+    const encrypted = visit(JSON.parse(content));
+    return changed ? JSON.stringify(encrypted, null, 2) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 清除 API Key 的明文副本：删除已迁移的旧格式配置文件，并加密备份目录中 AI 配置文件副本里的明文 API Key
+ * 失败只记录日志，不影响解锁
+ */
+async function scrubPlaintextCopies(key: Buffer): Promise<void> {
+  try {
+    await deleteLegacyAIConfigFile();
+    const count = await rewriteBackupFiles(isAIConfigCopy, content => encryptApiKeysInJson(key, content));
+    if (count > 0) {
+      logger.info(`[密钥库] 已加密 ${count} 个备份文件中明文保存的 API Key。`);
+    }
+  } catch (error) {
+    logger.error('[密钥库] 清除明文 API Key 的副本失败:', error);
+  }
+}
+
+/**
+ * 首次设置主密码，创建密钥库并加密已有的明文 API Key
+ * @throws 已设置过主密码时抛出错误
+ */
+export async function setupKeyVault(passphrase: string): Promise<KeyVaultStatus> {
+  if (await readVaultFile()) {
+    throw new Error('已设置过主密码');
+  }
+  if (!passphrase) {
+    throw new Error('主密码不能为空');
+  }
+  const kdf: KeyVaultFile['kdf'] = { name: 'scrypt', salt: crypto.randomBytes(16).toString('base64'), ...SCRYPT_PARAMS };
+  const key = await deriveKey(passphrase, kdf);
+  await writeStore<KeyVaultFile>(KEY_VAULT_FILE_NAME, { version: KEY_VAULT_VERSION, kdf, verifier: encryptWithKey(key, VERIFIER_TEXT) });
+  masterKey = key;
+  logger.info('[密钥库] 主密码已设置。');
+  await encryptPlaintextApiKeys(key);
+  await scrubPlaintextCopies(key);
+  return getKeyVaultStatus();
+}
+
+/**
+ * 用主密码解锁密钥库，并加密仍以明文保存的 API Key
+ * @throws 尚未设置主密码或主密码错误时抛出错误
+ */
+export async function unlockKeyVault(passphrase: string): Promise<KeyVaultStatus> {
+  const vault = await readVaultFile();
+  if (!vault) {
+    throw new Error('尚未设置主密码');
+  }
+  const key = await deriveKey(passphrase, vault.kdf);
+  try {
+    if (decryptWithKey(key, vault.verifier) !== VERIFIER_TEXT) throw new Error('verifier mismatch');
+  } catch {
+    logger.warn('[密钥库] 解锁失败：主密码错误。');
+    throw new Error('主密码错误');
+  }
+  masterKey = key;
+  logger.info('[密钥库] 已解锁。');
+  await encryptPlaintextApiKeys(key);
+  await scrubPlaintextCopies(key);
+  return getKeyVaultStatus();
+}
+
+/**
+ * 忘记主密码时重置密钥库：删除主密码，并清空所有已加密的 API Key (需要重新填写)
+ */
+export async function resetKeyVault(): Promise<KeyVaultStatus> {
+  const configs = await getAIConfigs();
+  await saveAIConfigs(configs.map(config => (isEncryptedSecret(config.apiKey) ? { ...config, apiKey: '' } : config)));
+  await writeStore<KeyVaultFile | null>(KEY_VAULT_FILE_NAME, null);
+  masterKey = null;
+  logger.warn('[密钥库] 密钥库已重置，已加密的 API Key 已清空。');
+  return getKeyVaultStatus();
+}
+
+/**
+ * 加密要保存的 API Key (空值保持为空)
+ * @throws 密钥库未设置或未解锁时抛出错误
+ */
+export async function encryptApiKey(apiKey: string | undefined): Promise<string> {
+  if (!apiKey) return '';
+  if (!masterKey) {
+    throw new Error((await readVaultFile()) ? 'API Key 已加密保存，请先输入主密码解锁' : '请先设置主密码，API Key 将加密保存');
+  }
+  return encryptWithKey(masterKey, apiKey);
+}
+
+/**
+ * 返回带有明文 API Key 的配置 (仅在主进程中用于创建服务实例)
+ * @throws 密钥库未解锁时抛出错误
+ */
+export function revealAIConfig(config: AIConfig): AIConfig {
+  if (!isEncryptedSecret(config.apiKey)) return config;
+  if (!masterKey) {
+    throw new Error('API Key 已加密保存，请先输入主密码解锁');
+  }
+  return { ...config, apiKey: decryptWithKey(masterKey, config.apiKey) };
+}
+
+/**
+ * 返回 API Key 被掩码的配置 (发送给渲染进程)
+ * 已解锁时保留 API Key 末尾 4 个字符，方便区分不同的 Key
+ */
+export function maskAIConfig(config: AIConfig): AIConfig {
+  if (!config.apiKey) return config;
+  let suffix = '';
+  try {
+    const plainText = isEncryptedSecret(config.apiKey) ? (masterKey ? decryptWithKey(masterKey, config.apiKey) : '') : config.apiKey;
+    suffix = plainText.length > 8 ? plainText.slice(-4) : '';
+  } catch (error) {
+    logger.error(`[密钥库] 解密配置 ${config.id} 的 API Key 失败:`, error);
+  }
+  return { ...config, apiKey: `${MASKED_SECRET_PREFIX}${suffix}` };
+}
+
+export const isKeyVaultUnlocked = (): boolean => masterKey !== null;
+
+/**
+ * 锁定密钥库 (密钥库文件被替换后需要重新输入主密码)
+ */
+export function lockKeyVault(): void {
+  masterKey = null;
+}
@@ -0,0 +1,76 @@
+import type { StoredDocumentKind } from '../../src/types';
+
+/**
+ * 持久化数据的结构版本与迁移步骤
+ * 每种文档的 migrations[i] 把版本 i 的数据升级到版本 i + 1，读取时按顺序逐步执行；
+ * 版本 0 表示没有版本信息的旧文件 (直接保存的原始 JSON)。
+ * 修改 AICharacter、Script、ChatPageStateSnapshot、AIConfig 或 PromptTemplate 的结构时，在对应列表末尾追加一步迁移即可。
+ */
+
+export type Migration = (data: unknown) => unknown;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const asRecord = (value: unknown, kind: string): Record<string, unknown> => {
+  if (!isRecord(value)) throw new Error(`${kind}数据不是对象`);
+  return value;
+};
+
+const stringArray = (value: unknown): string[] | undefined =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : undefined;
+
+// 版本 0 → 1：补全必填字段，去掉类型不正确的可选字段
+const characterV1: Migration = raw => {
+  const character = { ...asRecord(raw, '角色') };
+  if (typeof character.id !== 'string' || typeof character.name !== 'string') throw new Error('角色缺少 ID 或姓名');
+  if (typeof character.personality !== 'string') character.personality = '';
+  if (character.talkativeness !== undefined && typeof character.talkativeness !== 'number') delete character.talkativeness;
+  return character;
+};
+
+const scriptV1: Migration = raw => {
+  const script = { ...asRecord(raw, '剧本') };
+  if (typeof script.id !== 'string' || typeof script.title !== 'string') throw new Error('剧本缺少 ID 或标题');
+  script.characterIds = stringArray(script.characterIds) ?? [];
+  if (script.tags !== undefined) script.tags = stringArray(script.tags) ?? [];
+  return script;
+};
+
+const sessionV1: Migration = raw => {
+  const snapshot = { ...asRecord(raw, '会话') };
+  if (!isRecord(snapshot.chatConfig) || typeof snapshot.chatConfig.mode !== 'string') throw new Error('会话缺少聊天模式信息');
+  if (!Array.isArray(snapshot.messages)) snapshot.messages = [];
+  if (typeof snapshot.inputValue !== 'string') snapshot.inputValue = '';
+  if (snapshot.tags !== undefined) snapshot.tags = stringArray(snapshot.tags) ?? [];
+  return snapshot;
+};
+
+const aiConfigsV1: Migration = raw => {
+  if (!Array.isArray(raw)) throw new Error('AI 配置数据不是数组');
+  return raw.filter(isRecord).map(config => ({ ...config, apiKey: typeof config.apiKey === 'string' ? config.apiKey : '' }));
+};
+
+const promptTemplateV1: Migration = raw => {
+  const template = { ...asRecord(raw, '提示词模板') };
+  if (typeof template.id !== 'string' || typeof template.name !== 'string' || typeof template.mode !== 'string') {
+    throw new Error('提示词模板缺少 ID、名称或聊天模式');
+  }
+  if (typeof template.prePrompt !== 'string') template.prePrompt = '';
+  if (typeof template.postPrompt !== 'string') template.postPrompt = '';
+  delete template.builtIn;
+  return template;
+};
+
+export const DOCUMENT_MIGRATIONS: Record<StoredDocumentKind, Migration[]> = {
+  character: [characterV1],
+  script: [scriptV1],
+  session: [sessionV1],
+  aiConfigs: [aiConfigsV1],
+  promptTemplate: [promptTemplateV1],
+};
+
+/**
+ * 文档的当前版本 (即迁移步骤的数量)
+ */
+export const currentDocumentVersion = (kind: StoredDocumentKind): number => DOCUMENT_MIGRATIONS[kind].length;
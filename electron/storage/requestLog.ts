@@ -0,0 +1,64 @@
+import fs from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+import { app } from 'electron';
+import { storageLogger as logger } from '../utils/logger';
+import { UTF8_OPTIONS } from '../utils/encoding';
+import type { LLMRequestRecord } from '../../src/types';
+
+// 每个会话一个请求日志文件，JSON Lines 格式 (每行一条记录)，只追加写入
+export const REQUEST_LOG_DIR_NAME = 'requestLogs';
+const getRequestLogDir = () => path.join(app.getPath('userData'), 'TheLLMAIImprovTheaterData', REQUEST_LOG_DIR_NAME);
+// 会话 ID 只保留安全字符后作为文件名，避免路径穿越
+const getRequestLogPath = (sessionId: string) => path.join(getRequestLogDir(), `${sessionId.replace(/[^A-Za-z0-9_-]/g, '_')}.jsonl`);
+
+/**
+ * 向会话的请求日志追加一条记录
+ * @param entry 不含 id 的记录内容
+ * @returns 完整的请求记录
+ */
+export async function appendRequestRecord(entry: Omit<LLMRequestRecord, 'id'>): Promise<LLMRequestRecord> {
+  const record: LLMRequestRecord = { id: crypto.randomUUID(), ...entry };
+  const logPath = getRequestLogPath(record.sessionId);
+  await fs.mkdir(path.dirname(logPath), { recursive: true });
+  await fs.appendFile(logPath, JSON.stringify(record) + '\n', UTF8_OPTIONS);
+  return record;
+}
+
+/**
+ * 读取会话请求日志中的一条记录
+ * @returns 记录不存在 (或日志文件不存在) 时返回 null
+ */
+export async function readRequestRecord(sessionId: string, requestId: string): Promise<LLMRequestRecord | null> {
+  let content: string;
+  try {
+    content = await fs.readFile(getRequestLogPath(sessionId), UTF8_OPTIONS);
+  } catch (error: unknown) {
+    if (error && typeof error === 'object' && 'code' in error && (error as { code: string }).code === 'ENOENT') {
+      return null;
+    }
+    logger.error(`读取会话 ${sessionId} 的请求日志失败:`, error);
+    throw error;
+  }
+
+  const lines = content.split('\n');
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index];
+    // 先用 ID 粗筛，避免解析整个日志
+    if (!line.trim() || !line.includes(requestId)) continue;
+    try {
+      const record = JSON.parse(line) as LLMRequestRecord;
+      if (record.id === requestId) return record;
+    } catch {
+      logger.warn(`会话 ${sessionId} 的请求日志第 ${index + 1} 行无法解析，已跳过。`);
+    }
+  }
+  return null;
+}
+
+/**
+ * 删除会话的请求日志 (日志不存在时视为成功)
+ */
+export async function deleteRequestLog(sessionId: string): Promise<void> {
+  await fs.rm(getRequestLogPath(sessionId), { force: true });
+}
@@ -0,0 +1,342 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { app } from 'electron';
+import { storageLogger as logger } from '../utils/logger';
+import { readStore, writeStore } from './jsonStore';
+import { readDocument } from './documentStore';
+import { readUsageRecords } from './usageLedger';
+import { countBranches } from '../../src/utils/messageTree';
+import type {
+  ChatMessage,
+  ChatPageStateSnapshot,
+  SessionIndexEntry,
+  SessionSearchHit,
+  SessionSearchQuery,
+  SessionSearchResult,
+  UsageRecord,
+} from '../../src/types';
+
+// 会话索引保存在存储目录根下，记录每个会话的摘要信息，历史记录页无需逐个读取会话文件
+const SESSION_INDEX_FILE_NAME = 'sessionIndex.json';
+const SESSION_INDEX_VERSION = 1;
+const getChatsDir = () => path.join(app.getPath('userData'), 'TheLLMAIImprovTheaterData', 'chats');
+
+// 每个会话最多返回的搜索命中数，以及命中片段前后保留的字数
+const MAX_HITS_PER_SESSION = 5;
+const SNIPPET_CONTEXT = 40;
+
+interface SessionIndexFile {
+  version: number;
+  sessions: Record<string, SessionIndexEntry>;
+}
+
+let cache: Record<string, SessionIndexEntry> | null = null;
+
+/**
+ * 会话中可搜索的消息：当前路径上的消息在前 (pathIndex 为在路径中的位置)，其他分支的消息按时间排在后面 (pathIndex 为 -1)
+ */
+interface SearchableMessage {
+  message: ChatMessage;
+  pathIndex: number;
+}
+
+// 已读取过的会话的可搜索消息，键为会话 ID；updatedAt 与索引记录一致时可以直接使用，无需再读取会话文件
+const searchCache = new Map<string, { updatedAt: number; messages: SearchableMessage[] }>();
+// 所有读写索引的操作依次执行，避免并发保存时互相覆盖
+let queue: Promise<unknown> = Promise.resolve();
+
+function serialize<T>(task: () => Promise<T>): Promise<T> {
+  const result = queue.then(task);
+  queue = result.catch(() => undefined);
+  return result;
+}
+
+const parseCreatedAt = (sessionId: string): number => {
+  const match = sessionId.match(/-(\d+)$/);
+  return match ? parseInt(match[1], 10) : 0;
+};
+
+/**
+ * 快照中的所有消息 (包括其他分支上的)
+ */
+function getAllMessages(snapshot: ChatPageStateSnapshot): ChatMessage[] {
+  return snapshot.messageTree ? Object.values(snapshot.messageTree.nodes) : snapshot.messages ?? [];
+}
+
+/**
+ * 由会话快照生成索引记录
+ * @param usage 该会话的 token 用量 (新建记录时从用量账本汇总，更新时沿用原记录)
+ */
+function buildEntry(sessionId: string, snapshot: ChatPageStateSnapshot, usage: { totalTokens: number; cost: number }): SessionIndexEntry {
+  const { chatConfig } = snapshot;
+  const messages = snapshot.messages ?? [];
+  const timestamps = getAllMessages(snapshot).map(message => message.timestamp).filter(Boolean);
+  const scriptTitle = chatConfig.script?.title || '无标题剧本';
+  return {
+    sessionId,
+    fileName: `${sessionId}.json`,
+    title: scriptTitle,
+    mode: chatConfig.mode,
+    scriptId: chatConfig.script?.id ?? '',
+    scriptTitle,
+    characters: (chatConfig.participatingCharacters ?? []).map(character => ({ id: character.id, name: character.name })),
+    messageCount: messages.length,
+    branchCount: countBranches(snapshot.messageTree, messages),
+    firstMessageAt: timestamps.length > 0 ? Math.min(...timestamps) : undefined,
+    lastMessageAt: timestamps.length > 0 ? Math.max(...timestamps) : undefined,
+    createdAt: parseCreatedAt(sessionId),
+    updatedAt: Date.now(),
+    totalTokens: usage.totalTokens,
+    cost: usage.cost,
+    tags: Array.from(new Set([...(snapshot.tags ?? []), ...(chatConfig.script?.tags ?? [])])),
+    forkedFrom: snapshot.forkedFrom,
+  };
+}
+
+function sumUsage(records: UsageRecord[], sessionId: string): { totalTokens: number; cost: number } {
+  return records
+    .filter(record => record.sessionId === sessionId)
+    .reduce((sum, record) => ({
+      totalTokens: sum.totalTokens + record.promptTokens + record.completionTokens,
+      cost: sum.cost + (record.cost ?? 0),
+    }), { totalTokens: 0, cost: 0 });
+}
+
+async function readSnapshot(fileName: string): Promise<ChatPageStateSnapshot | null> {
+  try {
+    const snapshot = await readDocument<ChatPageStateSnapshot>(path.join(getChatsDir(), fileName), 'session');
+    return snapshot?.chatConfig?.mode ? snapshot : null;
+  } catch (error: unknown) {
+    logger.warn(`读取会话文件 ${fileName} 失败，已从索引中跳过:`, error);
+    return null;
+  }
+}
+
+async function listSessionFiles(): Promise<string[]> {
+  try {
+    return (await fs.readdir(getChatsDir())).filter(file => file.endsWith('.json'));
+  } catch (error: unknown) {
+    if (error && typeof error === 'object' && 'code' in error && (error as { code: string }).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+}
+
+async function persist(sessions: Record<string, SessionIndexEntry>): Promise<void> {
+  cache = sessions;
+  await writeStore<SessionIndexFile>(SESSION_INDEX_FILE_NAME, { version: SESSION_INDEX_VERSION, sessions });
+}
+
+/**
+ * 读取会话索引，并与 chats 目录对账：补上缺失的会话 (例如旧版本保存的会话)，去掉文件已不存在的记录
+ * 只在首次使用时执行，之后使用内存中的缓存
+ */
+async function load(): Promise<Record<string, SessionIndexEntry>> {
+  if (cache) return cache;
+  const stored = await readStore<SessionIndexFile | null>(SESSION_INDEX_FILE_NAME, null);
+  const sessions: Record<string, SessionIndexEntry> = stored?.version === SESSION_INDEX_VERSION ? { ...stored.sessions } : {};
+  const fileNames = await listSessionFiles();
+  const sessionIds = new Set(fileNames.map(fileName => fileName.replace(/\.json$/, '')));
+
+  let changed = false;
+  Object.keys(sessions).forEach(sessionId => {
+    if (!sessionIds.has(sessionId)) {
+      delete sessions[sessionId];
+      changed = true;
+    }
+  });
+
+  const missing = Array.from(sessionIds).filter(sessionId => !sessions[sessionId]);
+  if (missing.length > 0) {
+    logger.info(`会话索引缺少 ${missing.length} 个会话，正在重建这些记录。`);
+    const records = await readUsageRecords().catch(() => [] as UsageRecord[]);
+    for (const sessionId of missing) {
+      const snapshot = await readSnapshot(`${sessionId}.json`);
+      if (snapshot) {
+        sessions[sessionId] = { ...buildEntry(sessionId, snapshot, sumUsage(records, sessionId)), updatedAt: parseCreatedAt(sessionId) };
+      }
+    }
+    changed = true;
+  }
+
+  if (changed) {
+    await persist(sessions);
+  } else {
+    cache = sessions;
+  }
+  return sessions;
+}
+
+/**
+ * 会话保存后更新它的索引记录
+ */
+export function updateSessionIndex(sessionId: string, snapshot: ChatPageStateSnapshot): Promise<void> {
+  return serialize(async () => {
+    const sessions = await load();
+    const existing = sessions[sessionId];
+    const usage = existing
+      ? { totalTokens: existing.totalTokens, cost: existing.cost }
+      : sumUsage(await readUsageRecords().catch(() => [] as UsageRecord[]), sessionId);
+    const entry = buildEntry(sessionId, snapshot, usage);
+    await persist({ ...sessions, [sessionId]: entry });
+    searchCache.set(sessionId, { updatedAt: entry.updatedAt, messages: toSearchableMessages(snapshot) });
+  });
+}
+
+/**
+ * 数据文件被外部替换后 (例如从快照恢复) 丢弃缓存，下次访问时重新读取索引文件
+ */
+export function invalidateSessionIndex(): Promise<void> {
+  return serialize(async () => {
+    cache = null;
+    searchCache.clear();
+  });
+}
+
+/**
+ * 会话删除后移除它的索引记录
+ */
+export function removeFromSessionIndex(sessionId: string): Promise<void> {
+  return serialize(async () => {
+    const sessions = await load();
+    if (!sessions[sessionId]) return;
+    const rest = { ...sessions };
+    delete rest[sessionId];
+    searchCache.delete(sessionId);
+    await persist(rest);
+  });
+}
+
+/**
+ * 把一次生成的用量计入所属会话的索引记录 (会话尚未保存时忽略，首次保存时会从账本汇总)
+ */
+export function addSessionUsage(record: UsageRecord): Promise<void> {
+  return serialize(async () => {
+    if (!record.sessionId) return;
+    const sessions = await load();
+    const entry = sessions[record.sessionId];
+    if (!entry) return;
+    await persist({
+      ...sessions,
+      [record.sessionId]: {
+        ...entry,
+        totalTokens: entry.totalTokens + record.promptTokens + record.completionTokens,
+        cost: entry.cost + (record.cost ?? 0),
+      },
+    });
+  });
+}
+
+/**
+ * 用量账本清空后把所有会话的用量归零
+ */
+export function resetSessionUsage(): Promise<void> {
+  return serialize(async () => {
+    const sessions = await load();
+    const reset: Record<string, SessionIndexEntry> = {};
+    Object.entries(sessions).forEach(([sessionId, entry]) => {
+      reset[sessionId] = { ...entry, totalTokens: 0, cost: 0 };
+    });
+    await persist(reset);
+  });
+}
+
+function matchesFilters(entry: SessionIndexEntry, query: SessionSearchQuery): boolean {
+  if (query.mode && entry.mode !== query.mode) return false;
+  if (query.scriptId && entry.scriptId !== query.scriptId) return false;
+  if (query.characterId && !entry.characters.some(character => character.id === query.characterId)) return false;
+  if (query.tag && !entry.tags.includes(query.tag)) return false;
+  const start = entry.firstMessageAt ?? entry.createdAt;
+  const end = entry.lastMessageAt ?? entry.createdAt;
+  if (query.from !== undefined && end < query.from) return false;
+  if (query.to !== undefined && start > query.to) return false;
+  return true;
+}
+
+function createHit(message: ChatMessage, pathIndex: number, matchIndex: number, matchLength: number): SessionSearchHit {
+  const snippetStart = Math.max(0, matchIndex - SNIPPET_CONTEXT);
+  const snippetEnd = Math.min(message.content.length, matchIndex + matchLength + SNIPPET_CONTEXT);
+  const prefix = snippetStart > 0 ? '...' : '';
+  return {
+    messageId: message.id,
+    messageIndex: pathIndex,
+    characterName: message.characterName,
+    timestamp: message.timestamp,
+    snippet: `${prefix}${message.content.slice(snippetStart, snippetEnd)}${snippetEnd < message.content.length ? '...' : ''}`,
+    matchStart: prefix.length + matchIndex - snippetStart,
+    matchLength,
+  };
+}
+
+/**
+ * 提取会话的所有消息 (包括其他分支) 用于搜索，当前路径上的消息排在前面
+ */
+function toSearchableMessages(snapshot: ChatPageStateSnapshot): SearchableMessage[] {
+  const path = snapshot.messages ?? [];
+  const pathIds = new Set(path.map(message => message.id).filter(Boolean));
+  const otherMessages = getAllMessages(snapshot)
+    .filter(message => !message.id || !pathIds.has(message.id))
+    .sort((a, b) => a.timestamp - b.timestamp);
+  return [
+    ...path.map((message, index) => ({ message, pathIndex: index })),
+    ...otherMessages.map(message => ({ message, pathIndex: -1 })),
+  ];
+}
+
+/**
+ * 取得会话的可搜索消息：优先使用缓存，缓存缺失或已过期时才读取会话文件
+ */
+async function getSearchableMessages(entry: SessionIndexEntry): Promise<SearchableMessage[] | null> {
+  const cached = searchCache.get(entry.sessionId);
+  if (cached && cached.updatedAt === entry.updatedAt) return cached.messages;
+  const snapshot = await readSnapshot(entry.fileName);
+  if (!snapshot) return null;
+  const messages = toSearchableMessages(snapshot);
+  searchCache.set(entry.sessionId, { updatedAt: entry.updatedAt, messages });
+  return messages;
+}
+
+/**
+ * 在会话的可搜索消息中查找文本
+ */
+function searchMessages(messages: SearchableMessage[], text: string): { hits: SessionSearchHit[]; totalHits: number } {
+  const needle = text.toLowerCase();
+  const hits: SessionSearchHit[] = [];
+  let totalHits = 0;
+  messages.forEach(({ message, pathIndex }) => {
+    const matchIndex = (message.content ?? '').toLowerCase().indexOf(needle);
+    if (matchIndex === -1) return;
+    totalHits++;
+    if (hits.length < MAX_HITS_PER_SESSION) hits.push(createHit(message, pathIndex, matchIndex, text.length));
+  });
+  return { hits, totalHits };
+}
+
+/**
+ * 按条件搜索会话，结果按最后活动时间降序排列
+ * 模式、剧本、角色、标签和日期条件只使用索引记录判断；有搜索文本时只在通过这些条件的会话中查找消息内容，
+ * 会话的消息在首次搜索时读取并缓存，会话再次保存前的搜索不再读取文件。
+ */
+export function searchSessions(query: SessionSearchQuery): Promise<SessionSearchResult[]> {
+  return serialize(async () => {
+    const sessions = await load();
+    const entries = Object.values(sessions)
+      .filter(entry => matchesFilters(entry, query))
+      .sort((a, b) => (b.lastMessageAt ?? b.createdAt) - (a.lastMessageAt ?? a.createdAt));
+
+    const text = query.text?.trim();
+    if (!text) {
+      return entries.map(entry => ({ entry, hits: [], totalHits: 0 }));
+    }
+
+    const results: SessionSearchResult[] = [];
+    for (const entry of entries) {
+      const messages = await getSearchableMessages(entry);
+      if (!messages) continue;
+      const { hits, totalHits } = searchMessages(messages, text);
+      if (totalHits > 0) results.push({ entry, hits, totalHits });
+    }
+    return results;
+  });
+}
@@ -0,0 +1,72 @@
+import fs from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+import { app } from 'electron';
+import { storageLogger as logger } from '../utils/logger';
+import { UTF8_OPTIONS } from '../utils/encoding';
+import type { UsageRecord, UsageSummary } from '../../src/types';
+
+// 用量账本采用 JSON Lines 格式 (每行一条记录)，只追加写入，避免每次生成都重写整个文件
+const USAGE_LEDGER_FILE_NAME = 'usageLedger.jsonl';
+const getLedgerPath = () => path.join(app.getPath('userData'), 'TheLLMAIImprovTheaterData', USAGE_LEDGER_FILE_NAME);
+
+/**
+ * 向用量账本追加一条记录
+ * @param entry 不含 id 和 timestamp 的记录内容
+ * @returns 完整的用量记录
+ */
+export async function appendUsageRecord(entry: Omit<UsageRecord, 'id' | 'timestamp'>): Promise<UsageRecord> {
+  const record: UsageRecord = { id: crypto.randomUUID(), timestamp: Date.now(), ...entry };
+  const ledgerPath = getLedgerPath();
+  await fs.mkdir(path.dirname(ledgerPath), { recursive: true });
+  await fs.appendFile(ledgerPath, JSON.stringify(record) + '\n', UTF8_OPTIONS);
+  return record;
+}
+
+/**
+ * 读取用量账本中的所有记录，跳过无法解析的行
+ */
+export async function readUsageRecords(): Promise<UsageRecord[]> {
+  let content: string;
+  try {
+    content = await fs.readFile(getLedgerPath(), UTF8_OPTIONS);
+  } catch (error: unknown) {
+    if (error && typeof error === 'object' && 'code' in error && (error as { code: string }).code === 'ENOENT') {
+      return [];
+    }
+    logger.error('读取用量账本失败:', error);
+    throw error;
+  }
+
+  const records: UsageRecord[] = [];
+  content.split('\n').forEach((line, index) => {
+    if (!line.trim()) return;
+    try {
+      records.push(JSON.parse(line) as UsageRecord);
+    } catch {
+      logger.warn(`用量账本第 ${index + 1} 行无法解析，已跳过。`);
+    }
+  });
+  return records;
+}
+
+/**
+ * 清空用量账本
+ */
+export async function clearUsageRecords(): Promise<void> {
+  await fs.rm(getLedgerPath(), { force: true });
+  logger.info('用量账本已清空。');
+}
+
+/**
+ * 汇总一组用量记录
+ */
+export function summarizeUsage(records: UsageRecord[]): UsageSummary {
+  return records.reduce<UsageSummary>((summary, record) => ({
+    requests: summary.requests + 1,
+    promptTokens: summary.promptTokens + record.promptTokens,
+    completionTokens: summary.completionTokens + record.completionTokens,
+    totalTokens: summary.totalTokens + record.promptTokens + record.completionTokens,
+    cost: summary.cost + (record.cost ?? 0),
+  }), { requests: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, cost: 0 });
+}
@@ -0,0 +1,128 @@
+import zlib from 'zlib';
+
+/**
+ * PNG 文本块 (tEXt) 读写工具
+ * 社区角色卡把 base64 编码的角色 JSON 存放在关键字为 "chara" (v2) 或 "ccv3" (v3) 的 tEXt 块中
+ */
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(buffer: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of buffer) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+interface PngChunk {
+  type: string;
+  data: Buffer;
+}
+
+export function isPng(buffer: Buffer): boolean {
+  return buffer.length >= PNG_SIGNATURE.length && buffer.subarray(0, PNG_SIGNATURE.length).equals(PNG_SIGNATURE);
+}
+
+function readChunks(buffer: Buffer): PngChunk[] {
+  if (!isPng(buffer)) {
+    throw new Error('不是有效的 PNG 文件');
+  }
+  const chunks: PngChunk[] = [];
+  let offset = PNG_SIGNATURE.length;
+  while (offset + 8 <= buffer.length) {
+    const length = buffer.readUInt32BE(offset);
+    const type = buffer.toString('latin1', offset + 4, offset + 8);
+    const dataEnd = offset + 8 + length;
+    if (dataEnd + 4 > buffer.length) {
+      throw new Error('PNG 文件已损坏');
+    }
+    chunks.push({ type, data: buffer.subarray(offset + 8, dataEnd) });
+    offset = dataEnd + 4; // 跳过 CRC
+    if (type === 'IEND') break;
+  }
+  return chunks;
+}
+
+function encodeChunk({ type, data }: PngChunk): Buffer {
+  const header = Buffer.alloc(8);
+  header.writeUInt32BE(data.length, 0);
+  header.write(type, 4, 'latin1');
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(Buffer.concat([header.subarray(4), data])), 0);
+  return Buffer.concat([header, data, crc]);
+}
+
+const encodePng = (chunks: PngChunk[]) => Buffer.concat([PNG_SIGNATURE, ...chunks.map(encodeChunk)]);
+
+/**
+ * 读取 PNG 中的所有 tEXt 块
+ * @returns 关键字 → 文本
+ */
+export function readPngTextChunks(buffer: Buffer): Record<string, string> {
+  const texts: Record<string, string> = {};
+  readChunks(buffer)
+    .filter(chunk => chunk.type === 'tEXt')
+    .forEach(chunk => {
+      const separator = chunk.data.indexOf(0);
+      if (separator <= 0) return;
+      texts[chunk.data.toString('latin1', 0, separator)] = chunk.data.toString('latin1', separator + 1);
+    });
+  return texts;
+}
+
+/**
+ * 写入 PNG 的 tEXt 块：先移除指定关键字的已有文本块，再在 IEND 前插入新的文本块
+ * @param texts 关键字 → 文本 (文本应为 latin1 字符，例如 base64)
+ * @param removeKeywords 需要移除的其他关键字
+ */
+export function writePngTextChunks(buffer: Buffer, texts: Record<string, string>, removeKeywords: string[] = []): Buffer {
+  const removed = new Set([...Object.keys(texts), ...removeKeywords]);
+  const chunks = readChunks(buffer).filter(chunk => {
+    if (chunk.type !== 'tEXt') return true;
+    const separator = chunk.data.indexOf(0);
+    return !removed.has(chunk.data.toString('latin1', 0, Math.max(separator, 0)));
+  });
+  const textChunks = Object.entries(texts).map(([keyword, text]) => ({
+    type: 'tEXt',
+    data: Buffer.concat([Buffer.from(keyword, 'latin1'), Buffer.from([0]), Buffer.from(text, 'latin1')]),
+  }));
+  const endIndex = chunks.findIndex(chunk => chunk.type === 'IEND');
+  chunks.splice(endIndex === -1 ? chunks.length : endIndex, 0, ...textChunks);
+  return encodePng(endIndex === -1 ? [...chunks, { type: 'IEND', data: Buffer.alloc(0) }] : chunks);
+}
+
+/**
+ * 生成一张纯色的 PNG 图片 (角色没有 PNG 头像时用作角色卡图片)
+ */
+export function createSolidPng(width: number, height: number, rgb: [number, number, number]): Buffer {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8; // 位深
+  header[9] = 2; // 真彩色 RGB
+  const row = Buffer.alloc(1 + width * 3); // 每行开头是过滤类型 0
+  for (let x = 0; x < width; x++) {
+    row[1 + x * 3] = rgb[0];
+    row[2 + x * 3] = rgb[1];
+    row[3 + x * 3] = rgb[2];
+  }
+  const pixels = Buffer.concat(Array.from({ length: height }, () => row));
+  return encodePng([
+    { type: 'IHDR', data: header },
+    { type: 'IDAT', data: zlib.deflateSync(pixels) },
+    { type: 'IEND', data: Buffer.alloc(0) },
+  ]);
+}
@@ -1,9 +1,11 @@
-import React from 'react'; // <-- 移除 useEffect
+import React, { useEffect, useState } from 'react';
 import { Layout, Menu, theme } from 'antd';
 import { useNavigate, useLocation } from 'react-router-dom';
 import { LastVisitedProvider } from './contexts/LastVisitedContext'; // <-- 只导入 Provider
 import { useLastVisited } from './hooks/useLastVisited'; // <-- 从新路径导入 Hook
 import AppRouter from './router';
+import KeyVaultModal from './components/KeyVaultModal';
+import type { KeyVaultStatus } from './types';
 
 const { Content, Sider } = Layout;
 
@@ -11,8 +13,10 @@ const menuItems = [
   { key: '/chat-mode-selection', label: '聊天' },
   { key: '/scripts', label: '剧本管理' },
   { key: '/characters', label: '角色管理' },
+  { key: '/prompt-templates', label: '提示词模板' },
   { key: '/ai-config', label: 'AI 配置' },
   { key: '/history', label: '历史记录' },
+  { key: '/usage', label: '用量统计' },
   { key: '/settings', label: '设置' },
 ];
 
@@ -45,6 +49,19 @@ const AppLayout: React.FC = () => {
   const {
     token: { colorBgContainer, borderRadiusLG },
   } = theme.useToken();
+  const [keyVaultStatus, setKeyVaultStatus] = useState<KeyVaultStatus | null>(null);
+  const [keyVaultModalOpen, setKeyVaultModalOpen] = useState(false);
+
+  // 启动时检查 API Key 密钥库：已设置主密码时提示解锁，仍有明文保存的 API Key 时提示设置主密码
+  useEffect(() => {
+    window.electronAPI.keyVaultStatus().then(result => {
+      if (!result.success || !result.data) return;
+      setKeyVaultStatus(result.data);
+      if (!result.data.unlocked && (result.data.initialized || result.data.plaintextKeyCount > 0)) {
+        setKeyVaultModalOpen(true);
+      }
+    });
+  }, []);
 
   // --- 修改菜单点击处理函数 ---
   const handleMenuClick = (e: { key: string }) => {
@@ -121,6 +138,15 @@ const AppLayout: React.FC = () => {
           </div>
         </Content>
       </Layout>
+      <KeyVaultModal
+        open={keyVaultModalOpen}
+        status={keyVaultStatus}
+        onClose={() => setKeyVaultModalOpen(false)}
+        onStatusChange={status => {
+          setKeyVaultStatus(status);
+          setKeyVaultModalOpen(!status.unlocked);
+        }}
+      />
     </Layout>
   );
 };
@@ -0,0 +1,96 @@
+import React from 'react';
+import { Popover, Button, Form, Input, InputNumber, Space, Tooltip, Typography } from 'antd';
+import { PlayCircleOutlined, PauseCircleOutlined, StopOutlined, SettingOutlined } from '@ant-design/icons';
+import type { AutoPlaySettings } from '../types';
+import type { AutoPlayProgress, AutoPlayStatus } from '../utils/turnScheduler';
+
+interface AutoPlayControlProps {
+  settings: AutoPlaySettings; // 当前会话的自动演出设置
+  onSettingsChange: (settings: AutoPlaySettings) => void;
+  status: AutoPlayStatus;
+  progress: AutoPlayProgress;
+  onStart: () => void;
+  onPause: () => void;
+  onResume: () => void;
+  onStop: () => void;
+  disabled?: boolean; // 手动触发的回复进行中时禁止开始
+}
+
+/**
+ * 自动演出控制条
+ * 开始后选中的 AI 角色轮流发言，直到满足停止条件。设置随会话保存，运行中修改的设置在下一轮生效。
+ */
+const AutoPlayControl: React.FC<AutoPlayControlProps> = ({
+  settings, onSettingsChange, status, progress, onStart, onPause, onResume, onStop, disabled,
+}) => {
+  const settingsContent = (
+    <div style={{ width: 280 }}>
+      <Form layout="vertical" size="small">
+        <Form.Item label="最多发言次数">
+          <InputNumber
+            min={1}
+            value={settings.maxTurns}
+            onChange={maxTurns => onSettingsChange({ ...settings, maxTurns: maxTurns ?? 1 })}
+            style={{ width: '100%' }}
+          />
+        </Form.Item>
+        <Form.Item label="发言间隔 (秒)">
+          <InputNumber
+            min={0}
+            step={0.5}
+            value={settings.delayMs / 1000}
+            onChange={seconds => onSettingsChange({ ...settings, delayMs: Math.round((seconds ?? 0) * 1000) })}
+            style={{ width: '100%' }}
+          />
+        </Form.Item>
+        <Form.Item label="token 预算" tooltip="本次演出消耗的输入和输出 token 总数达到预算时停止">
+          <InputNumber
+            min={1000}
+            step={1000}
+            value={settings.tokenBudget}
+            placeholder="不限"
+            onChange={tokenBudget => onSettingsChange({ ...settings, tokenBudget: tokenBudget ?? undefined })}
+            style={{ width: '100%' }}
+          />
+        </Form.Item>
+        <Form.Item label="停止关键词" tooltip="任一角色的回复中出现该关键词或短语时停止">
+          <Input
+            value={settings.stopPhrase}
+            placeholder="例如：全剧终"
+            allowClear
+            onChange={e => onSettingsChange({ ...settings, stopPhrase: e.target.value || undefined })}
+          />
+        </Form.Item>
+      </Form>
+    </div>
+  );
+
+  return (
+    <Space size="small">
+      {status === 'idle' && (
+        <Button size="small" icon={<PlayCircleOutlined />} onClick={onStart} disabled={disabled}>自动演出</Button>
+      )}
+      {status === 'running' && (
+        <Button size="small" icon={<PauseCircleOutlined />} onClick={onPause}>暂停</Button>
+      )}
+      {status === 'paused' && (
+        <Button size="small" type="primary" icon={<PlayCircleOutlined />} onClick={onResume}>继续</Button>
+      )}
+      {status !== 'idle' && (
+        <>
+          <Button size="small" danger icon={<StopOutlined />} onClick={onStop}>停止演出</Button>
+          <Typography.Text type="secondary" style={{ fontSize: '12px' }}>
+            {status === 'paused' ? '已暂停 · ' : ''}第 {progress.turns}/{settings.maxTurns} 轮 · {progress.tokens.toLocaleString()} tokens
+          </Typography.Text>
+        </>
+      )}
+      <Popover title="自动演出设置" trigger="click" content={settingsContent} placement="bottomRight">
+        <Tooltip title="自动演出设置">
+          <Button size="small" icon={<SettingOutlined />} aria-label="自动演出设置" />
+        </Tooltip>
+      </Popover>
+    </Space>
+  );
+};
+
+export default AutoPlayControl;
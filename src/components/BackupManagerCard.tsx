@@ -0,0 +1,194 @@
+import React, { useEffect, useState } from 'react';
+import { Button, Card, Checkbox, List, Modal, Popconfirm, Space, Spin, Tag, Typography, message } from 'antd';
+import { formatBytes } from '../utils/format';
+import type { BackupItem, BackupReason, BackupSnapshot } from '../types';
+
+const REASON_LABELS: Record<BackupReason, { label: string; color: string }> = {
+  daily: { label: '每日', color: 'blue' },
+  'pre-migration': { label: '迁移前', color: 'orange' },
+  'pre-restore': { label: '恢复前', color: 'purple' },
+  manual: { label: '手动', color: 'green' },
+};
+
+const CATEGORY_LABELS: Record<BackupItem['category'], string> = {
+  character: '角色',
+  script: '剧本',
+  session: '会话',
+  template: '提示词模板',
+  config: '配置',
+};
+
+/**
+ * 数据备份与恢复：列出数据目录快照，恢复全部或所选的项
+ */
+const BackupManagerCard: React.FC = () => {
+  const [snapshots, setSnapshots] = useState<BackupSnapshot[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [creating, setCreating] = useState<boolean>(false);
+  const [restoring, setRestoring] = useState<boolean>(false);
+  // 正在查看内容的快照
+  const [viewingSnapshot, setViewingSnapshot] = useState<BackupSnapshot | null>(null);
+  const [items, setItems] = useState<BackupItem[]>([]);
+  const [itemsLoading, setItemsLoading] = useState<boolean>(false);
+  const [selectedItems, setSelectedItems] = useState<string[]>([]);
+
+  const loadSnapshots = async () => {
+    setLoading(true);
+    try {
+      const result = await window.electronAPI.backupList();
+      if (result.success && result.data) {
+        setSnapshots(result.data);
+      } else {
+        message.error(`加载备份列表失败: ${result.error || '未知错误'}`);
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadSnapshots();
+  }, []);
+
+  const handleCreate = async () => {
+    setCreating(true);
+    try {
+      const result = await window.electronAPI.backupCreate();
+      if (result.success) {
+        message.success('已创建备份。');
+        await loadSnapshots();
+      } else {
+        message.error(`创建备份失败: ${result.error || '未知错误'}`);
+      }
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleDelete = async (snapshot: BackupSnapshot) => {
+    const result = await window.electronAPI.backupDelete(snapshot.id);
+    if (result.success) {
+      setSnapshots(prev => prev.filter(s => s.id !== snapshot.id));
+    } else {
+      message.error(`删除备份失败: ${result.error || '未知错误'}`);
+    }
+  };
+
+  // 恢复整个数据目录或所选的项，成功后重新加载页面以读取恢复后的数据
+  const handleRestore = async (snapshot: BackupSnapshot, restoreItems?: string[]) => {
+    setRestoring(true);
+    try {
+      const result = await window.electronAPI.backupRestore(snapshot.id, restoreItems);
+      if (!result.success) {
+        message.error(`恢复失败: ${result.error || '未知错误'}`);
+        return;
+      }
+      message.success(`已恢复 ${result.data?.length ?? 0} 个文件，恢复前的数据已另存为一份备份。`);
+      setViewingSnapshot(null);
+      setTimeout(() => window.location.reload(), 800);
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  const openItems = async (snapshot: BackupSnapshot) => {
+    setViewingSnapshot(snapshot);
+    setItems([]);
+    setSelectedItems([]);
+    setItemsLoading(true);
+    try {
+      const result = await window.electronAPI.backupItems(snapshot.id);
+      if (result.success && result.data) {
+        setItems(result.data);
+      } else {
+        message.error(`读取备份内容失败: ${result.error || '未知错误'}`);
+      }
+    } finally {
+      setItemsLoading(false);
+    }
+  };
+
+  const toggleItem = (itemPath: string, checked: boolean) => {
+    setSelectedItems(prev => (checked ? [...prev, itemPath] : prev.filter(p => p !== itemPath)));
+  };
+
+  return (
+    <Card
+      title="数据备份与恢复"
+      style={{ marginBottom: 16 }}
+      extra={<Button onClick={handleCreate} loading={creating}>立即备份</Button>}
+    >
+      <Typography.Paragraph>
+        所有数据文件都先写入临时文件再替换，写入中途崩溃不会损坏原文件。应用每天自动给数据目录做一份快照，升级旧版本数据和恢复备份前也会先做一份快照。
+        快照保存在数据目录的 backups/snapshots 中，每种快照只保留最近的若干份。
+      </Typography.Paragraph>
+      <List
+        loading={loading}
+        dataSource={snapshots}
+        locale={{ emptyText: '暂无备份' }}
+        renderItem={snapshot => (
+          <List.Item
+            actions={[
+              <Button key="items" type="link" size="small" onClick={() => openItems(snapshot)}>查看内容</Button>,
+              <Popconfirm
+                key="restore"
+                title="恢复整个数据目录？"
+                description="当前的角色、剧本、会话和配置将被替换为这份备份 (恢复前会先备份当前数据)。"
+                onConfirm={() => handleRestore(snapshot)}
+              >
+                <Button type="link" size="small" disabled={restoring}>恢复全部</Button>
+              </Popconfirm>,
+              <Popconfirm key="delete" title="删除这份备份？" onConfirm={() => handleDelete(snapshot)}>
+                <Button type="link" size="small" danger>删除</Button>
+              </Popconfirm>,
+            ]}
+          >
+            <Space wrap>
+              <span>{new Date(snapshot.createdAt).toLocaleString()}</span>
+              <Tag color={REASON_LABELS[snapshot.reason].color}>{REASON_LABELS[snapshot.reason].label}</Tag>
+              <Typography.Text type="secondary">{snapshot.fileCount} 个文件 · {formatBytes(snapshot.totalBytes)}</Typography.Text>
+            </Space>
+          </List.Item>
+        )}
+      />
+
+      <Modal
+        title={viewingSnapshot ? `备份内容 (${new Date(viewingSnapshot.createdAt).toLocaleString()})` : '备份内容'}
+        open={!!viewingSnapshot}
+        onCancel={() => setViewingSnapshot(null)}
+        width={640}
+        footer={[
+          <Button key="cancel" onClick={() => setViewingSnapshot(null)}>取消</Button>,
+          <Popconfirm
+            key="restore"
+            title={`恢复所选的 ${selectedItems.length} 项？`}
+            description="同名的当前文件将被替换 (恢复前会先备份当前数据)。"
+            onConfirm={() => viewingSnapshot && handleRestore(viewingSnapshot, selectedItems)}
+            disabled={selectedItems.length === 0}
+          >
+            <Button type="primary" loading={restoring} disabled={selectedItems.length === 0}>恢复所选</Button>
+          </Popconfirm>,
+        ]}
+      >
+        <Spin spinning={itemsLoading}>
+          <List
+            size="small"
+            style={{ maxHeight: 400, overflowY: 'auto' }}
+            dataSource={items}
+            renderItem={item => (
+              <List.Item>
+                <Checkbox checked={selectedItems.includes(item.path)} onChange={e => toggleItem(item.path, e.target.checked)}>
+                  <Tag>{CATEGORY_LABELS[item.category]}</Tag>
+                  {item.label}
+                </Checkbox>
+                <Typography.Text type="secondary">{new Date(item.modifiedAt).toLocaleString()}</Typography.Text>
+              </List.Item>
+            )}
+          />
+        </Spin>
+      </Modal>
+    </Card>
+  );
+};
+
+export default BackupManagerCard;
@@ -0,0 +1,84 @@
+import React, { useMemo, useState } from 'react';
+import { Badge, Button, Drawer, List, Tag, Tooltip, Typography } from 'antd';
+import { BranchesOutlined } from '@ant-design/icons';
+import type { ChatMessage, MessageTree } from '../types';
+import { listBranches } from '../utils/messageTree';
+
+interface BranchNavigatorProps {
+  tree: MessageTree;
+  messages: ChatMessage[]; // 当前路径
+  onSwitch: (nodeId: string) => void;
+  disabled?: boolean; // AI 回复进行中时禁止切换
+}
+
+// 分支预览显示的最大字数
+const PREVIEW_LENGTH = 60;
+
+/**
+ * 分支导航：列出会话中的所有分支，点击切换当前路径
+ */
+const BranchNavigator: React.FC<BranchNavigatorProps> = ({ tree, messages, onSwitch, disabled }) => {
+  const [open, setOpen] = useState(false);
+  const branches = useMemo(() => listBranches(tree, messages), [tree, messages]);
+
+  const handleSwitch = (leafId: string) => {
+    onSwitch(leafId);
+    setOpen(false);
+  };
+
+  return (
+    <>
+      <Tooltip title="对话分支">
+        <Badge count={branches.length > 1 ? branches.length : 0} size="small">
+          <Button icon={<BranchesOutlined />} onClick={() => setOpen(true)} aria-label="对话分支" />
+        </Badge>
+      </Tooltip>
+      <Drawer title={`对话分支 (${branches.length})`} open={open} onClose={() => setOpen(false)} width={420}>
+        <List
+          dataSource={branches}
+          locale={{ emptyText: '暂无对话' }}
+          renderItem={(branch, index) => {
+            const isCurrent = branch.forkIndex === -1;
+            const content = branch.lastMessage.content;
+            return (
+              <List.Item
+                actions={[
+                  <Button
+                    key="switch"
+                    size="small"
+                    type={isCurrent ? 'default' : 'primary'}
+                    disabled={disabled || isCurrent}
+                    onClick={() => handleSwitch(branch.leafId)}
+                  >
+                    {isCurrent ? '当前' : '切换'}
+                  </Button>,
+                ]}
+              >
+                <List.Item.Meta
+                  title={
+                    <>
+                      分支 {branches.length - index}
+                      {isCurrent && <Tag color="blue" style={{ marginLeft: 8 }}>当前</Tag>}
+                    </>
+                  }
+                  description={
+                    <>
+                      <Typography.Text type="secondary" style={{ display: 'block', fontSize: '12px' }}>
+                        {branch.length} 条消息{isCurrent ? '' : ` · 从第 ${branch.forkIndex + 1} 条开始不同`} · {new Date(branch.lastMessage.timestamp).toLocaleString()}
+                      </Typography.Text>
+                      <Typography.Text>
+                        {branch.lastMessage.characterName}: {content.length > PREVIEW_LENGTH ? `${content.slice(0, PREVIEW_LENGTH)}...` : content}
+                      </Typography.Text>
+                    </>
+                  }
+                />
+              </List.Item>
+            );
+          }}
+        />
+      </Drawer>
+    </>
+  );
+};
+
+export default BranchNavigator;
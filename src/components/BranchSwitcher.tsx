@@ -0,0 +1,45 @@
+import React from 'react';
+import { Button, Space, Typography } from 'antd';
+import { LeftOutlined, RightOutlined } from '@ant-design/icons';
+import type { ChatMessage, MessageTree } from '../types';
+import { getSiblingIds } from '../utils/messageTree';
+
+interface BranchSwitcherProps {
+  tree: MessageTree;
+  message: ChatMessage;
+  onSwitch: (nodeId: string) => void;
+  disabled?: boolean; // AI 回复进行中时禁止切换
+}
+
+/**
+ * 消息的分支切换箭头：同一位置有多个版本 (重新生成、编辑等产生) 时显示 "< 2/3 >"
+ */
+const BranchSwitcher: React.FC<BranchSwitcherProps> = ({ tree, message, onSwitch, disabled }) => {
+  const siblingIds = getSiblingIds(tree, message);
+  if (siblingIds.length <= 1 || !message.id) return null;
+  const position = siblingIds.indexOf(message.id);
+
+  return (
+    <Space size={0} style={{ marginLeft: 4 }}>
+      <Button
+        size="small"
+        type="text"
+        icon={<LeftOutlined />}
+        disabled={disabled || position <= 0}
+        onClick={() => onSwitch(siblingIds[position - 1])}
+        aria-label="上一个版本"
+      />
+      <Typography.Text type="secondary" style={{ fontSize: '12px' }}>{position + 1}/{siblingIds.length}</Typography.Text>
+      <Button
+        size="small"
+        type="text"
+        icon={<RightOutlined />}
+        disabled={disabled || position >= siblingIds.length - 1}
+        onClick={() => onSwitch(siblingIds[position + 1])}
+        aria-label="下一个版本"
+      />
+    </Space>
+  );
+};
+
+export default BranchSwitcher;
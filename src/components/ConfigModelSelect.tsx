@@ -0,0 +1,77 @@
+import React, { useState, useEffect } from 'react';
+import { Select, Space } from 'antd';
+import type { AIConfig, AIConfigRef } from '../types';
+import { setupLogger as logger } from '../utils/logger';
+
+interface ConfigModelSelectProps {
+  allAIConfigs: AIConfig[]; // 所有已保存的 AI 配置
+  value?: AIConfigRef;
+  onChange: (ref: AIConfigRef) => void;
+  configPlaceholder?: string;
+  modelPlaceholder?: string;
+  disabled?: boolean;
+}
+
+/**
+ * 选择一个 AI 配置及其模型 (用于 AI 裁判、AI 导演等辅助角色)
+ */
+const ConfigModelSelect: React.FC<ConfigModelSelectProps> = ({
+  allAIConfigs, value, onChange, configPlaceholder = '选择配置', modelPlaceholder = '选择模型', disabled,
+}) => {
+  const [models, setModels] = useState<string[]>([]);
+  const [loadingModels, setLoadingModels] = useState(false);
+  const configId = value?.configId;
+
+  // 加载所选配置可用的模型列表
+  useEffect(() => {
+    if (!configId) {
+      setModels([]);
+      return;
+    }
+    let cancelled = false;
+    setLoadingModels(true);
+    window.electronAPI.getAvailableModelsByConfigId(configId)
+      .then(result => {
+        if (cancelled) return;
+        if (result.success && result.data) {
+          setModels(result.data);
+        } else {
+          logger.warn(`加载配置 ${configId} 的模型列表失败: ${result.error || '未知错误'}`);
+          setModels([]);
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setLoadingModels(false);
+      });
+    return () => { cancelled = true; };
+  }, [configId]);
+
+  const handleConfigChange = (newConfigId: string) => {
+    const config = allAIConfigs.find(c => c.id === newConfigId);
+    onChange({ configId: newConfigId, modelName: '', providerId: config?.serviceProvider ?? '' });
+  };
+
+  return (
+    <Space.Compact style={{ width: '100%', maxWidth: 640 }}>
+      <Select
+        placeholder={configPlaceholder}
+        style={{ width: '50%' }}
+        value={configId || undefined}
+        onChange={handleConfigChange}
+        options={allAIConfigs.map(c => ({ value: c.id, label: `${c.name} (${c.serviceProvider})` }))}
+        disabled={disabled}
+      />
+      <Select
+        placeholder={modelPlaceholder}
+        style={{ width: '50%' }}
+        value={value?.modelName || undefined}
+        onChange={(modelName: string) => value && onChange({ ...value, modelName })}
+        options={models.map(m => ({ value: m, label: m }))}
+        loading={loadingModels}
+        disabled={disabled || !configId}
+      />
+    </Space.Compact>
+  );
+};
+
+export default ConfigModelSelect;
@@ -0,0 +1,83 @@
+import React from 'react';
+import { Popover, Button, Form, Select, InputNumber, Typography, Tooltip } from 'antd';
+import { CompressOutlined } from '@ant-design/icons';
+import type { ContextSettings, ContextStrategy, ContextSummary } from '../types';
+
+interface ContextSettingsControlProps {
+  value: ContextSettings; // 当前会话的上下文设置
+  onChange: (settings: ContextSettings) => void;
+  summary?: ContextSummary; // 当前会话的滚动摘要
+  onClearSummary: () => void;
+  disabled?: boolean;
+}
+
+const STRATEGY_OPTIONS: { value: ContextStrategy; label: string }[] = [
+  { value: 'truncate', label: '丢弃最早的对话' },
+  { value: 'summarize', label: '生成滚动摘要' },
+  { value: 'none', label: '不处理 (发送完整历史)' },
+];
+
+/**
+ * 聊天界面顶部的上下文窗口设置
+ * 历史超出模型上下文时，按这里的策略裁剪发送给模型的消息。设置随会话保存。
+ */
+const ContextSettingsControl: React.FC<ContextSettingsControlProps> = ({ value, onChange, summary, onClearSummary, disabled }) => {
+  const content = (
+    <div style={{ width: 320 }}>
+      <Form layout="vertical" size="small">
+        <Form.Item label="超出上下文时">
+          <Select<ContextStrategy>
+            value={value.strategy}
+            options={STRATEGY_OPTIONS}
+            onChange={strategy => onChange({ ...value, strategy })}
+            disabled={disabled}
+          />
+        </Form.Item>
+        <Form.Item label="上下文上限 (tokens)" tooltip="留空时按各角色所用模型的上下文长度计算">
+          <InputNumber
+            min={1024}
+            step={1024}
+            value={value.maxContextTokens}
+            placeholder="按模型自动"
+            onChange={maxContextTokens => onChange({ ...value, maxContextTokens: maxContextTokens ?? undefined })}
+            disabled={disabled}
+            style={{ width: '100%' }}
+          />
+        </Form.Item>
+        <Form.Item label="为回复预留 (tokens)">
+          <InputNumber
+            min={0}
+            step={256}
+            value={value.reservedOutputTokens}
+            onChange={reservedOutputTokens => onChange({ ...value, reservedOutputTokens: reservedOutputTokens ?? 0 })}
+            disabled={disabled}
+            style={{ width: '100%' }}
+          />
+        </Form.Item>
+      </Form>
+      {summary && (
+        <div>
+          <Typography.Text strong>当前摘要 (覆盖前 {summary.coveredCount} 条消息)</Typography.Text>
+          <Typography.Paragraph
+            type="secondary"
+            ellipsis={{ rows: 4, expandable: true, symbol: '展开' }}
+            style={{ marginTop: 4, marginBottom: 8, whiteSpace: 'pre-wrap' }}
+          >
+            {summary.content}
+          </Typography.Paragraph>
+          <Button size="small" danger onClick={onClearSummary} disabled={disabled}>清除摘要</Button>
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <Popover title="上下文窗口" trigger="click" content={content} placement="bottomRight">
+      <Tooltip title="上下文窗口设置">
+        <Button size="small" icon={<CompressOutlined />} aria-label="上下文窗口设置" />
+      </Tooltip>
+    </Popover>
+  );
+};
+
+export default ContextSettingsControl;
@@ -0,0 +1,65 @@
+import React, { useState } from 'react';
+import { Card, Button, Input, Radio, Select, Space, Typography } from 'antd';
+import { CheckOutlined, CloseOutlined } from '@ant-design/icons';
+import type { AICharacter, DirectorSuggestion } from '../types';
+
+interface DirectorSuggestionCardProps {
+  suggestion: DirectorSuggestion; // AI 导演给出的建议 (使用时请以建议对象作为 key，以便换新建议时重置编辑状态)
+  aiCharacters: AICharacter[];
+  onApprove: (suggestion: DirectorSuggestion) => void; // 采纳 (可能是修改后的) 建议
+  onReject: () => void;
+  disabled?: boolean; // AI 回复进行中时禁止采纳
+}
+
+/**
+ * 待审核的 AI 导演建议：可直接采纳，也可修改类型、目标角色和内容后采纳，或拒绝
+ */
+const DirectorSuggestionCard: React.FC<DirectorSuggestionCardProps> = ({ suggestion, aiCharacters, onApprove, onReject, disabled }) => {
+  const [draft, setDraft] = useState<DirectorSuggestion>(suggestion);
+
+  return (
+    <Card size="small" title="AI 导演的建议" style={{ margin: '0 10px 10px 10px', flexShrink: 0 }}>
+      <Space direction="vertical" style={{ width: '100%' }}>
+        <Space wrap>
+          <Radio.Group
+            size="small"
+            value={draft.kind}
+            onChange={e => setDraft({ ...draft, kind: e.target.value })}
+          >
+            <Radio.Button value="command">指令</Radio.Button>
+            <Radio.Button value="narration">旁白</Radio.Button>
+          </Radio.Group>
+          <Typography.Text type="secondary">接下来回应：</Typography.Text>
+          <Select
+            mode="multiple"
+            size="small"
+            style={{ minWidth: 240 }}
+            placeholder="当前选中的 AI"
+            value={draft.targetIds}
+            onChange={(targetIds: string[]) => setDraft({ ...draft, targetIds })}
+            options={aiCharacters.map(c => ({ value: c.id, label: c.name }))}
+          />
+        </Space>
+        <Input.TextArea
+          value={draft.content}
+          onChange={e => setDraft({ ...draft, content: e.target.value })}
+          autoSize={{ minRows: 2, maxRows: 5 }}
+        />
+        <Space>
+          <Button
+            type="primary"
+            size="small"
+            icon={<CheckOutlined />}
+            onClick={() => onApprove({ ...draft, content: draft.content.trim() })}
+            disabled={disabled || !draft.content.trim()}
+          >
+            采纳
+          </Button>
+          <Button size="small" icon={<CloseOutlined />} onClick={onReject}>拒绝</Button>
+        </Space>
+      </Space>
+    </Card>
+  );
+};
+
+export default DirectorSuggestionCard;
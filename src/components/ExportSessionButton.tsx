@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import { Button, Checkbox, Modal, Radio, Space, Tooltip, message } from 'antd';
+import { ExportOutlined } from '@ant-design/icons';
+import type { ChatPageStateSnapshot } from '../types';
+import { EXPORT_FORMAT_OPTIONS, exportSession, type ExportFormat } from '../utils/sessionExport';
+
+interface ExportSessionButtonProps {
+  getSnapshot: () => ChatPageStateSnapshot | null | Promise<ChatPageStateSnapshot | null>; // 导出时获取会话快照
+  label?: string; // 按钮文字，不提供时只显示图标
+  disabled?: boolean;
+}
+
+/**
+ * 导出会话按钮：选择格式后把当前路径上的对话保存为 Markdown、HTML、纯文本或 Fountain 剧本
+ */
+const ExportSessionButton: React.FC<ExportSessionButtonProps> = ({ getSnapshot, label, disabled }) => {
+  const [open, setOpen] = useState(false);
+  const [format, setFormat] = useState<ExportFormat>('markdown');
+  const [includeDirectorCommands, setIncludeDirectorCommands] = useState(true);
+  const [exporting, setExporting] = useState(false);
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      const snapshot = await getSnapshot();
+      if (!snapshot) {
+        message.error('无法读取会话内容。');
+        return;
+      }
+      const file = exportSession(snapshot, format, { includeDirectorCommands });
+      const result = await window.electronAPI.exportChatSession(file.fileName, file.content, { name: file.filterName, extensions: [file.extension] });
+      if (!result.success) {
+        message.error(`导出失败: ${result.error || '未知错误'}`);
+        return;
+      }
+      if (result.data) {
+        message.success(`已导出到 ${result.data}`);
+        setOpen(false);
+      }
+    } catch (error) {
+      message.error(`导出时发生意外错误: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <>
+      <Tooltip title={label ? undefined : '导出会话'}>
+        <Button icon={<ExportOutlined />} onClick={() => setOpen(true)} disabled={disabled} aria-label="导出会话">
+          {label}
+        </Button>
+      </Tooltip>
+      <Modal
+        title="导出会话"
+        open={open}
+        onOk={handleExport}
+        onCancel={() => setOpen(false)}
+        okText="导出"
+        cancelText="取消"
+        confirmLoading={exporting}
+      >
+        <Space direction="vertical">
+          <Radio.Group value={format} onChange={e => setFormat(e.target.value)}>
+            <Space direction="vertical">
+              {EXPORT_FORMAT_OPTIONS.map(option => <Radio key={option.value} value={option.value}>{option.label}</Radio>)}
+            </Space>
+          </Radio.Group>
+          <Checkbox checked={includeDirectorCommands} onChange={e => setIncludeDirectorCommands(e.target.checked)}>
+            {format === 'fountain' ? '导演指令作为括号注释保留' : '包含导演指令'}
+          </Checkbox>
+          <div style={{ color: '#888', fontSize: '12px' }}>只导出当前显示的分支。</div>
+        </Space>
+      </Modal>
+    </>
+  );
+};
+
+export default ExportSessionButton;
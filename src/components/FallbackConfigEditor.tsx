@@ -0,0 +1,106 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Select, Button, Space, Typography } from 'antd';
+import { PlusOutlined, DeleteOutlined } from '@ant-design/icons';
+import type { AIConfig, AIConfigRef } from '../types';
+import { setupLogger as logger } from '../utils/logger';
+
+interface FallbackConfigEditorProps {
+  allAIConfigs: AIConfig[]; // 所有已保存的 AI 配置
+  value: AIConfigRef[]; // 当前的备用配置链 (按优先级排序)
+  onChange: (fallbacks: AIConfigRef[]) => void;
+  primaryConfigId?: string; // 主配置 ID，不允许同时作为备用配置
+  disabled?: boolean;
+}
+
+/**
+ * 备用配置链编辑器
+ * 主配置多次重试仍失败时 (例如 Key 额度耗尽)，按列表顺序改用这里的配置。
+ */
+const FallbackConfigEditor: React.FC<FallbackConfigEditorProps> = ({ allAIConfigs, value, onChange, primaryConfigId, disabled }) => {
+  // 各配置可用的模型列表，按 configId 缓存
+  const [modelsByConfigId, setModelsByConfigId] = useState<Record<string, string[]>>({});
+  // 已发起过模型列表请求的配置，避免重复请求
+  const requestedConfigIds = useRef(new Set<string>());
+
+  // 为列表中尚未加载模型的配置加载模型列表
+  useEffect(() => {
+    value
+      .map(fallback => fallback.configId)
+      .filter(configId => configId && !requestedConfigIds.current.has(configId))
+      .forEach(configId => {
+        requestedConfigIds.current.add(configId);
+        window.electronAPI.getAvailableModelsByConfigId(configId).then(result => {
+          if (result.success && result.data) {
+            const models = result.data;
+            setModelsByConfigId(prev => ({ ...prev, [configId]: models }));
+          } else {
+            logger.warn(`[备用配置] 加载配置 ${configId} 的模型列表失败: ${result.error || '未知错误'}`);
+            setModelsByConfigId(prev => ({ ...prev, [configId]: [] }));
+          }
+        });
+      });
+  }, [value]);
+
+  const updateFallback = (index: number, fallback: AIConfigRef) => {
+    onChange(value.map((item, i) => (i === index ? fallback : item)));
+  };
+
+  const handleConfigChange = (index: number, configId: string) => {
+    const config = allAIConfigs.find(c => c.id === configId);
+    updateFallback(index, { configId, modelName: '', providerId: config?.serviceProvider ?? '' });
+  };
+
+  const usedConfigIds = new Set([primaryConfigId, ...value.map(fallback => fallback.configId)]);
+  const maxFallbacks = allAIConfigs.filter(c => c.id !== primaryConfigId).length;
+
+  return (
+    <div>
+      <Typography.Text type="secondary" style={{ display: 'block', marginBottom: 8 }}>
+        备用配置 (可选)：主配置请求失败时按顺序使用
+      </Typography.Text>
+      {value.map((fallback, index) => (
+        <Space.Compact key={index} style={{ width: '100%', marginBottom: 8 }}>
+          <Select
+            placeholder={`备用配置 ${index + 1}`}
+            style={{ width: '45%' }}
+            value={fallback.configId || undefined}
+            onChange={(configId: string) => handleConfigChange(index, configId)}
+            options={allAIConfigs.map(c => ({
+              value: c.id,
+              label: `${c.name} (${c.serviceProvider})`,
+              disabled: c.id !== fallback.configId && usedConfigIds.has(c.id),
+            }))}
+            disabled={disabled}
+          />
+          <Select
+            placeholder="选择模型"
+            style={{ width: '45%' }}
+            value={fallback.modelName || undefined}
+            onChange={(modelName: string) => updateFallback(index, { ...fallback, modelName })}
+            options={(modelsByConfigId[fallback.configId] ?? []).map(m => ({ value: m, label: m }))}
+            loading={!!fallback.configId && !modelsByConfigId[fallback.configId]}
+            disabled={disabled || !fallback.configId}
+          />
+          <Button
+            danger
+            icon={<DeleteOutlined />}
+            onClick={() => onChange(value.filter((_, i) => i !== index))}
+            disabled={disabled}
+            aria-label="移除备用配置"
+          />
+        </Space.Compact>
+      ))}
+      <Button
+        type="dashed"
+        icon={<PlusOutlined />}
+        onClick={() => onChange([...value, { configId: '', modelName: '', providerId: '' }])}
+        disabled={disabled || value.length >= maxFallbacks}
+        block
+      >
+        添加备用配置
+      </Button>
+    </div>
+  );
+};
+
+export default FallbackConfigEditor;
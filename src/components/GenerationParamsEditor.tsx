@@ -0,0 +1,71 @@
+import React from 'react';
+import { Collapse, Form, InputNumber, Select, Typography } from 'antd';
+import type { GenerationParams } from '../types';
+import { NUMERIC_GENERATION_PARAMS, compactGenerationParams, describeGenerationParams } from '../utils/generationParams';
+
+interface GenerationParamsEditorProps {
+  value?: GenerationParams;
+  onChange: (params: GenerationParams | undefined) => void;
+  title?: string; // 折叠面板的标题
+  description?: string; // 展开后显示的说明
+  disabled?: boolean;
+}
+
+/**
+ * 生成参数编辑器 (温度、Top-P、最大 tokens、惩罚项和停止序列)，留空的项使用服务商的默认值
+ */
+const GenerationParamsEditor: React.FC<GenerationParamsEditorProps> = ({ value, onChange, title = '生成参数 (可选)', description, disabled }) => {
+  const update = (patch: GenerationParams) => onChange(compactGenerationParams({ ...value, ...patch }));
+  const summary = describeGenerationParams(value);
+
+  return (
+    <Collapse
+      size="small"
+      ghost
+      items={[{
+        key: 'params',
+        label: (
+          <span>
+            {title}
+            {summary && <Typography.Text type="secondary" style={{ marginLeft: 8 }}>{summary}</Typography.Text>}
+          </span>
+        ),
+        children: (
+          <>
+            <Typography.Text type="secondary" style={{ display: 'block', marginBottom: 8 }}>
+              {description ?? '留空的项使用服务商的默认值；服务商不支持的参数会被忽略。'}
+            </Typography.Text>
+            <Form layout="inline" style={{ rowGap: 8 }}>
+              {NUMERIC_GENERATION_PARAMS.map(({ key, label, min, max, step, precision }) => (
+                <Form.Item key={key} label={label}>
+                  <InputNumber
+                    min={min}
+                    max={max}
+                    step={step}
+                    precision={precision}
+                    placeholder="默认"
+                    value={value?.[key]}
+                    onChange={next => update({ [key]: next ?? undefined })}
+                    disabled={disabled}
+                  />
+                </Form.Item>
+              ))}
+              <Form.Item label="停止序列" style={{ minWidth: 280 }}>
+                <Select
+                  mode="tags"
+                  placeholder="输入后按回车添加"
+                  value={value?.stopSequences ?? []}
+                  onChange={(stopSequences: string[]) => update({ stopSequences })}
+                  open={false}
+                  disabled={disabled}
+                />
+              </Form.Item>
+            </Form>
+          </>
+        ),
+      }]}
+    />
+  );
+};
+
+export default GenerationParamsEditor;
@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import { Alert, Button, Form, Input, Modal, Popconfirm, message } from 'antd';
+import type { KeyVaultStatus } from '../types';
+
+interface KeyVaultModalProps {
+  open: boolean;
+  status: KeyVaultStatus | null;
+  onClose: () => void;
+  onStatusChange: (status: KeyVaultStatus) => void; // 设置、解锁或重置成功后的新状态
+}
+
+interface PassphraseFormValues {
+  passphrase: string;
+  confirm?: string;
+}
+
+/**
+ * 主密码弹窗：尚未设置主密码时设置主密码，否则输入主密码解锁本次启动
+ */
+const KeyVaultModal: React.FC<KeyVaultModalProps> = ({ open, status, onClose, onStatusChange }) => {
+  const [form] = Form.useForm<PassphraseFormValues>();
+  const [submitting, setSubmitting] = useState(false);
+  const isSetup = !status?.initialized;
+
+  const handleSubmit = async () => {
+    let passphrase: string;
+    try {
+      ({ passphrase } = await form.validateFields());
+    } catch {
+      return; // 表单校验未通过，错误已显示在表单中
+    }
+    setSubmitting(true);
+    try {
+      const result = isSetup
+        ? await window.electronAPI.keyVaultSetup(passphrase)
+        : await window.electronAPI.keyVaultUnlock(passphrase);
+      if (!result.success || !result.data) {
+        message.error(`${isSetup ? '设置主密码' : '解锁'}失败: ${result.error || '未知错误'}`);
+        return;
+      }
+      message.success(isSetup ? '主密码已设置，API Key 将加密保存。' : '已解锁。');
+      form.resetFields();
+      onStatusChange(result.data);
+    } catch (error) {
+      message.error(`操作时发生意外错误: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleReset = async () => {
+    const result = await window.electronAPI.keyVaultReset();
+    if (!result.success || !result.data) {
+      message.error(`重置失败: ${result.error || '未知错误'}`);
+      return;
+    }
+    message.success('主密码已重置，请重新设置主密码并重新填写 API Key。');
+    form.resetFields();
+    onStatusChange(result.data);
+  };
+
+  return (
+    <Modal
+      title={isSetup ? '设置主密码' : '解锁 API Key'}
+      open={open}
+      onOk={handleSubmit}
+      onCancel={onClose}
+      okText={isSetup ? '设置' : '解锁'}
+      cancelText="稍后"
+      confirmLoading={submitting}
+      maskClosable={false}
+      footer={(_, { OkBtn, CancelBtn }) => (
+        <>
+          {!isSetup && (
+            <Popconfirm
+              title="忘记主密码？"
+              description="重置后所有已保存的 API Key 都会被清空，需要重新填写。"
+              onConfirm={handleReset}
+              okText="确定重置"
+              cancelText="取消"
+            >
+              <Button danger style={{ float: 'left' }}>忘记主密码</Button>
+            </Popconfirm>
+          )}
+          <CancelBtn />
+          <OkBtn />
+        </>
+      )}
+    >
+      {isSetup ? (
+        <Alert
+          type="info"
+          showIcon
+          style={{ marginBottom: 16 }}
+          message="API Key 会用主密码加密后保存在本地，每次启动应用后需要输入一次主密码。主密码无法找回，请妥善保管。"
+          description={status?.plaintextKeyCount ? `已有 ${status.plaintextKeyCount} 个 API Key 以明文保存，设置主密码后会自动加密。` : undefined}
+        />
+      ) : (
+        <p>API Key 已加密保存，输入主密码后本次启动期间可以正常调用 AI。</p>
+      )}
+      <Form form={form} layout="vertical">
+        <Form.Item name="passphrase" label="主密码" rules={[{ required: true, message: '请输入主密码' }]}>
+          <Input.Password autoFocus onPressEnter={handleSubmit} />
+        </Form.Item>
+        {isSetup && (
+          <Form.Item
+            name="confirm"
+            label="确认主密码"
+            dependencies={['passphrase']}
+            rules={[
+              { required: true, message: '请再次输入主密码' },
+              ({ getFieldValue }) => ({
+                validator: (_, value) => (!value || getFieldValue('passphrase') === value ? Promise.resolve() : Promise.reject(new Error('两次输入的主密码不一致'))),
+              }),
+            ]}
+          >
+            <Input.Password onPressEnter={handleSubmit} />
+          </Form.Item>
+        )}
+      </Form>
+    </Modal>
+  );
+};
+
+export default KeyVaultModal;
@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { Button, Checkbox, Input, Modal, Popconfirm, Space, Tooltip } from 'antd';
+import { EditOutlined, DeleteOutlined, RollbackOutlined, ForkOutlined, FileSearchOutlined } from '@ant-design/icons';
+import type { ChatMessage } from '../types';
+import RequestInspectorModal from './RequestInspectorModal';
+
+interface MessageActionsProps {
+  message: ChatMessage;
+  isLast: boolean; // 最后一条消息不需要 "回退到这里"
+  onEdit: (content: string, regenerateAfter: boolean) => void;
+  onDelete: () => void;
+  onRewind: () => void;
+  onFork: () => void; // 从这里分叉出新会话
+  disabled?: boolean; // AI 回复进行中时禁止修改历史
+}
+
+/**
+ * 单条消息的操作：编辑、删除、回退到这里、从这里分叉，AI 回复还可以查看生成它的请求
+ */
+const MessageActions: React.FC<MessageActionsProps> = ({ message, isLast, onEdit, onDelete, onRewind, onFork, disabled }) => {
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState('');
+  const [regenerateAfter, setRegenerateAfter] = useState(false);
+  const [inspecting, setInspecting] = useState(false);
+
+  const startEditing = () => {
+    setDraft(message.content);
+    setRegenerateAfter(false);
+    setEditing(true);
+  };
+
+  const handleSave = () => {
+    setEditing(false);
+    onEdit(draft.trim(), regenerateAfter);
+  };
+
+  return (
+    <>
+      <Space size={0} style={{ marginLeft: 4, opacity: 0.6 }}>
+        <Tooltip title="编辑">
+          <Button size="small" type="text" icon={<EditOutlined />} onClick={startEditing} disabled={disabled} aria-label="编辑消息" />
+        </Tooltip>
+        <Popconfirm title="删除这条消息？" onConfirm={onDelete} okText="删除" cancelText="取消" disabled={disabled}>
+          <Tooltip title="删除">
+            <Button size="small" type="text" icon={<DeleteOutlined />} disabled={disabled} aria-label="删除消息" />
+          </Tooltip>
+        </Popconfirm>
+        {!isLast && (
+          <Popconfirm
+            title="回退到这里？"
+            description="之后的消息会移到另一个分支，可以从分支导航切换回来。"
+            onConfirm={onRewind}
+            okText="回退"
+            cancelText="取消"
+            disabled={disabled}
+          >
+            <Tooltip title="回退到这里">
+              <Button size="small" type="text" icon={<RollbackOutlined />} disabled={disabled} aria-label="回退到这里" />
+            </Tooltip>
+          </Popconfirm>
+        )}
+        <Popconfirm
+          title="从这里分叉？"
+          description="截至这条消息的对话会复制为一个新会话，原会话保持不变。"
+          onConfirm={onFork}
+          okText="分叉"
+          cancelText="取消"
+          disabled={disabled}
+        >
+          <Tooltip title="从这里分叉为新会话">
+            <Button size="small" type="text" icon={<ForkOutlined />} disabled={disabled} aria-label="从这里分叉" />
+          </Tooltip>
+        </Popconfirm>
+        {message.requestRef && (
+          <Tooltip title="查看请求 (实际发送给模型的内容)">
+            <Button size="small" type="text" icon={<FileSearchOutlined />} onClick={() => setInspecting(true)} aria-label="查看请求" />
+          </Tooltip>
+        )}
+      </Space>
+      <RequestInspectorModal requestRef={inspecting ? message.requestRef ?? null : null} onClose={() => setInspecting(false)} />
+      <Modal
+        title={`编辑 ${message.characterName} 的消息`}
+        open={editing}
+        onOk={handleSave}
+        onCancel={() => setEditing(false)}
+        okText="保存"
+        cancelText="取消"
+        okButtonProps={{ disabled: !draft.trim() || draft.trim() === message.content }}
+      >
+        <Input.TextArea value={draft} onChange={e => setDraft(e.target.value)} autoSize={{ minRows: 3, maxRows: 12 }} />
+        {!isLast && (
+          <Checkbox checked={regenerateAfter} onChange={e => setRegenerateAfter(e.target.checked)} style={{ marginTop: 12 }}>
+            重新生成之后的所有 AI 回复
+          </Checkbox>
+        )}
+        <div style={{ marginTop: 8, color: '#888', fontSize: '12px' }}>
+          修改会作为新的分支保存，原消息可以通过消息旁的箭头切换回去。
+        </div>
+      </Modal>
+    </>
+  );
+};
+
+export default MessageActions;
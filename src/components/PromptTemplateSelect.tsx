@@ -0,0 +1,45 @@
+import React from 'react';
+import { Button, Select, Space, Tag, Typography } from 'antd';
+import { useNavigate } from 'react-router-dom';
+import type { ChatMode, PromptTemplate } from '../types';
+
+interface PromptTemplateSelectProps {
+  mode: ChatMode;
+  templates: PromptTemplate[]; // 所有模板 (只显示适用于 mode 的)
+  value: PromptTemplate; // 当前选择的模板 (未选择时为默认模板)
+  defaultTemplateId: string;
+  onChange: (templateId: string) => void;
+  disabled?: boolean;
+}
+
+/**
+ * 会话设置页中选择本次会话使用的提示词模板
+ */
+const PromptTemplateSelect: React.FC<PromptTemplateSelectProps> = ({ mode, templates, value, defaultTemplateId, onChange, disabled }) => {
+  const navigate = useNavigate();
+  const options = templates
+    .filter(template => template.mode === mode)
+    .map(template => ({
+      value: template.id,
+      label: (
+        <Space size={4}>
+          {template.name}
+          {template.id === defaultTemplateId && <Tag color="blue">默认</Tag>}
+        </Space>
+      ),
+    }));
+
+  return (
+    <>
+      <Space wrap>
+        <Select style={{ minWidth: 280 }} value={value.id} options={options} onChange={onChange} disabled={disabled} />
+        <Button type="link" onClick={() => navigate('/prompt-templates')}>管理模板</Button>
+      </Space>
+      {value.description && (
+        <Typography.Paragraph type="secondary" style={{ marginTop: 8, marginBottom: 0 }}>{value.description}</Typography.Paragraph>
+      )}
+    </>
+  );
+};
+
+export default PromptTemplateSelect;
@@ -0,0 +1,148 @@
+import React, { useEffect, useState } from 'react';
+import { Alert, Button, Descriptions, Empty, List, Modal, Space, Spin, Tag, Typography, message } from 'antd';
+import type { GenerationParams, LLMRequestRecord, LLMRequestRef } from '../types';
+
+interface RequestInspectorModalProps {
+  requestRef: LLMRequestRef | null; // 要查看的请求，为 null 时不显示
+  onClose: () => void;
+}
+
+const PARAM_LABELS: Record<keyof GenerationParams, string> = {
+  temperature: '温度',
+  topP: 'Top-P',
+  maxTokens: '最大 token 数',
+  presencePenalty: '存在惩罚',
+  frequencyPenalty: '频率惩罚',
+  stopSequences: '停止序列',
+};
+
+const preStyle: React.CSSProperties = {
+  whiteSpace: 'pre-wrap',
+  wordBreak: 'break-word',
+  margin: 0,
+  padding: 8,
+  background: '#fafafa',
+  border: '1px solid #f0f0f0',
+  borderRadius: 4,
+  maxHeight: 320,
+  overflowY: 'auto',
+  fontSize: 12,
+};
+
+const formatParam = (value: GenerationParams[keyof GenerationParams]): string =>
+  Array.isArray(value) ? value.map(item => JSON.stringify(item)).join(', ') : String(value);
+
+/**
+ * 请求查看器：显示生成某条回复时实际发送给模型的系统提示词、消息列表和参数，以及服务商返回的结束原因和用量
+ */
+const RequestInspectorModal: React.FC<RequestInspectorModalProps> = ({ requestRef, onClose }) => {
+  const [record, setRecord] = useState<LLMRequestRecord | null>(null);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!requestRef) return;
+    let cancelled = false;
+    setRecord(null);
+    setLoadError(null);
+    setLoading(true);
+    window.electronAPI.llmGetRequestRecord(requestRef.sessionId, requestRef.requestId)
+      .then(result => {
+        if (cancelled) return;
+        if (result.success) {
+          setRecord(result.data ?? null);
+        } else {
+          setLoadError(result.error || '未知错误');
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => { cancelled = true; };
+  }, [requestRef]);
+
+  const handleCopy = async () => {
+    if (!record) return;
+    try {
+      await navigator.clipboard.writeText(JSON.stringify(record, null, 2));
+      message.success('已复制请求记录 (JSON)。');
+    } catch {
+      message.error('复制失败。');
+    }
+  };
+
+  const params = record
+    ? (Object.keys(PARAM_LABELS) as (keyof GenerationParams)[]).filter(key => record.params[key] !== undefined)
+    : [];
+
+  return (
+    <Modal
+      title="请求详情"
+      open={!!requestRef}
+      onCancel={onClose}
+      width={800}
+      footer={[
+        <Button key="copy" onClick={handleCopy} disabled={!record}>复制 JSON</Button>,
+        <Button key="close" type="primary" onClick={onClose}>关闭</Button>,
+      ]}
+    >
+      <Spin spinning={loading}>
+        {loadError && <Alert type="error" showIcon message={`读取请求记录失败: ${loadError}`} />}
+        {!loading && !loadError && !record && (
+          <Empty description="记录不存在 (请求日志可能已随原会话删除，或这条消息生成于请求记录功能之前)" />
+        )}
+        {record && (
+          <Space direction="vertical" style={{ width: '100%' }} size="middle">
+            {record.error && <Alert type="error" showIcon message={`请求出错: ${record.error}`} />}
+            <Descriptions size="small" bordered column={2}>
+              <Descriptions.Item label="模型">{record.providerId ? `${record.providerId} / ${record.model}` : record.model}</Descriptions.Item>
+              <Descriptions.Item label="AI 配置">
+                {record.configId}
+                {record.configId !== record.targets[0]?.configId && <Tag color="orange" style={{ marginLeft: 4 }}>备用</Tag>}
+              </Descriptions.Item>
+              <Descriptions.Item label="时间">{new Date(record.timestamp).toLocaleString()}</Descriptions.Item>
+              <Descriptions.Item label="耗时">{(record.durationMs / 1000).toFixed(1)} 秒{record.streaming ? ' (流式)' : ''}</Descriptions.Item>
+              <Descriptions.Item label="结束原因">
+                {record.finishReason ?? <Typography.Text type="secondary">未返回</Typography.Text>}
+                {record.cancelled && <Tag style={{ marginLeft: 4 }}>已停止</Tag>}
+              </Descriptions.Item>
+              <Descriptions.Item label="用量">
+                {record.usage
+                  ? `输入 ${record.usage.promptTokens ?? '-'} / 输出 ${record.usage.completionTokens ?? '-'} / 合计 ${record.usage.totalTokens ?? '-'}`
+                  : <Typography.Text type="secondary">未返回</Typography.Text>}
+              </Descriptions.Item>
+              <Descriptions.Item label="生成参数" span={2}>
+                {params.length > 0
+                  ? params.map(key => <Tag key={key}>{PARAM_LABELS[key]}: {formatParam(record.params[key])}</Tag>)
+                  : <Typography.Text type="secondary">全部使用服务商默认值</Typography.Text>}
+              </Descriptions.Item>
+            </Descriptions>
+
+            <div>
+              <Typography.Title level={5}>系统提示词</Typography.Title>
+              {record.systemPrompt
+                ? <pre style={preStyle}>{record.systemPrompt}</pre>
+                : <Typography.Text type="secondary">无</Typography.Text>}
+            </div>
+
+            <div>
+              <Typography.Title level={5}>消息列表 ({record.messages.length})</Typography.Title>
+              <List
+                size="small"
+                dataSource={record.messages}
+                renderItem={(item, index) => (
+                  <List.Item style={{ display: 'block' }}>
+                    <Tag color={item.role === 'user' ? 'blue' : 'green'}>#{index + 1} {item.role}</Tag>
+                    <pre style={{ ...preStyle, marginTop: 4 }}>{item.content}</pre>
+                  </List.Item>
+                )}
+              />
+            </div>
+          </Space>
+        )}
+      </Spin>
+    </Modal>
+  );
+};
+
+export default RequestInspectorModal;
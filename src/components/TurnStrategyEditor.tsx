@@ -0,0 +1,49 @@
+import React from 'react';
+import { Select, Typography } from 'antd';
+import type { AIConfig, TurnStrategy, TurnStrategyType } from '../types';
+import { TURN_STRATEGY_OPTIONS } from '../utils/turnStrategy';
+import ConfigModelSelect from './ConfigModelSelect';
+
+interface TurnStrategyEditorProps {
+  allAIConfigs: AIConfig[]; // 所有已保存的 AI 配置 (供裁判模型选择)
+  value: TurnStrategy;
+  onChange: (strategy: TurnStrategy) => void;
+  disabled?: boolean;
+}
+
+const STRATEGY_DESCRIPTIONS: Record<TurnStrategyType, string> = {
+  roundRobin: '选中的 AI 按勾选顺序依次回复。',
+  weightedRandom: '每次随机选出一位 AI 回复，角色设定中的健谈程度越高越容易被选中。',
+  addressed: '最近一条消息中被点名的角色接着发言，无人被点名时按顺序轮流。',
+  llmJudge: '由下面选择的模型阅读近期对话，判断谁应该接着发言 (建议使用便宜、快速的模型)。',
+};
+
+/**
+ * 多角色场景的发言策略设置
+ */
+const TurnStrategyEditor: React.FC<TurnStrategyEditorProps> = ({ allAIConfigs, value, onChange, disabled }) => (
+  <div>
+    <Select<TurnStrategyType>
+      style={{ width: '100%', maxWidth: 320 }}
+      value={value.type}
+      options={TURN_STRATEGY_OPTIONS}
+      onChange={type => onChange({ ...value, type })}
+      disabled={disabled}
+    />
+    <Typography.Text type="secondary" style={{ display: 'block', margin: '8px 0' }}>
+      {STRATEGY_DESCRIPTIONS[value.type]}
+    </Typography.Text>
+    {value.type === 'llmJudge' && (
+      <ConfigModelSelect
+        allAIConfigs={allAIConfigs}
+        value={value.judge}
+        onChange={judge => onChange({ ...value, judge })}
+        configPlaceholder="裁判使用的配置"
+        modelPlaceholder="裁判使用的模型"
+        disabled={disabled}
+      />
+    )}
+  </div>
+);
+
+export default TurnStrategyEditor;
@@ -0,0 +1,60 @@
+import React, { useState, useEffect } from 'react';
+import { Tag, Tooltip } from 'antd';
+import type { UsageSummary } from '../types';
+import { chatLogger as logger } from '../utils/logger';
+import { formatCost } from '../utils/format';
+
+interface UsageCounterProps {
+  sessionId: string; // 要统计的聊天会话 ID
+}
+
+const EMPTY_SUMMARY: UsageSummary = { requests: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, cost: 0 };
+
+/**
+ * 聊天界面顶部的用量计数器
+ * 进入页面时读取本会话已有的用量，之后随每次生成实时累加。
+ */
+const UsageCounter: React.FC<UsageCounterProps> = ({ sessionId }) => {
+  const [summary, setSummary] = useState<UsageSummary>(EMPTY_SUMMARY);
+
+  useEffect(() => {
+    let cancelled = false;
+    setSummary(EMPTY_SUMMARY);
+    window.electronAPI.usageGetSessionSummary(sessionId).then(result => {
+      if (cancelled) return;
+      if (result.success && result.data) {
+        setSummary(result.data);
+      } else {
+        logger.warn(`[用量] 读取会话 ${sessionId} 的用量失败: ${result.error || '未知错误'}`);
+      }
+    });
+
+    const subscription = window.electronAPI.onUsageRecorded(record => {
+      if (record.sessionId !== sessionId) return;
+      setSummary(prev => ({
+        requests: prev.requests + 1,
+        promptTokens: prev.promptTokens + record.promptTokens,
+        completionTokens: prev.completionTokens + record.completionTokens,
+        totalTokens: prev.totalTokens + record.promptTokens + record.completionTokens,
+        cost: prev.cost + (record.cost ?? 0),
+      }));
+    });
+
+    return () => {
+      cancelled = true;
+      subscription.dispose();
+    };
+  }, [sessionId]);
+
+  return (
+    <Tooltip
+      title={`本会话 ${summary.requests} 次生成：输入 ${summary.promptTokens} tokens，输出 ${summary.completionTokens} tokens (费用按价格表估算)`}
+    >
+      <Tag color="blue" style={{ marginInlineEnd: 0 }}>
+        {summary.totalTokens.toLocaleString()} tokens · {formatCost(summary.cost)}
+      </Tag>
+    </Tooltip>
+  );
+};
+
+export default UsageCounter;
@@ -2,7 +2,7 @@
 import type { LLMChatOptions, LLMResponse } from '../electron/llm/BaseLLM';
 import type { ProxyConfig } from '../electron/proxyManager';
 // 导入你的核心类型，确保与 preload 和后端一致
-import type { AICharacter, Script, AIConfig } from './types'; // 导入 AIConfig 类型
+import type { AICharacter, Script, AIConfig, AIConfigRef, ProviderDescriptor, RetryPolicy, ModelPrice, UsageRecord, UsageSummary, SessionSearchQuery, SessionSearchResult, CharacterCardFile, ScenarioBundle, KeyVaultStatus, StorageMigrationReport, BackupSnapshot, BackupItem, PromptTemplate, PromptTemplateBundle, PromptTemplateDefaults, LLMRequestRecord } from './types'; // 导入 AIConfig 类型
 
 declare global {
   interface Window {
@@ -12,17 +12,44 @@ declare global {
       writeStore: (fileName: string, data: unknown) => Promise<{ success: boolean; error?: string }>;
       listChatSessions: () => Promise<{ success: boolean; data?: string[]; error?: string }>; // Lists files in 'chats' dir
       deleteChatSession: (fileName: string) => Promise<{ success: boolean; error?: string }>; // Deletes file in 'chats' dir
+      storageMigrationReport: () => Promise<{ success: boolean; data?: StorageMigrationReport; error?: string }>; // 本次启动以来的数据迁移报告
+      storageMigrateAll: () => Promise<{ success: boolean; data?: StorageMigrationReport; error?: string }>; // 检查并升级所有数据文件
+      backupList: () => Promise<{ success: boolean; data?: BackupSnapshot[]; error?: string }>; // 列出数据目录快照 (最新的在前)
+      backupCreate: () => Promise<{ success: boolean; data?: BackupSnapshot; error?: string }>; // 立即备份
+      backupItems: (snapshotId: string) => Promise<{ success: boolean; data?: BackupItem[]; error?: string }>; // 快照中可单独恢复的项
+      backupRestore: (snapshotId: string, items?: string[]) => Promise<{ success: boolean; data?: string[]; error?: string }>; // 恢复全部或所选的项
+      backupDelete: (snapshotId: string) => Promise<{ success: boolean; error?: string }>;
       saveChatSession: (sessionId: string, data: ChatPageStateSnapshot) => Promise<{ success: boolean; error?: string }>; // Saves file to 'chats' dir <-- 新增类型定义
+      setChatSessionTags: (sessionId: string, tags: string[]) => Promise<{ success: boolean; error?: string }>;
+      searchChatSessions: (query: SessionSearchQuery) => Promise<{ success: boolean; data?: SessionSearchResult[]; error?: string }>; // 会话索引 + 全文搜索
+      exportChatSession: (defaultFileName: string, content: string, filter: { name: string; extensions: string[] })
+        => Promise<{ success: boolean; data?: string; error?: string }>; // 弹出保存对话框导出会话，data 为保存路径 (取消时为空)
 
       // --- Character Data API ---
       listCharacters: () => Promise<{ success: boolean; data?: AICharacter[]; error?: string }>;
       saveCharacter: (character: AICharacter) => Promise<{ success: boolean; error?: string }>;
       deleteCharacter: (characterId: string) => Promise<{ success: boolean; error?: string }>; // <-- 参数改为 characterId
+      characterCardImport: () => Promise<{ success: boolean; data?: CharacterCardFile[]; error?: string }>; // 选择并读取角色卡文件
+      characterCardExport: (defaultFileName: string, card: unknown, format: 'json' | 'png', avatar?: string)
+        => Promise<{ success: boolean; data?: string; error?: string }>; // 保存角色卡，data 为保存路径 (取消时为空)
 
       // --- Script Data API ---
       listScripts: () => Promise<{ success: boolean; data?: Script[]; error?: string }>;
       saveScript: (script: Script) => Promise<{ success: boolean; error?: string }>;
       deleteScript: (scriptId: string) => Promise<{ success: boolean; error?: string }>; // <-- 参数改为 scriptId
+      scriptBundleExport: (defaultFileName: string, bundle: ScenarioBundle)
+        => Promise<{ success: boolean; data?: string; error?: string }>; // 保存剧本包，data 为保存路径 (取消时为空)
+      scriptBundleImport: () => Promise<{ success: boolean; data?: unknown; error?: string }>; // 选择并读取剧本包 (取消时 data 为空)
+
+      // --- 提示词模板 API (只包含用户创建的模板) ---
+      promptTemplateList: () => Promise<{ success: boolean; data?: PromptTemplate[]; error?: string }>;
+      promptTemplateSave: (template: PromptTemplate) => Promise<{ success: boolean; error?: string }>;
+      promptTemplateDelete: (templateId: string) => Promise<{ success: boolean; error?: string }>; // 同时清除以它为默认模板的设置
+      promptTemplateGetDefaults: () => Promise<{ success: boolean; data?: PromptTemplateDefaults; error?: string }>;
+      promptTemplateSetDefaults: (defaults: PromptTemplateDefaults) => Promise<{ success: boolean; error?: string }>;
+      promptTemplateExport: (defaultFileName: string, bundle: PromptTemplateBundle)
+        => Promise<{ success: boolean; data?: string; error?: string }>; // 保存模板文件，data 为保存路径 (取消时为空)
+      promptTemplateImport: () => Promise<{ success: boolean; data?: unknown; error?: string }>; // 选择并读取模板文件 (取消时 data 为空)
 
       // --- LLM 服务相关 API 类型声明 ---
       // 更新：llmGetServices 更名为 getAllAIConfigs 并修改返回类型
@@ -43,12 +70,23 @@ declare global {
         => Promise<{ success: boolean; data?: string[]; error?: string }>;
       llmSaveCustomModels: (providerId: string, models: string[])
         => Promise<{ success: boolean; error?: string }>;
-      llmGenerateChat: (providerId: string, options: LLMChatOptions)
+      llmGenerateChat: (providerId: string, options: LLMChatOptions, characterId?: string, sessionId?: string, fallbacks?: AIConfigRef[])
         => Promise<{ success: boolean; data?: LLMResponse; error?: string }>;
       // 新增：流式聊天 API 启动方法
       // 修改：添加可选的 characterId 参数
-      llmGenerateChatStream: (providerId: string, options: LLMChatOptions, characterId?: string)
+      llmGenerateChatStream: (providerId: string, options: LLMChatOptions, characterId?: string, sessionId?: string, fallbacks?: AIConfigRef[])
         => Promise<{ success: boolean; error?: string }>;
+      // 取消正在进行的生成请求 (流式与非流式，省略 characterId 时取消该会话下的所有请求)，返回被取消的请求数量
+      llmCancelStream: (sessionId: string, characterId?: string)
+        => Promise<{ success: boolean; data?: number; error?: string }>;
+      // 读取会话请求日志中的一条记录，记录不存在时 data 为 null
+      llmGetRequestRecord: (sessionId: string, requestId: string)
+        => Promise<{ success: boolean; data?: LLMRequestRecord | null; error?: string }>;
+      // 重试策略
+      llmGetRetryPolicy: ()
+        => Promise<{ success: boolean; data?: RetryPolicy; error?: string }>;
+      llmSetRetryPolicy: (policy: Partial<RetryPolicy>)
+        => Promise<{ success: boolean; data?: RetryPolicy; error?: string }>;
 
       // --- AI 配置相关 API 类型声明 ---
       getAIConfigsByProvider: (serviceProvider: string)
@@ -62,9 +100,18 @@ declare global {
       // 新增：getAIConfigById 的类型声明
       getAIConfigById: (configId: string)
         => Promise<{ success: boolean; data?: AIConfig; error?: string }>;
-      // 新增：获取支持的服务商列表
-      getSupportedServiceProviders: ()
-        => Promise<{ success: boolean; data?: string[]; error?: string }>;
+      // API Key 密钥库 (主密码)
+      keyVaultStatus: ()
+        => Promise<{ success: boolean; data?: KeyVaultStatus; error?: string }>;
+      keyVaultSetup: (passphrase: string)
+        => Promise<{ success: boolean; data?: KeyVaultStatus; error?: string }>;
+      keyVaultUnlock: (passphrase: string)
+        => Promise<{ success: boolean; data?: KeyVaultStatus; error?: string }>;
+      keyVaultReset: ()
+        => Promise<{ success: boolean; data?: KeyVaultStatus; error?: string }>;
+      // 获取服务商注册表中的服务商描述 (配置模式、能力、默认模型)
+      getProviderDescriptors: ()
+        => Promise<{ success: boolean; data?: ProviderDescriptor[]; error?: string }>;
 
       // --- 代理相关 API 类型声明 ---
       proxyGetConfig: ()
@@ -95,6 +142,20 @@ declare global {
       onLLMStreamChunk: (listener: (data: { chunk: unknown; sourceId?: string }) => void)
         => { dispose: () => void };
 
+      // 用量统计 API
+      usageGetRecords: ()
+        => Promise<{ success: boolean; data?: UsageRecord[]; error?: string }>;
+      usageGetSessionSummary: (sessionId: string)
+        => Promise<{ success: boolean; data?: UsageSummary; error?: string }>;
+      usageClear: ()
+        => Promise<{ success: boolean; error?: string }>;
+      usageGetModelPrices: ()
+        => Promise<{ success: boolean; data?: ModelPrice[]; error?: string }>;
+      usageSetModelPrices: (prices: ModelPrice[])
+        => Promise<{ success: boolean; data?: ModelPrice[]; error?: string }>;
+      onUsageRecorded: (listener: (record: UsageRecord) => void)
+        => { dispose: () => void };
+
       // 日志 API
       logToFile: (level: string, message: string, ...args: unknown[]) => void;
     };
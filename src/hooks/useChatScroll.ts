@@ -0,0 +1,29 @@
+import { useEffect, useRef } from 'react';
+import type { ChatMessage } from '../types';
+
+// 聊天列表中消息元素的 DOM id，用于滚动定位
+export const getMessageElementId = (messageId?: string): string | undefined =>
+  messageId ? `chat-message-${messageId}` : undefined;
+
+// 定位到的消息的高亮背景色
+export const FOCUSED_MESSAGE_BACKGROUND = '#fffbe6';
+
+/**
+ * 聊天列表滚动：消息变化时滚动到底部；从搜索结果打开会话时滚动到命中的消息
+ * @returns 放在消息列表末尾的元素 ref
+ */
+export const useChatScroll = (messages: ChatMessage[], focusMessageId: string | undefined, enabled = true) => {
+  const messagesEndRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!enabled) return;
+    const focusedElement = focusMessageId ? document.getElementById(getMessageElementId(focusMessageId) as string) : null;
+    if (focusedElement) {
+      focusedElement.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    } else {
+      messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+    }
+  }, [messages, focusMessageId, enabled]);
+
+  return messagesEndRef;
+};
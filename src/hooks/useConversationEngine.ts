@@ -0,0 +1,625 @@
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { message } from 'antd';
+import type {
+  AICharacter,
+  AutoPlaySettings,
+  ChatConfig,
+  ChatMessage,
+  ChatMode,
+  ChatPageStateSnapshot,
+  ContextSettings,
+  ContextSummary,
+  MessageTree,
+  Script,
+  SessionForkInfo,
+  SplitSystemPrompt,
+  TurnStrategy,
+} from '../types';
+import type { LLMChatOptions, StreamChunk } from '../../electron/llm/BaseLLM';
+import type { SectionKey } from '../contexts/lastVisitedContextDefinition';
+import { useLastVisited } from './useLastVisited';
+import { chatLogger as logger } from '../utils/logger';
+import { DEFAULT_CONTEXT_SETTINGS, fitContext } from '../utils/contextBudget';
+import { toSpeakerLLMMessage } from '../utils/promptBuilder';
+import { DEFAULT_TURN_STRATEGY } from '../utils/turnStrategy';
+import { addPathToTree, buildTreeFromPath, createEmptyTree, normalizePath, removeFromTree, resolvePath, spliceOutOfTree } from '../utils/messageTree';
+import { resolveGenerationParams } from '../utils/generationParams';
+import { buildSessionPrompts } from '../utils/promptTemplates';
+import { DEFAULT_AUTO_PLAY_SETTINGS, StreamingReplies, TurnScheduler } from '../utils/turnScheduler';
+import type { AutoPlayProgress, AutoPlayStatus, NotifyLevel, TurnSchedulerHost } from '../utils/turnScheduler';
+
+type LLMMessage = LLMChatOptions['messages'][number];
+
+/**
+ * 聊天模式的策略：由各模式页面提供，引擎负责其余的一切 (消息列表、轮次调度、流式输出和持久化)
+ */
+export interface ConversationStrategy<TModeState extends object = Record<string, never>> {
+  mode: ChatMode;
+  sectionKey: SectionKey; // 记录最后访问状态时使用的版块 key
+  sessionIdPrefix?: string; // 新会话 ID 的前缀
+  initialModeState: TModeState; // 模式特有状态的初始值 (随会话快照保存)
+  validateConfig: (config: ChatConfig) => string | null; // 校验配置，返回错误信息或 null
+  getAICharacters: (config: ChatConfig) => AICharacter[]; // 由 AI 扮演的角色
+  toLLMMessage?: (message: ChatMessage) => LLMMessage; // 历史消息转换为模型消息，默认使用 "角色名: 内容" 格式
+}
+
+// 发言调度中的提示信息显示为 antd 全局提示
+const notify = (level: NotifyLevel, content: string) => {
+  message[level](content);
+};
+
+// 新会话 ID：模式前缀 + 剧本 ID + 创建时间 (历史记录页从文件名解析创建时间)
+const createSessionId = (strategy: ConversationStrategy<object>, config: ChatConfig): string =>
+  `${strategy.sessionIdPrefix ?? ''}${config.script.id}-${Date.now()}`;
+
+/**
+ * 从快照中恢复系统提示词，兼容旧版单人单 AI 快照的单个 systemPrompt 字符串
+ */
+const restoreSystemPrompts = (snapshot: ChatPageStateSnapshot, aiCharacters: AICharacter[]): Record<string, SplitSystemPrompt> | null => {
+  if (snapshot.systemPrompts && Object.keys(snapshot.systemPrompts).length > 0) {
+    return snapshot.systemPrompts;
+  }
+  if (snapshot.systemPrompt && aiCharacters.length === 1) {
+    return { [aiCharacters[0].id]: { prePrompt: snapshot.systemPrompt, postPrompt: '' } };
+  }
+  return null;
+};
+
+/**
+ * 剧本自带的自定义系统提示词 (来自导入的剧本包) 中属于本会话 AI 角色的部分
+ */
+function pickScriptPrompts(script: Script, aiCharacters: AICharacter[]): Record<string, SplitSystemPrompt> {
+  const prompts: Record<string, SplitSystemPrompt> = {};
+  aiCharacters.forEach(character => {
+    const prompt = script.customPrompts?.[character.id];
+    if (prompt) prompts[character.id] = prompt;
+  });
+  return prompts;
+}
+
+/**
+ * 与模式无关的对话引擎
+ * 负责从导航状态初始化/恢复会话、维护消息列表、按顺序调度 AI 发言、处理流式输出与停止、
+ * 上下文裁剪，以及把会话快照保存到文件和最后访问状态中。
+ */
+export function useConversationEngine<TModeState extends object>(strategy: ConversationStrategy<TModeState>) {
+  const location = useLocation();
+  const navigate = useNavigate();
+  const { updateLastVisitedNavInfo } = useLastVisited();
+
+  const [chatConfig, setChatConfig] = useState<ChatConfig | null>(null);
+  const [initializationError, setInitializationError] = useState<string | null>(null);
+  const [messages, setMessages] = useState<ChatMessage[]>([]); // 消息树中当前显示的路径
+  const [messageTree, setMessageTree] = useState<MessageTree>(createEmptyTree);
+  const [inputValue, setInputValue] = useState<string>('');
+  const [systemPrompts, setSystemPrompts] = useState<Record<string, SplitSystemPrompt>>({});
+  const [chatSessionId, setChatSessionId] = useState<string>('');
+  const [isStreamingEnabled, setIsStreamingEnabled] = useState<boolean>(true);
+  const [contextSettings, setContextSettings] = useState<ContextSettings>(DEFAULT_CONTEXT_SETTINGS);
+  const [contextSummary, setContextSummary] = useState<ContextSummary | undefined>(undefined);
+  const [selectedTargetAIIds, setSelectedTargetAIIds] = useState<string[]>([]);
+  const [modeState, setModeState] = useState<TModeState>(strategy.initialModeState);
+  const [aiLoadingState, setAILoadingState] = useState<Record<string, boolean>>({});
+  const [autoPlaySettings, setAutoPlaySettings] = useState<AutoPlaySettings>(DEFAULT_AUTO_PLAY_SETTINGS);
+  const [autoPlayStatus, setAutoPlayStatusState] = useState<AutoPlayStatus>('idle');
+  const [autoPlayProgress, setAutoPlayProgress] = useState<AutoPlayProgress>({ turns: 0, tokens: 0 });
+  const [isTurnRunning, setIsTurnRunning] = useState(false); // 有发言流程 (一轮发言、重新生成、自动演出) 正在进行，页面据此禁用输入
+  const [forkedFrom, setForkedFrom] = useState<SessionForkInfo | undefined>(undefined);
+  const [tags, setTags] = useState<string[] | undefined>(undefined);
+  // 从历史记录搜索结果打开会话时要定位的消息 (不保存到快照，对话继续后清除)
+  const [focusMessageId, setFocusMessageId] = useState<string | undefined>(undefined);
+
+  // 异步流程 (顺序发言、流式回调) 中需要读取最新值，统一通过 ref 访问
+  const messagesRef = useRef<ChatMessage[]>([]);
+  const messageTreeRef = useRef<MessageTree>(createEmptyTree());
+  const contextSummaryRef = useRef<ContextSummary | undefined>(undefined);
+
+  const aiCharacters = useMemo(() => (chatConfig ? strategy.getAICharacters(chatConfig) : []), [chatConfig, strategy]);
+
+  const buildSnapshot = (): ChatPageStateSnapshot | null => {
+    if (!chatConfig || !chatSessionId) return null;
+    return {
+      chatConfig,
+      messages: messagesRef.current,
+      messageTree: messageTreeRef.current,
+      inputValue,
+      systemPrompts,
+      chatSessionId,
+      isStreamingEnabled,
+      selectedTargetAIIds,
+      modeState: modeState as Record<string, unknown>,
+      contextSettings,
+      contextSummary: contextSummaryRef.current,
+      autoPlaySettings,
+      forkedFrom,
+      tags,
+    };
+  };
+  const buildSnapshotRef = useRef(buildSnapshot);
+  useEffect(() => {
+    buildSnapshotRef.current = buildSnapshot;
+  });
+
+  const updateMessageTree = useCallback((tree: MessageTree) => {
+    messageTreeRef.current = tree;
+    setMessageTree(tree);
+  }, []);
+
+  // 同步更新 ref 和状态，保证紧接着的异步步骤能读到最新的消息列表
+  // 新的路径会合并进消息树：新消息成为前一条消息的子节点，与原有的子节点形成分支
+  const updateMessages = useCallback((updater: (prev: ChatMessage[]) => ChatMessage[]) => {
+    messagesRef.current = normalizePath(updater(messagesRef.current));
+    setMessages(messagesRef.current);
+    updateMessageTree(addPathToTree(messageTreeRef.current, messagesRef.current));
+    setFocusMessageId(undefined);
+  }, [updateMessageTree]);
+
+  // 流式回复的占位消息与数据块处理 (宿主只用到稳定的回调)
+  const [streamingReplies] = useState(() => new StreamingReplies({
+    getMessages: () => messagesRef.current,
+    updateMessages,
+    removeMessageNode: messageId => updateMessageTree(removeFromTree(messageTreeRef.current, messageId)),
+    notify,
+  }));
+
+  const updateContextSummary = useCallback((summary: ContextSummary | undefined) => {
+    contextSummaryRef.current = summary;
+    setContextSummary(summary);
+  }, []);
+
+  // --- 从导航状态初始化：可能是 Setup 页传来的 ChatConfig，也可能是保存的会话快照 ---
+  useEffect(() => {
+    const state = location.state as (ChatPageStateSnapshot & { focusMessageId?: string }) | ChatConfig | undefined;
+    const snapshot = state && 'messages' in state && 'chatConfig' in state ? state : undefined;
+    const config = snapshot ? snapshot.chatConfig : (state as ChatConfig | undefined);
+
+    let error: string | null = null;
+    if (!config) {
+      error = '缺少聊天配置信息，请返回重新设置。';
+    } else if (config.mode !== strategy.mode) {
+      error = '配置信息与当前聊天模式不符，请返回重新设置。';
+    } else {
+      error = strategy.validateConfig(config);
+    }
+    if (error || !config) {
+      logger.error('[对话引擎] 无效的聊天状态:', state);
+      setInitializationError(error);
+      message.error(error);
+      navigate('/chat-mode-selection', { replace: true });
+      return;
+    }
+
+    const configAICharacters = strategy.getAICharacters(config);
+    const restoredPrompts = snapshot ? restoreSystemPrompts(snapshot, configAICharacters) : null;
+    logger.info(snapshot ? `[对话引擎] 恢复会话 ${snapshot.chatSessionId}` : '[对话引擎] 从配置初始化新会话');
+    // 旧版导演模式快照把输入框内容保存在 directorInputValue 中
+    const legacyInput = (snapshot as { directorInputValue?: string } | undefined)?.directorInputValue;
+
+    setChatConfig(config);
+    // 旧版快照没有消息树，由消息列表生成只有一个分支的树
+    const restored = buildTreeFromPath(snapshot?.messages ?? []);
+    let path = restored.path;
+    let tree = snapshot?.messageTree ? addPathToTree(snapshot.messageTree, restored.path) : restored.tree;
+    // 要定位的消息在其他分支上时，切换到经过它的路径
+    const focusId = snapshot?.focusMessageId;
+    if (focusId && tree.nodes[focusId] && !path.some(m => m.id === focusId)) {
+      path = resolvePath(tree, focusId);
+      tree = addPathToTree(tree, path);
+    }
+    messagesRef.current = path;
+    setMessages(path);
+    updateMessageTree(tree);
+    setFocusMessageId(focusId && tree.nodes[focusId] ? focusId : undefined);
+    setInputValue(snapshot?.inputValue ?? legacyInput ?? '');
+    setSystemPrompts(restoredPrompts ?? { ...buildSessionPrompts(config, configAICharacters), ...pickScriptPrompts(config.script, configAICharacters) });
+    setChatSessionId(snapshot?.chatSessionId || createSessionId(strategy, config));
+    setForkedFrom(snapshot?.forkedFrom);
+    setTags(snapshot?.tags);
+    setIsStreamingEnabled(snapshot?.isStreamingEnabled ?? true);
+    setContextSettings(snapshot?.contextSettings ?? DEFAULT_CONTEXT_SETTINGS);
+    setAutoPlaySettings(snapshot?.autoPlaySettings ?? DEFAULT_AUTO_PLAY_SETTINGS);
+    updateContextSummary(snapshot?.contextSummary);
+    // 没有保存过回复对象时默认选中全部 AI
+    setSelectedTargetAIIds(snapshot?.selectedTargetAIIds?.length ? snapshot.selectedTargetAIIds : configAICharacters.map(c => c.id));
+    setModeState({ ...strategy.initialModeState, ...(snapshot?.modeState as Partial<TModeState> | undefined) });
+    setAILoadingState({});
+    setInitializationError(null);
+  }, [location.state, navigate, strategy, updateContextSummary, updateMessageTree]);
+
+  // --- 状态变化时更新最后访问信息，便于从侧边栏返回时恢复 ---
+  useEffect(() => {
+    const snapshot = buildSnapshotRef.current();
+    if (!initializationError && snapshot) {
+      updateLastVisitedNavInfo(strategy.sectionKey, location.pathname, undefined, snapshot);
+    }
+  }, [
+    messages, messageTree, inputValue, chatConfig, systemPrompts, chatSessionId, isStreamingEnabled, contextSettings, contextSummary,
+    selectedTargetAIIds, modeState, autoPlaySettings, forkedFrom, tags, initializationError, strategy.sectionKey, updateLastVisitedNavInfo, location.pathname,
+  ]);
+
+  // 保存会话快照到文件
+  const saveSession = useCallback((overrides?: Partial<ChatPageStateSnapshot>) => {
+    const snapshot = buildSnapshotRef.current();
+    if (!snapshot) return;
+    window.electronAPI.saveChatSession(snapshot.chatSessionId, { ...snapshot, ...overrides })
+      .then(result => {
+        if (!result.success) {
+          message.error(`保存聊天记录失败: ${result.error || '未知错误'}`);
+        }
+      })
+      .catch(err => message.error(`保存聊天记录失败: ${err}`));
+  }, []);
+
+  // --- 流式数据监听 (整个页面生命周期内只注册一次，按 sourceId 分发到对应的回复) ---
+  useEffect(() => {
+    const subscription = window.electronAPI.onLLMStreamChunk(({ chunk, sourceId }) => {
+      streamingReplies.handleChunk(sourceId, chunk as StreamChunk);
+    });
+    return () => subscription.dispose();
+  }, [streamingReplies]);
+
+  /**
+   * 让一个 AI 角色基于给定历史生成回复
+   * @param replaceIndex 重新生成的消息位置：新回复作为该消息的兄弟分支成为当前路径的末尾；省略时把回复追加到末尾
+   * @returns 生成的消息，失败、停止或没有输出时为 null
+   */
+  const generateReply = useCallback(async (aiChar: AICharacter, history: ChatMessage[], replaceIndex?: number): Promise<ChatMessage | null> => {
+    const aiConfig = chatConfig?.aiConfigs[aiChar.id];
+    const prompt = systemPrompts[aiChar.id];
+    if (!chatConfig || !chatSessionId || !prompt) {
+      logger.warn(`[对话引擎] 无法让 ${aiChar.name} 发言：会话尚未初始化完成。`);
+      return null;
+    }
+    if (!aiConfig || !aiConfig.configId || !aiConfig.providerId || !aiConfig.modelName) {
+      message.error(`AI角色 (${aiChar.name}) 的配置不完整 (配置ID、服务商或模型名称缺失)！`);
+      logger.error(`[对话引擎] ${aiChar.name} 的 AI 配置不完整:`, aiConfig);
+      return null;
+    }
+
+    setAILoadingState(prev => ({ ...prev, [aiChar.id]: true }));
+    try {
+      // 按会话的上下文设置裁剪历史 (超出模型上下文时丢弃或摘要最早的消息)
+      const context = await fitContext({
+        history,
+        llmMessages: history.map(strategy.toLLMMessage ?? toSpeakerLLMMessage),
+        prePrompt: prompt.prePrompt,
+        postPrompt: prompt.postPrompt,
+        model: aiConfig.modelName,
+        settings: contextSettings,
+        summary: contextSummaryRef.current,
+        summarizer: { configId: aiConfig.configId, model: aiConfig.modelName, sessionId: chatSessionId },
+      });
+      if (context.summary !== contextSummaryRef.current) {
+        updateContextSummary(context.summary);
+      }
+
+      const options: LLMChatOptions = {
+        model: aiConfig.modelName,
+        messages: context.messages,
+        systemPrompt: context.systemPrompt,
+        stream: isStreamingEnabled,
+        // 角色的生成参数，会话级设置优先
+        ...resolveGenerationParams(aiConfig.generationParams, chatConfig.generationParams),
+      };
+      logger.info(`[对话引擎] 请求 ${aiChar.name} 发言 (${aiConfig.providerId}/${aiConfig.modelName})，流式: ${isStreamingEnabled}`);
+
+      if (isStreamingEnabled) {
+        const completion = streamingReplies.start(aiChar, chatSessionId, replaceIndex);
+        const startResult = await window.electronAPI.llmGenerateChatStream(aiConfig.configId, options, aiChar.id, chatSessionId, aiConfig.fallbacks);
+        if (!startResult.success && streamingReplies.isActive(aiChar.id)) {
+          message.error(`启动 AI (${aiChar.name}) 流式响应失败: ${startResult.error || '未知错误'}`);
+          streamingReplies.finish(aiChar.id);
+        }
+        return await completion;
+      }
+
+      const result = await window.electronAPI.llmGenerateChat(aiConfig.configId, options, aiChar.id, chatSessionId, aiConfig.fallbacks);
+      if (result.success && result.data?.content) {
+        const reply: ChatMessage = {
+          role: 'assistant', characterId: aiChar.id, characterName: aiChar.name,
+          content: result.data.content.trim(), timestamp: Date.now(),
+          aiConfigId: result.data.configId, modelUsed: result.data.modelUsed,
+          requestRef: result.data.requestId ? { sessionId: chatSessionId, requestId: result.data.requestId } : undefined,
+        };
+        updateMessages(prev => [...prev.slice(0, replaceIndex ?? prev.length), reply]);
+        return messagesRef.current[messagesRef.current.length - 1];
+      }
+      if (result.data?.cancelled) {
+        logger.info(`[对话引擎] ${aiChar.name} 的回复已被取消`);
+      } else {
+        message.error(`AI (${aiChar.name}) 回复失败: ${result.error || '未知错误'}`);
+      }
+      return null;
+    } catch (error: unknown) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      message.error(`调用 AI (${aiChar.name}) 时出错: ${errorMsg}`);
+      streamingReplies.finish(aiChar.id);
+      return null;
+    } finally {
+      setAILoadingState(prev => ({ ...prev, [aiChar.id]: false }));
+    }
+  }, [chatConfig, chatSessionId, systemPrompts, contextSettings, isStreamingEnabled, strategy, updateMessages, updateContextSummary, streamingReplies]);
+
+  // 发言调度：宿主在每次渲染后更新，运行中的修改 (设置、回复对象、生成函数) 在下一位 AI 发言时生效
+  const schedulerHost: TurnSchedulerHost = {
+    sessionId: chatSessionId,
+    aiCharacters,
+    turnStrategy: chatConfig?.turnStrategy,
+    selectedTargetAIIds,
+    autoPlaySettings,
+    getMessages: () => messagesRef.current,
+    generateReply,
+    saveSession,
+    notify,
+    onRunningChange: setIsTurnRunning,
+    onAutoPlayStatusChange: setAutoPlayStatusState,
+    onAutoPlayProgress: setAutoPlayProgress,
+  };
+  const [scheduler] = useState(() => new TurnScheduler(schedulerHost));
+  useEffect(() => {
+    scheduler.host = schedulerHost;
+  });
+
+  // 让目标 AI 按会话的发言策略依次回复 (见 TurnScheduler.runTurn)
+  const runTurn = useCallback((targetIds: string[]) => scheduler.runTurn(targetIds), [scheduler]);
+
+  /**
+   * 追加一条消息 (用户发言、导演指令或旁白)，保存会话，然后让目标 AI 按顺序回复
+   * 自动演出期间只插入消息，由自动演出循环中的下一位 AI 接着回应
+   */
+  const submitMessage = useCallback(async (newMessage: ChatMessage, targetIds: string[]) => {
+    // 上一轮发言尚未结束时不插入消息，输入框中的内容保留
+    if (scheduler.running && scheduler.autoPlayStatus === 'idle') {
+      message.warning('请等待当前 AI 回复完成后再发言。');
+      return;
+    }
+    updateMessages(prev => [...prev, newMessage]);
+    setInputValue('');
+    saveSession({ inputValue: '' });
+    if (scheduler.autoPlayStatus !== 'idle') {
+      logger.info('[对话引擎] 自动演出中插入消息，不打断演出。');
+      return;
+    }
+    if (targetIds.length > 0) {
+      await scheduler.runTurn(targetIds);
+    }
+  }, [scheduler, updateMessages, saveSession]);
+
+  /**
+   * 重新生成指定位置的 AI 消息 (基于它之前的历史)
+   * 新回复作为原消息的兄弟分支，原消息及其后续对话保留在原分支中
+   */
+  const regenerateMessage = useCallback(async (index: number) => {
+    const target = messagesRef.current[index];
+    const aiChar = target && aiCharacters.find(c => c.id === target.characterId);
+    if (!target || target.role !== 'assistant' || !aiChar || scheduler.running) {
+      logger.warn(`[对话引擎] 无法重新生成第 ${index} 条消息。`);
+      return;
+    }
+    await scheduler.runExclusive(async () => {
+      await generateReply(aiChar, messagesRef.current.slice(0, index), index);
+      saveSession();
+    });
+  }, [aiCharacters, scheduler, generateReply, saveSession]);
+
+  // 停止单个 AI 的回复 (流式与非流式)，本轮后续的 AI 照常发言
+  const stopAI = useCallback(async (characterId: string) => {
+    if (!chatSessionId) return;
+    logger.info(`[对话引擎] 请求停止 AI (${characterId}) 的回复`);
+    const result = await window.electronAPI.llmCancelStream(chatSessionId, characterId);
+    if (!result.success) {
+      message.error(`停止失败: ${result.error || '未知错误'}`);
+    }
+  }, [chatSessionId]);
+
+  // 停止本轮：不再触发后续的 AI (包括自动演出)，并取消本会话下所有请求
+  const stopAll = useCallback(async () => {
+    if (!chatSessionId) return;
+    logger.info('[对话引擎] 请求停止本会话所有 AI 的回复');
+    scheduler.stop();
+    const result = await window.electronAPI.llmCancelStream(chatSessionId);
+    if (!result.success) {
+      message.error(`停止失败: ${result.error || '未知错误'}`);
+    }
+  }, [chatSessionId, scheduler]);
+
+  // 自动演出期间统计本会话消耗的 token
+  useEffect(() => {
+    const subscription = window.electronAPI.onUsageRecorded(record => {
+      scheduler.recordUsage(record.sessionId, record.promptTokens + record.completionTokens);
+    });
+    return () => subscription.dispose();
+  }, [scheduler]);
+
+  // 离开页面时结束自动演出
+  useEffect(() => () => scheduler.dispose(), [scheduler]);
+
+  // 自动演出 (见 TurnScheduler.startAutoPlay)
+  const startAutoPlay = useCallback(() => scheduler.startAutoPlay(), [scheduler]);
+  const pauseAutoPlay = useCallback(() => scheduler.pauseAutoPlay(), [scheduler]);
+  const resumeAutoPlay = useCallback(() => scheduler.resumeAutoPlay(), [scheduler]);
+
+  /**
+   * 切换到经过指定消息的分支 (沿该消息之后最近查看过的分支延伸到末尾)
+   */
+  const switchBranch = useCallback((nodeId: string) => {
+    if (scheduler.running) {
+      message.warning('请等待当前 AI 回复完成后再切换分支。');
+      return;
+    }
+    const path = resolvePath(messageTreeRef.current, nodeId);
+    if (path.length === 0) return;
+    logger.info(`[对话引擎] 切换到经过消息 ${nodeId} 的分支`);
+    updateMessages(() => path);
+    saveSession();
+  }, [scheduler, updateMessages, saveSession]);
+
+  // 有 AI 正在回复或自动演出进行中时不允许修改历史
+  const isHistoryLocked = useCallback(() => {
+    if (scheduler.running || scheduler.autoPlayStatus !== 'idle') {
+      message.warning('请等待当前 AI 回复完成 (或停止自动演出) 后再修改对话。');
+      return true;
+    }
+    return false;
+  }, [scheduler]);
+
+  /**
+   * 编辑指定位置的消息：修改后的消息作为原消息的兄弟分支，原消息及其后续对话保留在原分支中
+   * @param regenerateAfter 是否重新生成之后的所有 AI 回复；否则把之后的消息原样复制到新分支
+   */
+  const editMessage = useCallback(async (index: number, content: string, regenerateAfter = false) => {
+    const path = messagesRef.current;
+    const target = path[index];
+    if (!target || isHistoryLocked()) return;
+    logger.info(`[对话引擎] 编辑第 ${index} 条消息${regenerateAfter ? '，并重新生成之后的回复' : ''}`);
+    const edited: ChatMessage = { ...target, id: undefined, parentId: undefined, content, timestamp: Date.now() };
+    // 去掉 ID 的消息会作为新节点加入消息树
+    const tail = path.slice(index + 1).map(msg => ({ ...msg, id: undefined }));
+    if (!regenerateAfter) {
+      updateMessages(() => [...path.slice(0, index), edited, ...tail]);
+      saveSession();
+      return;
+    }
+
+    updateMessages(() => [...path.slice(0, index), edited]);
+    await scheduler.runExclusive(async () => {
+      try {
+        // 用户、导演和旁白的消息原样保留，AI 的回复按原来的发言顺序重新生成
+        for (const msg of tail) {
+          if (scheduler.stopped) break;
+          const aiChar = msg.role === 'assistant' ? aiCharacters.find(c => c.id === msg.characterId) : undefined;
+          if (!aiChar) {
+            updateMessages(prev => [...prev, msg]);
+            continue;
+          }
+          const reply = await generateReply(aiChar, messagesRef.current);
+          if (!reply) break;
+        }
+      } finally {
+        saveSession();
+      }
+    });
+  }, [aiCharacters, scheduler, generateReply, isHistoryLocked, updateMessages, saveSession]);
+
+  /**
+   * 删除指定位置的单条消息，之后的消息保持不变
+   */
+  const deleteMessage = useCallback((index: number) => {
+    const target = messagesRef.current[index];
+    if (!target?.id || isHistoryLocked()) return;
+    logger.info(`[对话引擎] 删除第 ${index} 条消息`);
+    updateMessageTree(spliceOutOfTree(messageTreeRef.current, target.id));
+    updateMessages(prev => prev.filter((_, i) => i !== index));
+    saveSession();
+  }, [isHistoryLocked, updateMessages, updateMessageTree, saveSession]);
+
+  /**
+   * 回退到指定位置的消息：之后的消息从当前路径移除 (仍保留在消息树中，可从分支导航切换回去)
+   */
+  const rewindTo = useCallback((index: number) => {
+    if (index < 0 || index >= messagesRef.current.length || isHistoryLocked()) return;
+    logger.info(`[对话引擎] 回退到第 ${index} 条消息`);
+    updateMessages(prev => prev.slice(0, index + 1));
+    saveSession();
+  }, [isHistoryLocked, updateMessages, saveSession]);
+
+  /**
+   * 把当前路径上截至指定消息的对话复制为一个新会话 (新的会话 ID)，并切换到新会话
+   * 新会话记录来源会话和分叉点，原会话保持不变
+   */
+  const forkSession = useCallback(async (index: number) => {
+    const snapshot = buildSnapshotRef.current();
+    const target = messagesRef.current[index];
+    if (!snapshot || !chatConfig || !target || isHistoryLocked()) return;
+
+    const { tree, path } = buildTreeFromPath(messagesRef.current.slice(0, index + 1));
+    const summary = snapshot.contextSummary;
+    const forked: ChatPageStateSnapshot = {
+      ...snapshot,
+      chatSessionId: createSessionId(strategy, chatConfig),
+      messages: path,
+      messageTree: tree,
+      inputValue: '',
+      // 摘要覆盖的范围超出分叉点时不能沿用
+      contextSummary: summary && summary.coveredCount <= path.length ? summary : undefined,
+      forkedFrom: { parentSessionId: snapshot.chatSessionId, parentMessageId: target.id, messageIndex: index, forkedAt: Date.now() },
+    };
+    logger.info(`[对话引擎] 从会话 ${snapshot.chatSessionId} 的第 ${index} 条消息分叉出新会话 ${forked.chatSessionId}`);
+    saveSession();
+    try {
+      const result = await window.electronAPI.saveChatSession(forked.chatSessionId, forked);
+      if (!result.success) {
+        message.error(`分叉会话失败: ${result.error || '未知错误'}`);
+        return;
+      }
+    } catch (err) {
+      message.error(`分叉会话失败: ${err}`);
+      return;
+    }
+    message.success('已从这里分叉出新会话');
+    navigate(location.pathname, { state: forked });
+  }, [chatConfig, strategy, isHistoryLocked, saveSession, navigate, location.pathname]);
+
+  // 获取当前会话快照 (例如用于导出)
+  const getSnapshot = useCallback(() => buildSnapshotRef.current(), []);
+
+  // 修改本会话的发言策略 (保存在 chatConfig 中，随会话快照保存)
+  const setTurnStrategy = useCallback((turnStrategy: TurnStrategy) => {
+    setChatConfig(prev => (prev ? { ...prev, turnStrategy } : prev));
+  }, []);
+
+  // 更新回复对象的勾选，保持点击顺序：保留原有顺序，新勾选的追加到末尾
+  const updateSelectedTargets = useCallback((checkedIds: string[]) => {
+    setSelectedTargetAIIds(prev => [
+      ...prev.filter(id => checkedIds.includes(id)),
+      ...checkedIds.filter(id => !prev.includes(id)),
+    ]);
+  }, []);
+
+  return {
+    chatConfig,
+    aiCharacters,
+    initializationError,
+    messages,
+    messageTree,
+    switchBranch,
+    inputValue,
+    setInputValue,
+    chatSessionId,
+    isStreamingEnabled,
+    setIsStreamingEnabled,
+    contextSettings,
+    setContextSettings,
+    contextSummary,
+    clearContextSummary: () => updateContextSummary(undefined),
+    selectedTargetAIIds,
+    updateSelectedTargets,
+    turnStrategy: chatConfig?.turnStrategy ?? DEFAULT_TURN_STRATEGY,
+    setTurnStrategy,
+    modeState,
+    setModeState,
+    aiLoadingState,
+    // 同一轮中前一位 AI 回复完成、下一位还未开始时也算作加载中，避免此时提交的消息得不到回复
+    isLoading: isTurnRunning || Object.values(aiLoadingState).some(Boolean),
+    autoPlaySettings,
+    setAutoPlaySettings,
+    autoPlayStatus,
+    autoPlayProgress,
+    startAutoPlay,
+    pauseAutoPlay,
+    resumeAutoPlay,
+    submitMessage,
+    runTurn,
+    regenerateMessage,
+    editMessage,
+    deleteMessage,
+    rewindTo,
+    forkSession,
+    forkedFrom,
+    focusMessageId,
+    getSnapshot,
+    stopAI,
+    stopAll,
+  };
+}
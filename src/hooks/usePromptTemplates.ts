@@ -0,0 +1,54 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import type { ChatMode, PromptTemplate, PromptTemplateDefaults } from '../types';
+import { BUILT_IN_PROMPT_TEMPLATES, CHAT_MODES } from '../utils/promptTemplates';
+import { setupLogger as logger } from '../utils/logger';
+
+/**
+ * 读取提示词模板 (内置模板在前，之后是用户创建的模板) 和各聊天模式的默认模板
+ */
+export const usePromptTemplates = () => {
+  const [userTemplates, setUserTemplates] = useState<PromptTemplate[]>([]);
+  const [defaults, setDefaults] = useState<PromptTemplateDefaults>({});
+  const [loading, setLoading] = useState<boolean>(true);
+
+  const reload = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [templatesResult, defaultsResult] = await Promise.all([
+        window.electronAPI.promptTemplateList(),
+        window.electronAPI.promptTemplateGetDefaults(),
+      ]);
+      if (templatesResult.success && templatesResult.data) {
+        setUserTemplates(templatesResult.data);
+      } else {
+        logger.error('加载提示词模板失败:', templatesResult.error);
+      }
+      if (defaultsResult.success && defaultsResult.data) {
+        setDefaults(defaultsResult.data);
+      } else {
+        logger.error('加载默认提示词模板失败:', defaultsResult.error);
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  const templates = useMemo(
+    () => [...CHAT_MODES.map(mode => BUILT_IN_PROMPT_TEMPLATES[mode]), ...userTemplates],
+    [userTemplates],
+  );
+
+  /**
+   * 得到某个模式下要使用的模板：指定的模板 → 该模式的默认模板 → 内置模板
+   */
+  const resolveTemplate = useCallback((mode: ChatMode, templateId?: string): PromptTemplate => {
+    const find = (id?: string) => (id ? templates.find(template => template.id === id && template.mode === mode) : undefined);
+    return find(templateId) ?? find(defaults[mode]) ?? BUILT_IN_PROMPT_TEMPLATES[mode];
+  }, [templates, defaults]);
+
+  return { templates, userTemplates, defaults, setDefaults, loading, reload, resolveTemplate };
+};
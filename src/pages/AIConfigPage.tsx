@@ -1,23 +1,37 @@
 import React, { useState, useEffect, useCallback } from 'react';
 // 导入 theme 用于获取背景色等 token
-import { List, Card, Input, Button, message, Form, Spin, Typography, Space, Popconfirm, Tooltip, theme, Select } from 'antd'; // 移除未使用的 Tag, 导入 Select
+import { List, Card, Input, Button, message, Form, Spin, Typography, Space, Popconfirm, Tooltip, theme, Select, Tag, Alert } from 'antd';
 import { PlusOutlined, EditOutlined, DeleteOutlined, SaveOutlined, CloseOutlined, ReloadOutlined } from '@ant-design/icons';
 import { setupLogger as logger } from '../utils/logger'; // 导入日志工具
-import type { AIConfig } from '../types'; // 修正 AIConfig 类型导入路径
+import type { AIConfig, ProviderDescriptor, ProviderConfigFieldKey, ProviderCapabilities, KeyVaultStatus } from '../types'; // 修正 AIConfig 类型导入路径
+import KeyVaultModal from '../components/KeyVaultModal';
+
+// 表单中各配置字段的当前值 (字段由服务商的配置模式决定)
+type ProviderFieldValues = Partial<Record<ProviderConfigFieldKey, string>>;
+
+// 能力标签的显示文本
+const CAPABILITY_LABELS: Record<keyof ProviderCapabilities, string> = {
+  streaming: '流式输出',
+  systemPrompt: '系统提示词',
+  vision: '图像输入',
+  tools: '工具调用',
+};
 
-// 定义从后端获取的服务商信息结构
-interface LLMServiceInfo {
-  providerId: string;
-  providerName: string;
-  defaultModels: string[];
-}
+// 在下拉列表中展示配置时使用的简短描述 (优先显示 Key 末尾字符，否则显示 Base URL)
+// 主进程返回的 API Key 是掩码，解锁后保留末尾 4 个字符
+const describeConfig = (config: AIConfig): string => {
+  if (config.apiKey) {
+    return `${config.name} (Key: ...${config.apiKey.slice(-2)})`;
+  }
+  return `${config.name} (${config.baseURL || '无 Key'})`;
+};
 
 const AIConfigPage: React.FC = () => {
-  const [services, setServices] = useState<LLMServiceInfo[]>([]);
+  // 服务商描述信息 (来自主进程的服务商注册表)
+  const [services, setServices] = useState<ProviderDescriptor[]>([]);
   const [loading, setLoading] = useState(true);
-  // API Key 相关状态 (单个Key或当前选中配置的Key)
-  const [apiKeys, setApiKeys] = useState<Map<string, string>>(new Map());
-  // Google 多 Key 配置相关状态
+  // 配置表单相关状态 (按服务商分别保存)
+  const [fieldValues, setFieldValues] = useState<Map<string, ProviderFieldValues>>(new Map());
   const [configName, setConfigName] = useState<Map<string, string>>(new Map());
   const [selectedConfigId, setSelectedConfigId] = useState<Map<string, string | undefined>>(new Map());
   const [providerConfigs, setProviderConfigs] = useState<Map<string, AIConfig[]>>(new Map());
@@ -29,6 +43,9 @@ const AIConfigPage: React.FC = () => {
   const [newModelInput, setNewModelInput] = useState<Map<string, string>>(new Map());
   const [editingModel, setEditingModel] = useState<Map<string, { index: number; value: string } | null>>(new Map());
   const [modelsLoading, setModelsLoading] = useState<Map<string, boolean>>(new Map());
+  // API Key 密钥库状态
+  const [keyVaultStatus, setKeyVaultStatus] = useState<KeyVaultStatus | null>(null);
+  const [keyVaultModalOpen, setKeyVaultModalOpen] = useState(false);
   // 获取 antd 主题 token
   const { token: { colorBgContainer, borderRadiusLG } } = theme.useToken();
 
@@ -36,103 +53,53 @@ const AIConfigPage: React.FC = () => {
   const loadServicesAndModels = useCallback(async () => {
     setLoading(true);
     try {
-      // 步骤 1: 获取支持的服务商列表
-      const serviceProvidersResult = await window.electronAPI.getSupportedServiceProviders();
-      if (!serviceProvidersResult.success || !serviceProvidersResult.data) {
-        message.error(`加载支持的服务商列表失败: ${serviceProvidersResult.error || '未知错误'}`);
+      // 步骤 1: 从服务商注册表获取服务商描述 (配置模式、能力、默认模型)
+      const descriptorsResult = await window.electronAPI.getProviderDescriptors();
+      if (!descriptorsResult.success || !descriptorsResult.data) {
+        message.error(`加载支持的服务商列表失败: ${descriptorsResult.error || '未知错误'}`);
         setLoading(false);
         return;
       }
-      const supportedProviders = serviceProvidersResult.data;
-      // 修正1: 为 providerId 添加 string 类型
-      const loadedServicesData: LLMServiceInfo[] = supportedProviders.map((providerId: string) => ({
-        providerId: providerId,
-        providerName: providerId.charAt(0).toUpperCase() + providerId.slice(1),
-        defaultModels: [],
-      }));
+      const loadedServicesData = descriptorsResult.data;
       setServices(loadedServicesData);
-      logger.info('成功加载支持的服务商列表:', loadedServicesData.map(s => s.providerId).join(', '));
+      logger.info('成功加载支持的服务商列表:', loadedServicesData.map(s => s.id).join(', '));
 
       // 步骤 2: 初始化所有相关的状态 Map
-      const initialKeys = new Map<string, string>();
-      // 修正2: 移除重复声明的 const，改为 let 或者直接在forEach中初始化
-      // ESLint 修正: 将 let 改为 const，因为这些 Map 实例本身不会被重新赋值
       const providerModelsMap = new Map<string, string[]>();
       const newModelInputMap = new Map<string, string>();
       const editingModelMap = new Map<string, { index: number; value: string } | null>();
       const modelsLoadingMap = new Map<string, boolean>();
-      const configNameMap = new Map<string, string>();
-      const selectedConfigIdMap = new Map<string, string | undefined>();
       const providerConfigsMap = new Map<string, AIConfig[]>();
       const loadingConfigsMap = new Map<string, boolean>();
 
       // 为每个服务商初始化其状态
-      // 修正4: 使用 loadedServicesData
+      // 表单默认处于“添加新配置”状态：输入框为空，且没有预选任何已有配置
       loadedServicesData.forEach(service => {
-        initialKeys.set(service.providerId, '');
-        providerModelsMap.set(service.providerId, service.defaultModels || []);
-        newModelInputMap.set(service.providerId, '');
-        editingModelMap.set(service.providerId, null);
-        modelsLoadingMap.set(service.providerId, false);
-        configNameMap.set(service.providerId, '');
-        selectedConfigIdMap.set(service.providerId, undefined);
-        providerConfigsMap.set(service.providerId, []);
-        loadingConfigsMap.set(service.providerId, false);
+        providerModelsMap.set(service.id, service.defaultModels);
+        newModelInputMap.set(service.id, '');
+        editingModelMap.set(service.id, null);
+        modelsLoadingMap.set(service.id, false);
+        providerConfigsMap.set(service.id, []);
+        loadingConfigsMap.set(service.id, false);
       });
 
       // 步骤 3: 获取所有已保存的 AI 配置，并按服务商分类
       const allConfigsResult = await window.electronAPI.getAllAIConfigs();
-      let allConfigs: AIConfig[] = [];
       if (allConfigsResult.success && allConfigsResult.data) {
-        allConfigs = allConfigsResult.data;
-        allConfigs.forEach(config => {
+        allConfigsResult.data.forEach(config => {
           const configsForProvider = providerConfigsMap.get(config.serviceProvider) || [];
           configsForProvider.push(config);
           providerConfigsMap.set(config.serviceProvider, configsForProvider);
-
-          // --- 核心改动：调整预填逻辑 ---
-          // 目的是确保Google服务商在初始加载时，默认进入“添加新配置”状态，
-          // 即相关的输入框为空，且没有预选任何已有配置。
-
-          // 1. 对于非Google服务商 (例如 OpenAI, Anthropic):
-          //    如果该服务商只有一个已保存的配置，并且当前API Key输入框为空，
-          //    则预填该API Key，以提供便利。
-          if (config.serviceProvider !== 'google' &&
-              configsForProvider.length === 1 &&
-              (initialKeys.get(config.serviceProvider) === '' || initialKeys.get(config.serviceProvider) === undefined)
-          ) {
-            initialKeys.set(config.serviceProvider, config.apiKey);
-            logger.info(`服务商 ${config.serviceProvider} 存在一个已保存配置，已预填API Key。`);
-          }
-
-          // 2. 对于Google服务商:
-          //    我们不再根据已保存的配置来自动填充主输入框 (API Key, 配置名称) 或自动选择某个配置。
-          //    - `selectedConfigIdMap.get('google')` 将保持 `undefined` (除非用户从下拉框中明确选择)。
-          //    - `configNameMap.get('google')` 和 `initialKeys.get('google')` (对应主输入框)
-          //      将保持它们在 `loadedServicesData.forEach` 中设置的初始值 (通常是空字符串)。
-          //    这样做可以确保用户打开Google配置卡片时，默认看到的是用于添加新配置的空白表单。
-          //    如果用户希望编辑现有配置，他们可以从“选择已有配置”的下拉列表中进行选择。
-          //    因此，此处不再需要针对 'google' 服务商进行 `configNameMap.set` 或 `selectedConfigIdMap.set` 的预填逻辑。
-          //    `initialKeys` 的预填也已在上面的 `if (config.serviceProvider !== 'google')` 条件中处理。
-          //    之前的逻辑 (如下注释掉的部分) 会导致Google在有配置时默认选中第一个，可能隐藏“添加”入口。
-          //    // if (configsForProvider.length === 1 && !initialKeys.get(config.serviceProvider)) {
-          //    //   initialKeys.set(config.serviceProvider, config.apiKey);
-          //    //   if (config.serviceProvider === 'google') {
-          //    //     configNameMap.set(config.serviceProvider, config.name);
-          //    //     selectedConfigIdMap.set(config.serviceProvider, config.id);
-          //    //   }
-          //    // }
         });
-        logger.info(`成功加载并分类了 ${allConfigs.length} 个已保存的AI配置。`);
+        logger.info(`成功加载并分类了 ${allConfigsResult.data.length} 个已保存的AI配置。`);
       } else {
-        // 修正3: 使用 message.warning
         message.warning(`加载所有AI配置列表失败或为空: ${allConfigsResult.error || '列表为空'}`);
       }
-      
+
       setProviderConfigs(providerConfigsMap);
-      setApiKeys(initialKeys);
-      setConfigName(configNameMap);
-      setSelectedConfigId(selectedConfigIdMap);
+      setFieldValues(new Map());
+      setConfigName(new Map());
+      setSelectedConfigId(new Map());
       setProviderModels(providerModelsMap);
       setNewModelInput(newModelInputMap);
       setEditingModel(editingModelMap);
@@ -141,11 +108,11 @@ const AIConfigPage: React.FC = () => {
 
       // 步骤 4: 为每个服务商加载模型列表
       const modelPromises = loadedServicesData.map(async (service) => {
-        modelsLoadingMap.set(service.providerId, true);
+        modelsLoadingMap.set(service.id, true);
         setModelsLoading(new Map(modelsLoadingMap)); // 更新UI
 
-        const configsForThisProvider = providerConfigsMap.get(service.providerId) || [];
-        let models: string[] = service.defaultModels || [];
+        const configsForThisProvider = providerConfigsMap.get(service.id) || [];
+        let models: string[] = service.defaultModels;
 
         if (configsForThisProvider.length > 0) {
           const representativeConfigId = configsForThisProvider[0].id;
@@ -153,23 +120,21 @@ const AIConfigPage: React.FC = () => {
             const modelsResult = await window.electronAPI.getAvailableModelsByConfigId(representativeConfigId);
             if (modelsResult.success && modelsResult.data) {
               models = modelsResult.data;
-              logger.info(`成功加载服务商 ${service.providerId} (配置ID: ${representativeConfigId}) 的模型列表: ${models.length}个`);
+              logger.info(`成功加载服务商 ${service.id} (配置ID: ${representativeConfigId}) 的模型列表: ${models.length}个`);
             } else {
-              message.error(`加载 ${service.providerName} (配置ID: ${representativeConfigId}) 模型列表失败: ${modelsResult.error || '未知错误'}`);
+              message.error(`加载 ${service.displayName} (配置ID: ${representativeConfigId}) 模型列表失败: ${modelsResult.error || '未知错误'}`);
             }
           } catch (modelError: unknown) {
             const errorMsg = modelError instanceof Error ? modelError.message : String(modelError);
-            message.error(`调用获取 ${service.providerName} (配置ID: ${representativeConfigId}) 模型列表时出错: ${errorMsg}`);
+            message.error(`调用获取 ${service.displayName} (配置ID: ${representativeConfigId}) 模型列表时出错: ${errorMsg}`);
           }
+        } else if (models.length === 0) {
+          logger.info(`服务商 ${service.displayName} 尚无配置，且无默认模型列表。请先添加配置以加载模型。`);
         } else {
-          if (models.length === 0) {
-             logger.info(`服务商 ${service.providerName} 尚无配置，且无默认模型列表。请先添加配置以加载模型。`);
-          } else {
-             logger.info(`服务商 ${service.providerName} 尚无配置，使用其默认模型列表: ${models.length}个`);
-          }
+          logger.info(`服务商 ${service.displayName} 尚无配置，使用其默认模型列表: ${models.length}个`);
         }
-        providerModelsMap.set(service.providerId, models);
-        modelsLoadingMap.set(service.providerId, false);
+        providerModelsMap.set(service.id, models);
+        modelsLoadingMap.set(service.id, false);
       });
 
       await Promise.all(modelPromises);
@@ -189,10 +154,25 @@ const AIConfigPage: React.FC = () => {
     loadServicesAndModels();
   }, [loadServicesAndModels]); // 依赖 loadServicesAndModels，确保其更新时能重新加载
 
-  // 获取特定服务商的AI配置列表 (此函数主要用于Google配置的刷新，可以保留)
-  // 注意：此函数现在主要用于在添加/更新/删除Google配置后刷新列表
+  useEffect(() => {
+    window.electronAPI.keyVaultStatus().then(result => {
+      if (result.success && result.data) setKeyVaultStatus(result.data);
+    });
+  }, []);
+
+  // 设置或解锁主密码后重新加载配置 (掩码中的 Key 末尾字符需要解锁后才能显示)
+  const handleKeyVaultStatusChange = (status: KeyVaultStatus) => {
+    setKeyVaultStatus(status);
+    setKeyVaultModalOpen(!status.unlocked);
+    setSelectedConfigId(new Map());
+    setConfigName(new Map());
+    setFieldValues(new Map());
+    loadServicesAndModels();
+  };
+
+  // 获取特定服务商的AI配置列表
+  // 注意：此函数主要用于在添加/更新/删除配置后刷新列表
   const fetchProviderConfigs = useCallback(async (providerId: string) => {
-    if (providerId !== 'google') return; // 目前仅为 Google 获取
     setLoadingConfigs(prev => new Map(prev).set(providerId, true));
     try {
       const result = await window.electronAPI.getAIConfigsByProvider(providerId);
@@ -212,111 +192,131 @@ const AIConfigPage: React.FC = () => {
     }
   }, []);
 
-  // 当服务列表加载后，为Google加载其配置
-  useEffect(() => {
-    if (services.some(s => s.providerId === 'google')) {
-      fetchProviderConfigs('google');
+  // 使用指定配置重新加载服务商的模型列表 (例如 OpenAI 兼容接口需要在保存配置后从 /v1/models 重新发现模型)
+  const reloadProviderModels = useCallback(async (providerId: string, configId: string) => {
+    setModelsLoading(prev => new Map(prev).set(providerId, true));
+    try {
+      const modelsResult = await window.electronAPI.getAvailableModelsByConfigId(configId);
+      if (modelsResult.success && modelsResult.data) {
+        setProviderModels(prev => new Map(prev).set(providerId, modelsResult.data || []));
+        logger.info(`已重新加载服务商 ${providerId} (配置ID: ${configId}) 的模型列表: ${modelsResult.data.length}个`);
+      } else {
+        message.error(`加载模型列表失败: ${modelsResult.error || '未知错误'}`);
+      }
+    } catch (error: unknown) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      message.error(`调用获取模型列表时出错: ${errorMsg}`);
+    } finally {
+      setModelsLoading(prev => new Map(prev).set(providerId, false));
     }
-  }, [services, fetchProviderConfigs]);
+  }, []);
 
 
-  // 处理 API Key 输入变化
-  const handleApiKeyChange = (providerId: string, value: string) => {
-    setApiKeys(prev => new Map(prev).set(providerId, value));
+  // 处理配置字段 (API Key / Base URL / Region / Deployment) 输入变化
+  const handleFieldChange = (providerId: string, key: ProviderConfigFieldKey, value: string) => {
+    setFieldValues(prev => new Map(prev).set(providerId, { ...prev.get(providerId), [key]: value }));
   };
 
-  // 处理配置名称输入变化 (仅Google)
+  // 处理配置名称输入变化
   const handleConfigNameChange = (providerId: string, value: string) => {
     setConfigName(prev => new Map(prev).set(providerId, value));
   };
 
-  // 处理从下拉列表选择已有配置 (仅Google)
+  // 处理从下拉列表选择已有配置
   const handleProviderConfigSelect = (providerId: string, configId: string | undefined) => {
     setSelectedConfigId(prev => new Map(prev).set(providerId, configId));
-    if (configId) {
-      const selectedList = providerConfigs.get(providerId) || [];
-      const config = selectedList.find(c => c.id === configId);
-      if (config) {
-        setConfigName(prev => new Map(prev).set(providerId, config.name));
-        setApiKeys(prev => new Map(prev).set(providerId, config.apiKey));
-      }
-    } else {
-      // 如果取消选择，清空名称和Key输入框
-      setConfigName(prev => new Map(prev).set(providerId, ''));
-      setApiKeys(prev => new Map(prev).set(providerId, ''));
+    const service = services.find(s => s.id === providerId);
+    const config = configId ? (providerConfigs.get(providerId) || []).find(c => c.id === configId) : undefined;
+    if (configId && !config) {
+      return;
     }
+    // 选中配置时按配置模式回填各字段，取消选择时清空名称和所有字段
+    const values: ProviderFieldValues = {};
+    service?.configFields.forEach(field => {
+      values[field.key] = config?.[field.key] || '';
+    });
+    setConfigName(prev => new Map(prev).set(providerId, config?.name || ''));
+    setFieldValues(prev => new Map(prev).set(providerId, values));
   };
 
 
-  // 处理保存 API Key / AI 配置
+  // 处理保存 AI 配置
   const handleSaveApiKey = async (providerId: string) => {
-    setSavingKeyStatus(prev => new Map(prev).set(providerId, true));
-    const currentApiKey = apiKeys.get(providerId) || '';
+    const service = services.find(s => s.id === providerId);
+    if (!service) {
+      message.error('未找到服务商信息，无法保存配置');
+      return;
+    }
     const currentConfigName = configName.get(providerId) || '';
     const currentSelectedConfigId = selectedConfigId.get(providerId);
+    const currentValues = fieldValues.get(providerId) || {};
 
-    try {
-      let result;
-      const providerDisplayName = services.find(s => s.providerId === providerId)?.providerName || providerId;
+    if (!currentConfigName.trim()) {
+      message.error('配置名称不能为空！');
+      return;
+    }
+    // 按服务商的配置模式校验必填字段
+    const missingField = service.configFields.find(field => field.required && !currentValues[field.key]?.trim());
+    if (missingField) {
+      message.error(`${missingField.label} 不能为空！`);
+      return;
+    }
+    const invalidJsonField = service.configFields.find(field => {
+      const value = currentValues[field.key]?.trim();
+      if (!field.json || !value) return false;
+      try {
+        JSON.parse(value);
+        return false;
+      } catch {
+        return true;
+      }
+    });
+    if (invalidJsonField) {
+      message.error(`${invalidJsonField.label} 不是合法的 JSON！`);
+      return;
+    }
 
-      if (providerId === 'google') {
-        if (!currentConfigName.trim()) {
-          message.error('配置名称不能为空！');
-          setSavingKeyStatus(prev => new Map(prev).set(providerId, false));
-          return;
-        }
-        if (!currentApiKey.trim()) {
-          message.error('API Key 不能为空！');
-          setSavingKeyStatus(prev => new Map(prev).set(providerId, false));
-          return;
-        }
+    // 只提交配置模式中声明的字段
+    const fieldUpdates: Partial<AIConfig> = {};
+    service.configFields.forEach(field => {
+      fieldUpdates[field.key] = currentValues[field.key]?.trim() || '';
+    });
 
-        if (currentSelectedConfigId) {
-          // 更新现有配置
-          result = await window.electronAPI.updateAIConfig(currentSelectedConfigId, {
-            name: currentConfigName,
-            apiKey: currentApiKey,
-            serviceProvider: providerId, // serviceProvider 一般不在此处更新，但可以包含以保持数据完整性
-          });
-          if (result.success) {
-            message.success(`配置 "${currentConfigName}" 已更新！`);
-          }
-        } else {
-          // 添加新配置
-          result = await window.electronAPI.addAIConfig({
-            serviceProvider: providerId,
-            name: currentConfigName,
-            apiKey: currentApiKey,
-          });
-          if (result.success && result.data) {
-            message.success(`配置 "${currentConfigName}" 已添加！`);
-            // 新增成功后，可以考虑自动选中这个新配置
-            // setSelectedConfigId(prev => new Map(prev).set(providerId, result.data?.id));
-          }
-        }
+    setSavingKeyStatus(prev => new Map(prev).set(providerId, true));
+    try {
+      let result;
+      if (currentSelectedConfigId) {
+        // 更新现有配置
+        result = await window.electronAPI.updateAIConfig(currentSelectedConfigId, {
+          ...fieldUpdates,
+          name: currentConfigName,
+          serviceProvider: providerId, // serviceProvider 一般不在此处更新，但可以包含以保持数据完整性
+        });
         if (result.success) {
-          await fetchProviderConfigs(providerId); // 刷新列表
-          // 清空或重置表单，取决于是否希望用户继续编辑刚保存的项
-          // handleProviderConfigSelect(providerId, undefined); // 清空选择和表单
-        } else {
-          message.error(`保存 Google 配置失败: ${result.error || '未知错误'}`);
+          message.success(`配置 "${currentConfigName}" 已更新！`);
         }
       } else {
-        // 对于非 Google 服务商，使用旧的单 Key 保存逻辑
-        result = await window.electronAPI.llmSetApiKey(providerId, currentApiKey || null);
-        if (result.success) {
-          message.success(`${providerDisplayName} API Key 已保存！`);
-          if (!currentApiKey) {
-             setApiKeys(prev => {
-               const newMap = new Map(prev);
-               newMap.delete(providerId);
-               return newMap;
-             });
-          }
-        } else {
-          message.error(`保存 ${providerDisplayName} API Key 失败: ${result.error || '未知错误'}`);
+        // 添加新配置
+        result = await window.electronAPI.addAIConfig({
+          ...fieldUpdates,
+          serviceProvider: providerId,
+          name: currentConfigName,
+          apiKey: fieldUpdates.apiKey || '',
+        });
+        if (result.success && result.data) {
+          message.success(`配置 "${currentConfigName}" 已添加！`);
         }
       }
+      if (result.success) {
+        await fetchProviderConfigs(providerId); // 刷新列表
+        // 用刚保存的配置重新加载模型列表 (服务商可能支持动态发现模型)
+        const savedConfigId = currentSelectedConfigId || result.data?.id;
+        if (savedConfigId) {
+          await reloadProviderModels(providerId, savedConfigId);
+        }
+      } else {
+        message.error(`保存 ${service.displayName} 配置失败: ${result.error || '未知错误'}`);
+      }
     } catch (error: unknown) {
       const errorMsg = error instanceof Error ? error.message : String(error);
       message.error(`调用保存操作时出错: ${errorMsg}`);
@@ -325,7 +325,7 @@ const AIConfigPage: React.FC = () => {
     }
   };
 
-  // 处理删除 AI 配置 (仅Google)
+  // 处理删除 AI 配置
   const handleDeleteConfig = async (providerId: string) => {
     const configIdToDelete = selectedConfigId.get(providerId);
     if (!configIdToDelete) {
@@ -363,7 +363,7 @@ const AIConfigPage: React.FC = () => {
    const saveModelsToBackend = useCallback(async (providerId: string, currentModels: string[]) => {
       setModelsLoading(prev => new Map(prev).set(providerId, true));
       try {
-         const serviceInfo = services.find(s => s.providerId === providerId);
+         const serviceInfo = services.find(s => s.id === providerId);
          if (!serviceInfo) {
            message.error('未找到服务商信息，无法保存模型');
            return false;
@@ -376,7 +376,7 @@ const AIConfigPage: React.FC = () => {
          if (result.success) {
            return true;
          } else {
-           message.error(`保存 ${serviceInfo.providerName} 模型列表失败: ${result.error || '未知错误'}`);
+           message.error(`保存 ${serviceInfo.displayName} 模型列表失败: ${result.error || '未知错误'}`);
            return false;
          }
       } catch (error: unknown) { // 使用 unknown
@@ -484,7 +484,7 @@ const AIConfigPage: React.FC = () => {
 
    // 处理重置模型列表为默认
    const handleResetModels = async (providerId: string) => {
-      const serviceInfo = services.find(s => s.providerId === providerId);
+      const serviceInfo = services.find(s => s.id === providerId);
       if (!serviceInfo) {
          message.error('未找到服务商信息，无法重置模型');
          return;
@@ -493,7 +493,7 @@ const AIConfigPage: React.FC = () => {
       const success = await saveModelsToBackend(providerId, defaultModels); // 传递默认模型去计算空自定义列表
       if (success) {
          setProviderModels(prev => new Map(prev).set(providerId, defaultModels));
-         message.success(`${serviceInfo.providerName} 模型列表已重置为默认`);
+         message.success(`${serviceInfo.displayName} 模型列表已重置为默认`);
          setEditingModel(prev => new Map(prev).set(providerId, null));
       }
    };
@@ -549,8 +549,27 @@ const AIConfigPage: React.FC = () => {
       <div style={{ background: colorBgContainer, borderRadius: borderRadiusLG, padding: 10 }}>
         <Typography.Title level={2}>AI 服务商配置</Typography.Title>
         <Typography.Paragraph>
-          管理连接到不同 AI 大语言模型服务商的配置。请在此处输入您的 API Key。API Key 将仅存储在您的本地设备上。
+          管理连接到不同 AI 大语言模型服务商的配置。请在此处输入您的 API Key。API Key 将仅存储在您的本地设备上，并使用主密码加密保存。
         </Typography.Paragraph>
+        {keyVaultStatus && !keyVaultStatus.unlocked && (
+          <Alert
+            type="warning"
+            showIcon
+            style={{ marginBottom: 16 }}
+            message={keyVaultStatus.initialized ? 'API Key 已加密保存，请先输入主密码解锁后再调用 AI 或修改 API Key。' : '尚未设置主密码。设置主密码后才能添加 API Key，已有的明文 API Key 会自动加密。'}
+            action={
+              <Button size="small" type="primary" onClick={() => setKeyVaultModalOpen(true)}>
+                {keyVaultStatus.initialized ? '解锁' : '设置主密码'}
+              </Button>
+            }
+          />
+        )}
+        <KeyVaultModal
+          open={keyVaultModalOpen}
+          status={keyVaultStatus}
+          onClose={() => setKeyVaultModalOpen(false)}
+          onStatusChange={handleKeyVaultStatusChange}
+        />
         {loading ? (
           <Spin />
         ) : (
@@ -559,69 +578,94 @@ const AIConfigPage: React.FC = () => {
             dataSource={services}
             renderItem={(service) => (
               <List.Item>
-                <Card title={service.providerName} variant="borderless" style={{ boxShadow: '0 2px 8px rgba(0, 0, 0, 0.09)' }}>
+                <Card
+                  title={service.displayName}
+                  extra={
+                    <Space size={4} wrap>
+                      {(Object.keys(CAPABILITY_LABELS) as (keyof ProviderCapabilities)[])
+                        .filter(capability => service.capabilities[capability])
+                        .map(capability => <Tag key={capability}>{CAPABILITY_LABELS[capability]}</Tag>)}
+                    </Space>
+                  }
+                  variant="borderless"
+                  style={{ boxShadow: '0 2px 8px rgba(0, 0, 0, 0.09)' }}
+                >
                   <Form layout="vertical">
-                    {service.providerId === 'google' && (
-                      <>
-                        <Form.Item label="选择已有配置">
-                          <Select
-                            style={{ width: '100%' }}
-                            placeholder="选择一个已保存的配置或直接输入新配置"
-                            value={selectedConfigId.get(service.providerId)}
-                            onChange={(value) => handleProviderConfigSelect(service.providerId, value)}
-                            loading={loadingConfigs.get(service.providerId) || false}
-                            allowClear
-                          >
-                            {(providerConfigs.get(service.providerId) || []).map(config => (
-                              <Select.Option key={config.id} value={config.id}>
-                                {`${config.name} (Key: ...${config.apiKey.slice(-2)})`}
-                              </Select.Option>
-                            ))}
-                          </Select>
-                        </Form.Item>
-                        <Form.Item
-                          label="配置名称"
-                          required
-                          tooltip="为这组API Key指定一个名称，方便管理。"
-                        >
-                          <Input
-                            placeholder="例如：我的主力Key, 测试专用Key"
-                            value={configName.get(service.providerId) || ''}
-                            onChange={(e) => handleConfigNameChange(service.providerId, e.target.value)}
-                          />
-                        </Form.Item>
-                      </>
-                    )}
-                    <Form.Item label="API Key" required>
-                      <Input.Password
-                        placeholder={`请输入 ${service.providerName} API Key`}
-                        value={apiKeys.get(service.providerId) || ''}
-                        onChange={(e) => handleApiKeyChange(service.providerId, e.target.value)}
+                    <Form.Item label="选择已有配置">
+                      <Select
+                        style={{ width: '100%' }}
+                        placeholder="选择一个已保存的配置或直接输入新配置"
+                        value={selectedConfigId.get(service.id)}
+                        onChange={(value) => handleProviderConfigSelect(service.id, value)}
+                        loading={loadingConfigs.get(service.id) || false}
+                        allowClear
+                      >
+                        {(providerConfigs.get(service.id) || []).map(config => (
+                          <Select.Option key={config.id} value={config.id}>
+                            {describeConfig(config)}
+                          </Select.Option>
+                        ))}
+                      </Select>
+                    </Form.Item>
+                    <Form.Item
+                      label="配置名称"
+                      required
+                      tooltip="为这组配置指定一个名称，方便管理。"
+                    >
+                      <Input
+                        placeholder="例如：我的主力Key, 测试专用Key"
+                        value={configName.get(service.id) || ''}
+                        onChange={(e) => handleConfigNameChange(service.id, e.target.value)}
                       />
                     </Form.Item>
+                    {/* 按服务商的配置模式渲染字段 */}
+                    {service.configFields.map(field => {
+                      const placeholder = field.placeholder || `请输入 ${service.displayName} ${field.label}`;
+                      const value = fieldValues.get(service.id)?.[field.key] || '';
+                      const InputComponent = field.secret ? Input.Password : Input;
+                      return (
+                        <Form.Item key={field.key} label={field.label} required={field.required} tooltip={field.tooltip}>
+                          {field.json ? (
+                            <Input.TextArea
+                              placeholder={placeholder}
+                              value={value}
+                              autoSize={{ minRows: 3, maxRows: 12 }}
+                              style={{ fontFamily: 'monospace' }}
+                              onChange={(e) => handleFieldChange(service.id, field.key, e.target.value)}
+                            />
+                          ) : (
+                            <InputComponent
+                              placeholder={placeholder}
+                              value={value}
+                              onChange={(e) => handleFieldChange(service.id, field.key, e.target.value)}
+                            />
+                          )}
+                        </Form.Item>
+                      );
+                    })}
                     <Form.Item label="可用模型">
-                      <Spin spinning={modelsLoading.get(service.providerId) || false}>
+                      <Spin spinning={modelsLoading.get(service.id) || false}>
                         <List
                           size="small"
                           bordered
-                          dataSource={providerModels.get(service.providerId) || []}
-                          renderItem={(model, index) => renderModelItem(service.providerId, model, index)}
+                          dataSource={providerModels.get(service.id) || []}
+                          renderItem={(model, index) => renderModelItem(service.id, model, index)}
                           locale={{ emptyText: '暂无模型' }}
                           style={{ marginBottom: 16 }}
                         />
                         <Space.Compact style={{ width: '100%' }}>
                           <Input
                             placeholder="输入新模型 ID 添加"
-                            value={newModelInput.get(service.providerId) || ''}
-                            onChange={(e) => handleNewModelInputChange(service.providerId, e.target.value)}
-                            onPressEnter={() => handleAddModel(service.providerId)}
+                            value={newModelInput.get(service.id) || ''}
+                            onChange={(e) => handleNewModelInputChange(service.id, e.target.value)}
+                            onPressEnter={() => handleAddModel(service.id)}
                           />
                           <Tooltip title="添加模型">
-                            <Button icon={<PlusOutlined />} onClick={() => handleAddModel(service.providerId)} />
+                            <Button icon={<PlusOutlined />} onClick={() => handleAddModel(service.id)} />
                           </Tooltip>
                           <Popconfirm
-                             title={`确定要将 ${service.providerName} 的模型列表重置为默认吗？\n（自定义添加的模型将被删除）`}
-                             onConfirm={() => handleResetModels(service.providerId)}
+                             title={`确定要将 ${service.displayName} 的模型列表重置为默认吗？\n（自定义添加的模型将被删除）`}
+                             onConfirm={() => handleResetModels(service.id)}
                              okText="确定重置"
                              cancelText="取消"
                            >
@@ -636,27 +680,23 @@ const AIConfigPage: React.FC = () => {
                       <Space>
                         <Button
                           type="primary"
-                          onClick={() => handleSaveApiKey(service.providerId)}
-                          loading={savingKeyStatus.get(service.providerId) || false}
+                          onClick={() => handleSaveApiKey(service.id)}
+                          loading={savingKeyStatus.get(service.id) || false}
                           icon={<SaveOutlined />}
                         >
-                          {service.providerId === 'google'
-                            ? selectedConfigId.get(service.providerId) ? '更新此配置' : '添加新配置'
-                            : '保存 Key'}
+                          {selectedConfigId.get(service.id) ? '更新此配置' : '添加新配置'}
                         </Button>
-                        {service.providerId === 'google' && selectedConfigId.get(service.providerId) && (
+                        {selectedConfigId.get(service.id) && (
                           <Popconfirm
-                            title={`确定删除配置 "${configName.get(service.providerId) || '此'}" 吗？`}
-                            onConfirm={() => handleDeleteConfig(service.providerId)}
+                            title={`确定删除配置 "${configName.get(service.id) || '此'}" 吗？`}
+                            onConfirm={() => handleDeleteConfig(service.id)}
                             okText="确定删除"
                             cancelText="取消"
-                            disabled={!selectedConfigId.get(service.providerId)}
                           >
                             <Button
                               danger
                               icon={<DeleteOutlined />}
-                              loading={savingKeyStatus.get(service.providerId) || false}
-                              disabled={!selectedConfigId.get(service.providerId)}
+                              loading={savingKeyStatus.get(service.id) || false}
                             >
                               删除此配置
                             </Button>
@@ -675,4 +715,4 @@ const AIConfigPage: React.FC = () => {
   );
 };
 
-export default AIConfigPage;
\ No newline at end of file
+export default AIConfigPage;
@@ -1,7 +1,7 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { useParams, useNavigate, useLocation } from 'react-router-dom';
 // 导入 theme 用于获取背景色等 token
-import { Form, Input, Button, message, Card, Typography, Space, theme } from 'antd';
+import { Form, Input, InputNumber, Button, message, Card, Typography, Space, theme } from 'antd';
 import { ArrowLeftOutlined } from '@ant-design/icons';
 import { AICharacter } from '../types';
 import { v4 as uuidv4 } from 'uuid';
@@ -93,6 +93,10 @@ const CharacterEditorPage: React.FC = () => {
           if (isEditMode && characterId && !valuesToStore.id) {
               valuesToStore.id = characterId;
           }
+          // 导入的角色卡中没有对应字段的内容不在表单中，需要保留
+          if (currentFormValues.cardData) {
+              valuesToStore.cardData = currentFormValues.cardData;
+          }
           setCurrentFormValues(valuesToStore);
       }
   };
@@ -143,6 +147,11 @@ const CharacterEditorPage: React.FC = () => {
         catchphrase: values.catchphrase || undefined,
         notes: values.notes || undefined,
         avatar: values.avatar || undefined,
+        talkativeness: values.talkativeness ?? undefined,
+        scenario: values.scenario || undefined,
+        firstMessage: values.firstMessage || undefined,
+        exampleDialogue: values.exampleDialogue || undefined,
+        cardData: currentFormValues.cardData,
       };
 
       logger.info('尝试保存角色:', characterToSave);
@@ -236,12 +245,24 @@ const CharacterEditorPage: React.FC = () => {
             <Form.Item name="catchphrase" label="口头禅 (可选)">
               <Input placeholder="角色经常说的话..." />
             </Form.Item>
+            <Form.Item name="scenario" label="所处情景 (可选)">
+              <Input.TextArea rows={2} placeholder="角色当前所处的情景..." />
+            </Form.Item>
+            <Form.Item name="firstMessage" label="开场白 (可选)" tooltip="对应角色卡的 first_mes，导入/导出角色卡时使用">
+              <Input.TextArea rows={2} placeholder="角色登场时说的第一句话..." />
+            </Form.Item>
+            <Form.Item name="exampleDialogue" label="对话示例 (可选)">
+              <Input.TextArea rows={3} placeholder="展示角色说话方式的示例对话..." />
+            </Form.Item>
             <Form.Item name="notes" label="其他备注 (可选)">
               <Input.TextArea rows={3} placeholder="任何其他需要记录的信息..." />
             </Form.Item>
             <Form.Item name="avatar" label="头像 (URL 或标识符, 可选)">
               <Input placeholder="例如：/avatars/emperor.png 或 https://..." />
             </Form.Item>
+            <Form.Item name="talkativeness" label="健谈程度 (1-10, 可选)" tooltip="多角色场景按健谈程度随机选择发言者时，数值越高越容易被选中，缺省为 5">
+              <InputNumber min={1} max={10} precision={0} placeholder="5" style={{ width: 120 }} />
+            </Form.Item>
             <Form.Item>
               <Button type="primary" htmlType="submit" loading={loading}>
                 {isEditMode ? '更新角色' : '添加角色'}
@@ -1,14 +1,17 @@
 import React, { useState, useEffect } from 'react';
 // 导入 theme 用于获取背景色等 token
-import { Table, Button, message, Popconfirm, theme } from 'antd'; // 移除了 Tag
+import { Table, Button, Dropdown, message, Modal, Popconfirm, Space, theme } from 'antd'; // 移除了 Tag
+import { ImportOutlined } from '@ant-design/icons';
 import { useNavigate } from 'react-router-dom';
 import { AICharacter } from '../types';
 import { characterLogger as logger } from '../utils/logger'; // 导入日志工具
+import { parseCharacterCard, toCharacterCard } from '../utils/characterCard';
 
 // columns 的 handleDelete 现在需要传入角色 ID
 const columns = (
   handleDelete: (id: string) => void, // <-- 改回接收 id
-  navigateToEdit: (id: string) => void
+  navigateToEdit: (id: string) => void,
+  handleExport: (character: AICharacter, format: 'json' | 'png') => void
 ) => [
   // 头像列可以取消注释并添加 Avatar 导入
   // {
@@ -53,6 +56,17 @@ const columns = (
         >
           <Button type="link" danger>删除</Button>
         </Popconfirm>
+        <Dropdown
+          menu={{
+            items: [
+              { key: 'png', label: 'PNG 角色卡' },
+              { key: 'json', label: 'JSON 角色卡' },
+            ],
+            onClick: ({ key }) => handleExport(record, key as 'json' | 'png'),
+          }}
+        >
+          <Button type="link">导出</Button>
+        </Dropdown>
       </span>
     ),
   },
@@ -144,17 +158,78 @@ const CharacterManagementPage: React.FC = () => {
     } // <-- 补上这个丢失的括号！哼！
   };
 
+  // 导入角色卡 (可多选)：每张角色卡保存为一个新角色
+  const handleImport = async () => {
+    try {
+      const result = await window.electronAPI.characterCardImport();
+      if (!result.success || !result.data) {
+        message.error(`导入角色卡失败: ${result.error || '未知错误'}`);
+        return;
+      }
+      if (result.data.length === 0) return; // 用户取消
+
+      const failures: string[] = [];
+      let imported = 0;
+      for (const file of result.data) {
+        try {
+          if (file.error) throw new Error(file.error);
+          const character = parseCharacterCard(file.card, file.avatar);
+          const saveResult = await window.electronAPI.saveCharacter(character);
+          if (!saveResult.success) throw new Error(saveResult.error || '保存失败');
+          logger.info(`已从 ${file.fileName} 导入角色: ${character.name}`);
+          imported++;
+        } catch (error: unknown) {
+          failures.push(`${file.fileName}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      }
+
+      if (imported > 0) {
+        message.success(`已导入 ${imported} 个角色`);
+        loadCharacters();
+      }
+      if (failures.length > 0) {
+        Modal.warning({
+          title: `${failures.length} 个文件导入失败`,
+          content: failures.map(failure => <div key={failure}>{failure}</div>),
+        });
+      }
+    } catch (error: unknown) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      message.error(`调用 characterCardImport 时出错: ${errorMsg}`);
+    }
+  };
+
+  // 导出角色卡
+  const handleExport = async (character: AICharacter, format: 'json' | 'png') => {
+    try {
+      const result = await window.electronAPI.characterCardExport(character.name, toCharacterCard(character), format, character.avatar);
+      if (!result.success) {
+        message.error(`导出角色卡失败: ${result.error || '未知错误'}`);
+      } else if (result.data) {
+        message.success(`已导出到 ${result.data}`);
+      }
+    } catch (error: unknown) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      message.error(`调用 characterCardExport 时出错: ${errorMsg}`);
+    }
+  };
+
   return (
     // 1. 添加外部 div，负责滚动和左侧 5px 灰色边距
     <div style={{ maxHeight: 'calc(100vh - 5px)', overflow: 'auto', paddingLeft: '5px' }}>
       {/* 2. 给内部容器加上背景、圆角和内边距 */}
       <div style={{ background: colorBgContainer, borderRadius: borderRadiusLG, padding: 10 }}>
         {/* 点击按钮跳转到添加页面 */}
-        <Button type="primary" onClick={navigateToAdd} style={{ marginBottom: 16 }}>
-        添加角色
-      </Button>
+        <Space style={{ marginBottom: 16 }}>
+          <Button type="primary" onClick={navigateToAdd}>
+            添加角色
+          </Button>
+          <Button icon={<ImportOutlined />} onClick={handleImport}>
+            导入角色卡
+          </Button>
+        </Space>
       <Table
-        columns={columns(handleDelete, navigateToEdit)} // 传入删除和导航到编辑页的函数
+        columns={columns(handleDelete, navigateToEdit, handleExport)} // 传入删除和导航到编辑页的函数
         dataSource={characters}
         loading={loading}
         rowKey="id"
@@ -1,27 +1,35 @@
 import React, { useState, useEffect, useMemo, Key, useCallback } from 'react'; // <--- 添加 useCallback
 import { useLocation, useNavigate } from 'react-router-dom';
-import { Select, Checkbox, Button, message, Spin, Typography, Card, Row, Col, theme } from 'antd';
+import { Select, Checkbox, Button, message, Spin, Typography, Card, Row, Col, Switch, Input, InputNumber, Form, theme } from 'antd';
 import { ArrowLeftOutlined } from '@ant-design/icons';
-import type { Script, AICharacter, AIConfig } from '../types'; // <--- 导入 AIConfig
+import type { Script, AICharacter, AIConfig, AIConfigRef, CharacterAIConfig, GenerationParams, TurnStrategy, AIDirectorConfig } from '../types'; // <--- 导入 AIConfig
 import type { ChatMode } from '../types';
 import { useLastVisited } from '../hooks/useLastVisited';
+import { usePromptTemplates } from '../hooks/usePromptTemplates';
+import FallbackConfigEditor from '../components/FallbackConfigEditor';
+import GenerationParamsEditor from '../components/GenerationParamsEditor';
+import PromptTemplateSelect from '../components/PromptTemplateSelect';
+import TurnStrategyEditor from '../components/TurnStrategyEditor';
+import ConfigModelSelect from '../components/ConfigModelSelect';
+import { DEFAULT_TURN_STRATEGY } from '../utils/turnStrategy';
+import { DEFAULT_AI_DIRECTOR_INTERVAL } from '../utils/aiDirector';
 import { setupLogger as logger } from '../utils/logger'; // 导入日志工具
 
-// 定义角色 AI 配置结构 (更新)
-interface CharacterAIConfig {
-  configId: string; // 保存 AIConfig 的 ID
-  modelName: string; // 保存选定的模型名称
-  providerId: string; // 新增：保存服务商ID
-}
-
 // 定义导演模式设置页面内部状态快照的类型 (更新 aiConfigs)
 interface DirectorSetupPageStateSnapshot {
   selectedScriptId: string | null;
   selectedCharacterIds: Key[]; // 导演模式下，这些都是AI角色
   aiConfigs: Record<string, CharacterAIConfig>; // CharacterAIConfig 已更新
   mode?: ChatMode;
+  turnStrategy?: TurnStrategy; // 发言策略
+  aiDirectorEnabled?: boolean; // 是否启用 AI 导演
+  aiDirector?: AIDirectorConfig; // AI 导演配置 (未启用时也保留，方便再次开启)
+  generationParams?: GenerationParams; // 会话级生成参数 (覆盖各角色的设置)
+  promptTemplateId?: string; // 本次会话使用的提示词模板 (缺省使用该模式的默认模板)
 }
 
+const EMPTY_AI_DIRECTOR: AIDirectorConfig = { configId: '', modelName: '', providerId: '', interval: DEFAULT_AI_DIRECTOR_INTERVAL };
+
 
 const DirectorModeSetupPage: React.FC = () => {
   const location = useLocation();
@@ -59,6 +67,12 @@ const DirectorModeSetupPage: React.FC = () => {
       return map;
   }, [restoredState?.aiConfigs]);
   const [aiConfigs, setAiConfigs] = useState<Map<string, CharacterAIConfig>>(initialAiConfigsMap);
+  const [sessionGenerationParams, setSessionGenerationParams] = useState<GenerationParams | undefined>(restoredState?.generationParams);
+  const [promptTemplateId, setPromptTemplateId] = useState<string | undefined>(restoredState?.promptTemplateId);
+  const { templates: promptTemplates, resolveTemplate } = usePromptTemplates();
+  const [turnStrategy, setTurnStrategy] = useState<TurnStrategy>(restoredState?.turnStrategy ?? DEFAULT_TURN_STRATEGY);
+  const [aiDirectorEnabled, setAiDirectorEnabled] = useState(restoredState?.aiDirectorEnabled ?? false);
+  const [aiDirector, setAiDirector] = useState<AIDirectorConfig>(restoredState?.aiDirector ?? EMPTY_AI_DIRECTOR);
 
   // AI配置处理函数 (与SingleUserMultiAISetupPage类似)
   const handleAIConfigChange = useCallback((
@@ -75,7 +89,7 @@ const DirectorModeSetupPage: React.FC = () => {
       setAiConfigs(prev => {
         const newConfigs = new Map(prev);
         // 当服务商改变时，清空 configId 和 modelName，但记录 providerId
-        newConfigs.set(characterId, { configId: '', modelName: '', providerId: value || '' });
+        newConfigs.set(characterId, { configId: '', modelName: '', providerId: value || '', fallbacks: prev.get(characterId)?.fallbacks, generationParams: prev.get(characterId)?.generationParams }); // 备用配置链和生成参数与主配置无关，予以保留
         return newConfigs;
       });
     } else if (field === 'configId') {
@@ -243,6 +257,8 @@ const DirectorModeSetupPage: React.FC = () => {
                 const newMap = new Map(prevMap);
                 newMap.set(charId, {
                   configId: savedConfig.configId,
+                  fallbacks: savedConfig.fallbacks, // 恢复备用配置链
+                  generationParams: savedConfig.generationParams, // 恢复生成参数
                   modelName: savedConfig.modelName,
                   providerId: fullAIConfigFromServer.serviceProvider
                 });
@@ -290,10 +306,15 @@ const DirectorModeSetupPage: React.FC = () => {
       selectedScriptId,
       selectedCharacterIds,
       aiConfigs: Object.fromEntries(aiConfigs.entries()),
-      mode: mode
+      generationParams: sessionGenerationParams,
+      promptTemplateId,
+      mode: mode,
+      turnStrategy,
+      aiDirectorEnabled,
+      aiDirector,
     };
     updateLastVisitedNavInfo('directorModeSetup', location.pathname, undefined, currentStateSnapshot);
-  }, [selectedScriptId, selectedCharacterIds, aiConfigs, updateLastVisitedNavInfo, location.pathname, mode]);
+  }, [selectedScriptId, selectedCharacterIds, aiConfigs, sessionGenerationParams, promptTemplateId, turnStrategy, aiDirectorEnabled, aiDirector, updateLastVisitedNavInfo, location.pathname, mode]);
 
   const selectedScript = useMemo(() => scripts.find(script => script.id === selectedScriptId), [scripts, selectedScriptId]);
 
@@ -333,6 +354,26 @@ const DirectorModeSetupPage: React.FC = () => {
   // handleAIConfigChange 已移到前面
 
   // 开始聊天按钮逻辑
+  // 更新角色的备用配置链
+  const handleFallbacksChange = (characterId: string, fallbacks: AIConfigRef[]) => {
+    setAiConfigs(prev => {
+      const newConfigs = new Map(prev);
+      const current = newConfigs.get(characterId) || { configId: '', modelName: '', providerId: '' };
+      newConfigs.set(characterId, { ...current, fallbacks });
+      return newConfigs;
+    });
+  };
+
+  // 更新角色的生成参数
+  const handleGenerationParamsChange = (characterId: string, generationParams: GenerationParams | undefined) => {
+    setAiConfigs(prev => {
+      const newConfigs = new Map(prev);
+      const current = newConfigs.get(characterId) || { configId: '', modelName: '', providerId: '' };
+      newConfigs.set(characterId, { ...current, generationParams });
+      return newConfigs;
+    });
+  };
+
   const handleStartChat = () => {
     if (!selectedScriptId) { message.error('请先选择剧本！'); return; } // 中文注释
     if (selectedCharacterIds.length < 2) { message.error('导演模式至少需要选择两个 AI 角色进行表演！'); return; } // 中文注释
@@ -354,6 +395,14 @@ const DirectorModeSetupPage: React.FC = () => {
       message.error(`请为以下 AI 角色选择服务商、命名配置和模型：${missingConfigChars.join(', ')}`);
       return;
     }
+    if (turnStrategy.type === 'llmJudge' && (!turnStrategy.judge?.configId || !turnStrategy.judge.modelName)) {
+      message.error('请为 AI 裁判选择配置和模型！');
+      return;
+    }
+    if (aiDirectorEnabled && (!aiDirector.configId || !aiDirector.modelName)) {
+      message.error('请为 AI 导演选择配置和模型！');
+      return;
+    }
 
     const participatingChars = characters.filter(c => selectedCharacterIds.includes(c.id));
     if (participatingChars.length !== selectedCharacterIds.length) { message.error('无法找到完整的出场角色信息！'); return; } // 中文注释
@@ -366,7 +415,15 @@ const DirectorModeSetupPage: React.FC = () => {
       userCharacterId: null, // 导演模式没有用户扮演的角色
       // aiConfigs 的键是 AICharacter 的 id，值是 CharacterAIConfig 对象
       // CharacterAIConfig 已经更新为包含 providerId, configId, modelName
-      aiConfigs: Object.fromEntries(aiConfigs.entries()),
+      // 忽略未填写完整的备用配置
+      aiConfigs: Object.fromEntries(Array.from(aiConfigs.entries(), ([charId, config]) => (
+        [charId, { ...config, fallbacks: config.fallbacks?.filter(fallback => fallback.configId && fallback.modelName) }]
+      ))),
+      // 只有裁判策略需要保存裁判配置
+      turnStrategy: turnStrategy.type === 'llmJudge' ? turnStrategy : { type: turnStrategy.type },
+      aiDirector: aiDirectorEnabled ? { ...aiDirector, style: aiDirector.style?.trim() || undefined } : undefined,
+      generationParams: sessionGenerationParams,
+      promptTemplate: resolveTemplate('director', promptTemplateId),
     };
     logger.info('开始聊天 (导演模式)，配置:', chatConfig); // 中文注释
     // 导航到导演模式聊天界面
@@ -478,6 +535,20 @@ const DirectorModeSetupPage: React.FC = () => {
                             disabled={!selectedConfigId || isLoadingModels}
                             loading={isLoadingModels}
                           />
+                          <div style={{ marginTop: 12 }}>
+                            <FallbackConfigEditor
+                              allAIConfigs={allAIConfigs}
+                              value={finalAIConfig.fallbacks ?? []}
+                              onChange={(fallbacks) => handleFallbacksChange(character.id, fallbacks)}
+                              primaryConfigId={finalAIConfig.configId || undefined}
+                              disabled={loading}
+                            />
+                          </div>
+                          <GenerationParamsEditor
+                            value={finalAIConfig.generationParams}
+                            onChange={(params) => handleGenerationParamsChange(character.id, params)}
+                            disabled={loading}
+                          />
                         </Card>
                       </Col>
                     );
@@ -486,6 +557,80 @@ const DirectorModeSetupPage: React.FC = () => {
             </Card>
           )}
 
+          {selectedScript && (
+            <Card title="4. 发言顺序" style={{ marginBottom: 16 }}>
+              <TurnStrategyEditor allAIConfigs={allAIConfigs} value={turnStrategy} onChange={setTurnStrategy} disabled={loading} />
+            </Card>
+          )}
+
+          {selectedScript && (
+            <Card
+              title="5. AI 导演 (可选)"
+              extra={<Switch checked={aiDirectorEnabled} onChange={setAiDirectorEnabled} disabled={loading} />}
+              style={{ marginBottom: 16 }}
+            >
+              <Typography.Text type="secondary" style={{ display: 'block', marginBottom: 8 }}>
+                开启后，AI 导演会定期阅读剧本梗概、主题和近期表演，给出导演指令或旁白来推动剧情。你可以逐条审核它的建议，也可以让它自动执导。
+              </Typography.Text>
+              {aiDirectorEnabled && (
+                <Form layout="vertical">
+                  <Form.Item label="AI 导演使用的模型" required>
+                    <ConfigModelSelect
+                      allAIConfigs={allAIConfigs}
+                      value={aiDirector}
+                      onChange={ref => setAiDirector(prev => ({ ...prev, ...ref }))}
+                      disabled={loading}
+                    />
+                  </Form.Item>
+                  <Form.Item label="导演风格">
+                    <Input.TextArea
+                      value={aiDirector.style}
+                      onChange={e => setAiDirector(prev => ({ ...prev, style: e.target.value }))}
+                      placeholder="例如：节奏紧凑，多制造角色之间的冲突，在高潮处引入意外事件..."
+                      autoSize={{ minRows: 2, maxRows: 4 }}
+                      disabled={loading}
+                    />
+                  </Form.Item>
+                  <Form.Item label="指导频率 (每隔多少条 AI 回复)">
+                    <InputNumber
+                      min={1}
+                      max={20}
+                      precision={0}
+                      value={aiDirector.interval}
+                      onChange={interval => setAiDirector(prev => ({ ...prev, interval: interval ?? DEFAULT_AI_DIRECTOR_INTERVAL }))}
+                      disabled={loading}
+                    />
+                  </Form.Item>
+                </Form>
+              )}
+            </Card>
+          )}
+
+          {selectedScript && (
+            <Card title="6. 会话生成参数 (可选)" style={{ marginBottom: 16 }}>
+              <GenerationParamsEditor
+                title="所有 AI 角色"
+                description="这里设置的项对本次会话的所有 AI 角色生效，覆盖各角色自己的生成参数；留空的项使用角色的设置或服务商的默认值。"
+                value={sessionGenerationParams}
+                onChange={setSessionGenerationParams}
+                disabled={loading}
+              />
+            </Card>
+          )}
+
+          {selectedScript && (
+            <Card title="7. 提示词模板" style={{ marginBottom: 16 }}>
+              <PromptTemplateSelect
+                mode="director"
+                templates={promptTemplates}
+                value={resolveTemplate('director', promptTemplateId)}
+                defaultTemplateId={resolveTemplate('director').id}
+                onChange={setPromptTemplateId}
+                disabled={loading}
+              />
+            </Card>
+          )}
+
           <Button
             type="primary"
             onClick={handleStartChat}
@@ -1,129 +1,139 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
 // 导入 theme 用于获取背景色等 token
-import { List, Spin, message, Typography, Empty, Tag, Button, Popconfirm, theme } from 'antd';
-import { EyeOutlined, DeleteOutlined } from '@ant-design/icons';
+import { List, Spin, message, Typography, Empty, Tag, Button, Popconfirm, Input, Select, DatePicker, Space, Modal, theme } from 'antd';
+import { EyeOutlined, DeleteOutlined, ForkOutlined, TagsOutlined } from '@ant-design/icons';
 import { useNavigate } from 'react-router-dom';
-import type { ChatPageStateSnapshot } from '../types';
+import type { ChatPageStateSnapshot, SessionIndexEntry, SessionSearchHit, SessionSearchQuery, SessionSearchResult } from '../types';
 import type { ChatMode } from '../types'; // <-- 修改导入路径
 import { historyLogger as logger } from '../utils/logger'; // 导入日志工具
+import ExportSessionButton from '../components/ExportSessionButton';
 
 const { Text, Title } = Typography;
 
-// 定义历史记录项的结构，方便管理
-interface HistoryItem {
-  fileName: string;
-  mode: ChatMode | string; // 模式可能是已知的 ChatMode 或未知字符串
-  scriptTitle: string;
-  timestamp: number; // 从文件名解析的时间戳
-  snapshot?: ChatPageStateSnapshot; // 可选地存储完整快照，用于“查看”
-}
-
-// 辅助函数：尝试从文件名解析时间戳
-const parseTimestampFromFilename = (fileName: string): number => {
-  const match = fileName.match(/-(\d+)\.json$/);
-  return match ? parseInt(match[1], 10) : 0;
-};
-
 // 辅助函数：格式化模式显示名称
 const formatModeName = (mode: ChatMode | string): string => {
     switch (mode) {
         case 'singleUserSingleAI': return '单人单 AI';
         case 'singleUserMultiAI': return '单人多 AI';
+        case 'director': return '导演模式';
         // 在这里添加其他模式的显示名称
         default: return mode; // 未知模式直接显示原始值
     }
 }
 
+// 各模式对应的聊天界面路由
+const MODE_ROUTES: Record<string, string> = {
+  singleUserSingleAI: '/single-user-single-ai-interface',
+  singleUserMultiAI: '/single-user-multi-ai-interface',
+  director: '/director-mode-interface',
+};
+
+const MODE_OPTIONS = (['singleUserSingleAI', 'singleUserMultiAI', 'director'] as ChatMode[]).map(mode => ({ value: mode, label: formatModeName(mode) }));
+
+// 高亮片段中的命中文本
+const renderSnippet = (hit: SessionSearchHit) => (
+  <>
+    {hit.snippet.slice(0, hit.matchStart)}
+    <mark>{hit.snippet.slice(hit.matchStart, hit.matchStart + hit.matchLength)}</mark>
+    {hit.snippet.slice(hit.matchStart + hit.matchLength)}
+  </>
+);
+
 const HistoryPage: React.FC = () => {
   const [loading, setLoading] = useState(true);
-  const [historyList, setHistoryList] = useState<HistoryItem[]>([]);
+  const [results, setResults] = useState<SessionSearchResult[]>([]); // 符合当前搜索条件的会话
+  const [allEntries, setAllEntries] = useState<SessionIndexEntry[]>([]); // 所有会话，用于生成筛选选项和分叉关系
+  const [query, setQuery] = useState<SessionSearchQuery>({});
+  const [editingTags, setEditingTags] = useState<{ entry: SessionIndexEntry; tags: string[] } | null>(null);
   const navigate = useNavigate();
   // 获取 antd 主题 token
   const { token: { colorBgContainer, borderRadiusLG } } = theme.useToken();
 
-  // 加载历史记录列表
-  const loadHistory = async () => {
+  // 按当前条件加载历史记录 (会话索引由主进程维护，只有全文搜索时才读取会话文件)
+  const loadHistory = useCallback(async () => {
     setLoading(true);
     try {
-      const listResult = await window.electronAPI.listChatSessions();
-      if (listResult.success && listResult.data) {
-        const fileNames = listResult.data;
-        if (fileNames.length === 0) {
-          setHistoryList([]);
-          setLoading(false); // 别忘了在这里设置 loading false
-          return;
-        }
-
-        // 并行读取所有文件内容 (现在需要读取 chats 目录下的文件)
-        const readPromises = fileNames.map(async (fileName) => {
-          // 构建相对路径 'chats/fileName'
-          const relativePath = `chats/${fileName}`;
-          logger.info(`读取文件: ${relativePath}`);
-          const readResult = await window.electronAPI.readStore(relativePath, null); // <-- 使用相对路径读取
-          if (readResult.success && readResult.data) {
-            try {
-              const snapshot = readResult.data as ChatPageStateSnapshot;
-              // 基本校验，确保快照结构符合预期
-              if (snapshot && snapshot.chatConfig && snapshot.chatConfig.mode && snapshot.chatConfig.script) {
-                 return {
-                   fileName,
-                   mode: snapshot.chatConfig.mode,
-                   scriptTitle: snapshot.chatConfig.script.title || '无标题剧本',
-                   timestamp: parseTimestampFromFilename(fileName),
-                   snapshot: snapshot, // 保存完整快照以便后续使用
-                 };
-              } else {
-                 console.warn(`文件 ${fileName} 内容格式不符合 ChatPageStateSnapshot 结构，已跳过。`);
-                 return null; // 格式不符则跳过
-              }
-            } catch (parseError) {
-              console.error(`解析文件 ${fileName} 失败:`, parseError);
-              return null; // 解析失败也跳过
-            }
-          } else {
-            console.error(`读取文件 ${fileName} 失败: ${readResult.error}`);
-            return null; // 读取失败也跳过
-          }
-        });
-
-        const results = await Promise.all(readPromises);
-        const validHistoryItems = results.filter(item => item !== null) as HistoryItem[];
-
-        // 按时间戳降序排序（最新的在前面）
-        validHistoryItems.sort((a, b) => b.timestamp - a.timestamp);
-
-        setHistoryList(validHistoryItems);
-
+      const [searchResult, allResult] = await Promise.all([
+        window.electronAPI.searchChatSessions(query),
+        window.electronAPI.searchChatSessions({}),
+      ]);
+      if (searchResult.success && searchResult.data && allResult.success && allResult.data) {
+        setResults(searchResult.data);
+        setAllEntries(allResult.data.map(result => result.entry));
       } else {
-        message.error(`加载历史记录列表失败: ${listResult.error || '未知错误'}`);
-        setHistoryList([]); // 出错时清空列表
+        message.error(`加载历史记录列表失败: ${searchResult.error || allResult.error || '未知错误'}`);
+        setResults([]); // 出错时清空列表
       }
     } catch (error) {
       message.error(`加载历史记录时发生意外错误: ${error instanceof Error ? error.message : String(error)}`);
-      setHistoryList([]); // 出错时清空列表
+      setResults([]); // 出错时清空列表
     } finally {
       setLoading(false);
     }
-  };
+  }, [query]);
 
-  // 组件加载时执行一次加载
+  // 搜索条件变化时重新加载
   useEffect(() => {
     loadHistory();
-  }, []);
+  }, [loadHistory]);
+
+  const updateQuery = (changes: Partial<SessionSearchQuery>) => setQuery(prev => ({ ...prev, ...changes }));
+
+  // 筛选选项：出现过的剧本、角色和标签
+  const filterOptions = useMemo(() => {
+    const scripts = new Map<string, string>();
+    const characters = new Map<string, string>();
+    const tags = new Set<string>();
+    allEntries.forEach(entry => {
+      scripts.set(entry.scriptId, entry.scriptTitle);
+      entry.characters.forEach(character => characters.set(character.id, character.name));
+      entry.tags.forEach(tag => tags.add(tag));
+    });
+    return {
+      scripts: Array.from(scripts, ([value, label]) => ({ value, label })),
+      characters: Array.from(characters, ([value, label]) => ({ value, label })),
+      tags: Array.from(tags, tag => ({ value: tag, label: tag })),
+    };
+  }, [allEntries]);
+
+  // 会话之间的分叉关系：会话 ID → 会话，来源会话 ID → 分叉出的会话数
+  const entriesBySessionId = useMemo(() => new Map(allEntries.map(entry => [entry.sessionId, entry])), [allEntries]);
+  const forkCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    allEntries.forEach(entry => {
+      const parentId = entry.forkedFrom?.parentSessionId;
+      if (parentId) counts.set(parentId, (counts.get(parentId) ?? 0) + 1);
+    });
+    return counts;
+  }, [allEntries]);
+
+  // 显示分叉来源，来源会话仍存在时可以点击查看
+  const renderForkSource = (entry: SessionIndexEntry) => {
+    const forkedFrom = entry.forkedFrom;
+    if (!forkedFrom) return null;
+    const parent = entriesBySessionId.get(forkedFrom.parentSessionId);
+    return (
+      <Text type="secondary" style={{ display: 'block', marginTop: 4 }}>
+        <ForkOutlined /> 分叉自{' '}
+        {parent ? (
+          <Typography.Link onClick={() => handleView(parent, forkedFrom.parentMessageId)}>{parent.fileName}</Typography.Link>
+        ) : (
+          `${forkedFrom.parentSessionId}.json (已删除)`
+        )}
+        {' '}的第 {forkedFrom.messageIndex + 1} 条消息
+      </Text>
+    );
+  };
 
   // 处理删除操作
   const handleDelete = async (fileName: string) => {
-    // 删除时也需要确保操作的是 chats 目录下的文件
     logger.info(`删除文件: ${fileName}`);
     try {
-      // deleteChatSession 内部已经处理了 chats 目录，直接传文件名即可
+      // deleteChatSession 内部已经处理了 chats 目录和会话索引，直接传文件名即可
       const deleteResult = await window.electronAPI.deleteChatSession(fileName);
       if (deleteResult.success) {
         message.success(`历史记录 ${fileName} 已删除`);
-        // 刷新列表
         loadHistory(); // 重新加载以确保数据一致性
-        // 或者直接从 state 中移除:
-        // setHistoryList(prevList => prevList.filter(item => item.fileName !== fileName));
       } else {
         message.error(`删除失败: ${deleteResult.error || '未知错误'}`);
       }
@@ -132,26 +142,62 @@ const HistoryPage: React.FC = () => {
     }
   };
 
-  // 处理查看操作
-  const handleView = (item: HistoryItem) => {
-    console.log('查看:', item);
-    if (!item.snapshot) {
-        message.error('无法加载此历史记录的详细信息。');
-        return;
+  // 读取会话文件中的完整快照
+  const readSnapshot = async (entry: SessionIndexEntry): Promise<ChatPageStateSnapshot | null> => {
+    const readResult = await window.electronAPI.readStore(`chats/${entry.fileName}`, null);
+    const snapshot = readResult.success ? readResult.data as ChatPageStateSnapshot | null : null;
+    return snapshot?.chatConfig ? snapshot : null;
+  };
+
+  // 处理查看操作：读取会话文件后跳转到对应的聊天界面，可定位到指定消息
+  const handleView = async (entry: SessionIndexEntry, focusMessageId?: string) => {
+    const route = MODE_ROUTES[entry.mode];
+    if (!route) {
+      message.warning(`暂不支持查看 "${formatModeName(entry.mode)}" 模式的历史记录。`);
+      return;
+    }
+    const snapshot = await readSnapshot(entry);
+    if (!snapshot) {
+      message.error('无法加载此历史记录的详细信息。');
+      return;
     }
-    // 根据模式跳转到对应的聊天界面
-    if (item.mode === 'singleUserSingleAI') {
-        navigate('/single-user-single-ai-interface', { state: item.snapshot });
-    } else if (item.mode === 'singleUserMultiAI') {
-        navigate('/single-user-multi-ai-interface', { state: item.snapshot });
-    } else if (item.mode === 'director') { // 添加导演模式的处理
-        navigate('/director-mode-interface', { state: item.snapshot });
+    logger.info(`查看: ${entry.fileName}${focusMessageId ? `，定位到消息 ${focusMessageId}` : ''}`);
+    navigate(route, { state: focusMessageId ? { ...snapshot, focusMessageId } : snapshot });
+  };
+
+  // 保存会话标签
+  const handleSaveTags = async () => {
+    if (!editingTags) return;
+    const result = await window.electronAPI.setChatSessionTags(editingTags.entry.sessionId, editingTags.tags);
+    if (result.success) {
+      setEditingTags(null);
+      loadHistory();
     } else {
-        // 对于其他未明确处理的模式，保留警告
-        message.warning(`暂不支持查看 "${formatModeName(item.mode)}" 模式的历史记录。`);
+      message.error(`保存标签失败: ${result.error || '未知错误'}`);
     }
   };
 
+  const renderHits = (result: SessionSearchResult) => {
+    if (result.hits.length === 0) return null;
+    return (
+      <div style={{ marginTop: 8 }}>
+        {result.hits.map((hit, index) => (
+          <div key={hit.messageId ?? index} style={{ marginTop: 2 }}>
+            <Typography.Link onClick={() => handleView(result.entry, hit.messageId)}>
+              {hit.characterName}
+              {hit.messageIndex === -1 && <Tag color="purple" style={{ marginLeft: 4 }}>其他分支</Tag>}
+            </Typography.Link>
+            <Text>: {renderSnippet(hit)}</Text>
+          </div>
+        ))}
+        {result.totalHits > result.hits.length && (
+          <Text type="secondary" style={{ fontSize: '12px' }}>另有 {result.totalHits - result.hits.length} 处命中</Text>
+        )}
+      </div>
+    );
+  };
+
+  const hasFilters = Object.values(query).some(value => value !== undefined && value !== '');
 
   return (
     // 1. 添加外部 div，负责滚动和左侧 5px 灰色边距
@@ -159,51 +205,108 @@ const HistoryPage: React.FC = () => {
       {/* 2. 给内部容器加上背景、圆角和内边距 */}
       <div style={{ background: colorBgContainer, borderRadius: borderRadiusLG, padding: 10 }}>
         <Title level={2}>历史记录</Title>
+        <Space wrap style={{ marginBottom: 16 }}>
+          <Input.Search
+            placeholder="搜索消息内容"
+            allowClear
+            style={{ width: 260 }}
+            onSearch={text => updateQuery({ text: text.trim() || undefined })}
+          />
+          <Select allowClear placeholder="模式" style={{ width: 130 }} options={MODE_OPTIONS} value={query.mode} onChange={mode => updateQuery({ mode })} />
+          <Select
+            allowClear showSearch optionFilterProp="label" placeholder="剧本" style={{ width: 180 }}
+            options={filterOptions.scripts} value={query.scriptId} onChange={scriptId => updateQuery({ scriptId })}
+          />
+          <Select
+            allowClear showSearch optionFilterProp="label" placeholder="角色" style={{ width: 150 }}
+            options={filterOptions.characters} value={query.characterId} onChange={characterId => updateQuery({ characterId })}
+          />
+          <Select allowClear placeholder="标签" style={{ width: 130 }} options={filterOptions.tags} value={query.tag} onChange={tag => updateQuery({ tag })} />
+          <DatePicker.RangePicker
+            onChange={dates => updateQuery({
+              from: dates?.[0] ? dates[0].startOf('day').valueOf() : undefined,
+              to: dates?.[1] ? dates[1].endOf('day').valueOf() : undefined,
+            })}
+          />
+        </Space>
         <Spin spinning={loading}>
-        {historyList.length === 0 && !loading ? (
-          <Empty description="暂无历史记录" />
+        {results.length === 0 && !loading ? (
+          <Empty description={hasFilters ? '没有符合条件的历史记录' : '暂无历史记录'} />
         ) : (
           <List
             itemLayout="horizontal"
-            dataSource={historyList}
-            renderItem={item => (
-              <List.Item
-                actions={[
-                  <Button icon={<EyeOutlined />} onClick={() => handleView(item)} key="list-view">
-                    查看
-                  </Button>,
-                  <Popconfirm
-                    title="确定删除这条记录吗？"
-                    onConfirm={() => handleDelete(item.fileName)}
-                    okText="确定"
-                    cancelText="取消"
-                    key="list-delete"
-                  >
-                    <Button danger icon={<DeleteOutlined />}>
-                      删除
-                    </Button>
-                  </Popconfirm>,
-                ]}
-              >
-                <List.Item.Meta
-                  title={<Text strong>{item.scriptTitle}</Text>}
-                  description={
-                    <>
-                      <Tag color="blue">{formatModeName(item.mode)}</Tag>
-                      <Text type="secondary" style={{ marginLeft: 8 }}>
-                        {item.fileName} ({new Date(item.timestamp).toLocaleString()})
-                      </Text>
-                    </>
-                  }
-                />
-              </List.Item>
-            )}
+            dataSource={results}
+            renderItem={result => {
+              const { entry } = result;
+              return (
+                <List.Item
+                  actions={[
+                    <Button icon={<EyeOutlined />} onClick={() => handleView(entry)} key="list-view">
+                      查看
+                    </Button>,
+                    <Button icon={<TagsOutlined />} onClick={() => setEditingTags({ entry, tags: entry.tags })} key="list-tags">
+                      标签
+                    </Button>,
+                    <ExportSessionButton getSnapshot={() => readSnapshot(entry)} label="导出" key="list-export" />,
+                    <Popconfirm
+                      title="确定删除这条记录吗？"
+                      onConfirm={() => handleDelete(entry.fileName)}
+                      okText="确定"
+                      cancelText="取消"
+                      key="list-delete"
+                    >
+                      <Button danger icon={<DeleteOutlined />}>
+                        删除
+                      </Button>
+                    </Popconfirm>,
+                  ]}
+                >
+                  <List.Item.Meta
+                    title={<Text strong>{entry.title}</Text>}
+                    description={
+                      <>
+                        <Tag color="blue">{formatModeName(entry.mode)}</Tag>
+                        {entry.branchCount > 1 && <Tag color="purple">{entry.branchCount} 个分支</Tag>}
+                        {forkCounts.has(entry.sessionId) && <Tag color="cyan">{forkCounts.get(entry.sessionId)} 个分叉会话</Tag>}
+                        {entry.tags.map(tag => <Tag key={tag}>{tag}</Tag>)}
+                        <Text type="secondary" style={{ marginLeft: 8 }}>
+                          {entry.characters.map(character => character.name).join('、')} · {entry.messageCount} 条消息
+                          {entry.totalTokens > 0 && ` · ${entry.totalTokens.toLocaleString()} tokens`}
+                          {' · '}
+                          {new Date(entry.firstMessageAt ?? entry.createdAt).toLocaleString()}
+                          {entry.lastMessageAt && entry.lastMessageAt !== entry.firstMessageAt && ` ~ ${new Date(entry.lastMessageAt).toLocaleString()}`}
+                        </Text>
+                        {renderForkSource(entry)}
+                        {renderHits(result)}
+                      </>
+                    }
+                  />
+                </List.Item>
+              );
+            }}
           />
         )}
         </Spin>
+        <Modal
+          title="编辑会话标签"
+          open={!!editingTags}
+          onOk={handleSaveTags}
+          onCancel={() => setEditingTags(null)}
+          okText="保存"
+          cancelText="取消"
+        >
+          <Select
+            mode="tags"
+            style={{ width: '100%' }}
+            placeholder="输入标签后按回车"
+            value={editingTags?.tags}
+            onChange={(tags: string[]) => setEditingTags(prev => (prev ? { ...prev, tags } : prev))}
+            options={filterOptions.tags}
+          />
+        </Modal>
       </div>
     </div>
   );
 };
 
-export default HistoryPage;
\ No newline at end of file
+export default HistoryPage;
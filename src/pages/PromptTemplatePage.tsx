@@ -0,0 +1,387 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Alert, Button, Card, Col, Collapse, Dropdown, Empty, Input, List, Modal, Popconfirm, Row, Select, Space, Table, Tag, Typography, message, theme } from 'antd';
+import { CopyOutlined, ExportOutlined, ImportOutlined, PlusOutlined, SaveOutlined } from '@ant-design/icons';
+import { v4 as uuidv4 } from 'uuid';
+import type { AICharacter, ChatMode, PromptTemplate, Script } from '../types';
+import { usePromptTemplates } from '../hooks/usePromptTemplates';
+import { setupLogger as logger } from '../utils/logger';
+import {
+  BUILT_IN_PROMPT_TEMPLATES,
+  CHAT_MODES,
+  CHAT_MODE_LABELS,
+  PROMPT_TEMPLATE_VARIABLES,
+  createPromptTemplateBundle,
+  importPromptTemplateBundle,
+  renderPromptTemplate,
+} from '../utils/promptTemplates';
+
+const { Text, Paragraph } = Typography;
+
+const PREVIEW_STYLE: React.CSSProperties = { whiteSpace: 'pre-wrap', maxHeight: 360, overflowY: 'auto', marginBottom: 0 };
+
+/**
+ * 提示词模板管理：编辑各聊天模式的系统提示词模板，用选定的剧本和角色实时预览，设置默认模板，导入导出
+ */
+const PromptTemplatePage: React.FC = () => {
+  const { token: { colorBgContainer, borderRadiusLG } } = theme.useToken();
+  const { templates, userTemplates, defaults, setDefaults, loading, reload, resolveTemplate } = usePromptTemplates();
+  const [selectedId, setSelectedId] = useState<string>(BUILT_IN_PROMPT_TEMPLATES.singleUserSingleAI.id);
+  const [draft, setDraft] = useState<PromptTemplate>(BUILT_IN_PROMPT_TEMPLATES.singleUserSingleAI);
+  const [dirty, setDirty] = useState<boolean>(false);
+  const [saving, setSaving] = useState<boolean>(false);
+
+  // 预览使用的剧本和角色
+  const [scripts, setScripts] = useState<Script[]>([]);
+  const [characters, setCharacters] = useState<AICharacter[]>([]);
+  const [previewScriptId, setPreviewScriptId] = useState<string | undefined>();
+  const [previewCharacterId, setPreviewCharacterId] = useState<string | undefined>();
+  const [previewUserId, setPreviewUserId] = useState<string | undefined>();
+
+  useEffect(() => {
+    const loadPreviewData = async () => {
+      const [scriptsResult, charactersResult] = await Promise.all([window.electronAPI.listScripts(), window.electronAPI.listCharacters()]);
+      if (scriptsResult.success && scriptsResult.data) {
+        setScripts(scriptsResult.data);
+      } else {
+        logger.error('加载剧本列表失败:', scriptsResult.error);
+      }
+      if (charactersResult.success && charactersResult.data) {
+        setCharacters(charactersResult.data);
+      } else {
+        logger.error('加载角色列表失败:', charactersResult.error);
+      }
+    };
+    loadPreviewData();
+  }, []);
+
+  // 选择剧本后，默认用剧本中的前两个角色预览
+  const previewScript = scripts.find(script => script.id === previewScriptId);
+  const handlePreviewScriptChange = (scriptId: string) => {
+    setPreviewScriptId(scriptId);
+    const characterIds = scripts.find(script => script.id === scriptId)?.characterIds ?? [];
+    setPreviewCharacterId(characterIds[0]);
+    setPreviewUserId(characterIds[1]);
+  };
+
+  const preview = useMemo(() => {
+    const character = characters.find(c => c.id === previewCharacterId);
+    if (!previewScript || !character) return null;
+    const user = draft.mode === 'director' ? undefined : characters.find(c => c.id === previewUserId);
+    // 出场角色：剧本中的角色，加上预览选择的角色 (可能不在剧本中)
+    const participantIds = Array.from(new Set([...(previewScript.characterIds ?? []), character.id, ...(user ? [user.id] : [])]));
+    const participants = participantIds
+      .map(id => characters.find(c => c.id === id))
+      .filter((c): c is AICharacter => !!c);
+    return renderPromptTemplate(draft, { script: previewScript, character, participants, user });
+  }, [draft, previewScript, previewCharacterId, previewUserId, characters]);
+
+  const selectTemplate = (template: PromptTemplate) => {
+    const apply = () => {
+      setSelectedId(template.id);
+      setDraft(template);
+      setDirty(false);
+    };
+    if (dirty && template.id !== selectedId) {
+      Modal.confirm({ title: '放弃未保存的修改？', okText: '放弃', cancelText: '取消', onOk: apply });
+    } else {
+      apply();
+    }
+  };
+
+  const updateDraft = (changes: Partial<PromptTemplate>) => {
+    setDraft(prev => ({ ...prev, ...changes }));
+    setDirty(true);
+  };
+
+  // 新建或复制的模板先放在编辑区，保存后才写入磁盘
+  const startNewTemplate = (template: PromptTemplate) => {
+    setSelectedId(template.id);
+    setDraft(template);
+    setDirty(true);
+  };
+
+  const handleCreate = (mode: ChatMode) => {
+    startNewTemplate({ id: uuidv4(), name: `新模板 (${CHAT_MODE_LABELS[mode]})`, mode, prePrompt: '', postPrompt: '' });
+  };
+
+  const handleCopy = () => {
+    startNewTemplate({ ...draft, id: uuidv4(), name: `${draft.name} (副本)`, builtIn: undefined });
+  };
+
+  const handleSave = async () => {
+    if (!draft.name.trim()) {
+      message.error('请填写模板名称！');
+      return;
+    }
+    setSaving(true);
+    try {
+      const result = await window.electronAPI.promptTemplateSave({ ...draft, name: draft.name.trim() });
+      if (result.success) {
+        message.success('模板已保存。');
+        setDirty(false);
+        await reload();
+      } else {
+        message.error(`保存模板失败: ${result.error || '未知错误'}`);
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    const result = await window.electronAPI.promptTemplateDelete(draft.id);
+    if (!result.success) {
+      message.error(`删除模板失败: ${result.error || '未知错误'}`);
+      return;
+    }
+    message.success('模板已删除。');
+    const fallback = BUILT_IN_PROMPT_TEMPLATES[draft.mode];
+    setSelectedId(fallback.id);
+    setDraft(fallback);
+    setDirty(false);
+    await reload();
+  };
+
+  // 设为默认：内置模板本来就是缺省值，直接清除该模式的设置
+  const handleSetDefault = async () => {
+    const next = { ...defaults };
+    if (draft.builtIn) {
+      delete next[draft.mode];
+    } else {
+      next[draft.mode] = draft.id;
+    }
+    const result = await window.electronAPI.promptTemplateSetDefaults(next);
+    if (result.success) {
+      setDefaults(next);
+      message.success(`已设为${CHAT_MODE_LABELS[draft.mode]}的默认模板。`);
+    } else {
+      message.error(`设置默认模板失败: ${result.error || '未知错误'}`);
+    }
+  };
+
+  const handleExport = async (exported: PromptTemplate[], fileName: string) => {
+    const result = await window.electronAPI.promptTemplateExport(fileName, createPromptTemplateBundle(exported));
+    if (!result.success) {
+      message.error(`导出模板失败: ${result.error || '未知错误'}`);
+    } else if (result.data) {
+      message.success(`已导出到 ${result.data}`);
+    }
+  };
+
+  const handleImport = async () => {
+    const result = await window.electronAPI.promptTemplateImport();
+    if (!result.success) {
+      message.error(`读取模板文件失败: ${result.error || '未知错误'}`);
+      return;
+    }
+    if (!result.data) return; // 用户取消
+    let imported: PromptTemplate[];
+    try {
+      imported = importPromptTemplateBundle(result.data, templates);
+    } catch (error) {
+      message.error(error instanceof Error ? error.message : String(error));
+      return;
+    }
+    for (const template of imported) {
+      const saveResult = await window.electronAPI.promptTemplateSave(template);
+      if (!saveResult.success) {
+        message.error(`导入模板 "${template.name}" 失败: ${saveResult.error || '未知错误'}`);
+        await reload();
+        return;
+      }
+    }
+    message.success(`已导入 ${imported.length} 个模板。`);
+    await reload();
+  };
+
+  const isNew = !draft.builtIn && !userTemplates.some(template => template.id === draft.id);
+  const isDefault = resolveTemplate(draft.mode).id === draft.id;
+  const listedTemplates = isNew ? [...templates, draft] : templates;
+
+  return (
+    <div style={{ maxHeight: 'calc(100vh - 5px)', overflow: 'auto', paddingLeft: '5px' }}>
+      <div style={{ background: colorBgContainer, borderRadius: borderRadiusLG, padding: 10 }}>
+        <Row gutter={16}>
+          <Col span={7}>
+            <Card
+              title="提示词模板"
+              size="small"
+              extra={
+                <Space size={4}>
+                  <Dropdown menu={{ items: CHAT_MODES.map(mode => ({ key: mode, label: CHAT_MODE_LABELS[mode] })), onClick: ({ key }) => handleCreate(key as ChatMode) }}>
+                    <Button size="small" icon={<PlusOutlined />}>新建</Button>
+                  </Dropdown>
+                  <Button size="small" icon={<ImportOutlined />} onClick={handleImport}>导入</Button>
+                  <Button size="small" icon={<ExportOutlined />} disabled={userTemplates.length === 0} onClick={() => handleExport(userTemplates, '提示词模板')}>
+                    导出全部
+                  </Button>
+                </Space>
+              }
+            >
+              <List
+                loading={loading}
+                dataSource={listedTemplates}
+                renderItem={template => (
+                  <List.Item
+                    onClick={() => selectTemplate(template)}
+                    style={{ cursor: 'pointer', paddingLeft: 8, background: template.id === selectedId ? 'rgba(22, 119, 255, 0.08)' : undefined }}
+                  >
+                    <Space direction="vertical" size={2}>
+                      <Text strong={template.id === selectedId}>{template.id === selectedId ? draft.name : template.name}</Text>
+                      <Space size={4} wrap>
+                        <Tag>{CHAT_MODE_LABELS[template.mode]}</Tag>
+                        {template.builtIn && <Tag color="purple">内置</Tag>}
+                        {resolveTemplate(template.mode).id === template.id && <Tag color="blue">默认</Tag>}
+                        {template.id === selectedId && dirty && <Tag color="orange">未保存</Tag>}
+                      </Space>
+                    </Space>
+                  </List.Item>
+                )}
+              />
+            </Card>
+          </Col>
+
+          <Col span={17}>
+            <Card
+              size="small"
+              title={draft.name || '未命名模板'}
+              style={{ marginBottom: 16 }}
+              extra={
+                <Space size={4} wrap>
+                  <Button size="small" icon={<CopyOutlined />} onClick={handleCopy}>复制</Button>
+                  <Button size="small" disabled={isDefault || isNew} onClick={handleSetDefault}>设为默认</Button>
+                  <Button size="small" icon={<ExportOutlined />} disabled={dirty} onClick={() => handleExport([draft], draft.name)}>导出</Button>
+                  {!draft.builtIn && !isNew && (
+                    <Popconfirm title={`删除模板 "${draft.name}"？`} description="使用该模板的已保存会话不受影响。" onConfirm={handleDelete}>
+                      <Button size="small" danger>删除</Button>
+                    </Popconfirm>
+                  )}
+                  {!draft.builtIn && (
+                    <Button size="small" type="primary" icon={<SaveOutlined />} loading={saving} disabled={!dirty} onClick={handleSave}>保存</Button>
+                  )}
+                </Space>
+              }
+            >
+              {draft.builtIn && (
+                <Alert type="info" showIcon style={{ marginBottom: 12 }} message="内置模板不能修改，复制一份后再编辑。" />
+              )}
+              <Space direction="vertical" style={{ width: '100%' }}>
+                <Space wrap>
+                  <Input
+                    addonBefore="名称"
+                    style={{ width: 320 }}
+                    value={draft.name}
+                    readOnly={draft.builtIn}
+                    onChange={e => updateDraft({ name: e.target.value })}
+                  />
+                  <Select
+                    style={{ width: 160 }}
+                    value={draft.mode}
+                    disabled={draft.builtIn}
+                    options={CHAT_MODES.map(mode => ({ value: mode, label: CHAT_MODE_LABELS[mode] }))}
+                    onChange={mode => updateDraft({ mode })}
+                  />
+                </Space>
+                <Input
+                  addonBefore="说明"
+                  value={draft.description}
+                  readOnly={draft.builtIn}
+                  onChange={e => updateDraft({ description: e.target.value || undefined })}
+                />
+                <Text type="secondary">前置提示词 (放在对话历史之前)</Text>
+                <Input.TextArea
+                  autoSize={{ minRows: 6, maxRows: 20 }}
+                  value={draft.prePrompt}
+                  readOnly={draft.builtIn}
+                  onChange={e => updateDraft({ prePrompt: e.target.value })}
+                />
+                <Text type="secondary">后置提示词 (放在对话历史之后，可以为空)</Text>
+                <Input.TextArea
+                  autoSize={{ minRows: 3, maxRows: 20 }}
+                  value={draft.postPrompt}
+                  readOnly={draft.builtIn}
+                  onChange={e => updateDraft({ postPrompt: e.target.value })}
+                />
+              </Space>
+              <Collapse
+                size="small"
+                style={{ marginTop: 12 }}
+                items={[{
+                  key: 'variables',
+                  label: '可用变量',
+                  children: (
+                    <>
+                      <Paragraph type="secondary">
+                        {'用 {{变量}} 插入内容；{{#变量}}…{{/变量}} 只在变量非空时输出，{{^变量}}…{{/变量}} 只在变量为空时输出。'}
+                      </Paragraph>
+                      <Table
+                        size="small"
+                        rowKey="name"
+                        pagination={false}
+                        scroll={{ y: 300 }}
+                        dataSource={PROMPT_TEMPLATE_VARIABLES}
+                        columns={[
+                          { title: '变量', dataIndex: 'name', key: 'name', width: 240, render: (name: string) => <Text code copyable>{`{{${name}}}`}</Text> },
+                          { title: '说明', dataIndex: 'description', key: 'description' },
+                        ]}
+                      />
+                    </>
+                  ),
+                }]}
+              />
+            </Card>
+
+            <Card size="small" title="预览">
+              <Space wrap style={{ marginBottom: 12 }}>
+                <Select
+                  style={{ width: 200 }}
+                  placeholder="选择剧本"
+                  value={previewScriptId}
+                  onChange={handlePreviewScriptChange}
+                  options={scripts.map(script => ({ value: script.id, label: script.title }))}
+                />
+                <Select
+                  style={{ width: 180 }}
+                  placeholder="AI 扮演的角色"
+                  value={previewCharacterId}
+                  onChange={setPreviewCharacterId}
+                  options={characters.map(character => ({ value: character.id, label: character.name }))}
+                />
+                {draft.mode !== 'director' && (
+                  <Select
+                    style={{ width: 180 }}
+                    placeholder="用户扮演的角色"
+                    allowClear
+                    value={previewUserId}
+                    onChange={setPreviewUserId}
+                    options={characters.map(character => ({ value: character.id, label: character.name }))}
+                  />
+                )}
+              </Space>
+              {!preview ? (
+                <Empty description="选择剧本和角色后显示渲染结果" />
+              ) : (
+                <>
+                  {preview.unknownVariables.length > 0 && (
+                    <Alert
+                      type="warning"
+                      showIcon
+                      style={{ marginBottom: 12 }}
+                      message={`模板中有无法识别的变量 (渲染为空): ${preview.unknownVariables.join('、')}`}
+                    />
+                  )}
+                  <Text strong>前置提示词</Text>
+                  <Paragraph style={PREVIEW_STYLE}>{preview.prePrompt || <Text type="secondary">(空)</Text>}</Paragraph>
+                  <Text strong>后置提示词</Text>
+                  <Paragraph style={PREVIEW_STYLE}>{preview.postPrompt || <Text type="secondary">(空)</Text>}</Paragraph>
+                </>
+              )}
+            </Card>
+          </Col>
+        </Row>
+      </div>
+    </div>
+  );
+};
+
+export default PromptTemplatePage;
@@ -105,6 +105,10 @@ const ScriptEditorPage: React.FC = () => {
           if (isEditMode && scriptId && !valuesToStore.id) {
               valuesToStore.id = scriptId;
           }
+          // 剧本包导入的自定义提示词不在表单中，需要保留
+          if (currentFormValues.customPrompts) {
+              valuesToStore.customPrompts = currentFormValues.customPrompts;
+          }
           setCurrentFormValues(valuesToStore);
       }
   };
@@ -146,6 +150,7 @@ const ScriptEditorPage: React.FC = () => {
         mood: values.mood || undefined,
         themes: values.themes || undefined,
         tags: values.tags || [],
+        customPrompts: currentFormValues.customPrompts,
       };
 
       logger.info('尝试保存剧本:', scriptToSave);
@@ -1,15 +1,33 @@
 import React, { useState, useEffect } from 'react';
 // 导入 theme 用于获取背景色等 token
-import { Table, Button, message, Popconfirm, Tag, theme } from 'antd';
+import { Table, Button, Dropdown, message, Modal, Popconfirm, Select, Space, Tag, theme } from 'antd';
+import { ImportOutlined } from '@ant-design/icons';
 import { useNavigate } from 'react-router-dom';
-import { Script, AICharacter } from '../types';
+import { Script, AICharacter, ChatPageStateSnapshot, ScenarioBundle } from '../types';
 import { scriptLogger as logger } from '../utils/logger'; // 导入日志工具
+import {
+  COLLISION_RESOLUTION_OPTIONS,
+  createScenarioBundle,
+  findBundleCollisions,
+  resolveScenarioBundle,
+  validateScenarioBundle,
+  type BundleCollision,
+  type CollisionResolution,
+} from '../utils/scenarioBundle';
+
+// 待处理冲突的剧本包导入
+interface PendingImport {
+  bundle: ScenarioBundle;
+  collisions: BundleCollision[];
+  resolutions: Record<string, CollisionResolution>;
+}
 
 // columns 的 handleDelete 现在需要传入剧本 ID
 const columns = (
   characters: AICharacter[], // 仍然需要角色列表来显示名字
   handleDelete: (id: string) => void, // <-- 确认接收 id
-  navigateToEdit: (id: string) => void
+  navigateToEdit: (id: string) => void,
+  handleExport: (script: Script, includeSessionPrompts: boolean) => void
 ) => [
   {
     title: '标题',
@@ -57,6 +75,17 @@ const columns = (
         >
           <Button type="link" danger>删除</Button>
         </Popconfirm>
+        <Dropdown
+          menu={{
+            items: [
+              { key: 'bundle', label: '导出剧本包' },
+              { key: 'bundle-with-prompts', label: '导出剧本包 (含最近一次会话的系统提示词)' },
+            ],
+            onClick: ({ key }) => handleExport(record, key === 'bundle-with-prompts'),
+          }}
+        >
+          <Button type="link">导出</Button>
+        </Dropdown>
       </span>
     ),
   },
@@ -67,6 +96,7 @@ const ScriptManagementPage: React.FC = () => {
   const [loadingScripts, setLoadingScripts] = useState(false);
   const [loadingCharacters, setLoadingCharacters] = useState(false);
   const [allCharacters, setAllCharacters] = useState<AICharacter[]>([]);
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(null);
   const navigate = useNavigate();
   // 获取 antd 主题 token
   const { token: { colorBgContainer, borderRadiusLG } } = theme.useToken();
@@ -151,21 +181,144 @@ const ScriptManagementPage: React.FC = () => {
     }
   };
 
+  // 读取剧本最近一次会话中的系统提示词
+  const loadLatestSessionPrompts = async (scriptId: string): Promise<ChatPageStateSnapshot['systemPrompts']> => {
+    const searchResult = await window.electronAPI.searchChatSessions({ scriptId });
+    const latest = searchResult.success ? searchResult.data?.[0] : undefined;
+    if (!latest) return undefined;
+    const readResult = await window.electronAPI.readStore(`chats/${latest.entry.fileName}`, null);
+    return readResult.success ? (readResult.data as ChatPageStateSnapshot | null)?.systemPrompts : undefined;
+  };
+
+  // 导出剧本包：剧本、引用的角色，以及剧本自带的 (可选地加上最近一次会话的) 系统提示词
+  const handleExport = async (script: Script, includeSessionPrompts: boolean) => {
+    try {
+      const sessionPrompts = includeSessionPrompts ? await loadLatestSessionPrompts(script.id) : undefined;
+      if (includeSessionPrompts && !sessionPrompts) {
+        message.info('该剧本还没有保存过会话，只导出剧本自带的提示词。');
+      }
+      const { bundle, missingCharacterIds } = createScenarioBundle(script, allCharacters, { ...script.customPrompts, ...sessionPrompts });
+      if (missingCharacterIds.length > 0) {
+        message.warning(`剧本引用的 ${missingCharacterIds.length} 个角色已不存在，未包含在剧本包中。`);
+      }
+      const result = await window.electronAPI.scriptBundleExport(script.title, bundle);
+      if (!result.success) {
+        message.error(`导出剧本包失败: ${result.error || '未知错误'}`);
+      } else if (result.data) {
+        message.success(`已导出到 ${result.data}`);
+      }
+    } catch (error: unknown) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      message.error(`导出剧本包时出错: ${errorMsg}`);
+    }
+  };
+
+  // 按冲突处理方式保存剧本包中的剧本和角色
+  const applyImport = async (bundle: ScenarioBundle, resolutions: Record<string, CollisionResolution>) => {
+    const { script, characters } = resolveScenarioBundle(bundle, resolutions);
+    try {
+      for (const character of characters) {
+        const result = await window.electronAPI.saveCharacter(character);
+        if (!result.success) throw new Error(`保存角色 "${character.name}" 失败: ${result.error || '未知错误'}`);
+      }
+      if (script) {
+        const result = await window.electronAPI.saveScript(script);
+        if (!result.success) throw new Error(`保存剧本 "${script.title}" 失败: ${result.error || '未知错误'}`);
+      }
+      logger.info(`已导入剧本包: ${script ? script.title : '(跳过剧本)'}，角色 ${characters.length} 个`);
+      message.success(`已导入${script ? `剧本 "${script.title}" 和` : ''} ${characters.length} 个角色`);
+    } catch (error: unknown) {
+      message.error(error instanceof Error ? error.message : String(error));
+    } finally {
+      setPendingImport(null);
+      loadScripts();
+      loadAllCharacters();
+    }
+  };
+
+  // 导入剧本包：没有 ID 冲突时直接导入，否则让用户选择每个冲突项的处理方式
+  const handleImport = async () => {
+    try {
+      const result = await window.electronAPI.scriptBundleImport();
+      if (!result.success) {
+        message.error(`读取剧本包失败: ${result.error || '未知错误'}`);
+        return;
+      }
+      if (result.data === undefined) return; // 用户取消
+      const bundle = validateScenarioBundle(result.data);
+      const collisions = findBundleCollisions(bundle, scripts, allCharacters);
+      if (collisions.length === 0) {
+        await applyImport(bundle, {});
+        return;
+      }
+      const resolutions: Record<string, CollisionResolution> = {};
+      collisions.forEach(collision => { resolutions[collision.key] = 'duplicate'; });
+      setPendingImport({ bundle, collisions, resolutions });
+    } catch (error: unknown) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      message.error(`导入剧本包失败: ${errorMsg}`);
+    }
+  };
+
+  const setResolution = (key: string, resolution: CollisionResolution) => {
+    setPendingImport(prev => (prev ? { ...prev, resolutions: { ...prev.resolutions, [key]: resolution } } : prev));
+  };
+
   return (
     // 1. 添加外部 div，负责滚动和左侧 5px 灰色边距
     <div style={{ maxHeight: 'calc(100vh - 5px)', overflow: 'auto', paddingLeft: '5px' }}>
       {/* 2. 给内部容器加上背景、圆角和内边距 */}
       <div style={{ background: colorBgContainer, borderRadius: borderRadiusLG, padding: 10 }}>
-        <Button type="primary" onClick={navigateToAdd} style={{ marginBottom: 16 }}>
-          添加剧本
-      </Button>
+        <Space style={{ marginBottom: 16 }}>
+          <Button type="primary" onClick={navigateToAdd}>
+            添加剧本
+          </Button>
+          <Button icon={<ImportOutlined />} onClick={handleImport}>
+            导入剧本包
+          </Button>
+        </Space>
       <Table
-        columns={columns(allCharacters, handleDelete, navigateToEdit)}
+        columns={columns(allCharacters, handleDelete, navigateToEdit, handleExport)}
         dataSource={scripts}
         loading={loadingScripts || loadingCharacters} // 任何一个在加载都显示 loading
         rowKey="id"
         pagination={false}
       />
+      <Modal
+        title="导入剧本包：处理 ID 冲突"
+        open={!!pendingImport}
+        onOk={() => pendingImport && applyImport(pendingImport.bundle, pendingImport.resolutions)}
+        onCancel={() => setPendingImport(null)}
+        okText="导入"
+        cancelText="取消"
+        width={640}
+      >
+        <p>以下内容与已有的剧本或角色 ID 相同，请选择处理方式：</p>
+        <Table
+          size="small"
+          rowKey="key"
+          pagination={false}
+          dataSource={pendingImport?.collisions ?? []}
+          columns={[
+            { title: '类型', dataIndex: 'kind', key: 'kind', render: (kind: BundleCollision['kind']) => (kind === 'script' ? '剧本' : '角色') },
+            { title: '剧本包中', dataIndex: 'name', key: 'name' },
+            { title: '已有', dataIndex: 'existingName', key: 'existingName' },
+            {
+              title: '处理方式',
+              key: 'resolution',
+              render: (_: unknown, collision: BundleCollision) => (
+                <Select
+                  size="small"
+                  style={{ width: 110 }}
+                  value={pendingImport?.resolutions[collision.key]}
+                  onChange={(resolution: CollisionResolution) => setResolution(collision.key, resolution)}
+                  options={COLLISION_RESOLUTION_OPTIONS}
+                />
+              ),
+            },
+          ]}
+        />
+      </Modal>
       </div>
     </div> // 闭合外部 div
   );
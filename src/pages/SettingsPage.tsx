@@ -1,8 +1,10 @@
 import React, { useState, useEffect } from 'react';
 // 导入 theme 用于获取背景色等 token
-import { Typography, Card, Radio, Input, Button, message, Spin, theme } from 'antd';
+import { Typography, Card, Radio, Input, InputNumber, Form, Button, message, Spin, theme, Alert, List } from 'antd';
 import type { RadioChangeEvent } from 'antd';
 import { setupLogger as logger } from '../utils/logger'; // 导入日志工具
+import type { RetryPolicy, StorageMigrationReport } from '../types';
+import BackupManagerCard from '../components/BackupManagerCard';
 
 // 代理模式类型
 type ProxyMode = 'system' | 'custom' | 'none';
@@ -21,6 +23,12 @@ const SettingsPage: React.FC = () => {
   const [loading, setLoading] = useState<boolean>(true);
   const [saving, setSaving] = useState<boolean>(false);
   const [testing, setTesting] = useState<boolean>(false);
+  // 重试策略
+  const [retryPolicy, setRetryPolicy] = useState<RetryPolicy | null>(null);
+  const [savingRetryPolicy, setSavingRetryPolicy] = useState<boolean>(false);
+  // 数据文件迁移报告
+  const [migrationReport, setMigrationReport] = useState<StorageMigrationReport | null>(null);
+  const [checkingDocuments, setCheckingDocuments] = useState<boolean>(false);
   // 获取 antd 主题 token
   const { token: { colorBgContainer, borderRadiusLG } } = theme.useToken();
 
@@ -48,9 +56,49 @@ const SettingsPage: React.FC = () => {
     }
   };
 
+  // 加载重试策略
+  const loadRetryPolicy = async () => {
+    const result = await window.electronAPI.llmGetRetryPolicy();
+    if (result.success && result.data) {
+      setRetryPolicy(result.data);
+    } else {
+      message.error(`加载重试策略失败: ${result.error || '未知错误'}`);
+    }
+  };
+
+  // 加载本次启动以来的数据迁移报告
+  const loadMigrationReport = async () => {
+    const result = await window.electronAPI.storageMigrationReport();
+    if (result.success && result.data) {
+      setMigrationReport(result.data);
+    }
+  };
+
+  // 检查并升级所有数据文件
+  const checkAllDocuments = async () => {
+    setCheckingDocuments(true);
+    try {
+      const result = await window.electronAPI.storageMigrateAll();
+      if (!result.success || !result.data) {
+        message.error(`检查数据文件失败: ${result.error || '未知错误'}`);
+        return;
+      }
+      setMigrationReport(result.data);
+      if (result.data.failed.length > 0) {
+        message.warning(`${result.data.failed.length} 个文件无法升级，请查看下方列表。`);
+      } else {
+        message.success('所有数据文件都已是最新版本。');
+      }
+    } finally {
+      setCheckingDocuments(false);
+    }
+  };
+
   // 在组件挂载时加载代理配置
   useEffect(() => {
     loadProxyConfig();
+    loadRetryPolicy();
+    loadMigrationReport();
     // 移除 focus 时的重新加载，避免不必要的状态覆盖
     // 如果需要实时反映系统代理变化，应该由后端 ProxyManager 推送或前端定期查询，而不是覆盖用户界面选择
   }, []); // 空依赖数组，只在挂载时运行一次
@@ -106,6 +154,32 @@ const SettingsPage: React.FC = () => {
     }
   };
 
+  // 修改重试策略中的单个字段 (只更新 UI 状态，点击保存后生效)
+  const handleRetryPolicyChange = (field: keyof RetryPolicy, value: number | null) => {
+    setRetryPolicy(prev => (prev && value !== null ? { ...prev, [field]: value } : prev));
+  };
+
+  // 保存重试策略
+  const saveRetryPolicy = async () => {
+    if (!retryPolicy) return;
+    try {
+      setSavingRetryPolicy(true);
+      logger.info('保存重试策略:', retryPolicy);
+      const result = await window.electronAPI.llmSetRetryPolicy(retryPolicy);
+      if (result.success && result.data) {
+        setRetryPolicy(result.data); // 使用后端规范化后的值
+        message.success('重试策略已保存');
+      } else {
+        message.error(`保存重试策略失败: ${result.error || '未知错误'}`);
+      }
+    } catch (error) {
+      logger.error('保存重试策略时出错:', error);
+      message.error(`保存重试策略时出错: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setSavingRetryPolicy(false);
+    }
+  };
+
   // 测试代理连接 (基本不变)
   const testProxyConnection = async () => {
     try {
@@ -226,8 +300,66 @@ const SettingsPage: React.FC = () => {
         </Spin>
       </Card>
 
+      <Card title="请求重试策略" style={{ marginBottom: 16 }}>
+        <Spin spinning={!retryPolicy}>
+          <Typography.Paragraph>
+            AI 服务返回限流 (429) 或服务端错误 (5xx) 时自动重试，重试间隔按倍数递增；服务端返回 Retry-After 时优先按其等待。
+            每个配置重试次数用尽后，将按聊天设置中的备用配置顺序继续尝试。
+          </Typography.Paragraph>
+          <Form layout="inline" style={{ marginBottom: 16, rowGap: 8 }}>
+            <Form.Item label="最大尝试次数">
+              <InputNumber min={1} max={10} value={retryPolicy?.maxAttempts} onChange={(value) => handleRetryPolicyChange('maxAttempts', value)} />
+            </Form.Item>
+            <Form.Item label="首次重试等待 (毫秒)">
+              <InputNumber min={0} step={500} value={retryPolicy?.initialDelayMs} onChange={(value) => handleRetryPolicyChange('initialDelayMs', value)} />
+            </Form.Item>
+            <Form.Item label="最长等待 (毫秒)">
+              <InputNumber min={0} step={1000} value={retryPolicy?.maxDelayMs} onChange={(value) => handleRetryPolicyChange('maxDelayMs', value)} />
+            </Form.Item>
+            <Form.Item label="退避倍数">
+              <InputNumber min={1} max={10} step={0.5} value={retryPolicy?.backoffMultiplier} onChange={(value) => handleRetryPolicyChange('backoffMultiplier', value)} />
+            </Form.Item>
+          </Form>
+          <Button type="primary" onClick={saveRetryPolicy} loading={savingRetryPolicy} disabled={!retryPolicy}>
+            保存重试策略
+          </Button>
+        </Spin>
+      </Card>
+
+      <Card title="数据文件版本" style={{ marginBottom: 16 }}>
+        <Typography.Paragraph>
+          角色、剧本、会话和 AI 配置文件都带有版本信息。读取旧版本的文件时会自动逐步升级到当前版本，升级前的原文件备份在数据目录的 backups/migrations 中。
+        </Typography.Paragraph>
+        {migrationReport && migrationReport.migrated.length > 0 && (
+          <Typography.Paragraph type="secondary">本次启动已升级 {migrationReport.migrated.length} 个文件。</Typography.Paragraph>
+        )}
+        {migrationReport && migrationReport.failed.length > 0 && (
+          <Alert
+            type="error"
+            showIcon
+            style={{ marginBottom: 16 }}
+            message={`${migrationReport.failed.length} 个文件无法读取或升级 (原文件保持不变)`}
+            description={
+              <List
+                size="small"
+                dataSource={migrationReport.failed}
+                renderItem={entry => (
+                  <List.Item>
+                    <Typography.Text code>{entry.file}</Typography.Text> {entry.error}
+                  </List.Item>
+                )}
+              />
+            }
+          />
+        )}
+        <Button onClick={checkAllDocuments} loading={checkingDocuments}>
+          检查所有数据文件
+        </Button>
+      </Card>
+
+      <BackupManagerCard />
+
       {/* 其他设置可以在这里添加 */}
-        {/* 其他设置可以在这里添加 */}
       </div>
     </div> // 闭合外部 div
   );
@@ -2,19 +2,18 @@ import React, { useState, useEffect, useMemo, Key } from 'react';
 import { useLocation, useNavigate } from 'react-router-dom';
 import { Select, Checkbox, Radio, Button, message, Spin, Typography, Card, Row, Col, Divider, RadioChangeEvent, theme } from 'antd';
 import { ArrowLeftOutlined } from '@ant-design/icons';
-import type { Script, AICharacter, AIConfig } from '../types'; // 导入 AIConfig
+import type { Script, AICharacter, AIConfig, AIConfigRef, CharacterAIConfig, GenerationParams, TurnStrategy } from '../types'; // 导入 AIConfig
 import type { ChatMode } from '../types';
 import { useLastVisited } from '../hooks/useLastVisited';
+import { usePromptTemplates } from '../hooks/usePromptTemplates';
+import FallbackConfigEditor from '../components/FallbackConfigEditor';
+import GenerationParamsEditor from '../components/GenerationParamsEditor';
+import PromptTemplateSelect from '../components/PromptTemplateSelect';
+import TurnStrategyEditor from '../components/TurnStrategyEditor';
+import { DEFAULT_TURN_STRATEGY } from '../utils/turnStrategy';
 import { setupLogger as logger } from '../utils/logger'; // 导入日志工具
 import { useCallback } from 'react'; // <--- 确保导入 useCallback
 
-// 定义角色 AI 配置结构 (更新)
-interface CharacterAIConfig {
-  configId: string; // 保存 AIConfig 的 ID
-  modelName: string; // 保存选定的模型名称
-  providerId: string; // 新增：保存服务商ID
-}
-
 // 定义页面内部状态快照的类型 (更新 aiConfigs)
 interface SetupPageStateSnapshot {
   selectedScriptId: string | null;
@@ -22,6 +21,9 @@ interface SetupPageStateSnapshot {
   userCharacterId: string | null;
   aiConfigs: Record<string, CharacterAIConfig>; // Map 不能直接序列化，转成对象。CharacterAIConfig 已更新
   mode?: ChatMode; // 把 mode 也存进去
+  turnStrategy?: TurnStrategy; // 发言策略
+  generationParams?: GenerationParams; // 会话级生成参数 (覆盖各角色的设置)
+  promptTemplateId?: string; // 本次会话使用的提示词模板 (缺省使用该模式的默认模板)
 }
 
 
@@ -61,6 +63,10 @@ const SingleUserMultiAISetupPage: React.FC = () => {
       return map;
   }, [restoredState?.aiConfigs]);
   const [aiConfigs, setAiConfigs] = useState<Map<string, CharacterAIConfig>>(initialAiConfigsMap);
+  const [sessionGenerationParams, setSessionGenerationParams] = useState<GenerationParams | undefined>(restoredState?.generationParams);
+  const [promptTemplateId, setPromptTemplateId] = useState<string | undefined>(restoredState?.promptTemplateId);
+  const { templates: promptTemplates, resolveTemplate } = usePromptTemplates();
+  const [turnStrategy, setTurnStrategy] = useState<TurnStrategy>(restoredState?.turnStrategy ?? DEFAULT_TURN_STRATEGY);
 
   // 将 handleAIConfigChange 定义移到所有使用它的 useEffect 之前
   const handleAIConfigChange = useCallback((
@@ -77,7 +83,7 @@ const SingleUserMultiAISetupPage: React.FC = () => {
       setAiConfigs(prev => { // 清空最终保存的配置
         const newConfigs = new Map(prev);
         // 当服务商改变时，清空 configId 和 modelName，但记录 providerId
-        newConfigs.set(characterId, { configId: '', modelName: '', providerId: value || '' });
+        newConfigs.set(characterId, { configId: '', modelName: '', providerId: value || '', fallbacks: prev.get(characterId)?.fallbacks, generationParams: prev.get(characterId)?.generationParams }); // 备用配置链和生成参数与主配置无关，予以保留
         return newConfigs;
       });
     } else if (field === 'configId') {
@@ -257,6 +263,8 @@ const SingleUserMultiAISetupPage: React.FC = () => {
                 const newMap = new Map(prevMap);
                 newMap.set(charId, {
                   configId: savedConfig.configId, // 来自 savedConfig
+                  fallbacks: savedConfig.fallbacks, // 恢复备用配置链
+                  generationParams: savedConfig.generationParams, // 恢复生成参数
                   modelName: savedConfig.modelName, // 来自 savedConfig
                   providerId: fullAIConfigFromServer.serviceProvider // 确保使用最新的 providerId
                 });
@@ -313,10 +321,13 @@ const SingleUserMultiAISetupPage: React.FC = () => {
       selectedCharacterIds,
       userCharacterId,
       aiConfigs: Object.fromEntries(aiConfigs.entries()),
-      mode: mode
+      generationParams: sessionGenerationParams,
+      promptTemplateId,
+      mode: mode,
+      turnStrategy,
     };
     updateLastVisitedNavInfo('singleUserMultiAISetup', location.pathname, undefined, currentStateSnapshot);
-  }, [selectedScriptId, selectedCharacterIds, userCharacterId, aiConfigs, updateLastVisitedNavInfo, location.pathname, mode]);
+  }, [selectedScriptId, selectedCharacterIds, userCharacterId, aiConfigs, sessionGenerationParams, promptTemplateId, turnStrategy, updateLastVisitedNavInfo, location.pathname, mode]);
 
   const selectedScript = useMemo(() => {
     return scripts.find(script => script.id === selectedScriptId);
@@ -393,6 +404,26 @@ const SingleUserMultiAISetupPage: React.FC = () => {
   // handleAIConfigChange 已用 useCallback 包裹并移到前面
 
   // 开始聊天按钮逻辑
+  // 更新角色的备用配置链
+  const handleFallbacksChange = (characterId: string, fallbacks: AIConfigRef[]) => {
+    setAiConfigs(prev => {
+      const newConfigs = new Map(prev);
+      const current = newConfigs.get(characterId) || { configId: '', modelName: '', providerId: '' };
+      newConfigs.set(characterId, { ...current, fallbacks });
+      return newConfigs;
+    });
+  };
+
+  // 更新角色的生成参数
+  const handleGenerationParamsChange = (characterId: string, generationParams: GenerationParams | undefined) => {
+    setAiConfigs(prev => {
+      const newConfigs = new Map(prev);
+      const current = newConfigs.get(characterId) || { configId: '', modelName: '', providerId: '' };
+      newConfigs.set(characterId, { ...current, generationParams });
+      return newConfigs;
+    });
+  };
+
   const handleStartChat = () => {
     if (!selectedScriptId) { message.error('请先选择剧本！'); return; }
     if (selectedCharacterIds.length < 2) { message.error('单人多 AI 模式至少需要选择两个出场角色（包括您自己）！'); return; }
@@ -418,6 +449,10 @@ const SingleUserMultiAISetupPage: React.FC = () => {
       message.error(`请为以下 AI 角色选择服务商、命名配置和模型：${missingConfigChars.join(', ')}`);
       return;
     }
+    if (turnStrategy.type === 'llmJudge' && (!turnStrategy.judge?.configId || !turnStrategy.judge.modelName)) {
+      message.error('请为 AI 裁判选择配置和模型！');
+      return;
+    }
 
     const participatingChars = characters.filter(c => selectedCharacterIds.includes(c.id));
     if (participatingChars.length !== selectedCharacterIds.length) { message.error('无法找到完整的出场角色信息！'); return; }
@@ -428,7 +463,14 @@ const SingleUserMultiAISetupPage: React.FC = () => {
       script: selectedScript,
       participatingCharacters: participatingChars,
       userCharacterId,
-      aiConfigs: Object.fromEntries(aiConfigs.entries()), // 只包含 AI 角色的配置
+      // 忽略未填写完整的备用配置
+      aiConfigs: Object.fromEntries(Array.from(aiConfigs.entries(), ([charId, config]) => (
+        [charId, { ...config, fallbacks: config.fallbacks?.filter(fallback => fallback.configId && fallback.modelName) }]
+      ))),
+      // 只有裁判策略需要保存裁判配置
+      turnStrategy: turnStrategy.type === 'llmJudge' ? turnStrategy : { type: turnStrategy.type },
+      generationParams: sessionGenerationParams,
+      promptTemplate: resolveTemplate('singleUserMultiAI', promptTemplateId),
     };
     logger.info('开始聊天 (单人多AI)，配置:', chatConfig);
     // 导航到新的多 AI 聊天界面
@@ -565,6 +607,20 @@ const SingleUserMultiAISetupPage: React.FC = () => {
                                 disabled={!selectedConfigId || isLoadingModels}
                                 loading={isLoadingModels}
                               />
+                              <div style={{ marginTop: 12 }}>
+                                <FallbackConfigEditor
+                                  allAIConfigs={allAIConfigs}
+                                  value={finalAIConfig.fallbacks ?? []}
+                                  onChange={(fallbacks) => handleFallbacksChange(character.id, fallbacks)}
+                                  primaryConfigId={finalAIConfig.configId || undefined}
+                                  disabled={loading}
+                                />
+                              </div>
+                              <GenerationParamsEditor
+                                value={finalAIConfig.generationParams}
+                                onChange={(params) => handleGenerationParamsChange(character.id, params)}
+                                disabled={loading}
+                              />
                             </Card>
                           </Col>
                         );
@@ -575,6 +631,37 @@ const SingleUserMultiAISetupPage: React.FC = () => {
             </Card>
           )}
 
+          {selectedScript && (
+            <Card title="4. 发言顺序" style={{ marginBottom: 16 }}>
+              <TurnStrategyEditor allAIConfigs={allAIConfigs} value={turnStrategy} onChange={setTurnStrategy} disabled={loading} />
+            </Card>
+          )}
+
+          {selectedScript && (
+            <Card title="5. 会话生成参数 (可选)" style={{ marginBottom: 16 }}>
+              <GenerationParamsEditor
+                title="所有 AI 角色"
+                description="这里设置的项对本次会话的所有 AI 角色生效，覆盖各角色自己的生成参数；留空的项使用角色的设置或服务商的默认值。"
+                value={sessionGenerationParams}
+                onChange={setSessionGenerationParams}
+                disabled={loading}
+              />
+            </Card>
+          )}
+
+          {selectedScript && (
+            <Card title="6. 提示词模板" style={{ marginBottom: 16 }}>
+              <PromptTemplateSelect
+                mode="singleUserMultiAI"
+                templates={promptTemplates}
+                value={resolveTemplate('singleUserMultiAI', promptTemplateId)}
+                defaultTemplateId={resolveTemplate('singleUserMultiAI').id}
+                onChange={setPromptTemplateId}
+                disabled={loading}
+              />
+            </Card>
+          )}
+
           <Button
             type="primary"
             onClick={handleStartChat}
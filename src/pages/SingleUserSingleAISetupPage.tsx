@@ -3,18 +3,15 @@ import { useLocation, useNavigate } from 'react-router-dom';
 // 导入 theme 用于获取背景色等 token
 import { Select, Checkbox, Radio, Button, message, Spin, Typography, Card, Row, Col, Divider, RadioChangeEvent, theme } from 'antd';
 import { ArrowLeftOutlined } from '@ant-design/icons';
-import type { Script, AICharacter, AIConfig } from '../types'; // 导入 AIConfig
+import type { Script, AICharacter, AIConfig, AIConfigRef, CharacterAIConfig, GenerationParams } from '../types'; // 导入 AIConfig
 import type { ChatMode } from '../types';
 import { useLastVisited } from '../hooks/useLastVisited';
+import { usePromptTemplates } from '../hooks/usePromptTemplates';
+import FallbackConfigEditor from '../components/FallbackConfigEditor';
+import GenerationParamsEditor from '../components/GenerationParamsEditor';
+import PromptTemplateSelect from '../components/PromptTemplateSelect';
 import { setupLogger as logger } from '../utils/logger'; // 导入日志工具
 
-// 定义角色 AI 配置结构 (更新)
-interface CharacterAIConfig {
-  configId: string; // 保存 AIConfig 的 ID
-  modelName: string; // 保存选定的模型名称
-  providerId: string; // 新增：保存服务商ID，方便Interface页面直接使用
-}
-
 // 定义页面内部状态快照的类型 (更新 aiConfigs)
 interface SetupPageStateSnapshot {
   selectedScriptId: string | null;
@@ -22,6 +19,8 @@ interface SetupPageStateSnapshot {
   userCharacterId: string | null;
   aiConfigs: Record<string, CharacterAIConfig>; // Map 不能直接序列化，转成对象。CharacterAIConfig 已更新
   mode?: ChatMode; // 把 mode 也存进去
+  generationParams?: GenerationParams; // 会话级生成参数 (覆盖各角色的设置)
+  promptTemplateId?: string; // 本次会话使用的提示词模板 (缺省使用该模式的默认模板)
 }
 
 
@@ -67,6 +66,9 @@ const SingleUserSingleAISetupPage: React.FC = () => {
       return map;
   }, [restoredState?.aiConfigs]); // 依赖项是 restoredState.aiConfigs，当它变化时重新计算
   const [aiConfigs, setAiConfigs] = useState<Map<string, CharacterAIConfig>>(initialAiConfigsMap); // 存储最终为每个AI角色确定的配置
+  const [sessionGenerationParams, setSessionGenerationParams] = useState<GenerationParams | undefined>(restoredState?.generationParams); // 会话级生成参数
+  const [promptTemplateId, setPromptTemplateId] = useState<string | undefined>(restoredState?.promptTemplateId);
+  const { templates: promptTemplates, resolveTemplate } = usePromptTemplates();
 
   // 将 handleAIConfigChange 定义移到 useEffect 之前，并用 useCallback 包裹
   const handleAIConfigChange = useCallback((
@@ -86,7 +88,7 @@ const SingleUserSingleAISetupPage: React.FC = () => {
         const newConfigs = new Map(prev);
         // 确保即使之前没有配置，也创建一个空的条目，以便后续步骤可以更新它
         // 当服务商改变时，清空所有相关配置
-        newConfigs.set(characterId, { configId: '', modelName: '', providerId: value || '' });
+        newConfigs.set(characterId, { configId: '', modelName: '', providerId: value || '', fallbacks: prev.get(characterId)?.fallbacks, generationParams: prev.get(characterId)?.generationParams }); // 备用配置链和生成参数与主配置无关，予以保留
         return newConfigs;
       });
     } else if (field === 'configId') {
@@ -330,6 +332,8 @@ const SingleUserSingleAISetupPage: React.FC = () => {
 
                 newMap.set(charId, {
                   configId: savedConfig.configId,
+                  fallbacks: savedConfig.fallbacks, // 恢复备用配置链
+                  generationParams: savedConfig.generationParams, // 恢复生成参数
                   modelName: savedConfig.modelName,
                   providerId: providerIdToSet // 确保 providerId 被设置
                 });
@@ -373,11 +377,13 @@ const SingleUserSingleAISetupPage: React.FC = () => {
           selectedCharacterIds,
           userCharacterId,
           aiConfigs: Object.fromEntries(aiConfigs.entries()), // 确保这里转换正确
+          generationParams: sessionGenerationParams,
+          promptTemplateId,
           mode: mode
         };
         updateLastVisitedNavInfo('singleUserSingleAISetup', location.pathname, undefined, currentStateSnapshot);
     }
-  }, [selectedScriptId, selectedCharacterIds, userCharacterId, aiConfigs, updateLastVisitedNavInfo, location.pathname, mode]);
+  }, [selectedScriptId, selectedCharacterIds, userCharacterId, aiConfigs, sessionGenerationParams, promptTemplateId, updateLastVisitedNavInfo, location.pathname, mode]);
 
   const selectedScript = useMemo(() => {
     return scripts.find(script => script.id === selectedScriptId);
@@ -456,6 +462,26 @@ const SingleUserSingleAISetupPage: React.FC = () => {
 
   // handleAIConfigChange 已经移到前面并用 useCallback 包裹
 
+  // 更新角色的备用配置链
+  const handleFallbacksChange = (characterId: string, fallbacks: AIConfigRef[]) => {
+    setAiConfigs(prev => {
+      const newConfigs = new Map(prev);
+      const current = newConfigs.get(characterId) || { configId: '', modelName: '', providerId: '' };
+      newConfigs.set(characterId, { ...current, fallbacks });
+      return newConfigs;
+    });
+  };
+
+  // 更新角色的生成参数
+  const handleGenerationParamsChange = (characterId: string, generationParams: GenerationParams | undefined) => {
+    setAiConfigs(prev => {
+      const newConfigs = new Map(prev);
+      const current = newConfigs.get(characterId) || { configId: '', modelName: '', providerId: '' };
+      newConfigs.set(characterId, { ...current, generationParams });
+      return newConfigs;
+    });
+  };
+
   const handleStartChat = () => {
     if (!selectedScriptId) { message.error('请先选择剧本！'); return; }
     if (selectedCharacterIds.length !== 2) { message.error('单人单 AI 模式需要正好选择两个出场角色！'); return; }
@@ -479,7 +505,12 @@ const SingleUserSingleAISetupPage: React.FC = () => {
       script: selectedScript,
       participatingCharacters: participatingChars,
       userCharacterId,
-      aiConfigs: Object.fromEntries(aiConfigs.entries()),
+      // 忽略未填写完整的备用配置
+      aiConfigs: Object.fromEntries(Array.from(aiConfigs.entries(), ([charId, config]) => (
+        [charId, { ...config, fallbacks: config.fallbacks?.filter(fallback => fallback.configId && fallback.modelName) }]
+      ))),
+      generationParams: sessionGenerationParams,
+      promptTemplate: resolveTemplate('singleUserSingleAI', promptTemplateId),
     };
     logger.info('开始聊天，配置:', chatConfig);
     navigate('/single-user-single-ai-interface', { state: chatConfig });
@@ -605,6 +636,20 @@ const SingleUserSingleAISetupPage: React.FC = () => {
                                 disabled={!selectedConfigIdForAI || loading}
                                 loading={loading && !!selectedConfigIdForAI && !availableModelsForSelectedConfig.length}
                               />
+                              <div style={{ marginTop: 12 }}>
+                                <FallbackConfigEditor
+                                  allAIConfigs={allAIConfigs}
+                                  value={finalAIConfig.fallbacks ?? []}
+                                  onChange={(fallbacks) => handleFallbacksChange(character.id, fallbacks)}
+                                  primaryConfigId={finalAIConfig.configId || undefined}
+                                  disabled={loading}
+                                />
+                              </div>
+                              <GenerationParamsEditor
+                                value={finalAIConfig.generationParams}
+                                onChange={(params) => handleGenerationParamsChange(character.id, params)}
+                                disabled={loading}
+                              />
                             </Card>
                           </Col>
                         );
@@ -615,6 +660,31 @@ const SingleUserSingleAISetupPage: React.FC = () => {
             </Card>
           )}
 
+          {selectedScript && (
+            <Card title="4. 会话生成参数 (可选)" style={{ marginBottom: 16 }}>
+              <GenerationParamsEditor
+                title="所有 AI 角色"
+                description="这里设置的项对本次会话的所有 AI 角色生效，覆盖各角色自己的生成参数；留空的项使用角色的设置或服务商的默认值。"
+                value={sessionGenerationParams}
+                onChange={setSessionGenerationParams}
+                disabled={loading}
+              />
+            </Card>
+          )}
+
+          {selectedScript && (
+            <Card title="5. 提示词模板" style={{ marginBottom: 16 }}>
+              <PromptTemplateSelect
+                mode="singleUserSingleAI"
+                templates={promptTemplates}
+                value={resolveTemplate('singleUserSingleAI', promptTemplateId)}
+                defaultTemplateId={resolveTemplate('singleUserSingleAI').id}
+                onChange={setPromptTemplateId}
+                disabled={loading}
+              />
+            </Card>
+          )}
+
           <Button
             type="primary"
             onClick={handleStartChat}
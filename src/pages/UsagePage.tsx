@@ -0,0 +1,284 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { Table, Tabs, Statistic, Row, Col, Card, Button, Popconfirm, InputNumber, Input, Space, Spin, message, Typography, theme } from 'antd';
+import { DeleteOutlined, PlusOutlined, ReloadOutlined, SaveOutlined } from '@ant-design/icons';
+import type { ColumnsType } from 'antd/es/table';
+import type { AIConfig, ChatPageStateSnapshot, ModelPrice, UsageRecord } from '../types';
+import { setupLogger as logger } from '../utils/logger';
+import { formatCost } from '../utils/format';
+
+const { Title, Text } = Typography;
+
+// 分组统计表格中的一行
+interface UsageRow {
+  key: string;
+  label: string;
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cost: number;
+  unpricedRequests: number; // 价格表中找不到模型、未计入费用的生成次数
+}
+
+// 辅助函数：把时间戳格式化为本地日期 (YYYY-MM-DD)
+const formatDay = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+// 辅助函数：按分组键汇总用量记录，结果按总 token 数降序排列
+const groupUsage = (
+  records: UsageRecord[],
+  getKey: (record: UsageRecord) => string,
+  getLabel: (key: string) => string = key => key,
+): UsageRow[] => {
+  const rows = new Map<string, UsageRow>();
+  records.forEach(record => {
+    const key = getKey(record);
+    const row = rows.get(key) ?? {
+      key, label: getLabel(key), requests: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, cost: 0, unpricedRequests: 0,
+    };
+    row.requests += 1;
+    row.promptTokens += record.promptTokens;
+    row.completionTokens += record.completionTokens;
+    row.totalTokens += record.promptTokens + record.completionTokens;
+    if (record.cost === undefined) {
+      row.unpricedRequests += 1;
+    } else {
+      row.cost += record.cost;
+    }
+    rows.set(key, row);
+  });
+  return Array.from(rows.values()).sort((a, b) => b.totalTokens - a.totalTokens);
+};
+
+const UsagePage: React.FC = () => {
+  const [loading, setLoading] = useState(true);
+  const [records, setRecords] = useState<UsageRecord[]>([]);
+  const [configNames, setConfigNames] = useState<Record<string, string>>({});
+  const [sessionTitles, setSessionTitles] = useState<Record<string, string>>({});
+  const [prices, setPrices] = useState<ModelPrice[]>([]);
+  const [savingPrices, setSavingPrices] = useState(false);
+  const { token: { colorBgContainer, borderRadiusLG } } = theme.useToken();
+
+  // 读取会话对应的剧本标题，用于在“按会话”中显示更友好的名称
+  const loadSessionTitles = useCallback(async (sessionIds: string[]) => {
+    const titles: Record<string, string> = {};
+    await Promise.all(sessionIds.map(async sessionId => {
+      const result = await window.electronAPI.readStore(`chats/${sessionId}.json`, null);
+      const snapshot = result.success ? result.data as ChatPageStateSnapshot | null : null;
+      if (snapshot?.chatConfig?.script) {
+        titles[sessionId] = snapshot.chatConfig.script.title || '无标题剧本';
+      }
+    }));
+    setSessionTitles(titles);
+  }, []);
+
+  const loadUsage = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [recordsResult, configsResult, pricesResult] = await Promise.all([
+        window.electronAPI.usageGetRecords(),
+        window.electronAPI.getAllAIConfigs(),
+        window.electronAPI.usageGetModelPrices(),
+      ]);
+
+      if (recordsResult.success && recordsResult.data) {
+        setRecords(recordsResult.data);
+        const sessionIds = Array.from(new Set(recordsResult.data.map(r => r.sessionId).filter((id): id is string => !!id)));
+        await loadSessionTitles(sessionIds);
+      } else {
+        message.error(`加载用量记录失败: ${recordsResult.error || '未知错误'}`);
+      }
+
+      if (configsResult.success && configsResult.data) {
+        setConfigNames(Object.fromEntries(configsResult.data.map((c: AIConfig) => [c.id, `${c.name} (${c.serviceProvider})`])));
+      }
+
+      if (pricesResult.success && pricesResult.data) {
+        setPrices(pricesResult.data);
+      } else {
+        message.error(`加载价格表失败: ${pricesResult.error || '未知错误'}`);
+      }
+    } catch (error) {
+      logger.error('[用量统计] 加载用量数据时出错:', error);
+      message.error(`加载用量数据时出错: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setLoading(false);
+    }
+  }, [loadSessionTitles]);
+
+  useEffect(() => {
+    loadUsage();
+  }, [loadUsage]);
+
+  // 有新的生成完成时直接追加到列表，无需重新读取整个账本
+  useEffect(() => {
+    const subscription = window.electronAPI.onUsageRecorded(record => {
+      setRecords(prev => [...prev, record]);
+    });
+    return () => subscription.dispose();
+  }, []);
+
+  const totals = useMemo(() => groupUsage(records, () => 'all')[0], [records]);
+
+  const byDay = useMemo(
+    () => groupUsage(records, r => formatDay(r.timestamp)).sort((a, b) => b.key.localeCompare(a.key)),
+    [records],
+  );
+  const byConfig = useMemo(
+    () => groupUsage(records, r => r.configId, id => configNames[id] ?? `已删除的配置 (${id})`),
+    [records, configNames],
+  );
+  const byModel = useMemo(() => groupUsage(records, r => r.model), [records]);
+  const bySession = useMemo(
+    () => groupUsage(records, r => r.sessionId ?? '', id => (id ? sessionTitles[id] ? `${sessionTitles[id]} (${id})` : id : '未关联会话')),
+    [records, sessionTitles],
+  );
+
+  const handleClear = async () => {
+    const result = await window.electronAPI.usageClear();
+    if (result.success) {
+      message.success('用量记录已清空');
+      setRecords([]);
+    } else {
+      message.error(`清空用量记录失败: ${result.error || '未知错误'}`);
+    }
+  };
+
+  const updatePrice = (index: number, changes: Partial<ModelPrice>) => {
+    setPrices(prev => prev.map((price, i) => (i === index ? { ...price, ...changes } : price)));
+  };
+
+  const handleSavePrices = async () => {
+    setSavingPrices(true);
+    try {
+      const result = await window.electronAPI.usageSetModelPrices(prices);
+      if (result.success && result.data) {
+        setPrices(result.data);
+        message.success('价格表已保存，新的生成将按此价格计算费用');
+      } else {
+        message.error(`保存价格表失败: ${result.error || '未知错误'}`);
+      }
+    } finally {
+      setSavingPrices(false);
+    }
+  };
+
+  const usageColumns = (labelTitle: string): ColumnsType<UsageRow> => [
+    { title: labelTitle, dataIndex: 'label', key: 'label', ellipsis: true },
+    { title: '生成次数', dataIndex: 'requests', key: 'requests', align: 'right' },
+    { title: '输入 tokens', dataIndex: 'promptTokens', key: 'promptTokens', align: 'right', render: (v: number) => v.toLocaleString() },
+    { title: '输出 tokens', dataIndex: 'completionTokens', key: 'completionTokens', align: 'right', render: (v: number) => v.toLocaleString() },
+    { title: '总 tokens', dataIndex: 'totalTokens', key: 'totalTokens', align: 'right', render: (v: number) => v.toLocaleString() },
+    {
+      title: '费用',
+      dataIndex: 'cost',
+      key: 'cost',
+      align: 'right',
+      render: (cost: number, row) => (
+        <span>
+          {formatCost(cost)}
+          {row.unpricedRequests > 0 && <Text type="secondary"> ({row.unpricedRequests} 次未计价)</Text>}
+        </span>
+      ),
+    },
+  ];
+
+  const priceColumns: ColumnsType<ModelPrice & { index: number }> = [
+    {
+      title: '模型 (前缀匹配)',
+      dataIndex: 'model',
+      key: 'model',
+      render: (model: string, row) => <Input value={model} onChange={e => updatePrice(row.index, { model: e.target.value })} />,
+    },
+    {
+      title: '输入价格 ($ / 百万 tokens)',
+      dataIndex: 'inputPerMillion',
+      key: 'inputPerMillion',
+      render: (value: number, row) => (
+        <InputNumber min={0} step={0.01} value={value} onChange={v => updatePrice(row.index, { inputPerMillion: v ?? 0 })} style={{ width: '100%' }} />
+      ),
+    },
+    {
+      title: '输出价格 ($ / 百万 tokens)',
+      dataIndex: 'outputPerMillion',
+      key: 'outputPerMillion',
+      render: (value: number, row) => (
+        <InputNumber min={0} step={0.01} value={value} onChange={v => updatePrice(row.index, { outputPerMillion: v ?? 0 })} style={{ width: '100%' }} />
+      ),
+    },
+    {
+      title: '操作',
+      key: 'action',
+      width: 80,
+      render: (_, row) => (
+        <Button danger icon={<DeleteOutlined />} onClick={() => setPrices(prev => prev.filter((_, i) => i !== row.index))} aria-label="删除价格" />
+      ),
+    },
+  ];
+
+  const renderUsageTable = (rows: UsageRow[], labelTitle: string) => (
+    <Table<UsageRow> size="small" rowKey="key" columns={usageColumns(labelTitle)} dataSource={rows} pagination={{ pageSize: 20, hideOnSinglePage: true }} />
+  );
+
+  return (
+    <div style={{ maxHeight: 'calc(100vh - 5px)', overflow: 'auto', paddingLeft: '5px' }}>
+      <div style={{ background: colorBgContainer, borderRadius: borderRadiusLG, padding: 10 }}>
+        <Space style={{ width: '100%', justifyContent: 'space-between' }}>
+          <Title level={2} style={{ margin: 0 }}>用量统计</Title>
+          <Space>
+            <Button icon={<ReloadOutlined />} onClick={loadUsage} disabled={loading}>刷新</Button>
+            <Popconfirm title="确定要清空所有用量记录吗？" description="此操作无法撤销。" onConfirm={handleClear} okText="清空" cancelText="取消">
+              <Button danger icon={<DeleteOutlined />} disabled={loading || records.length === 0}>清空记录</Button>
+            </Popconfirm>
+          </Space>
+        </Space>
+
+        <Spin spinning={loading}>
+          <Row gutter={16} style={{ margin: '16px 0' }}>
+            <Col span={6}><Statistic title="生成次数" value={totals?.requests ?? 0} /></Col>
+            <Col span={6}><Statistic title="输入 tokens" value={totals?.promptTokens ?? 0} /></Col>
+            <Col span={6}><Statistic title="输出 tokens" value={totals?.completionTokens ?? 0} /></Col>
+            <Col span={6}><Statistic title="估算费用" value={formatCost(totals?.cost ?? 0)} /></Col>
+          </Row>
+
+          <Tabs
+            items={[
+              { key: 'day', label: '按日期', children: renderUsageTable(byDay, '日期') },
+              { key: 'config', label: '按 AI 配置', children: renderUsageTable(byConfig, 'AI 配置') },
+              { key: 'model', label: '按模型', children: renderUsageTable(byModel, '模型') },
+              { key: 'session', label: '按会话', children: renderUsageTable(bySession, '会话') },
+            ]}
+          />
+        </Spin>
+
+        <Card
+          title="模型价格表"
+          size="small"
+          style={{ marginTop: 16 }}
+          extra={
+            <Space>
+              <Button icon={<PlusOutlined />} onClick={() => setPrices(prev => [...prev, { model: '', inputPerMillion: 0, outputPerMillion: 0 }])}>添加</Button>
+              <Button type="primary" icon={<SaveOutlined />} onClick={handleSavePrices} loading={savingPrices}>保存</Button>
+            </Space>
+          }
+        >
+          <Text type="secondary" style={{ display: 'block', marginBottom: 8 }}>
+            按模型名匹配价格 (完全匹配优先，否则取最长的前缀)。费用在每次生成时按当时的价格计算，修改价格不会影响已有记录。
+          </Text>
+          <Table<ModelPrice & { index: number }>
+            size="small"
+            rowKey="index"
+            columns={priceColumns}
+            dataSource={prices.map((price, index) => ({ ...price, index }))}
+            pagination={false}
+          />
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default UsagePage;
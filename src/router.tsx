@@ -15,8 +15,10 @@ import ScriptManagementPage from './pages/ScriptManagementPage';
 import CharacterManagementPage from './pages/CharacterManagementPage';
 import CharacterEditorPage from './pages/CharacterEditorPage';
 import ScriptEditorPage from './pages/ScriptEditorPage'; // <-- 导入新的剧本编辑页面
+import PromptTemplatePage from './pages/PromptTemplatePage';
 import AIConfigPage from './pages/AIConfigPage';
 import HistoryPage from './pages/HistoryPage';
+import UsagePage from './pages/UsagePage';
 import SettingsPage from './pages/SettingsPage';
 
 // 404 页面可以简单点
@@ -52,8 +54,10 @@ const AppRouter: React.FC = () => {
       <Route path="/characters" element={<CharacterManagementPage />} />
       <Route path="/characters/add" element={<CharacterEditorPage />} /> {/* 添加角色路由 */}
       <Route path="/characters/edit/:id" element={<CharacterEditorPage />} /> {/* 编辑角色路由 */}
+      <Route path="/prompt-templates" element={<PromptTemplatePage />} />
       <Route path="/ai-config" element={<AIConfigPage />} />
       <Route path="/history" element={<HistoryPage />} />
+      <Route path="/usage" element={<UsagePage />} />
       <Route path="/settings" element={<SettingsPage />} />
 
       {/* 兜底路由，处理未匹配路径 */}
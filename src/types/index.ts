@@ -20,6 +20,34 @@ export interface AICharacter {
   catchphrase?: string; // 口头禅 (可选)
   notes?: string;       // 其他备注 (可选)
   avatar?: string;      // 头像 (URL 或标识符, 可选)
+  talkativeness?: number; // 健谈程度 (1-10, 可选, 缺省为 5)，用于按权重随机选择下一位发言者
+  // --- 与社区角色卡 (SillyTavern / TavernAI) 对应的字段 ---
+  scenario?: string;    // 所处情景 (可选)
+  firstMessage?: string; // 开场白 (可选)
+  exampleDialogue?: string; // 对话示例 (可选)
+  cardData?: Record<string, unknown>; // 导入的角色卡中没有对应字段的内容，导出时原样写回
+}
+
+/**
+ * 剧本包：一个剧本连同它引用的角色 (头像以 data URL 内嵌) 和可选的自定义提示词，保存为单个 JSON 文件
+ */
+export interface ScenarioBundle {
+  format: 'improv-theater-scenario';
+  version: number;
+  exportedAt: number;
+  script: Script;
+  characters: AICharacter[];
+  prompts?: Record<string, SplitSystemPrompt>; // 角色的自定义系统提示词，键为角色 ID
+}
+
+/**
+ * 从磁盘读取的一个角色卡文件 (角色卡 JSON 由渲染进程转换为 AICharacter)
+ */
+export interface CharacterCardFile {
+  fileName: string;
+  card?: unknown; // 角色卡 JSON
+  avatar?: string; // PNG 角色卡的图片 (data URL)
+  error?: string; // 读取失败的原因
 }
 
 /**
@@ -45,6 +73,7 @@ export interface Script {
   mood?: string;        // 氛围/基调 (可选, 例如：轻松、紧张、悬疑)
   themes?: string;      // 主题 (可选, 例如：爱情、背叛、成长)
   tags?: string[];      // 标签 (可选, 用于搜索和分类)
+  customPrompts?: Record<string, SplitSystemPrompt>; // 剧本自带的角色系统提示词 (来自导入的剧本包)，键为角色 ID，新会话优先使用
   // 可以添加其他字段，如作者、创建日期等
 }
 
@@ -66,7 +95,114 @@ export interface ChatConfig {
   userCharacterId: string | null;
   // aiConfigs: Record<string, { providerId: string; model: string }>; // 旧的定义，注释掉以供参考
   // aiConfigs 的键是 AICharacter 的 id，值是该角色使用的具体AI配置的关键信息
-  aiConfigs: Record<string, { configId: string; modelName: string; providerId: string; }>;
+  aiConfigs: Record<string, CharacterAIConfig>;
+  turnStrategy?: TurnStrategy; // 多角色场景中选择下一位发言者的策略 (缺省为按顺序轮流)
+  aiDirector?: AIDirectorConfig; // 导演模式下由 AI 担任导演的配置 (可选)
+  generationParams?: GenerationParams; // 本次会话对所有 AI 角色生效的生成参数，设置的项覆盖角色各自的设置 (可选)
+  promptTemplate?: PromptTemplate; // 本次会话使用的提示词模板 (开始会话时复制一份；缺省使用该模式的内置模板)
+}
+
+/**
+ * 提示词模板
+ * prePrompt / postPrompt 中可以使用 {{变量}} 插入剧本和角色信息，
+ * {{#变量}}…{{/变量}} 只在变量非空时输出，{{^变量}}…{{/变量}} 只在变量为空时输出
+ */
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  mode: ChatMode; // 模板适用的聊天模式
+  description?: string;
+  prePrompt: string;
+  postPrompt: string;
+  builtIn?: boolean; // 是否为应用内置的模板 (只读，不保存到磁盘)
+}
+
+/**
+ * 各聊天模式的默认提示词模板 ID (未设置的模式使用内置模板)
+ */
+export type PromptTemplateDefaults = Partial<Record<ChatMode, string>>;
+
+/**
+ * 提示词模板导出文件
+ */
+export interface PromptTemplateBundle {
+  format: 'improv-theater-prompt-templates';
+  version: number;
+  exportedAt: number;
+  templates: PromptTemplate[];
+}
+
+/**
+ * AI 导演配置 (导演模式)
+ * AI 导演每隔若干条 AI 回复阅读一次场景，给出一条导演指令或旁白推动剧情。
+ */
+export interface AIDirectorConfig extends AIConfigRef {
+  style?: string; // 导演风格 (例如：多制造冲突、节奏轻快、悬疑铺垫)
+  interval: number; // 每隔多少条 AI 回复给出一次指导
+}
+
+/**
+ * AI 导演给出的一条指导建议 (尚未加入对话历史)
+ */
+export interface DirectorSuggestion {
+  kind: 'command' | 'narration'; // 导演指令或旁白
+  targetIds: string[]; // 接下来回应的角色 ID (按发言顺序)，为空时由当前选中的 AI 回应
+  content: string;
+}
+
+/**
+ * 选择下一位发言者的策略
+ * - roundRobin: 按勾选顺序轮流发言 (用户发言后每个选中的 AI 各回复一次)
+ * - weightedRandom: 按角色的健谈程度加权随机选出一位
+ * - addressed: 最近一条消息中被点名的角色接着发言，无人被点名时按顺序轮流
+ * - llmJudge: 由一个 (通常是便宜的) 模型阅读近期对话，判断谁应该接着发言
+ */
+export type TurnStrategyType = 'roundRobin' | 'weightedRandom' | 'addressed' | 'llmJudge';
+
+export interface TurnStrategy {
+  type: TurnStrategyType;
+  judge?: AIConfigRef; // llmJudge 策略使用的 AI 配置
+}
+
+/**
+ * 对某个 AI 配置及其模型的引用
+ */
+export interface AIConfigRef {
+  configId: string; // AIConfig 的 ID
+  modelName: string; // 使用的模型名称
+  providerId: string; // 服务商 ID
+}
+
+/**
+ * 角色使用的 AI 配置：主配置 + 可选的备用配置链
+ * 主配置多次重试仍失败 (例如额度耗尽) 时，按顺序改用 fallbacks 中的配置
+ */
+export interface CharacterAIConfig extends AIConfigRef {
+  fallbacks?: AIConfigRef[];
+  generationParams?: GenerationParams; // 该角色的生成参数 (可选)
+}
+
+/**
+ * 生成参数 (采样设置)，未设置的项使用服务商的默认值
+ * 服务商不支持的参数会被忽略并记录警告
+ */
+export interface GenerationParams {
+  temperature?: number; // 温度 (控制随机性)
+  topP?: number; // 核采样 (只从累计概率达到 topP 的候选词中选择)
+  maxTokens?: number; // 最大生成 token 数
+  presencePenalty?: number; // 存在惩罚 (鼓励谈论新的内容)
+  frequencyPenalty?: number; // 频率惩罚 (减少重复用词)
+  stopSequences?: string[]; // 停止序列 (生成到这些文字时停止)
+}
+
+/**
+ * LLM 请求的重试策略 (指数退避，优先遵循服务端返回的 Retry-After)
+ */
+export interface RetryPolicy {
+  maxAttempts: number; // 每个配置的最大尝试次数 (含首次请求)
+  initialDelayMs: number; // 首次重试前的等待时间 (毫秒)
+  maxDelayMs: number; // 单次等待的上限 (毫秒)
+  backoffMultiplier: number; // 每次重试等待时间的倍数
 }
 
 /**
@@ -78,21 +214,159 @@ export interface ChatMessage {
   characterName: string;
   content: string;
   timestamp: number;
+  aiConfigId?: string; // 实际生成该回复的 AI 配置 ID (发生故障转移时可能是备用配置)
+  modelUsed?: string; // 实际生成该回复的模型
+  requestRef?: LLMRequestRef; // 生成该回复的请求记录 (用于查看实际发送给模型的内容)
+  id?: string; // 消息 ID (旧版快照中的消息没有 ID，恢复时补全)
+  parentId?: string | null; // 消息树中的父消息 ID，对话的第一条消息为 null
+}
+
+/**
+ * 会话的消息树
+ * 重新生成、编辑或回退都会在树中产生新的分支，当前显示的对话 (messages) 只是树中的一条路径。
+ */
+export interface MessageTree {
+  nodes: Record<string, ChatMessage>; // 所有分支上的消息，按 ID 索引
+  children: Record<string, string[]>; // 父消息 ID (对话开头为 '') → 子消息 ID，按创建顺序
+  activeChildren: Record<string, string>; // 父消息 ID → 最近一次位于当前路径上的子消息 ID，切换分支时据此恢复后续路径
+}
+
+/**
+ * 分割的系统提示词：前置部分 (剧本与角色设定) 和后置部分 (表演规则)
+ * 上下文摘要会插入在两者之间
+ */
+export interface SplitSystemPrompt {
+    prePrompt: string;
+    postPrompt: string;
 }
 
 /**
  * 聊天页面内部状态快照 (用于保存和恢复)
+ * 三种聊天模式共用同一结构，模式特有的状态放在 modeState 中
  */
 export interface ChatPageStateSnapshot {
     chatConfig: ChatConfig; // 需要保存完整的配置信息
-    messages: ChatMessage[];
+    messages: ChatMessage[]; // 当前路径上的消息
+    messageTree?: MessageTree; // 包含所有分支的消息树 (旧版快照没有，恢复时由 messages 生成)
     inputValue: string;
-    systemPrompt: string; // 系统提示也需要保存
+    systemPrompts?: Record<string, SplitSystemPrompt>; // 每个 AI 角色的系统提示词，键为角色 ID
+    systemPrompt?: string; // 旧版单人单 AI 快照中的系统提示词，仅用于兼容恢复
     chatSessionId: string; // 会话 ID 也需要保存
     isStreamingEnabled?: boolean; // 新增：是否启用流式输出
+    selectedTargetAIIds?: string[]; // 按顺序选中的回复对象 (单人单 AI 模式固定为唯一的 AI)
+    modeState?: Record<string, unknown>; // 模式特有的状态 (例如导演模式的输入类型)
+    contextSettings?: ContextSettings; // 本会话的上下文窗口管理设置 (缺省时使用默认设置)
+    contextSummary?: ContextSummary; // 早期对话的滚动摘要 (仅 summarize 策略使用)
+    autoPlaySettings?: AutoPlaySettings; // 自动演出设置 (缺省时使用默认设置)
+    forkedFrom?: SessionForkInfo; // 从其他会话分叉而来时记录来源
+    tags?: string[]; // 用户为会话添加的标签
     // aiCharacter 和 userCharacter 可以从 chatConfig 恢复，无需单独保存
 }
 
+/**
+ * 会话的分叉来源：从另一个会话的某条消息 "从这里分叉" 得到的新会话
+ */
+export interface SessionForkInfo {
+  parentSessionId: string; // 来源会话 ID
+  parentMessageId?: string; // 分叉点消息的 ID
+  messageIndex: number; // 分叉点在来源会话当前路径中的位置 (从 0 开始)
+  forkedAt: number; // 分叉时间
+}
+
+/**
+ * 会话索引中的一条记录 (由主进程在保存/删除会话时维护，历史记录页无需逐个读取会话文件)
+ */
+export interface SessionIndexEntry {
+  sessionId: string;
+  fileName: string; // 会话文件名 (chats 目录下)
+  title: string; // 会话标题 (目前为剧本标题)
+  mode: ChatMode;
+  scriptId: string;
+  scriptTitle: string;
+  characters: { id: string; name: string }[]; // 出场角色
+  messageCount: number; // 当前路径上的消息数
+  branchCount: number; // 对话分支数
+  firstMessageAt?: number; // 第一条消息的时间
+  lastMessageAt?: number; // 最后一条消息的时间
+  createdAt: number; // 会话创建时间 (从会话 ID 解析)
+  updatedAt: number; // 最后保存时间
+  totalTokens: number; // 本会话消耗的 token 总数 (来自用量账本)
+  cost: number; // 本会话的费用 (美元)
+  tags: string[]; // 会话标签和剧本标签
+  forkedFrom?: SessionForkInfo;
+}
+
+/**
+ * 历史记录搜索条件，所有条件都是可选的
+ */
+export interface SessionSearchQuery {
+  text?: string; // 在消息内容中搜索的文本 (不区分大小写，包括所有分支)
+  mode?: ChatMode;
+  scriptId?: string;
+  characterId?: string; // 出场角色
+  tag?: string;
+  from?: number; // 会话时间范围 (与第一条到最后一条消息的时间有重叠即可)
+  to?: number;
+}
+
+/**
+ * 消息内容的一条搜索命中
+ */
+export interface SessionSearchHit {
+  messageId?: string;
+  messageIndex: number; // 在会话当前路径中的位置，在其他分支上时为 -1
+  characterName: string;
+  timestamp: number;
+  snippet: string; // 命中位置附近的片段
+  matchStart: number; // 命中文本在片段中的位置
+  matchLength: number;
+}
+
+export interface SessionSearchResult {
+  entry: SessionIndexEntry;
+  hits: SessionSearchHit[]; // 没有搜索文本时为空
+  totalHits: number; // 命中总数 (hits 只包含前几条)
+}
+
+/**
+ * 上下文超出预算时的处理策略
+ * - none: 不处理，始终发送完整历史
+ * - truncate: 丢弃最早的对话轮次
+ * - summarize: 用 LLM 生成的滚动摘要替代最早的对话轮次
+ */
+export type ContextStrategy = 'none' | 'truncate' | 'summarize';
+
+/**
+ * 上下文窗口管理设置 (按会话保存)
+ */
+export interface ContextSettings {
+  strategy: ContextStrategy;
+  maxContextTokens?: number; // 上下文 token 上限，为空时按模型的上下文长度计算
+  reservedOutputTokens: number; // 为模型回复预留的 token 数
+}
+
+/**
+ * 早期对话的滚动摘要
+ * 摘要覆盖消息列表中前 coveredCount 条消息，发送请求时以摘要代替这些消息。
+ */
+export interface ContextSummary {
+  content: string; // 摘要内容
+  coveredCount: number; // 摘要覆盖的消息条数 (从第一条开始)
+  lastCoveredTimestamp: number; // 被覆盖的最后一条消息的时间戳，用于检测历史被修改后摘要失效
+  updatedAt: number; // 摘要生成时间
+}
+
+/**
+ * 自动演出设置
+ * 开启后选中的 AI 角色按顺序轮流发言，无需用户输入，直到满足任一停止条件。
+ */
+export interface AutoPlaySettings {
+  maxTurns: number; // 最多发言次数 (每个 AI 回复一次计一轮)
+  delayMs: number; // 两次发言之间的间隔 (毫秒)
+  tokenBudget?: number; // 本次演出最多消耗的 token 数 (输入 + 输出)，留空表示不限
+  stopPhrase?: string; // 回复中出现该关键词/短语时停止，留空表示不检查
+}
+
 /**
  * AI 服务配置
  * 用于存储不同AI服务提供商的API密钥及相关配置
@@ -100,10 +374,184 @@ export interface ChatPageStateSnapshot {
 export interface AIConfig {
   id: string; // 唯一标识符，例如使用UUID生成
   serviceProvider: 'google' | 'openai' | 'anthropic' | string; // 服务商名称
-  apiKey: string; // API密钥
+  apiKey: string; // API密钥 (保存时加密；发送给渲染进程的是掩码)
   name: string; // 用户为此配置指定的名称/标签，方便用户区分不同的key
   model?: string; // 使用的模型名称，例如 'gpt-4', 'claude-2', 'gemini-pro' (可选)
   baseURL?: string; // 服务商的API基础URL，用于支持自定义或代理 (可选)
+  region?: string; // 服务区域，例如部分云服务商要求的 region (可选，由服务商配置模式决定)
+  deployment?: string; // 部署名称，例如 Azure OpenAI 的 deployment (可选，由服务商配置模式决定)
+  providerOptions?: string; // 服务商特有的选项 (JSON 文本，例如模拟服务商的回复脚本和延迟；可选，由服务商配置模式决定)
   isDefault?: boolean; // 是否为该服务商的默认配置 (可选)
   lastUsed?: number; // 最后使用时间戳 (可选, 用于排序或清理)
-}
\ No newline at end of file
+}
+
+/**
+ * 带版本信息保存的文档类型
+ */
+export type StoredDocumentKind = 'character' | 'script' | 'session' | 'aiConfigs' | 'promptTemplate';
+
+/**
+ * 一次数据文件迁移的结果
+ */
+export interface StorageMigrationEntry {
+  file: string; // 相对于数据目录的路径
+  kind: StoredDocumentKind;
+  fromVersion: number; // 文件原来的版本 (0 表示没有版本信息的旧文件)
+  toVersion: number;
+  backupFile?: string; // 迁移前原文件的备份 (相对于数据目录)
+  error?: string; // 迁移失败的原因
+  at: number;
+}
+
+/**
+ * 本次启动以来的数据迁移报告
+ */
+export interface StorageMigrationReport {
+  migrated: StorageMigrationEntry[];
+  failed: StorageMigrationEntry[];
+}
+
+/**
+ * 数据目录快照的创建原因
+ */
+export type BackupReason = 'daily' | 'pre-migration' | 'pre-restore' | 'manual';
+
+/**
+ * 数据目录的一份快照 (保存在 backups/snapshots 下)
+ */
+export interface BackupSnapshot {
+  id: string;
+  reason: BackupReason;
+  createdAt: number;
+  fileCount: number;
+  totalBytes: number;
+}
+
+/**
+ * 快照中可以单独恢复的一项 (一个角色、剧本、会话、提示词模板或配置文件)
+ */
+export interface BackupItem {
+  path: string; // 相对于快照根目录的路径 (使用 / 分隔)
+  category: 'character' | 'script' | 'session' | 'template' | 'config';
+  label: string; // 显示名称 (角色名、剧本标题等)
+  modifiedAt: number;
+}
+
+/**
+ * API Key 密钥库状态
+ */
+export interface KeyVaultStatus {
+  initialized: boolean; // 是否已设置主密码
+  unlocked: boolean; // 本次启动后是否已解锁
+  plaintextKeyCount: number; // 仍以明文保存的 API Key 数量 (解锁后自动加密)
+}
+
+/**
+ * 服务商配置模式中可填写的字段
+ */
+export type ProviderConfigFieldKey = 'apiKey' | 'baseURL' | 'region' | 'deployment' | 'providerOptions';
+
+/**
+ * 服务商配置模式中的单个字段描述
+ * AIConfigPage 根据这些描述动态渲染配置表单
+ */
+export interface ProviderConfigField {
+  key: ProviderConfigFieldKey; // 对应 AIConfig 上的字段
+  label: string; // 表单标签
+  required: boolean; // 是否必填
+  secret?: boolean; // 是否为敏感信息 (使用密码输入框)
+  json?: boolean; // 是否为 JSON 文本 (使用多行输入框，保存前校验格式)
+  placeholder?: string; // 输入框占位提示
+  tooltip?: string; // 字段说明
+}
+
+/**
+ * 服务商支持的能力
+ */
+export interface ProviderCapabilities {
+  streaming: boolean; // 流式输出
+  systemPrompt: boolean; // 系统提示词
+  vision: boolean; // 图像输入
+  tools: boolean; // 工具调用
+}
+
+/**
+ * 服务商描述信息 (由主进程的服务商注册表提供给渲染进程)
+ */
+export interface ProviderDescriptor {
+  id: string; // 服务商唯一标识，对应 AIConfig.serviceProvider
+  displayName: string; // 显示名称
+  configFields: ProviderConfigField[]; // 配置模式
+  capabilities: ProviderCapabilities; // 能力
+  defaultModels: string[]; // 默认模型列表
+}
+
+// --- 用量与费用统计 ---
+
+/**
+ * 一次生成的 token 用量记录 (保存在用量账本中)
+ */
+export interface UsageRecord {
+  id: string; // 唯一标识符
+  timestamp: number; // 生成结束时间
+  sessionId?: string; // 聊天会话 ID
+  characterId?: string; // 发言的 AI 角色 ID
+  configId: string; // 实际回答的 AI 配置 ID
+  providerId?: string; // 服务商 ID
+  model: string; // 使用的模型
+  promptTokens: number; // 输入 token 数
+  completionTokens: number; // 输出 token 数
+  cost?: number; // 费用 (美元)，价格表中没有该模型时为空
+  streaming: boolean; // 是否为流式生成
+}
+
+/**
+ * 指向请求日志中一条记录的引用 (会话分叉后仍指向原会话的日志)
+ */
+export interface LLMRequestRef {
+  sessionId: string; // 请求日志所属的会话 ID
+  requestId: string; // 请求记录 ID
+}
+
+/**
+ * 一次生成请求的完整记录 (保存在会话的请求日志中，供请求查看器使用)
+ */
+export interface LLMRequestRecord {
+  id: string; // 唯一标识符
+  sessionId: string; // 聊天会话 ID
+  characterId?: string; // 发言的 AI 角色 ID
+  timestamp: number; // 请求开始时间
+  durationMs: number; // 请求耗时 (毫秒)
+  streaming: boolean; // 是否为流式生成
+  targets: { configId: string; modelName: string }[]; // 请求的配置链 (主配置在前，之后是备用配置)
+  configId: string; // 实际回答的 AI 配置 ID
+  providerId?: string; // 服务商 ID
+  model: string; // 实际使用的模型
+  systemPrompt?: string; // 发送的系统提示词
+  messages: { role: 'user' | 'assistant'; content: string }[]; // 发送的消息列表 (已加上导演、旁白等前缀)
+  params: GenerationParams; // 生成参数
+  finishReason?: string; // 服务商返回的原始结束原因
+  usage?: { promptTokens?: number; completionTokens?: number; totalTokens?: number }; // token 用量
+  error?: string; // 请求失败时的错误信息
+  cancelled?: boolean; // 流式生成是否被用户停止
+}
+
+/**
+ * 模型价格 (美元 / 每百万 token)
+ */
+export interface ModelPrice {
+  model: string; // 模型名称，也会作为前缀匹配带版本后缀的模型名
+  inputPerMillion: number; // 输入价格
+  outputPerMillion: number; // 输出价格
+}
+
+/**
+ * 用量汇总
+ */
+export interface UsageSummary {
+  requests: number; // 生成次数
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cost: number; // 已知价格部分的费用合计 (美元)
+}
@@ -0,0 +1,148 @@
+import type { AICharacter, AIDirectorConfig, ChatMessage, DirectorSuggestion, Script } from '../types';
+import type { LLMChatOptions } from '../../electron/llm/BaseLLM';
+import { chatLogger as logger } from './logger';
+import { formatScriptSettings, formatSpeakerLine } from './promptBuilder';
+
+// 特殊 Character ID 用于标识导演和旁白
+export const DIRECTOR_COMMAND_ID = 'DIRECTOR_COMMAND';
+export const NARRATOR_ID = 'NARRATOR';
+
+// AI 导演阅读的近期消息条数
+const DIRECTOR_HISTORY_LENGTH = 20;
+
+// AI 导演默认每隔多少条 AI 回复给出一次指导
+export const DEFAULT_AI_DIRECTOR_INTERVAL = 3;
+
+/**
+ * 构造一条导演指令或旁白消息 (用户和 AI 导演共用同一格式)
+ * @param targetNames 指令的目标角色名，旁白忽略
+ */
+export function createDirectorMessage(kind: DirectorSuggestion['kind'], content: string, targetNames: string[]): ChatMessage {
+  if (kind === 'command') {
+    return {
+      role: 'user', // 伪装成 user
+      characterId: DIRECTOR_COMMAND_ID,
+      characterName: '导演指令',
+      content: `[指令 -> ${targetNames.join(', ') || '无特定目标'}]: ${content}`, // 完整内容，包含目标信息和指令
+      timestamp: Date.now(),
+    };
+  }
+  return {
+    role: 'user', // 伪装成 user
+    characterId: NARRATOR_ID,
+    characterName: '旁白',
+    content: `[旁白]: ${content}`, // 添加前缀
+    timestamp: Date.now(),
+  };
+}
+
+/**
+ * 导演模式的历史消息转换：导演指令和旁白作为 user 消息发给模型，
+ * AI 角色的回复不加角色名前缀 (postPrompt 要求它直接输出对话)
+ */
+export function directorMessageToLLMMessage(msg: ChatMessage): LLMChatOptions['messages'][number] {
+  if (msg.characterId === DIRECTOR_COMMAND_ID) {
+    // 尝试从内容中解析目标，以更清晰地呈现给LLM
+    const match = msg.content.match(/^\[指令 -> (.*?)]: (.*)$/s);
+    return { role: 'user', content: match ? `[导演 -> ${match[1]}]: ${match[2]}` : `[导演指令]: ${msg.content}` };
+  }
+  if (msg.characterId === NARRATOR_ID) {
+    return { role: 'user', content: msg.content }; // 旁白内容已带有 "[旁白]: " 前缀
+  }
+  if (msg.role === 'assistant') {
+    return { role: 'assistant', content: msg.content };
+  }
+  return { role: 'user', content: formatSpeakerLine(msg) };
+}
+
+/**
+ * 统计最近一条导演指令或旁白之后 AI 角色的回复条数
+ * @param startIndex 只统计该位置及之后的消息 (例如上次请求 AI 导演时的消息数)
+ */
+export function countRepliesSinceDirection(history: ChatMessage[], startIndex = 0): number {
+  let count = 0;
+  for (let i = history.length - 1; i >= startIndex; i -= 1) {
+    const msg = history[i];
+    if (msg.characterId === DIRECTOR_COMMAND_ID || msg.characterId === NARRATOR_ID) break;
+    if (msg.role === 'assistant') count += 1;
+  }
+  return count;
+}
+
+/**
+ * 解析 AI 导演的回答
+ * 要求模型输出 JSON；无法解析时把整段回答当作旁白，由当前选中的 AI 回应
+ */
+export function parseDirectorAnswer(answer: string, characters: AICharacter[]): DirectorSuggestion | null {
+  const text = answer.trim();
+  if (!text) return null;
+
+  const jsonText = text.match(/\{[\s\S]*\}/)?.[0];
+  if (jsonText) {
+    try {
+      const parsed = JSON.parse(jsonText) as { type?: unknown; targets?: unknown; content?: unknown };
+      const content = typeof parsed.content === 'string' ? parsed.content.trim() : '';
+      if (content) {
+        const targetNames = Array.isArray(parsed.targets) ? parsed.targets.filter((name): name is string => typeof name === 'string') : [];
+        const targetIds = targetNames
+          .map(name => characters.find(c => c.name === name.trim())?.id)
+          .filter((id): id is string => !!id);
+        return { kind: parsed.type === 'narration' ? 'narration' : 'command', targetIds, content };
+      }
+    } catch (error) {
+      logger.warn('[AI 导演] 回答中的 JSON 无法解析，按旁白处理:', error);
+    }
+  }
+  return { kind: 'narration', targetIds: [], content: text };
+}
+
+export interface RequestDirectionParams {
+  director: AIDirectorConfig;
+  script: Script;
+  characters: AICharacter[]; // 场上的 AI 演员
+  history: ChatMessage[];
+  sessionId: string; // AI 导演请求的用量也计入本会话
+}
+
+/**
+ * 请 AI 导演阅读剧本和近期对话，给出下一条指导
+ * @returns 指导建议；请求失败或回答为空时为 null
+ */
+export async function requestDirection(params: RequestDirectionParams): Promise<DirectorSuggestion | null> {
+  const { director, script, characters, history, sessionId } = params;
+  const transcript = history
+    .slice(-DIRECTOR_HISTORY_LENGTH)
+    .map(msg => (msg.characterId === DIRECTOR_COMMAND_ID || msg.characterId === NARRATOR_ID ? msg.content : formatSpeakerLine(msg)))
+    .join('\n');
+  const castDescription = characters
+    .map(c => `- ${c.name}${c.identity ? ` (${c.identity})` : ''}${c.goals ? `：${c.goals.split('\n')[0]}` : ''}`)
+    .join('\n');
+
+  const systemPrompt = `你是一个即兴剧场的导演，负责观察演员们的表演，并适时给出指导来推动剧情发展。\n\n` +
+    `=== 剧本设定 ===\n${formatScriptSettings(script) || '无'}\n\n` +
+    `=== 演员 ===\n${castDescription}\n\n` +
+    (director.style?.trim() ? `=== 你的导演风格 ===\n${director.style.trim()}\n\n` : '') +
+    `--- 指导规则 ---\n` +
+    `1.  围绕剧情梗概和主题推进剧情：制造冲突、引入转折、让停滞的对话继续下去，或在合适的时候收束。\n` +
+    `2.  每次只给出一条指导：给特定角色的【导演指令】，或描述场景变化、突发事件的【旁白】。\n` +
+    `3.  只输出一个 JSON 对象，不要输出其他内容，格式如下：\n` +
+    `{"type": "command" 或 "narration", "targets": ["接下来应该回应的角色名"], "content": "指令或旁白的内容"}`;
+
+  try {
+    const result = await window.electronAPI.llmGenerateChat(director.configId, {
+      model: director.modelName,
+      messages: [{ role: 'user', content: `近期表演：\n${transcript || '(表演尚未开始)'}\n\n请给出你的下一条指导。` }],
+      systemPrompt,
+      maxTokens: 400,
+      stream: false,
+    }, undefined, sessionId);
+    if (!result.success || !result.data?.content) {
+      logger.warn(`[AI 导演] 请求失败: ${result.error || '返回空内容'}`);
+      return null;
+    }
+    return parseDirectorAnswer(result.data.content, characters);
+  } catch (error) {
+    logger.warn('[AI 导演] 请求出错:', error);
+    return null;
+  }
+}
@@ -0,0 +1,145 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { AICharacter } from '../types';
+
+/**
+ * 社区角色卡 (SillyTavern / TavernAI) 与 AICharacter 之间的转换
+ * 规范见 https://github.com/malfoyslastname/character-card-spec-v2
+ */
+
+export interface CharacterCardV2 {
+  spec: 'chara_card_v2';
+  spec_version: '2.0';
+  data: CharacterCardData;
+}
+
+interface CharacterCardData {
+  name: string;
+  description: string;
+  personality: string;
+  scenario: string;
+  first_mes: string;
+  mes_example: string;
+  creator_notes: string;
+  system_prompt: string;
+  post_history_instructions: string;
+  alternate_greetings: string[];
+  tags: string[];
+  creator: string;
+  character_version: string;
+  extensions: Record<string, unknown>;
+  [key: string]: unknown;
+}
+
+// 角色卡字段 → AICharacter 字段
+const CARD_FIELD_MAP: [string, keyof AICharacter][] = [
+  ['name', 'name'],
+  ['description', 'background'],
+  ['personality', 'personality'],
+  ['scenario', 'scenario'],
+  ['first_mes', 'firstMessage'],
+  ['mes_example', 'exampleDialogue'],
+  ['creator_notes', 'notes'],
+];
+
+// 角色卡中没有对应字段的 AICharacter 字段，导出时保存在 extensions 中，以便再次导入时还原
+const EXTENSION_KEY = 'improv_theater';
+const EXTENSION_FIELDS: (keyof AICharacter)[] = [
+  'identity', 'gender', 'age', 'appearance', 'abilities', 'goals', 'secrets', 'relationships', 'mannerisms', 'voiceTone', 'catchphrase',
+];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const asText = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() !== '' ? value : undefined;
+
+/**
+ * 把角色卡 JSON (v1、v2 或 v3) 转换为新的 AICharacter (新 ID)
+ * @param avatar 角色卡图片 (PNG 角色卡的 data URL)
+ * @throws 不是角色卡或缺少姓名时抛出错误
+ */
+export function parseCharacterCard(raw: unknown, avatar?: string): AICharacter {
+  if (!isRecord(raw)) {
+    throw new Error('不是有效的角色卡');
+  }
+  // v2/v3 的内容在 data 中，v1 直接在顶层
+  const data = isRecord(raw.data) && (raw.spec === 'chara_card_v2' || raw.spec === 'chara_card_v3') ? raw.data : raw;
+  const name = asText(data.name);
+  if (!name) {
+    throw new Error('角色卡缺少角色名');
+  }
+
+  const character: AICharacter = { id: uuidv4(), name: name.trim(), personality: '' };
+  const record = character as unknown as Record<string, unknown>;
+  CARD_FIELD_MAP.forEach(([cardKey, key]) => {
+    const value = asText(data[cardKey]);
+    if (value !== undefined && key !== 'name') record[key] = value;
+  });
+
+  // 其余字段原样保留
+  const cardData: Record<string, unknown> = {};
+  Object.entries(data).forEach(([key, value]) => {
+    if (!CARD_FIELD_MAP.some(([cardKey]) => cardKey === key)) cardData[key] = value;
+  });
+
+  if (isRecord(cardData.extensions)) {
+    const extensions = { ...cardData.extensions };
+    // 本应用导出的角色卡带有其他角色字段
+    const ownFields = extensions[EXTENSION_KEY];
+    if (isRecord(ownFields)) {
+      EXTENSION_FIELDS.forEach(key => {
+        const value = asText(ownFields[key]);
+        if (value !== undefined) record[key] = value;
+      });
+    }
+    delete extensions[EXTENSION_KEY];
+    // SillyTavern 的健谈程度为 0-1 的小数 (字符串)
+    const talkativeness = parseFloat(String(extensions.talkativeness ?? ''));
+    if (!Number.isNaN(talkativeness)) {
+      character.talkativeness = Math.min(10, Math.max(1, Math.round(talkativeness * 10)));
+    }
+    delete extensions.talkativeness;
+    cardData.extensions = extensions;
+  }
+
+  if (avatar) character.avatar = avatar;
+  if (Object.keys(cardData).length > 0) character.cardData = cardData;
+  return character;
+}
+
+/**
+ * 把 AICharacter 转换为 v2 角色卡，导入时保留的其他字段原样写回
+ */
+export function toCharacterCard(character: AICharacter): CharacterCardV2 {
+  const cardData = character.cardData ?? {};
+  const extensions: Record<string, unknown> = isRecord(cardData.extensions) ? { ...cardData.extensions } : {};
+  const ownFields: Record<string, unknown> = {};
+  EXTENSION_FIELDS.forEach(key => {
+    if (character[key] !== undefined && character[key] !== '') ownFields[key] = character[key];
+  });
+  if (Object.keys(ownFields).length > 0) extensions[EXTENSION_KEY] = ownFields;
+  if (character.talkativeness !== undefined) extensions.talkativeness = String(character.talkativeness / 10);
+
+  const stringArray = (value: unknown): string[] => (Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : []);
+  return {
+    spec: 'chara_card_v2',
+    spec_version: '2.0',
+    data: {
+      ...cardData,
+      name: character.name,
+      description: character.background ?? '',
+      personality: character.personality,
+      scenario: character.scenario ?? '',
+      first_mes: character.firstMessage ?? '',
+      mes_example: character.exampleDialogue ?? '',
+      creator_notes: character.notes ?? '',
+      system_prompt: asText(cardData.system_prompt) ?? '',
+      post_history_instructions: asText(cardData.post_history_instructions) ?? '',
+      alternate_greetings: stringArray(cardData.alternate_greetings),
+      tags: stringArray(cardData.tags),
+      creator: asText(cardData.creator) ?? '',
+      character_version: asText(cardData.character_version) ?? '',
+      extensions,
+    },
+  };
+}
@@ -0,0 +1,236 @@
+import type { ChatMessage, ContextSettings, ContextSummary } from '../types';
+import type { LLMChatOptions } from '../../electron/llm/BaseLLM';
+import { chatLogger as logger } from './logger';
+import { estimateTokens } from './tokenEstimate';
+
+type LLMMessage = LLMChatOptions['messages'][number];
+
+/**
+ * 默认的上下文管理设置：超出预算时丢弃最早的对话，为回复预留 2048 tokens
+ */
+export const DEFAULT_CONTEXT_SETTINGS: ContextSettings = {
+  strategy: 'truncate',
+  reservedOutputTokens: 2048,
+};
+
+// 未知模型 (例如本地部署的兼容接口) 使用的保守上下文长度
+const DEFAULT_CONTEXT_WINDOW = 8192;
+
+// 常见模型的上下文长度 (tokens)，按模型名前缀匹配，取最长的匹配项
+const MODEL_CONTEXT_WINDOWS: Record<string, number> = {
+  'gpt-3.5-turbo': 16385,
+  'gpt-4': 8192,
+  'gpt-4-turbo': 128000,
+  'gpt-4o': 128000,
+  'gpt-4.1': 1047576,
+  'gpt-5': 400000,
+  'o1': 200000,
+  'o3': 200000,
+  'o4-mini': 200000,
+  'claude': 200000,
+  'gemini-1.5-pro': 2097152,
+  'gemini-1.5-flash': 1048576,
+  'gemini-2': 1048576,
+  'gemini-pro': 32760,
+  'llama3': 8192,
+  'llama3.1': 131072,
+  'qwen2.5': 32768,
+  'deepseek': 65536,
+};
+
+// 每条消息的格式开销 (角色标记等) 的估算值
+const MESSAGE_OVERHEAD_TOKENS = 4;
+// 生成新摘要时，保留的近期对话最多占预算的比例 (留出余量，避免每轮都重新生成摘要)
+const SUMMARY_KEEP_RATIO = 0.6;
+// 摘要本身的预期长度上限
+const SUMMARY_MAX_TOKENS = 800;
+
+/**
+ * 获取模型的上下文长度 (tokens)
+ * 按模型名前缀匹配 (忽略 "models/" 等路径前缀)，找不到时返回保守的默认值
+ */
+export function getModelContextWindow(model: string): number {
+  const name = model.toLowerCase().split('/').pop() ?? '';
+  let bestMatch = '';
+  Object.keys(MODEL_CONTEXT_WINDOWS).forEach(prefix => {
+    if (name.startsWith(prefix) && prefix.length > bestMatch.length) {
+      bestMatch = prefix;
+    }
+  });
+  return bestMatch ? MODEL_CONTEXT_WINDOWS[bestMatch] : DEFAULT_CONTEXT_WINDOW;
+}
+
+const estimateMessageTokens = (message: LLMMessage): number => estimateTokens(message.content) + MESSAGE_OVERHEAD_TOKENS;
+
+/**
+ * 计算上下文预算 (可用于系统提示词和历史消息的 token 数)
+ */
+export function getContextBudget(settings: ContextSettings, model: string): number {
+  const contextWindow = settings.maxContextTokens || getModelContextWindow(model);
+  return Math.max(contextWindow - settings.reservedOutputTokens, 0);
+}
+
+/**
+ * 组合系统提示词，摘要位于前置提示词 (角色设定) 与后置提示词 (输出要求) 之间
+ */
+const buildSystemPrompt = (prePrompt: string, postPrompt: string | undefined, summary: string | undefined): string =>
+  [prePrompt, summary ? `【此前剧情摘要】\n${summary}` : '', postPrompt ?? '']
+    .filter(part => part)
+    .join('\n\n');
+
+/**
+ * 从列表末尾开始保留尽可能多的消息，返回第一条保留消息的下标
+ * 至少保留最后一条消息，且不早于 minStart
+ */
+const findKeepStart = (messages: LLMMessage[], budget: number, minStart: number): number => {
+  let used = 0;
+  let start = messages.length;
+  while (start > minStart) {
+    const cost = estimateMessageTokens(messages[start - 1]);
+    if (used + cost > budget && start < messages.length) break;
+    used += cost;
+    start -= 1;
+  }
+  return start;
+};
+
+/**
+ * 判断已保存的摘要是否仍与当前历史一致 (历史被修改或删除后摘要失效)
+ */
+const isSummaryValid = (summary: ContextSummary | undefined, history: ChatMessage[]): summary is ContextSummary =>
+  !!summary
+  && summary.coveredCount > 0
+  && summary.coveredCount <= history.length
+  && history[summary.coveredCount - 1].timestamp === summary.lastCoveredTimestamp;
+
+/**
+ * 调用 LLM 把旧摘要和新一段对话合并成新的摘要
+ */
+async function generateSummary(
+  previousSummary: string | undefined,
+  messages: ChatMessage[],
+  summarizer: ContextSummarizer,
+): Promise<string> {
+  const transcript = messages.map(msg => `${msg.characterName}: ${msg.content}`).join('\n');
+  const request = [
+    previousSummary ? `此前的剧情摘要：\n${previousSummary}\n` : '',
+    `需要并入摘要的新对话：\n${transcript}\n`,
+    `请输出更新后的完整剧情摘要，保留人物关系、关键事件、未解决的冲突和重要细节，使用第三人称叙述，不超过 ${Math.round(SUMMARY_MAX_TOKENS * 0.6)} 字。只输出摘要本身。`,
+  ].filter(part => part).join('\n');
+
+  const result = await window.electronAPI.llmGenerateChat(summarizer.configId, {
+    model: summarizer.model,
+    messages: [{ role: 'user', content: request }],
+    systemPrompt: '你是一名剧情记录员，负责把即兴剧场的对话压缩成简洁、准确的剧情摘要。',
+    maxTokens: SUMMARY_MAX_TOKENS,
+    stream: false,
+  }, undefined, summarizer.sessionId);
+
+  if (!result.success || !result.data?.content) {
+    throw new Error(result.error || '摘要生成返回空内容');
+  }
+  return result.data.content.trim();
+}
+
+/**
+ * 生成摘要所用的 AI 配置 (通常就是当前发言角色的配置)
+ */
+export interface ContextSummarizer {
+  configId: string;
+  model: string;
+  sessionId: string; // 摘要请求的用量也计入本会话
+}
+
+export interface FitContextParams {
+  history: ChatMessage[]; // 原始消息列表
+  llmMessages: LLMMessage[]; // 与 history 一一对应的、已转换为 LLM 格式的消息
+  prePrompt: string; // 系统提示词 (或前置提示词)
+  postPrompt?: string; // 后置提示词 (可选)
+  model: string;
+  settings: ContextSettings;
+  summary?: ContextSummary; // 当前会话已保存的摘要
+  summarizer: ContextSummarizer;
+}
+
+export interface FitContextResult {
+  messages: LLMMessage[]; // 实际发送的消息
+  systemPrompt: string; // 实际发送的系统提示词 (可能包含摘要)
+  omittedCount: number; // 被省略 (丢弃或由摘要代替) 的最早消息条数
+  summary?: ContextSummary; // 更新后的摘要，调用方应保存到会话快照中
+}
+
+/**
+ * 按会话的上下文设置裁剪发送给模型的历史
+ * 历史未超出预算时原样发送；超出时按策略丢弃最早的消息，或用滚动摘要代替它们。
+ * 摘要生成失败时退回为直接丢弃，保证请求仍能发出。
+ */
+export async function fitContext(params: FitContextParams): Promise<FitContextResult> {
+  const { history, llmMessages, prePrompt, postPrompt, model, settings, summarizer } = params;
+  const validSummary = isSummaryValid(params.summary, history) ? params.summary : undefined;
+  const budget = getContextBudget(settings, model);
+  const systemTokens = estimateTokens(prePrompt) + estimateTokens(postPrompt ?? '');
+  const historyTokens = llmMessages.reduce((sum, message) => sum + estimateMessageTokens(message), 0);
+
+  if (settings.strategy === 'none' || systemTokens + historyTokens <= budget) {
+    return { messages: llmMessages, systemPrompt: buildSystemPrompt(prePrompt, postPrompt, undefined), omittedCount: 0, summary: validSummary };
+  }
+
+  if (settings.strategy === 'truncate') {
+    const start = findKeepStart(llmMessages, budget - systemTokens, 0);
+    logger.info(`[上下文] 历史约 ${historyTokens} tokens，超出预算 ${budget}，丢弃最早的 ${start} 条消息。`);
+    return { messages: llmMessages.slice(start), systemPrompt: buildSystemPrompt(prePrompt, postPrompt, undefined), omittedCount: start };
+  }
+
+  // summarize：先尝试沿用已有摘要
+  if (validSummary) {
+    const remaining = llmMessages.slice(validSummary.coveredCount);
+    const remainingTokens = remaining.reduce((sum, message) => sum + estimateMessageTokens(message), 0);
+    if (systemTokens + estimateTokens(validSummary.content) + remainingTokens <= budget) {
+      return {
+        messages: remaining,
+        systemPrompt: buildSystemPrompt(prePrompt, postPrompt, validSummary.content),
+        omittedCount: validSummary.coveredCount,
+        summary: validSummary,
+      };
+    }
+  }
+
+  // 已有摘要也放不下：把更多的早期消息并入摘要，近期对话只保留预算的一部分
+  const coveredCount = validSummary?.coveredCount ?? 0;
+  const keepBudget = Math.floor(budget * SUMMARY_KEEP_RATIO) - systemTokens - SUMMARY_MAX_TOKENS;
+  const start = findKeepStart(llmMessages, keepBudget, coveredCount);
+  if (start <= coveredCount) {
+    // 没有可以并入摘要的新消息 (例如最后一条消息本身就很长)，只能沿用已有摘要
+    return {
+      messages: llmMessages.slice(coveredCount),
+      systemPrompt: buildSystemPrompt(prePrompt, postPrompt, validSummary?.content),
+      omittedCount: coveredCount,
+      summary: validSummary,
+    };
+  }
+  try {
+    logger.info(`[上下文] 历史约 ${historyTokens} tokens，超出预算 ${budget}，将第 ${coveredCount + 1}-${start} 条消息并入摘要。`);
+    const content = await generateSummary(validSummary?.content, history.slice(coveredCount, start), summarizer);
+    const summary: ContextSummary = {
+      content,
+      coveredCount: start,
+      lastCoveredTimestamp: history[start - 1].timestamp,
+      updatedAt: Date.now(),
+    };
+    return {
+      messages: llmMessages.slice(start),
+      systemPrompt: buildSystemPrompt(prePrompt, postPrompt, content),
+      omittedCount: start,
+      summary,
+    };
+  } catch (error) {
+    logger.warn('[上下文] 生成摘要失败，改为直接丢弃最早的消息:', error);
+    const fallbackStart = findKeepStart(llmMessages, budget - systemTokens - estimateTokens(validSummary?.content ?? ''), coveredCount);
+    return {
+      messages: llmMessages.slice(fallbackStart),
+      systemPrompt: buildSystemPrompt(prePrompt, postPrompt, validSummary?.content),
+      omittedCount: fallbackStart,
+      summary: validSummary,
+    };
+  }
+}
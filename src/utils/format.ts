@@ -0,0 +1,13 @@
+/**
+ * 格式化费用 (美元)，小额费用保留更多小数位
+ */
+export const formatCost = (cost: number): string => `$${cost < 1 ? cost.toFixed(4) : cost.toFixed(2)}`;
+
+/**
+ * 格式化文件大小
+ */
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+};
@@ -0,0 +1,49 @@
+import type { GenerationParams } from '../types';
+
+type NumericParamKey = Exclude<keyof GenerationParams, 'stopSequences'>;
+
+/**
+ * 数值类生成参数的显示名称和取值范围 (范围按 OpenAI 的定义，其他服务商超出范围时由主进程调整或忽略)
+ */
+export const NUMERIC_GENERATION_PARAMS: { key: NumericParamKey; label: string; min: number; max?: number; step: number; precision?: number }[] = [
+  { key: 'temperature', label: '温度', min: 0, max: 2, step: 0.1, precision: 2 },
+  { key: 'topP', label: 'Top-P', min: 0, max: 1, step: 0.05, precision: 2 },
+  { key: 'maxTokens', label: '最大 tokens', min: 1, step: 100, precision: 0 },
+  { key: 'presencePenalty', label: '存在惩罚', min: -2, max: 2, step: 0.1, precision: 2 },
+  { key: 'frequencyPenalty', label: '频率惩罚', min: -2, max: 2, step: 0.1, precision: 2 },
+];
+
+/**
+ * 去掉未设置的项 (包括空的停止序列)，全部未设置时返回 undefined
+ */
+export function compactGenerationParams(params?: GenerationParams): GenerationParams | undefined {
+  if (!params) return undefined;
+  const compacted: GenerationParams = {};
+  NUMERIC_GENERATION_PARAMS.forEach(({ key }) => {
+    const value = params[key];
+    if (typeof value === 'number' && !Number.isNaN(value)) compacted[key] = value;
+  });
+  const stopSequences = params.stopSequences?.filter(stop => stop.length > 0);
+  if (stopSequences && stopSequences.length > 0) compacted.stopSequences = stopSequences;
+  return Object.keys(compacted).length > 0 ? compacted : undefined;
+}
+
+/**
+ * 合并角色的生成参数和会话级的覆盖设置 (会话中设置的项优先)
+ */
+export function resolveGenerationParams(characterParams?: GenerationParams, sessionParams?: GenerationParams): GenerationParams {
+  return { ...compactGenerationParams(characterParams), ...compactGenerationParams(sessionParams) };
+}
+
+/**
+ * 生成参数的简短摘要 (例如 "温度 0.8 · 最大 tokens 500")，全部未设置时为空字符串
+ */
+export function describeGenerationParams(params?: GenerationParams): string {
+  const compacted = compactGenerationParams(params);
+  if (!compacted) return '';
+  const parts = NUMERIC_GENERATION_PARAMS
+    .filter(({ key }) => compacted[key] !== undefined)
+    .map(({ key, label }) => `${label} ${compacted[key]}`);
+  if (compacted.stopSequences) parts.push(`停止序列 ${compacted.stopSequences.length} 个`);
+  return parts.join(' · ');
+}
@@ -0,0 +1,195 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { ChatMessage, MessageTree } from '../types';
+
+// 消息树中对话开头 (第一条消息的父节点) 的键
+export const ROOT_KEY = '';
+
+const parentKey = (message: ChatMessage): string => message.parentId ?? ROOT_KEY;
+
+/**
+ * 分支信息 (用于分支导航)
+ */
+export interface BranchInfo {
+  leafId: string; // 分支最后一条消息的 ID
+  length: number; // 分支上的消息条数
+  forkIndex: number; // 与当前路径分叉的位置 (第一条不同消息的下标)，当前路径为 -1
+  lastMessage: ChatMessage;
+}
+
+export function createEmptyTree(): MessageTree {
+  return { nodes: {}, children: {}, activeChildren: {} };
+}
+
+/**
+ * 补全路径上消息的 ID，并让每条消息的 parentId 指向前一条消息
+ * 没有变化的消息保持原对象不变
+ */
+export function normalizePath(path: ChatMessage[]): ChatMessage[] {
+  let previousId: string | null = null;
+  return path.map(message => {
+    const parentId: string | null = previousId;
+    const normalized = message.id && message.parentId === parentId ? message : { ...message, id: message.id ?? uuidv4(), parentId };
+    previousId = normalized.id as string;
+    return normalized;
+  });
+}
+
+/**
+ * 把一条 (已规范化的) 路径合并进消息树：新增或更新路径上的消息，并记录路径为各节点当前的活动分支
+ * 树没有变化时返回原对象
+ */
+export function addPathToTree(tree: MessageTree, path: ChatMessage[]): MessageTree {
+  let nodes = tree.nodes;
+  let children = tree.children;
+  let activeChildren = tree.activeChildren;
+
+  path.forEach(message => {
+    const id = message.id as string;
+    const key = parentKey(message);
+    if (nodes[id] !== message) {
+      if (nodes === tree.nodes) nodes = { ...nodes };
+      nodes[id] = message;
+    }
+    if (!children[key]?.includes(id)) {
+      if (children === tree.children) children = { ...children };
+      children[key] = [...(children[key] ?? []), id];
+    }
+    if (activeChildren[key] !== id) {
+      if (activeChildren === tree.activeChildren) activeChildren = { ...activeChildren };
+      activeChildren[key] = id;
+    }
+  });
+
+  return nodes === tree.nodes && children === tree.children && activeChildren === tree.activeChildren
+    ? tree
+    : { nodes, children, activeChildren };
+}
+
+/**
+ * 由一条消息列表 (例如旧版快照的 messages) 生成只有一个分支的消息树
+ */
+export function buildTreeFromPath(path: ChatMessage[]): { tree: MessageTree; path: ChatMessage[] } {
+  const normalized = normalizePath(path);
+  return { tree: addPathToTree(createEmptyTree(), normalized), path: normalized };
+}
+
+/**
+ * 从消息树中删除一条消息及其所有后续消息
+ */
+export function removeFromTree(tree: MessageTree, id: string): MessageTree {
+  const message = tree.nodes[id];
+  if (!message) return tree;
+  const nodes = { ...tree.nodes };
+  const children = { ...tree.children };
+  const activeChildren = { ...tree.activeChildren };
+
+  const removeNode = (nodeId: string) => {
+    (children[nodeId] ?? []).forEach(removeNode);
+    delete children[nodeId];
+    delete activeChildren[nodeId];
+    delete nodes[nodeId];
+  };
+  removeNode(id);
+
+  const key = parentKey(message);
+  const siblings = (children[key] ?? []).filter(siblingId => siblingId !== id);
+  if (siblings.length > 0) {
+    children[key] = siblings;
+  } else {
+    delete children[key];
+  }
+  if (activeChildren[key] === id) {
+    if (siblings.length > 0) {
+      activeChildren[key] = siblings[siblings.length - 1];
+    } else {
+      delete activeChildren[key];
+    }
+  }
+  return { nodes, children, activeChildren };
+}
+
+/**
+ * 从消息树中删除单条消息，它的后续消息接到它的父消息之下 (保持在原来的位置)
+ */
+export function spliceOutOfTree(tree: MessageTree, id: string): MessageTree {
+  const message = tree.nodes[id];
+  if (!message) return tree;
+  const key = parentKey(message);
+  const childIds = tree.children[id] ?? [];
+  const nodes = { ...tree.nodes };
+  const children = { ...tree.children };
+  const activeChildren = { ...tree.activeChildren };
+
+  delete nodes[id];
+  childIds.forEach(childId => {
+    nodes[childId] = { ...nodes[childId], parentId: message.parentId ?? null };
+  });
+  const siblings = (children[key] ?? []).flatMap(siblingId => (siblingId === id ? childIds : [siblingId]));
+  if (siblings.length > 0) {
+    children[key] = siblings;
+  } else {
+    delete children[key];
+  }
+  if (activeChildren[key] === id) {
+    const next = activeChildren[id] ?? siblings[siblings.length - 1];
+    if (next) {
+      activeChildren[key] = next;
+    } else {
+      delete activeChildren[key];
+    }
+  }
+  delete children[id];
+  delete activeChildren[id];
+  return { nodes, children, activeChildren };
+}
+
+/**
+ * 获取一条消息的所有兄弟分支 (包括它自己)，按创建顺序排列
+ */
+export function getSiblingIds(tree: MessageTree, message: ChatMessage): string[] {
+  const siblings = tree.children[parentKey(message)];
+  return siblings && siblings.length > 0 ? siblings : message.id ? [message.id] : [];
+}
+
+/**
+ * 求经过指定消息的完整路径：从对话开头到该消息，再沿各节点最近的活动分支延伸到末尾
+ */
+export function resolvePath(tree: MessageTree, nodeId: string): ChatMessage[] {
+  const path: ChatMessage[] = [];
+  for (let node: ChatMessage | undefined = tree.nodes[nodeId]; node; node = node.parentId ? tree.nodes[node.parentId] : undefined) {
+    path.unshift(node);
+  }
+  // 没有记录活动分支时取最新的子消息
+  const nextId = (id: string): string | undefined => {
+    const children = tree.children[id];
+    return tree.activeChildren[id] ?? (children ? children[children.length - 1] : undefined);
+  };
+  for (let id = nextId(nodeId); id && tree.nodes[id]; id = nextId(id)) {
+    path.push(tree.nodes[id]);
+  }
+  return path;
+}
+
+/**
+ * 列出消息树中的所有分支 (每个末端消息对应一个分支)，最近更新的在前
+ * @param currentPath 当前显示的路径，用于计算各分支与它分叉的位置
+ */
+export function listBranches(tree: MessageTree, currentPath: ChatMessage[]): BranchInfo[] {
+  const currentIds = new Set(currentPath.map(message => message.id));
+  return Object.values(tree.nodes)
+    .filter(message => message.id && !tree.children[message.id]?.length)
+    .map(leaf => {
+      const path = resolvePath(tree, leaf.id as string);
+      const forkIndex = path.findIndex(message => !currentIds.has(message.id));
+      return { leafId: leaf.id as string, length: path.length, forkIndex, lastMessage: leaf };
+    })
+    .sort((a, b) => b.lastMessage.timestamp - a.lastMessage.timestamp);
+}
+
+/**
+ * 统计会话快照中的分支数 (旧版快照没有消息树，视为一个分支)
+ */
+export function countBranches(tree: MessageTree | undefined, messages: ChatMessage[]): number {
+  if (!tree) return messages.length > 0 ? 1 : 0;
+  return Object.keys(tree.nodes).filter(id => !tree.children[id]?.length).length;
+}
@@ -0,0 +1,85 @@
+import type { AICharacter, ChatMessage, Script } from '../types';
+import type { LLMChatOptions } from '../../electron/llm/BaseLLM';
+
+// 剧本字段的中文标签 (按在提示词中出现的顺序)
+export const SCRIPT_FIELD_LABELS: [keyof Script, string][] = [
+  ['title', '剧本名字'],
+  ['scene', '场景描述'],
+  ['genre', '类型/题材'],
+  ['setting', '时代/背景设定'],
+  ['synopsis', '剧情梗概'],
+  ['mood', '氛围/基调'],
+  ['themes', '主题'],
+  ['tags', '标签'],
+];
+
+// 角色字段的中文标签 (按在提示词中出现的顺序)
+export const CHARACTER_FIELD_LABELS: [keyof AICharacter, string][] = [
+  ['name', '姓名'],
+  ['identity', '身份'],
+  ['gender', '性别'],
+  ['age', '年龄'],
+  ['personality', '性格'],
+  ['background', '背景故事'],
+  ['appearance', '外貌描述'],
+  ['abilities', '能力/特长'],
+  ['goals', '目标/动机'],
+  ['secrets', '秘密'],
+  ['relationships', '人物关系'],
+  ['mannerisms', '言行举止/小动作'],
+  ['voiceTone', '说话音调/风格'],
+  ['catchphrase', '口头禅'],
+  ['scenario', '所处情景'],
+  ['exampleDialogue', '对话示例'],
+  ['notes', '其他备注'],
+];
+
+/**
+ * 把剧本设定格式化为 "标签: 内容" 的多行文本，忽略空字段
+ */
+export function formatScriptSettings(script: Script): string {
+  return SCRIPT_FIELD_LABELS
+    .map(([key, label]) => {
+      const value = script[key];
+      if (Array.isArray(value)) {
+        return value.length > 0 ? `${label}: ${value.join(', ')}` : null;
+      }
+      return typeof value === 'string' && value.trim() ? `${label}: ${value.trim()}` : null;
+    })
+    .filter(Boolean)
+    .join('\n');
+}
+
+/**
+ * 把角色设定格式化为缩进的 "标签: 内容" 多行文本，忽略空字段
+ * @param hideSecrets 是否隐藏角色的秘密 (描述其他角色时使用)
+ */
+export function formatCharacterDetails(character: AICharacter, hideSecrets: boolean): string {
+  return CHARACTER_FIELD_LABELS
+    .map(([key, label]) => {
+      if (hideSecrets && key === 'secrets') return null;
+      const value = character[key];
+      return value !== undefined && value !== null && String(value).trim() !== ''
+        ? `  ${label}: ${String(value).trim()}`
+        : null;
+    })
+    .filter(Boolean)
+    .join('\n');
+}
+
+/**
+ * 以 "角色名: 内容" 的格式呈现一条消息，这是各模式发送给模型的默认历史格式
+ */
+export function formatSpeakerLine(message: ChatMessage): string {
+  return `${message.characterName}: ${message.content}`;
+}
+
+/**
+ * 默认的历史消息转换：保留 user / assistant 角色，内容使用 "角色名: 内容" 格式 (各模式可以在策略中替换)
+ */
+export function toSpeakerLLMMessage(message: ChatMessage): LLMChatOptions['messages'][number] {
+  return {
+    role: message.role === 'user' ? 'user' : 'assistant',
+    content: formatSpeakerLine(message),
+  };
+}
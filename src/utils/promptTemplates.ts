@@ -0,0 +1,296 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { AICharacter, ChatConfig, ChatMode, PromptTemplate, PromptTemplateBundle, Script, SplitSystemPrompt } from '../types';
+import { CHARACTER_FIELD_LABELS, SCRIPT_FIELD_LABELS, formatCharacterDetails, formatScriptSettings } from './promptBuilder';
+
+export const PROMPT_TEMPLATE_BUNDLE_FORMAT = 'improv-theater-prompt-templates';
+export const PROMPT_TEMPLATE_BUNDLE_VERSION = 1;
+
+export const CHAT_MODES: ChatMode[] = ['singleUserSingleAI', 'singleUserMultiAI', 'director'];
+
+export const CHAT_MODE_LABELS: Record<ChatMode, string> = {
+  singleUserSingleAI: '单人单 AI',
+  singleUserMultiAI: '单人多 AI',
+  director: '导演模式',
+};
+
+// --- 内置模板 (与模板系统之前各模式写死的提示词一致) ---
+
+// 单人单 AI：简要的角色设定行 (只在字段非空时输出)
+const profileLines = (prefix: 'character' | 'user') =>
+  `- 姓名: {{${prefix}.name}}\n` +
+  `{{#${prefix}.identity}}- 身份: {{${prefix}.identity}}\n{{/${prefix}.identity}}` +
+  `{{#${prefix}.personality}}- 性格: {{${prefix}.personality}}\n{{/${prefix}.personality}}` +
+  `{{#${prefix}.background}}- 背景: {{${prefix}.background}}\n{{/${prefix}.background}}` +
+  `{{#${prefix}.mannerisms}}- 言行举止: {{${prefix}.mannerisms}}\n{{/${prefix}.mannerisms}}` +
+  `{{#${prefix}.voiceTone}}- 说话音调: {{${prefix}.voiceTone}}\n{{/${prefix}.voiceTone}}` +
+  `{{#${prefix}.catchphrase}}- 口头禅: {{${prefix}.catchphrase}}\n{{/${prefix}.catchphrase}}`;
+
+const SINGLE_AI_PRE_PROMPT =
+  `你现在正在参与一个 AI 即兴剧场。\n` +
+  `剧本标题: {{script.title}}\n` +
+  `{{#script.scene}}场景: {{script.scene}}\n{{/script.scene}}` +
+  `{{#script.setting}}时代背景: {{script.setting}}\n{{/script.setting}}` +
+  `{{#script.synopsis}}剧情梗概: {{script.synopsis}}\n{{/script.synopsis}}` +
+  `{{#script.mood}}氛围基调: {{script.mood}}\n{{/script.mood}}` +
+  `\n出场角色:\n{{participants}}\n` +
+  `\n你的任务是扮演角色: **{{character.name}}**。\n` +
+  `请严格按照以下角色设定进行表演:\n` +
+  profileLines('character') +
+  `\n对话历史中的发言会以 "角色名: 内容" 的格式呈现。` +
+  `请你只输出你扮演的角色 ({{character.name}}) 的对话内容，不要包含角色名和冒号，也不要进行任何与角色扮演无关的评论或解释。\n` +
+  `\n与你对话的是由人类用户扮演的角色: **{{user.name}}**。\n` +
+  `以下是该角色的设定:\n` +
+  profileLines('user') +
+  `\n` +
+  `与你对话的是由人类用户扮演的角色: {{user.name}}。\n`;
+
+const SCRIPT_SETTINGS_SECTION = `=== 剧本设定 ===\n{{scriptSettings}}{{^scriptSettings}}无{{/scriptSettings}}\n\n`;
+
+const MULTI_AI_PRE_PROMPT =
+  `你现在正在参与一个 AI 即兴剧场。\n\n` +
+  SCRIPT_SETTINGS_SECTION +
+  `=== 其他出场人物 ===\n{{otherCharacters}}{{^otherCharacters}}无其他角色{{/otherCharacters}}\n\n` +
+  `--- 你的重要任务 ---\n` +
+  `你的任务是扮演以下角色，这是你的【完整】设定（包括你的秘密）：\n` +
+  `**{{character.name}}**:\n{{ownDetails}}\n\n` +
+  `请注意，你是 **{{character.name}}**，不是其他任何角色。你必须严格按照你的角色设定行事。\n\n` +
+  `在对话历史中，你会看到格式为"角色名: 内容"的消息。当你看到"{{character.name}}: "开头的消息时，那是你之前说的话。其他角色名开头的消息是其他角色说的话，不是你说的。`;
+
+const MULTI_AI_POST_PROMPT =
+  `--- 表演规则 ---\n` +
+  `1. 你必须只输出你扮演的角色 **({{character.name}})** 的对话内容。\n` +
+  `2. 直接输出对话内容，不要包含"{{character.name}}: "这样的前缀。\n` +
+  `3. 只输出你自己角色的台词和表演，不要在你的回复中引用或包含其他角色的对话或名字！\n` +
+  `4. 不进行任何与角色扮演无关的评论或解释。\n` +
+  `5. 再次强调，你是 **{{character.name}}**！请全身心投入角色！\n\n` +
+  `记住：你是 **{{character.name}}**，请认真扮演好自己的角色！你不是其他任何角色，你只是{{character.name}}！\n\n` +
+  `现在，请根据对话历史，开始你的表演：`;
+
+const DIRECTOR_PRE_PROMPT =
+  `你是一名 AI 演员，正在参与一个由【导演】（用户）指导的即兴剧场。\n\n` +
+  SCRIPT_SETTINGS_SECTION +
+  `=== 其他出场人物 ===\n{{otherCharacterSummaries}}{{^otherCharacterSummaries}}无其他角色{{/otherCharacterSummaries}}\n\n` +
+  `--- 你的重要任务 ---\n` +
+  `你的任务是扮演角色：**{{character.name}}**。\n` +
+  `你的【完整】角色设定（包括秘密）如下：\n{{ownDetails}}\n\n` +
+  `你必须严格按照你的角色设定行事。`;
+
+const DIRECTOR_POST_PROMPT =
+  `--- 表演规则与导演互动 ---\n` +
+  `1.  对话历史中会包含其他角色的发言（格式：角色名: 内容）、导演的指令（格式：[导演 -> 目标角色]: 指令内容）和旁白（格式：[旁白]: 内容）。\n` +
+  `2.  【导演指令】是给特定角色的。如果你是目标之一，必须在保持角色身份的前提下，尽力遵循指令。\n` +
+  `3.  【旁白】是场景或氛围信息，你需要理解并融入表演。\n` +
+  `4.  **重要：你可能会在一条【导演指令】或【旁白】之后被要求立即回应。请自然地将这条最新的信息纳入你的表演中。**\n` +
+  `5.  如果没有明确的指令指向你，并且你不是刚被旁白触发的目标，请根据角色、剧本、历史对话和旁白信息，自主地进行表演。\n` +
+  `6.  你只能输出你扮演的角色 **({{character.name}})** 的对话内容。\n` +
+  `7.  直接输出对话，不要加角色名前缀，如 "{{character.name}}: "。\n` +
+  `8.  不要输出任何与角色扮演无关的评论、解释或内心想法。\n` +
+  `9.  全心投入你的角色 **{{character.name}}**！\n\n` +
+  `现在，请根据最新的对话历史，开始你的表演：`;
+
+export const BUILT_IN_PROMPT_TEMPLATES: Record<ChatMode, PromptTemplate> = {
+  singleUserSingleAI: {
+    id: 'builtin-singleUserSingleAI',
+    name: '内置模板 (单人单 AI)',
+    mode: 'singleUserSingleAI',
+    description: '列出剧本信息和全部出场角色，附上双方的简要设定。',
+    prePrompt: SINGLE_AI_PRE_PROMPT,
+    postPrompt: '',
+    builtIn: true,
+  },
+  singleUserMultiAI: {
+    id: 'builtin-singleUserMultiAI',
+    name: '内置模板 (单人多 AI)',
+    mode: 'singleUserMultiAI',
+    description: '其他角色只提供名字，自己的完整设定 (含秘密) 放在前置提示词，表演规则放在后置提示词。',
+    prePrompt: MULTI_AI_PRE_PROMPT,
+    postPrompt: MULTI_AI_POST_PROMPT,
+    builtIn: true,
+  },
+  director: {
+    id: 'builtin-director',
+    name: '内置模板 (导演模式)',
+    mode: 'director',
+    description: '其他角色提供身份、性别、年龄和背景第一行，后置提示词说明如何响应导演指令和旁白。',
+    prePrompt: DIRECTOR_PRE_PROMPT,
+    postPrompt: DIRECTOR_POST_PROMPT,
+    builtIn: true,
+  },
+};
+
+// --- 模板变量 ---
+
+export interface PromptTemplateVariable {
+  name: string;
+  description: string;
+}
+
+const fieldVariables = <T>(prefix: string, owner: string, labels: [keyof T, string][]): PromptTemplateVariable[] =>
+  labels.map(([key, label]) => ({ name: `${prefix}.${String(key)}`, description: `${owner}的${label}` }));
+
+/**
+ * 模板中可以使用的变量 (用于编辑页的变量说明和未知变量检查)
+ */
+export const PROMPT_TEMPLATE_VARIABLES: PromptTemplateVariable[] = [
+  { name: 'scriptSettings', description: '剧本设定全文 ("标签: 内容" 多行文本，忽略空字段)' },
+  ...fieldVariables<Script>('script', '剧本', SCRIPT_FIELD_LABELS),
+  { name: 'ownDetails', description: '扮演角色的完整设定 (缩进的 "标签: 内容" 多行文本，包含秘密)' },
+  ...fieldVariables<AICharacter>('character', '扮演角色', CHARACTER_FIELD_LABELS),
+  { name: 'otherCharacters', description: '其他出场人物的名字 (每个名字之间空一行)' },
+  { name: 'otherCharacterSummaries', description: '其他出场人物的简介 ("- 姓名 (身份) (性别) (年龄)"，附背景第一行)' },
+  { name: 'participants', description: '全部出场角色 ("- 姓名 (身份) (性格)"，每个角色一行)' },
+  { name: 'userDetails', description: '用户角色的设定 (不含秘密；导演模式下为空)' },
+  ...fieldVariables<AICharacter>('user', '用户角色', CHARACTER_FIELD_LABELS),
+];
+
+const KNOWN_VARIABLES = new Set(PROMPT_TEMPLATE_VARIABLES.map(variable => variable.name));
+
+/**
+ * 渲染模板所需的信息
+ */
+export interface PromptTemplateContext {
+  script: Script;
+  character: AICharacter; // 扮演的 AI 角色
+  participants: AICharacter[]; // 全部出场角色 (包括扮演的角色和用户角色)
+  user?: AICharacter; // 用户扮演的角色 (导演模式下没有)
+}
+
+const formatValue = (value: unknown): string => {
+  if (Array.isArray(value)) return value.join(', ');
+  return value === undefined || value === null ? '' : String(value);
+};
+
+function fieldValues<T>(prefix: string, source: T | undefined, labels: [keyof T, string][]): Record<string, string> {
+  const values: Record<string, string> = {};
+  labels.forEach(([key]) => {
+    values[`${prefix}.${String(key)}`] = source ? formatValue(source[key]) : '';
+  });
+  return values;
+}
+
+function buildVariables({ script, character, participants, user }: PromptTemplateContext): Record<string, string> {
+  const others = participants.filter(c => c.id !== character.id);
+  return {
+    scriptSettings: formatScriptSettings(script),
+    ...fieldValues<Script>('script', script, SCRIPT_FIELD_LABELS),
+    ownDetails: formatCharacterDetails(character, false),
+    ...fieldValues<AICharacter>('character', character, CHARACTER_FIELD_LABELS),
+    otherCharacters: others.map(other => other.name).join('\n\n'),
+    otherCharacterSummaries: others
+      .map(other => {
+        let description = `- ${other.name}`;
+        if (other.identity) description += ` (身份: ${other.identity})`;
+        if (other.gender) description += ` (性别: ${other.gender})`;
+        if (other.age) description += ` (年龄: ${other.age})`;
+        if (other.background) description += `\n  背景: ${other.background.split('\n')[0]}`; // 只取背景第一行，避免过长
+        return description;
+      })
+      .join('\n'),
+    participants: participants
+      .map(participant => {
+        let line = `- ${participant.name}`;
+        if (participant.identity) line += ` (身份: ${participant.identity})`;
+        if (participant.personality) line += ` (性格: ${participant.personality})`;
+        return line;
+      })
+      .join('\n'),
+    userDetails: user ? formatCharacterDetails(user, true) : '',
+    ...fieldValues<AICharacter>('user', user, CHARACTER_FIELD_LABELS),
+  };
+}
+
+// {{#变量}}…{{/变量}}、{{^变量}}…{{/变量}} 或 {{变量}}
+const TOKEN_PATTERN = /\{\{\s*([#^])\s*([\w.]+)\s*\}\}([\s\S]*?)\{\{\s*\/\s*\2\s*\}\}|\{\{\s*([\w.]+)\s*\}\}/g;
+
+function renderText(text: string, variables: Record<string, string>, unknown: Set<string>): string {
+  const lookup = (name: string): string => {
+    if (!KNOWN_VARIABLES.has(name)) unknown.add(name);
+    return variables[name] ?? '';
+  };
+  // 一次扫描完成替换，变量的值中即使出现 {{…}} 也不会再被解析
+  return text.replace(TOKEN_PATTERN, (_match, sectionType?: string, sectionName?: string, inner?: string, variableName?: string) => {
+    if (variableName) return lookup(variableName);
+    const filled = lookup(sectionName!).trim() !== '';
+    return filled === (sectionType === '#') ? renderText(inner!, variables, unknown) : '';
+  });
+}
+
+/**
+ * 用剧本和角色信息渲染模板
+ * @returns 前置/后置提示词，以及模板中无法识别的变量 (渲染为空)
+ */
+export function renderPromptTemplate(template: PromptTemplate, context: PromptTemplateContext): SplitSystemPrompt & { unknownVariables: string[] } {
+  const variables = buildVariables(context);
+  const unknown = new Set<string>();
+  return {
+    prePrompt: renderText(template.prePrompt, variables, unknown),
+    postPrompt: renderText(template.postPrompt, variables, unknown),
+    unknownVariables: Array.from(unknown),
+  };
+}
+
+/**
+ * 为会话中的每个 AI 角色生成系统提示词 (使用会话选择的模板，缺省使用该模式的内置模板)
+ */
+export function buildSessionPrompts(config: ChatConfig, aiCharacters: AICharacter[]): Record<string, SplitSystemPrompt> {
+  const template = config.promptTemplate ?? BUILT_IN_PROMPT_TEMPLATES[config.mode];
+  const user = config.participatingCharacters.find(c => c.id === config.userCharacterId);
+  const prompts: Record<string, SplitSystemPrompt> = {};
+  aiCharacters.forEach(character => {
+    const { prePrompt, postPrompt } = renderPromptTemplate(template, {
+      script: config.script,
+      character,
+      participants: config.participatingCharacters,
+      user,
+    });
+    prompts[character.id] = { prePrompt, postPrompt };
+  });
+  return prompts;
+}
+
+// --- 导入导出 ---
+
+export function createPromptTemplateBundle(templates: PromptTemplate[]): PromptTemplateBundle {
+  return {
+    format: PROMPT_TEMPLATE_BUNDLE_FORMAT,
+    version: PROMPT_TEMPLATE_BUNDLE_VERSION,
+    exportedAt: Date.now(),
+    templates: templates.map(template => {
+      const exported: PromptTemplate = { ...template };
+      delete exported.builtIn;
+      return exported;
+    }),
+  };
+}
+
+/**
+ * 检查读取到的 JSON 是否为提示词模板文件，并得到要保存的模板
+ * 与已有模板 (包括内置模板) ID 相同的模板以新 ID 另存一份
+ * @throws 格式不符、版本过新或模板内容无效时抛出错误
+ */
+export function importPromptTemplateBundle(raw: unknown, existing: PromptTemplate[]): PromptTemplate[] {
+  const bundle = raw as Partial<PromptTemplateBundle> | null;
+  if (!bundle || bundle.format !== PROMPT_TEMPLATE_BUNDLE_FORMAT) {
+    throw new Error('不是提示词模板文件');
+  }
+  if (typeof bundle.version !== 'number' || bundle.version > PROMPT_TEMPLATE_BUNDLE_VERSION) {
+    throw new Error('提示词模板文件的版本比当前应用新，请先升级应用');
+  }
+  if (!Array.isArray(bundle.templates)) {
+    throw new Error('提示词模板文件内容不完整');
+  }
+  if (bundle.templates.some(template => !template?.id || !template.name || !CHAT_MODES.includes(template.mode))) {
+    throw new Error('提示词模板文件中有无效的模板');
+  }
+  return bundle.templates.map(template => {
+    const collides = existing.some(t => t.id === template.id);
+    return {
+      ...template,
+      id: collides ? uuidv4() : template.id,
+      name: collides ? `${template.name} (导入)` : template.name,
+      prePrompt: typeof template.prePrompt === 'string' ? template.prePrompt : '',
+      postPrompt: typeof template.postPrompt === 'string' ? template.postPrompt : '',
+      builtIn: undefined,
+    };
+  });
+}
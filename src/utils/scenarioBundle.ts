@@ -0,0 +1,138 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { AICharacter, ScenarioBundle, Script, SplitSystemPrompt } from '../types';
+
+export const SCENARIO_BUNDLE_FORMAT = 'improv-theater-scenario';
+export const SCENARIO_BUNDLE_VERSION = 1;
+
+/**
+ * 导入时与已有数据 ID 冲突的处理方式
+ * merge: 用剧本包中的内容覆盖已有的同 ID 数据
+ * duplicate: 以新 ID 另存一份，剧本中的引用指向新副本
+ * skip: 不导入，剧本中的引用继续指向已有数据
+ */
+export type CollisionResolution = 'merge' | 'duplicate' | 'skip';
+
+export const COLLISION_RESOLUTION_OPTIONS: { value: CollisionResolution; label: string }[] = [
+  { value: 'merge', label: '覆盖已有' },
+  { value: 'duplicate', label: '另存副本' },
+  { value: 'skip', label: '跳过' },
+];
+
+export interface BundleCollision {
+  key: string; // 冲突项的键 (类型:ID)，用于记录处理方式
+  kind: 'script' | 'character';
+  name: string; // 剧本包中的名称
+  existingName: string; // 已有数据的名称
+}
+
+const collisionKey = (kind: BundleCollision['kind'], id: string) => `${kind}:${id}`;
+
+/**
+ * 为剧本生成剧本包
+ * @param prompts 要一起导出的自定义提示词 (只保留剧本中角色的)
+ * @returns 剧本包，以及剧本引用但已不存在的角色 ID
+ */
+export function createScenarioBundle(
+  script: Script,
+  allCharacters: AICharacter[],
+  prompts?: Record<string, SplitSystemPrompt>,
+): { bundle: ScenarioBundle; missingCharacterIds: string[] } {
+  const characterIds = script.characterIds ?? [];
+  const characters = allCharacters.filter(character => characterIds.includes(character.id));
+  const bundlePrompts: Record<string, SplitSystemPrompt> = {};
+  Object.entries(prompts ?? {}).forEach(([id, prompt]) => {
+    if (characterIds.includes(id)) bundlePrompts[id] = prompt;
+  });
+  const bundleScript: Script = { ...script };
+  delete bundleScript.customPrompts; // 提示词单独放在 prompts 中
+  return {
+    bundle: {
+      format: SCENARIO_BUNDLE_FORMAT,
+      version: SCENARIO_BUNDLE_VERSION,
+      exportedAt: Date.now(),
+      script: bundleScript,
+      characters,
+      prompts: Object.keys(bundlePrompts).length > 0 ? bundlePrompts : undefined,
+    },
+    missingCharacterIds: characterIds.filter(id => !characters.some(character => character.id === id)),
+  };
+}
+
+/**
+ * 检查读取到的 JSON 是否为可导入的剧本包
+ * @throws 格式不符或版本过新时抛出错误
+ */
+export function validateScenarioBundle(raw: unknown): ScenarioBundle {
+  const bundle = raw as Partial<ScenarioBundle> | null;
+  if (!bundle || bundle.format !== SCENARIO_BUNDLE_FORMAT) {
+    throw new Error('不是剧本包文件');
+  }
+  if (typeof bundle.version !== 'number' || bundle.version > SCENARIO_BUNDLE_VERSION) {
+    throw new Error('剧本包的版本比当前应用新，请先升级应用');
+  }
+  if (!bundle.script?.id || !bundle.script.title || !Array.isArray(bundle.characters)) {
+    throw new Error('剧本包内容不完整');
+  }
+  if (bundle.characters.some(character => !character?.id || !character.name)) {
+    throw new Error('剧本包中有无效的角色');
+  }
+  return bundle as ScenarioBundle;
+}
+
+/**
+ * 找出剧本包中与已有剧本、角色 ID 相同的项
+ */
+export function findBundleCollisions(bundle: ScenarioBundle, scripts: Script[], characters: AICharacter[]): BundleCollision[] {
+  const collisions: BundleCollision[] = [];
+  const existingScript = scripts.find(script => script.id === bundle.script.id);
+  if (existingScript) {
+    collisions.push({ key: collisionKey('script', bundle.script.id), kind: 'script', name: bundle.script.title, existingName: existingScript.title });
+  }
+  bundle.characters.forEach(character => {
+    const existing = characters.find(c => c.id === character.id);
+    if (existing) {
+      collisions.push({ key: collisionKey('character', character.id), kind: 'character', name: character.name, existingName: existing.name });
+    }
+  });
+  return collisions;
+}
+
+/**
+ * 按冲突处理方式得到需要保存的剧本和角色
+ * 另存副本的角色会分配新 ID，剧本中的角色引用和提示词随之更新
+ * @param resolutions 冲突项的键 → 处理方式，没有冲突的项直接导入
+ */
+export function resolveScenarioBundle(
+  bundle: ScenarioBundle,
+  resolutions: Record<string, CollisionResolution>,
+): { script: Script | null; characters: AICharacter[] } {
+  const idMap = new Map<string, string>();
+  const characters: AICharacter[] = [];
+  bundle.characters.forEach(character => {
+    const resolution = resolutions[collisionKey('character', character.id)];
+    if (resolution === 'skip') return;
+    const id = resolution === 'duplicate' ? uuidv4() : character.id;
+    idMap.set(character.id, id);
+    characters.push({ ...character, id });
+  });
+
+  const scriptResolution = resolutions[collisionKey('script', bundle.script.id)];
+  if (scriptResolution === 'skip') {
+    return { script: null, characters };
+  }
+  const remap = (id: string) => idMap.get(id) ?? id;
+  const customPrompts: Record<string, SplitSystemPrompt> = {};
+  Object.entries(bundle.prompts ?? {}).forEach(([id, prompt]) => {
+    customPrompts[remap(id)] = prompt;
+  });
+  return {
+    script: {
+      ...bundle.script,
+      id: scriptResolution === 'duplicate' ? uuidv4() : bundle.script.id,
+      title: scriptResolution === 'duplicate' ? `${bundle.script.title} (导入)` : bundle.script.title,
+      characterIds: (bundle.script.characterIds ?? []).map(remap),
+      customPrompts: Object.keys(customPrompts).length > 0 ? customPrompts : undefined,
+    },
+    characters,
+  };
+}
@@ -0,0 +1,216 @@
+import type { ChatMessage, ChatPageStateSnapshot } from '../types';
+import { DIRECTOR_COMMAND_ID, NARRATOR_ID } from './aiDirector';
+
+export type ExportFormat = 'markdown' | 'html' | 'text' | 'fountain';
+
+export interface ExportOptions {
+  includeDirectorCommands: boolean; // 是否导出导演指令 (Fountain 中作为括号注释)
+}
+
+export interface ExportedFile {
+  fileName: string; // 建议的文件名
+  content: string;
+  filterName: string; // 保存对话框中的文件类型名称
+  extension: string;
+}
+
+export const EXPORT_FORMAT_OPTIONS: { value: ExportFormat; label: string }[] = [
+  { value: 'markdown', label: 'Markdown (.md)' },
+  { value: 'html', label: 'HTML 网页 (.html)' },
+  { value: 'text', label: '纯文本 (.txt)' },
+  { value: 'fountain', label: 'Fountain 剧本 (.fountain)' },
+];
+
+const FORMAT_FILES: Record<ExportFormat, { filterName: string; extension: string }> = {
+  markdown: { filterName: 'Markdown', extension: 'md' },
+  html: { filterName: 'HTML', extension: 'html' },
+  text: { filterName: '纯文本', extension: 'txt' },
+  fountain: { filterName: 'Fountain', extension: 'fountain' },
+};
+
+/**
+ * 导出用的一个剧本元素 (已去掉导演指令和旁白消息中的前缀)
+ */
+type SceneElement =
+  | { kind: 'dialogue'; name: string; content: string; timestamp: number }
+  | { kind: 'narration'; content: string; timestamp: number }
+  | { kind: 'command'; targets: string; content: string; timestamp: number };
+
+// 导演指令消息格式为 "[指令 -> 角色A, 角色B]: 内容"，旁白为 "[旁白]: 内容"
+const COMMAND_PATTERN = /^\[指令 -> ([^\]]*)\]:\s*/;
+const NARRATION_PATTERN = /^\[旁白\]:\s*/;
+
+function toElement(message: ChatMessage): SceneElement {
+  if (message.characterId === DIRECTOR_COMMAND_ID) {
+    const match = message.content.match(COMMAND_PATTERN);
+    return {
+      kind: 'command',
+      targets: match && match[1] !== '无特定目标' ? match[1] : '',
+      content: match ? message.content.slice(match[0].length) : message.content,
+      timestamp: message.timestamp,
+    };
+  }
+  if (message.characterId === NARRATOR_ID) {
+    return { kind: 'narration', content: message.content.replace(NARRATION_PATTERN, ''), timestamp: message.timestamp };
+  }
+  return { kind: 'dialogue', name: message.characterName, content: message.content, timestamp: message.timestamp };
+}
+
+function getElements(snapshot: ChatPageStateSnapshot, options: ExportOptions): SceneElement[] {
+  return (snapshot.messages ?? [])
+    .filter(message => message.content.trim() !== '')
+    .map(toElement)
+    .filter(element => options.includeDirectorCommands || element.kind !== 'command');
+}
+
+// 剧本信息中要导出的字段
+function getSceneInfo(snapshot: ChatPageStateSnapshot): { label: string; value: string }[] {
+  const { script } = snapshot.chatConfig;
+  return [
+    { label: '场景', value: script.scene },
+    { label: '类型', value: script.genre },
+    { label: '背景', value: script.setting },
+    { label: '梗概', value: script.synopsis },
+    { label: '角色', value: snapshot.chatConfig.participatingCharacters.map(c => c.name).join('、') },
+  ].filter((item): item is { label: string; value: string } => !!item.value?.trim());
+}
+
+const getTitle = (snapshot: ChatPageStateSnapshot) => snapshot.chatConfig.script.title || '无标题剧本';
+
+function toMarkdown(snapshot: ChatPageStateSnapshot, elements: SceneElement[]): string {
+  const quote = (text: string) => text.split('\n').map(line => `> ${line}`).join('\n');
+  const lines = [`# ${getTitle(snapshot)}`, ''];
+  getSceneInfo(snapshot).forEach(({ label, value }) => lines.push(`- **${label}**: ${value}`));
+  lines.push('', '---', '');
+  elements.forEach(element => {
+    if (element.kind === 'dialogue') {
+      lines.push(`**${element.name}**:`, '', element.content);
+    } else if (element.kind === 'narration') {
+      lines.push(quote(`*${element.content}*`));
+    } else {
+      lines.push(quote(`**导演指令${element.targets ? ` -> ${element.targets}` : ''}**: ${element.content}`));
+    }
+    lines.push('');
+  });
+  return lines.join('\n');
+}
+
+function toPlainText(snapshot: ChatPageStateSnapshot, elements: SceneElement[]): string {
+  const lines = [getTitle(snapshot), ''];
+  getSceneInfo(snapshot).forEach(({ label, value }) => lines.push(`${label}: ${value}`));
+  lines.push('');
+  elements.forEach(element => {
+    if (element.kind === 'dialogue') {
+      lines.push(`${element.name}: ${element.content}`);
+    } else if (element.kind === 'narration') {
+      lines.push(`[旁白] ${element.content}`);
+    } else {
+      lines.push(`[导演指令${element.targets ? ` -> ${element.targets}` : ''}] ${element.content}`);
+    }
+    lines.push('');
+  });
+  return lines.join('\n');
+}
+
+const escapeHtml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const htmlParagraphs = (text: string) => escapeHtml(text).split('\n').join('<br>');
+
+const HTML_STYLE = `
+  body { max-width: 760px; margin: 40px auto; padding: 0 20px; font-family: -apple-system, "PingFang SC", "Microsoft YaHei", sans-serif; line-height: 1.7; color: #222; }
+  h1 { text-align: center; }
+  .info { color: #666; font-size: 14px; border-bottom: 1px solid #eee; padding-bottom: 16px; margin-bottom: 24px; }
+  .dialogue { margin: 16px 0; }
+  .name { font-weight: bold; color: #1677ff; }
+  .narration { font-style: italic; color: #666; text-align: center; margin: 16px 40px; }
+  .command { color: #999; font-size: 13px; margin: 12px 0; }
+`;
+
+function toHtml(snapshot: ChatPageStateSnapshot, elements: SceneElement[]): string {
+  const title = escapeHtml(getTitle(snapshot));
+  const info = getSceneInfo(snapshot).map(({ label, value }) => `<div><strong>${label}</strong>: ${htmlParagraphs(value)}</div>`).join('\n');
+  const body = elements.map(element => {
+    if (element.kind === 'dialogue') {
+      return `<div class="dialogue"><div class="name">${escapeHtml(element.name)}</div><div>${htmlParagraphs(element.content)}</div></div>`;
+    }
+    if (element.kind === 'narration') {
+      return `<div class="narration">${htmlParagraphs(element.content)}</div>`;
+    }
+    return `<div class="command">导演指令${element.targets ? ` -&gt; ${escapeHtml(element.targets)}` : ''}: ${htmlParagraphs(element.content)}</div>`;
+  }).join('\n');
+  return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+<meta charset="utf-8">
+<title>${title}</title>
+<style>${HTML_STYLE}</style>
+</head>
+<body>
+<h1>${title}</h1>
+<div class="info">
+${info}
+</div>
+${body}
+</body>
+</html>
+`;
+}
+
+/**
+ * Fountain 剧本格式：角色名为对白提示 (用 @ 强制，支持中文名)，旁白为动作行 (用 ! 强制)，
+ * 导演指令为下一段对白的括号注释 (之后没有对白时作为动作行)
+ */
+function toFountain(snapshot: ChatPageStateSnapshot, elements: SceneElement[]): string {
+  const { script } = snapshot.chatConfig;
+  const lines = [`Title: ${getTitle(snapshot)}`];
+  if (script.synopsis?.trim()) lines.push(`Notes: ${script.synopsis.trim().replace(/\n/g, ' ')}`);
+  lines.push(`Draft date: ${new Date(elements[0]?.timestamp ?? Date.now()).toLocaleDateString()}`, '');
+  // 场景标题以 . 强制
+  lines.push(`.${(script.scene || script.setting || getTitle(snapshot)).trim().split('\n')[0].toUpperCase()}`, '');
+
+  let pendingCommands: string[] = [];
+  elements.forEach(element => {
+    if (element.kind === 'command') {
+      pendingCommands.push(element.content.replace(/\s*\n\s*/g, ' '));
+      return;
+    }
+    if (element.kind === 'narration') {
+      lines.push(...element.content.split('\n').map(line => `!${line}`), '');
+      return;
+    }
+    lines.push(`@${element.name.toUpperCase()}`);
+    pendingCommands.forEach(command => lines.push(`(${command})`));
+    pendingCommands = [];
+    // 对白中的空行会结束对白，用两个空格保留
+    lines.push(...element.content.split('\n').map(line => line.trim() === '' ? '  ' : line), '');
+  });
+  pendingCommands.forEach(command => lines.push(`!(${command})`, ''));
+  return lines.join('\n');
+}
+
+// 去掉文件名中不允许的字符
+const sanitizeFileName = (name: string) => name.replace(/[\\/:*?"<>|\r\n]+/g, '_').trim() || 'session';
+
+/**
+ * 把会话快照 (当前路径上的对话) 导出为指定格式
+ */
+export function exportSession(snapshot: ChatPageStateSnapshot, format: ExportFormat, options: ExportOptions): ExportedFile {
+  const elements = getElements(snapshot, options);
+  const renderers: Record<ExportFormat, (snapshot: ChatPageStateSnapshot, elements: SceneElement[]) => string> = {
+    markdown: toMarkdown,
+    html: toHtml,
+    text: toPlainText,
+    fountain: toFountain,
+  };
+  const { filterName, extension } = FORMAT_FILES[format];
+  return {
+    fileName: `${sanitizeFileName(getTitle(snapshot))}-${snapshot.chatSessionId}.${extension}`,
+    content: renderers[format](snapshot, elements),
+    filterName,
+    extension,
+  };
+}
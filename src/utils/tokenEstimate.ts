@@ -0,0 +1,10 @@
+/**
+ * 粗略估算文本的 token 数
+ * 不依赖具体分词器：中日韩字符按每字 1 token 计，其余字符按每 4 个字符 1 token 计
+ * 渲染进程的上下文预算和主进程的模拟服务商共用这一估算
+ */
+export function estimateTokens(text: string): number {
+  if (!text) return 0;
+  const cjkCount = (text.match(/[\u3000-\u9fff\uac00-\ud7af\uff00-\uffef]/g) ?? []).length;
+  return cjkCount + Math.ceil((text.length - cjkCount) / 4);
+}
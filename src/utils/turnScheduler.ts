@@ -0,0 +1,399 @@
+import type { AICharacter, AutoPlaySettings, ChatMessage, TurnStrategy } from '../types';
+import type { StreamChunk } from '../../electron/llm/BaseLLM';
+import { chatLogger as logger } from './logger';
+import { DEFAULT_TURN_STRATEGY, selectSpeakers } from './turnStrategy';
+
+/**
+ * 发言调度
+ * 与 React 无关的对话流程：流式回复的占位消息与结束处理、一轮发言 (按发言策略选出发言者依次回复)、停止和自动演出。
+ * useConversationEngine 和无界面的场景测试共用这里的流程，生成请求、保存会话和提示信息由宿主提供。
+ */
+
+/**
+ * 自动演出的运行状态
+ */
+export type AutoPlayStatus = 'idle' | 'running' | 'paused';
+
+/**
+ * 默认的自动演出设置：最多 10 轮，每轮间隔 2 秒，不限 token，不检查关键词
+ */
+export const DEFAULT_AUTO_PLAY_SETTINGS: AutoPlaySettings = {
+  maxTurns: 10,
+  delayMs: 2000,
+};
+
+// 自动演出的进度
+export interface AutoPlayProgress {
+  turns: number; // 已完成的发言次数
+  tokens: number; // 已消耗的 token 数 (含摘要等附带请求)
+}
+
+export type NotifyLevel = 'info' | 'warning' | 'error';
+
+/**
+ * 流式回复的宿主：维护消息列表 (同时更新消息树) 并向用户显示提示
+ */
+export interface StreamingReplyHost {
+  getMessages: () => ChatMessage[];
+  updateMessages: (updater: (prev: ChatMessage[]) => ChatMessage[]) => void;
+  removeMessageNode: (messageId: string) => void; // 从消息树中移除没有任何输出的占位消息
+  notify: (level: NotifyLevel, content: string) => void;
+}
+
+// 正在接收流式输出的回复 (键为 AI 角色 ID)
+interface ActiveReply {
+  index: number; // 占位消息在消息列表中的位置
+  characterName: string;
+  sessionId: string; // 请求所属的会话 ID (回复引用该会话的请求记录)
+  originalPath?: ChatMessage[]; // 重新生成前的路径，失败或停止且没有任何输出时恢复
+  settle: (reply: ChatMessage | null) => void;
+}
+
+const replaceAt = (messages: ChatMessage[], index: number, replacement: ChatMessage): ChatMessage[] =>
+  messages.map((msg, i) => (i === index ? replacement : msg));
+
+/**
+ * 正在进行的流式回复：先插入空的占位消息，数据块按 sourceId (AI 角色 ID) 写入对应的占位消息
+ */
+export class StreamingReplies {
+  private readonly active = new Map<string, ActiveReply>();
+
+  constructor(private readonly host: StreamingReplyHost) {}
+
+  /**
+   * 开始一条流式回复：插入空的占位消息
+   * @param replaceIndex 重新生成的消息位置：占位消息替换该位置及之后的路径；省略时追加到末尾
+   * @returns 回复结束时得到的消息，失败、停止或没有输出时为 null
+   */
+  start(aiChar: AICharacter, sessionId: string, replaceIndex?: number): Promise<ChatMessage | null> {
+    const placeholder: ChatMessage = {
+      role: 'assistant', characterId: aiChar.id, characterName: aiChar.name, content: '', timestamp: Date.now(),
+    };
+    const messages = this.host.getMessages();
+    const index = replaceIndex ?? messages.length;
+    const originalPath = replaceIndex !== undefined ? messages : undefined;
+    this.host.updateMessages(prev => [...prev.slice(0, index), placeholder]);
+    return new Promise<ChatMessage | null>(resolve => {
+      this.active.set(aiChar.id, { index, characterName: aiChar.name, sessionId, originalPath, settle: resolve });
+    });
+  }
+
+  isActive(characterId: string): boolean {
+    return this.active.has(characterId);
+  }
+
+  /**
+   * 处理主进程发来的数据块：追加文本；收到结束块 (正常结束、停止或出错，只有一个) 时记录实际回答的配置
+   * (主配置重试失败时可能由备用配置回答) 和本次请求的记录，然后结束回复
+   * 不属于正在进行的回复的数据块 (例如已被停止的旧流) 被忽略
+   */
+  handleChunk(sourceId: string | undefined, chunk: StreamChunk): void {
+    const reply = sourceId ? this.active.get(sourceId) : undefined;
+    if (!sourceId || !reply) return;
+
+    if (chunk.text) {
+      this.host.updateMessages(prev => replaceAt(prev, reply.index, {
+        ...prev[reply.index],
+        content: prev[reply.index].content + chunk.text,
+        timestamp: Date.now(),
+      }));
+    }
+
+    if (!chunk.error && !chunk.done) return;
+    if (chunk.configId || chunk.requestId) {
+      this.host.updateMessages(prev => replaceAt(prev, reply.index, {
+        ...prev[reply.index],
+        aiConfigId: chunk.configId,
+        modelUsed: chunk.modelUsed,
+        requestRef: chunk.requestId ? { sessionId: reply.sessionId, requestId: chunk.requestId } : undefined,
+      }));
+    }
+    if (chunk.error) {
+      this.host.notify('error', `AI (${reply.characterName}) 流式响应出错: ${chunk.error}`);
+    } else {
+      logger.info(`[对话引擎] ${reply.characterName} 的流式响应完成。${chunk.cancelled ? '（已被用户停止）' : ''}`);
+    }
+    this.finish(sourceId);
+  }
+
+  /**
+   * 结束一条流式回复：没有任何输出时移除占位消息 (重新生成时恢复原来的路径)
+   */
+  finish(characterId: string): void {
+    const reply = this.active.get(characterId);
+    if (!reply) return;
+    this.active.delete(characterId);
+    const current = this.host.getMessages()[reply.index];
+    if (!current || current.content === '') {
+      if (current?.id) {
+        this.host.removeMessageNode(current.id);
+      }
+      this.host.updateMessages(prev => reply.originalPath ?? prev.filter((_, i) => i !== reply.index));
+      reply.settle(null);
+    } else {
+      reply.settle(current);
+    }
+  }
+}
+
+/**
+ * 发言调度的宿主 (聊天页面或测试场景)
+ * 每次渲染后整体替换为最新的状态和回调，运行中的修改在下一位 AI 发言时生效
+ */
+export interface TurnSchedulerHost {
+  sessionId: string;
+  aiCharacters: AICharacter[];
+  turnStrategy?: TurnStrategy;
+  selectedTargetAIIds: string[]; // 自动演出的参与者 (按勾选顺序)
+  autoPlaySettings: AutoPlaySettings;
+  getMessages: () => ChatMessage[];
+  // 让一个 AI 角色基于给定历史回复，失败、停止或没有输出时为 null
+  generateReply: (aiChar: AICharacter, history: ChatMessage[]) => Promise<ChatMessage | null>;
+  saveSession: () => void;
+  notify: (level: NotifyLevel, content: string) => void;
+  onRunningChange?: (running: boolean) => void;
+  onAutoPlayStatusChange?: (status: AutoPlayStatus) => void;
+  onAutoPlayProgress?: (progress: AutoPlayProgress) => void;
+}
+
+// 自动演出的结果
+export interface AutoPlayResult {
+  turns: number;
+  stopReason: string;
+}
+
+/**
+ * 发言流程的调度：同一时间只进行一个流程 (一轮发言、重新生成、编辑后重新生成或自动演出)
+ */
+export class TurnScheduler {
+  private isRunning = false;
+  private isStopped = false;
+  private status: AutoPlayStatus = 'idle';
+  private progress: AutoPlayProgress = { turns: 0, tokens: 0 };
+  private wake: (() => void) | null = null; // 唤醒正在等待 (间隔或暂停) 的自动演出循环
+
+  constructor(public host: TurnSchedulerHost) {}
+
+  /** 是否有发言流程正在进行 */
+  get running(): boolean {
+    return this.isRunning;
+  }
+
+  /** 当前流程是否已被停止 (不再触发后续的 AI) */
+  get stopped(): boolean {
+    return this.isStopped;
+  }
+
+  get autoPlayStatus(): AutoPlayStatus {
+    return this.status;
+  }
+
+  private setRunning(running: boolean): void {
+    this.isRunning = running;
+    this.host.onRunningChange?.(running);
+  }
+
+  private setAutoPlayStatus(status: AutoPlayStatus): void {
+    this.status = status;
+    this.host.onAutoPlayStatusChange?.(status);
+    this.wake?.();
+  }
+
+  private setProgress(progress: Partial<AutoPlayProgress>): void {
+    this.progress = { ...this.progress, ...progress };
+    this.host.onAutoPlayProgress?.(this.progress);
+  }
+
+  /**
+   * 执行一个发言流程，期间不允许开始其他流程
+   * @returns 是否执行了 (已有流程在进行时不执行)
+   */
+  async runExclusive(task: () => Promise<void>): Promise<boolean> {
+    if (this.isRunning) return false;
+    this.setRunning(true);
+    this.isStopped = false;
+    try {
+      await task();
+    } finally {
+      this.setRunning(false);
+    }
+    return true;
+  }
+
+  private candidates(targetIds: string[]): AICharacter[] {
+    return targetIds
+      .map(id => this.host.aiCharacters.find(c => c.id === id))
+      .filter((c): c is AICharacter => !!c);
+  }
+
+  /**
+   * 按会话的发言策略从目标 AI 中选出发言者，让他们依次发言，每个 AI 都能看到前一个 AI 的回复
+   * 调用 stop 后不再触发后续的 AI
+   * @returns 本轮产生的回复
+   */
+  async runTurn(targetIds: string[]): Promise<ChatMessage[]> {
+    const replies: ChatMessage[] = [];
+    const started = await this.runExclusive(async () => {
+      const speakers = await selectSpeakers({
+        strategy: this.host.turnStrategy ?? DEFAULT_TURN_STRATEGY,
+        candidates: this.candidates(targetIds),
+        history: this.host.getMessages(),
+        scope: 'turn',
+        cursor: 0,
+        sessionId: this.host.sessionId,
+      });
+      for (const aiChar of speakers) {
+        if (this.isStopped) {
+          logger.info('[对话引擎] 本轮发言已被停止。');
+          break;
+        }
+        const reply = await this.host.generateReply(aiChar, this.host.getMessages());
+        if (reply) replies.push(reply);
+        this.host.saveSession();
+      }
+    });
+    if (!started) {
+      this.host.notify('warning', '请等待当前 AI 回复完成后再发言。');
+    }
+    return replies;
+  }
+
+  /**
+   * 停止当前流程：不再触发后续的 AI (包括自动演出)；取消进行中的请求由宿主负责
+   */
+  stop(): void {
+    this.isStopped = true;
+    if (this.status !== 'idle') {
+      this.setAutoPlayStatus('idle');
+    }
+  }
+
+  /**
+   * 宿主销毁 (离开页面) 时结束自动演出
+   */
+  dispose(): void {
+    this.status = 'idle';
+    this.isStopped = true;
+    this.wake?.();
+  }
+
+  // 等待指定时间，或被暂停/恢复/停止提前唤醒
+  private waitForWake(delayMs?: number): Promise<void> {
+    return new Promise<void>(resolve => {
+      const timer = delayMs !== undefined ? setTimeout(() => this.wake?.(), delayMs) : undefined;
+      this.wake = () => {
+        clearTimeout(timer);
+        this.wake = null;
+        resolve();
+      };
+    });
+  }
+
+  /**
+   * 记录本会话消耗的 token，只在自动演出期间计入进度 (生成结束时主进程先记录用量，再发送结束块)
+   */
+  recordUsage(sessionId: string | undefined, tokens: number): void {
+    if (this.status === 'idle' || sessionId !== this.host.sessionId) return;
+    this.setProgress({ tokens: this.progress.tokens + tokens });
+  }
+
+  /**
+   * 开始自动演出：选中的 AI 按发言策略轮流发言，无需用户输入
+   * 达到最大轮数、token 预算，或回复中出现停止关键词时结束；期间仍可插入消息，由下一位发言的 AI 接着回应
+   * @returns 演出结果；未能开始时为 null
+   */
+  async startAutoPlay(): Promise<AutoPlayResult | null> {
+    if (this.isRunning) {
+      this.host.notify('warning', '请等待当前 AI 回复完成后再开始自动演出。');
+      return null;
+    }
+    if (this.host.selectedTargetAIIds.length === 0) {
+      this.host.notify('warning', '请至少选择一个 AI 角色参与自动演出！');
+      return null;
+    }
+
+    let turns = 0;
+    let stopReason = '已手动停止';
+    // 等待期间状态可能被暂停/停止改变，每次都重新读取
+    const isPaused = () => this.status === 'paused';
+    const hasEnded = () => this.status === 'idle' || this.isStopped;
+    await this.runExclusive(async () => {
+      this.setProgress({ turns: 0, tokens: 0 });
+      this.setAutoPlayStatus('running');
+      logger.info('[对话引擎] 开始自动演出:', this.host.autoPlaySettings);
+      try {
+        for (let cursor = 0; ; cursor += 1) {
+          while (isPaused()) {
+            await this.waitForWake();
+          }
+          const { autoPlaySettings: settings, selectedTargetAIIds: targetIds } = this.host;
+          if (hasEnded()) break;
+          if (turns >= settings.maxTurns) {
+            stopReason = `已达到最大轮数 (${settings.maxTurns})`;
+            break;
+          }
+          if (settings.tokenBudget && this.progress.tokens >= settings.tokenBudget) {
+            stopReason = `已用完 token 预算 (${settings.tokenBudget})`;
+            break;
+          }
+          if (targetIds.length === 0) {
+            stopReason = '没有选中的 AI 角色';
+            break;
+          }
+
+          const [aiChar] = await selectSpeakers({
+            strategy: this.host.turnStrategy ?? DEFAULT_TURN_STRATEGY,
+            candidates: this.candidates(targetIds),
+            history: this.host.getMessages(),
+            scope: 'next',
+            cursor,
+            sessionId: this.host.sessionId,
+          });
+          // 裁判判断期间可能被暂停或停止
+          while (isPaused()) {
+            await this.waitForWake();
+          }
+          if (hasEnded()) break;
+          if (!aiChar) {
+            stopReason = '没有可以发言的 AI 角色';
+            break;
+          }
+          const reply = await this.host.generateReply(aiChar, this.host.getMessages());
+          this.host.saveSession();
+          if (!reply) {
+            // 生成失败 (而不是被用户停止或暂停) 时结束，避免反复请求出错的配置
+            if (this.status === 'running' && !this.isStopped) {
+              stopReason = `${aiChar.name} 的回复失败`;
+              break;
+            }
+            continue;
+          }
+          turns += 1;
+          this.setProgress({ turns });
+
+          const stopPhrase = settings.stopPhrase?.trim();
+          if (stopPhrase && reply.content.includes(stopPhrase)) {
+            stopReason = `${aiChar.name} 的回复中出现了停止关键词「${stopPhrase}」`;
+            break;
+          }
+          if (settings.delayMs > 0 && this.status === 'running') {
+            await this.waitForWake(settings.delayMs);
+          }
+        }
+      } finally {
+        this.setAutoPlayStatus('idle');
+      }
+    });
+    logger.info(`[对话引擎] 自动演出结束: ${stopReason}，共 ${turns} 轮`);
+    this.host.notify('info', `自动演出结束：${stopReason}`);
+    return { turns, stopReason };
+  }
+
+  pauseAutoPlay(): void {
+    if (this.status === 'running') this.setAutoPlayStatus('paused');
+  }
+
+  resumeAutoPlay(): void {
+    if (this.status === 'paused') this.setAutoPlayStatus('running');
+  }
+}
@@ -0,0 +1,133 @@
+import type { AICharacter, AIConfigRef, ChatMessage, TurnStrategy, TurnStrategyType } from '../types';
+import { chatLogger as logger } from './logger';
+import { formatSpeakerLine } from './promptBuilder';
+
+/**
+ * 默认的发言策略：按勾选顺序轮流发言
+ */
+export const DEFAULT_TURN_STRATEGY: TurnStrategy = { type: 'roundRobin' };
+
+// 未设置健谈程度的角色使用的权重
+export const DEFAULT_TALKATIVENESS = 5;
+
+export const TURN_STRATEGY_OPTIONS: { value: TurnStrategyType; label: string }[] = [
+  { value: 'roundRobin', label: '按顺序轮流' },
+  { value: 'weightedRandom', label: '按健谈程度随机' },
+  { value: 'addressed', label: '被点名者接话' },
+  { value: 'llmJudge', label: 'AI 裁判决定' },
+];
+
+// 裁判阅读的近期消息条数
+const JUDGE_HISTORY_LENGTH = 12;
+
+export interface SelectSpeakersParams {
+  strategy: TurnStrategy;
+  candidates: AICharacter[]; // 可以发言的 AI 角色 (按勾选顺序)
+  history: ChatMessage[];
+  scope: 'turn' | 'next'; // turn: 一次用户发言后的整轮回复；next: 自动演出中的下一位发言者
+  cursor: number; // 自动演出中已进行的轮数，用于按顺序轮流
+  sessionId: string; // 裁判请求的用量也计入本会话
+}
+
+/**
+ * 找出消息中被点名的候选角色 (按在消息中首次出现的位置排序，不包括发言者自己)
+ */
+export function findAddressedCharacters(message: ChatMessage, candidates: AICharacter[]): AICharacter[] {
+  return candidates
+    .filter(c => c.id !== message.characterId && c.name && message.content.includes(c.name))
+    .sort((a, b) => message.content.indexOf(a.name) - message.content.indexOf(b.name));
+}
+
+/**
+ * 按健谈程度加权随机选出一位角色
+ * 有多位候选时不选刚刚发过言的角色，避免同一角色连续发言
+ */
+export function pickWeightedRandom(candidates: AICharacter[], lastSpeakerId?: string, random: () => number = Math.random): AICharacter | undefined {
+  const pool = candidates.length > 1 ? candidates.filter(c => c.id !== lastSpeakerId) : candidates;
+  const weights = pool.map(c => Math.max(c.talkativeness ?? DEFAULT_TALKATIVENESS, 0));
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  if (total <= 0) return pool[0];
+  let roll = random() * total;
+  for (let i = 0; i < pool.length; i += 1) {
+    roll -= weights[i];
+    if (roll < 0) return pool[i];
+  }
+  return pool[pool.length - 1];
+}
+
+/**
+ * 请裁判模型阅读近期对话，从候选角色中选出下一位发言者
+ * @returns 选中的角色；请求失败或回答无法识别时为 undefined
+ */
+export async function pickByJudge(judge: AIConfigRef, candidates: AICharacter[], history: ChatMessage[], sessionId: string): Promise<AICharacter | undefined> {
+  const transcript = history.slice(-JUDGE_HISTORY_LENGTH).map(formatSpeakerLine).join('\n');
+  const request = [
+    `近期对话：\n${transcript || '(尚无对话)'}`,
+    `可以发言的角色：${candidates.map(c => c.name).join('、')}`,
+    '请判断接下来最应该由哪位角色发言 (例如被提问、被点名，或最有理由回应的角色)。只输出该角色的名字，不要输出其他内容。',
+  ].join('\n\n');
+
+  try {
+    const result = await window.electronAPI.llmGenerateChat(judge.configId, {
+      model: judge.modelName,
+      messages: [{ role: 'user', content: request }],
+      systemPrompt: '你是即兴剧场的场记，负责根据剧情发展决定下一位发言的角色。',
+      maxTokens: 20,
+      stream: false,
+    }, undefined, sessionId);
+    if (!result.success || !result.data?.content) {
+      logger.warn(`[发言策略] 裁判请求失败: ${result.error || '返回空内容'}`);
+      return undefined;
+    }
+    const answer = result.data.content.trim();
+    // 优先完全匹配，其次取回答中最先出现的角色名
+    const exact = candidates.find(c => c.name === answer);
+    if (exact) return exact;
+    const mentioned = candidates
+      .filter(c => answer.includes(c.name))
+      .sort((a, b) => answer.indexOf(a.name) - answer.indexOf(b.name));
+    if (mentioned.length === 0) {
+      logger.warn(`[发言策略] 无法从裁判的回答中识别角色: ${answer}`);
+    }
+    return mentioned[0];
+  } catch (error) {
+    logger.warn('[发言策略] 裁判请求出错:', error);
+    return undefined;
+  }
+}
+
+/**
+ * 按会话的发言策略选出接下来发言的角色 (按发言顺序)
+ * 按顺序轮流时，一次用户发言后所有选中的角色依次回复；其他策略每次只选出一位 (被点名时可能有多位)。
+ * 策略无法得出结果时 (例如无人被点名、裁判请求失败) 退回为按顺序轮流。
+ */
+export async function selectSpeakers(params: SelectSpeakersParams): Promise<AICharacter[]> {
+  const { strategy, candidates, history, scope, cursor, sessionId } = params;
+  if (candidates.length === 0) return [];
+  const roundRobin = scope === 'turn' ? candidates : [candidates[cursor % candidates.length]];
+  const lastMessage = history[history.length - 1];
+  const lastSpeakerId = [...history].reverse().find(msg => msg.role === 'assistant')?.characterId;
+
+  switch (strategy.type) {
+    case 'weightedRandom': {
+      const picked = pickWeightedRandom(candidates, lastSpeakerId);
+      return picked ? [picked] : roundRobin;
+    }
+    case 'addressed': {
+      const addressed = lastMessage ? findAddressedCharacters(lastMessage, candidates) : [];
+      if (addressed.length === 0) return roundRobin;
+      return scope === 'turn' ? addressed : addressed.slice(0, 1);
+    }
+    case 'llmJudge': {
+      if (!strategy.judge?.configId || !strategy.judge.modelName) {
+        logger.warn('[发言策略] 未配置裁判模型，改为按顺序轮流。');
+        return roundRobin;
+      }
+      const picked = await pickByJudge(strategy.judge, candidates, history, sessionId);
+      return picked ? [picked] : roundRobin;
+    }
+    case 'roundRobin':
+    default:
+      return roundRobin;
+  }
+}
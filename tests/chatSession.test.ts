@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import { app } from './harness/fakeElectron';
+import { SceneHarness, invokeRaw } from './harness/sceneHarness';
+import type { ChatPageStateSnapshot } from '../src/types';
+import { butler, detective, mansionScript } from './harness/fixtures';
+
+const chatsDir = () => path.join(app.getPath('userData'), 'TheLLMAIImprovTheaterData', 'chats');
+
+describe('save-chat-session', () => {
+  it.each(['', '../escape', 'has space', 'semi;colon', 'name.json'])('拒绝不安全的会话 ID %j', async sessionId => {
+    const scene = await SceneHarness.create({ mode: 'singleUserMultiAI', script: mansionScript, characters: [detective, butler], userCharacterId: detective.id });
+    expect(await invokeRaw('save-chat-session', sessionId, scene.snapshot())).toEqual({ success: false, error: '无效的会话 ID' });
+  });
+
+  it('拒绝缺少聊天模式的数据', async () => {
+    const scene = await SceneHarness.create({ mode: 'singleUserMultiAI', script: mansionScript, characters: [detective, butler], userCharacterId: detective.id });
+    const snapshot = scene.snapshot();
+    const withoutMode = { ...snapshot, chatConfig: { ...snapshot.chatConfig, mode: undefined } };
+    expect(await invokeRaw('save-chat-session', 'valid-id', withoutMode)).toEqual({ success: false, error: '保存的数据缺少聊天模式信息' });
+    expect(await invokeRaw('save-chat-session', 'valid-id', null)).toEqual({ success: false, error: '保存的数据缺少聊天模式信息' });
+    expect(fs.existsSync(path.join(chatsDir(), 'valid-id.json'))).toBe(false);
+  });
+
+  it('保存后可以原样读回，并出现在会话列表中', async () => {
+    const scene = await SceneHarness.create({ mode: 'singleUserMultiAI', script: mansionScript, characters: [detective, butler], userCharacterId: detective.id });
+    scene.say(detective, '管家，你今晚见过主人吗？');
+    await scene.runTurn();
+    expect(await scene.save()).toEqual({ success: true });
+
+    const loaded = await invokeRaw<ChatPageStateSnapshot>('read-store', `chats/${scene.sessionId}.json`, null);
+    expect(loaded.success).toBe(true);
+    expect(loaded.data).toEqual(scene.snapshot());
+
+    const listed = await invokeRaw<string[]>('list-chat-sessions');
+    expect(listed.data).toContain(`${scene.sessionId}.json`);
+  });
+});
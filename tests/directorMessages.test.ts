@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DIRECTOR_COMMAND_ID,
+  NARRATOR_ID,
+  countRepliesSinceDirection,
+  createDirectorMessage,
+  directorMessageToLLMMessage,
+  parseDirectorAnswer,
+} from '../src/utils/aiDirector';
+import type { ChatMessage } from '../src/types';
+import { butler, detective, maid } from './harness/fixtures';
+
+const reply = (content: string): ChatMessage => ({ role: 'assistant', characterId: butler.id, characterName: butler.name, content, timestamp: 1 });
+
+describe('createDirectorMessage', () => {
+  it('导演指令以 user 身份发出，内容带有目标角色', () => {
+    const message = createDirectorMessage('command', '走到窗边', [butler.name, maid.name]);
+    expect(message).toMatchObject({ role: 'user', characterId: DIRECTOR_COMMAND_ID, characterName: '导演指令' });
+    expect(message.content).toBe('[指令 -> 管家, 女仆]: 走到窗边');
+  });
+
+  it('没有目标的指令标记为无特定目标', () => {
+    expect(createDirectorMessage('command', '所有人安静', []).content).toBe('[指令 -> 无特定目标]: 所有人安静');
+  });
+
+  it('旁白带有 "[旁白]: " 前缀', () => {
+    const message = createDirectorMessage('narration', '窗外雷声大作', [butler.name]);
+    expect(message).toMatchObject({ role: 'user', characterId: NARRATOR_ID, characterName: '旁白', content: '[旁白]: 窗外雷声大作' });
+  });
+});
+
+describe('directorMessageToLLMMessage', () => {
+  it('导演指令转换为 "[导演 -> 目标]: 指令"', () => {
+    const message = createDirectorMessage('command', '说出你看到了什么\n不要隐瞒', [maid.name]);
+    expect(directorMessageToLLMMessage(message)).toEqual({ role: 'user', content: '[导演 -> 女仆]: 说出你看到了什么\n不要隐瞒' });
+  });
+
+  it('无法解析目标的导演指令整体加上 "[导演指令]: " 前缀', () => {
+    const message: ChatMessage = { role: 'user', characterId: DIRECTOR_COMMAND_ID, characterName: '导演指令', content: '加快节奏', timestamp: 1 };
+    expect(directorMessageToLLMMessage(message)).toEqual({ role: 'user', content: '[导演指令]: 加快节奏' });
+  });
+
+  it('旁白原样作为 user 消息', () => {
+    expect(directorMessageToLLMMessage(createDirectorMessage('narration', '灯灭了', []))).toEqual({ role: 'user', content: '[旁白]: 灯灭了' });
+  });
+
+  it('AI 角色的回复不加角色名前缀', () => {
+    expect(directorMessageToLLMMessage(reply('请各位冷静。'))).toEqual({ role: 'assistant', content: '请各位冷静。' });
+  });
+
+  it('其他 user 消息使用 "角色名: 内容"', () => {
+    const message: ChatMessage = { role: 'user', characterId: detective.id, characterName: detective.name, content: '谁最后见到主人？', timestamp: 1 };
+    expect(directorMessageToLLMMessage(message)).toEqual({ role: 'user', content: '侦探: 谁最后见到主人？' });
+  });
+});
+
+describe('AI 导演', () => {
+  it('统计最近一条导演指令或旁白之后的 AI 回复条数', () => {
+    const history = [reply('一'), createDirectorMessage('narration', '钟声响起', []), reply('二'), reply('三')];
+    expect(countRepliesSinceDirection(history)).toBe(2);
+    expect(countRepliesSinceDirection(history, 3)).toBe(1);
+  });
+
+  it('解析 AI 导演的 JSON 回答，目标角色名转换为 ID', () => {
+    const answer = '好的：{"type": "command", "targets": ["女仆", "不存在的角色"], "content": "尖叫"}';
+    expect(parseDirectorAnswer(answer, [butler, maid])).toEqual({ kind: 'command', targetIds: [maid.id], content: '尖叫' });
+  });
+
+  it('无法解析的回答当作旁白，空回答返回 null', () => {
+    expect(parseDirectorAnswer(' 门被推开了 ', [butler, maid])).toEqual({ kind: 'narration', targetIds: [], content: '门被推开了' });
+    expect(parseDirectorAnswer('  ', [butler, maid])).toBeNull();
+  });
+});
@@ -0,0 +1,80 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { llmServiceManager } from '../electron/llm/LLMServiceManager';
+import { MockLLM } from '../electron/llm/Mock';
+import type { LLMChatOptions, LLMResponse } from '../electron/llm/BaseLLM';
+import type { RetryPolicy } from '../src/types';
+import { addMockConfig, invokeRaw, ipc } from './harness/sceneHarness';
+
+const request = (signal?: AbortSignal): LLMChatOptions => ({
+  model: 'mock-echo',
+  messages: [{ role: 'user', content: '有人吗？' }],
+  signal,
+});
+
+describe('LLMServiceManager 的重试与故障转移', () => {
+  afterEach(async () => {
+    await ipc<RetryPolicy>('llm-set-retry-policy', { maxAttempts: 2, initialDelayMs: 0, maxDelayMs: 0 });
+  });
+
+  it('主配置不可重试地失败后改用备用配置', async () => {
+    const primary = await addMockConfig({ errorEvery: 1, errorType: 'auth' });
+    const fallback = await addMockConfig();
+    const response = await llmServiceManager.generateWithFailover(
+      [{ configId: primary.id, modelName: 'mock-echo' }, { configId: fallback.id, modelName: 'mock-echo' }],
+      request(),
+    );
+    expect(response).toMatchObject({ content: '有人吗？', configId: fallback.id });
+  });
+
+  it('非流式请求在退避等待中被取消时立即返回，不再重试或改用备用配置', async () => {
+    await ipc<RetryPolicy>('llm-set-retry-policy', { maxAttempts: 3, initialDelayMs: 10000, maxDelayMs: 10000 });
+    const primary = await addMockConfig({ errorEvery: 1, errorType: 'server' });
+    const fallback = await addMockConfig();
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 50);
+
+    const startedAt = Date.now();
+    const response = await llmServiceManager.generateWithFailover(
+      [{ configId: primary.id, modelName: 'mock-echo' }, { configId: fallback.id, modelName: 'mock-echo' }],
+      request(controller.signal),
+    );
+    expect(Date.now() - startedAt).toBeLessThan(5000);
+    expect(response).toMatchObject({ content: '', error: '请求已被取消。', retryable: false, configId: primary.id });
+  });
+
+  it('已取消的请求不会发出', async () => {
+    const config = await addMockConfig({ responses: ['不应出现'] });
+    const controller = new AbortController();
+    controller.abort();
+    const response = await llmServiceManager.generateWithFailover([{ configId: config.id, modelName: 'mock-script' }], request(controller.signal));
+    expect(response.error).toBe('请求已被取消。');
+
+    const chunks = [];
+    for await (const chunk of llmServiceManager.generateStreamWithFailover([{ configId: config.id, modelName: 'mock-script' }], request(controller.signal))) {
+      chunks.push(chunk);
+    }
+    expect(chunks).toEqual([{ done: true, cancelled: true, configId: config.id }]);
+  });
+
+  it('llm-cancel-stream 也能取消进行中的非流式请求', async () => {
+    const config = await addMockConfig({ latencyMs: 10000 });
+    const startedAt = Date.now();
+    const pending = invokeRaw<LLMResponse>('llm-generate-chat', config.id, request(), 'judge', 'session-cancel-non-stream');
+    await new Promise(resolve => setTimeout(resolve, 30));
+    expect(await ipc<number>('llm-cancel-stream', 'session-cancel-non-stream')).toBe(1);
+
+    const response = await pending;
+    expect(Date.now() - startedAt).toBeLessThan(5000);
+    expect(response).toMatchObject({ success: false, error: '请求已被取消。', data: { cancelled: true, retryable: false } });
+    expect(await ipc<number>('llm-cancel-stream', 'session-cancel-non-stream')).toBe(0);
+  });
+});
+
+describe('模拟服务商的取消', () => {
+  it('非流式请求在模拟延迟期间被取消时不再生成回复', async () => {
+    const mock = new MockLLM({ id: 'mock-cancel', name: '模拟取消', serviceProvider: 'mock', apiKey: '', providerOptions: JSON.stringify({ latencyMs: 10000 }) });
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 30);
+    expect(await mock.generateChatCompletion(request(controller.signal))).toEqual({ content: '', error: '请求已被取消。', retryable: false });
+  });
+});
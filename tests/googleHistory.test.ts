@@ -0,0 +1,48 @@
+import { describe, expect, it, vi } from 'vitest';
+import { GoogleLLM } from '../electron/llm/Google';
+
+describe('GoogleLLM.mapMessagesToGoogleContent', () => {
+  it('assistant 转换为 model，user 保持不变', () => {
+    expect(GoogleLLM.mapMessagesToGoogleContent([
+      { role: 'user', content: '侦探: 谁在那里？' },
+      { role: 'assistant', content: '是我，管家。' },
+    ])).toEqual([
+      { role: 'user', parts: [{ text: '侦探: 谁在那里？' }] },
+      { role: 'model', parts: [{ text: '是我，管家。' }] },
+    ]);
+  });
+
+  it('连续的同角色消息合并为同一条 Content 的多个 parts', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const contents = GoogleLLM.mapMessagesToGoogleContent([
+      { role: 'user', content: '[旁白]: 灯灭了' },
+      { role: 'user', content: '[导演 -> 管家]: 点燃蜡烛' },
+      { role: 'assistant', content: '管家: 我去拿蜡烛。' },
+      { role: 'assistant', content: '女仆: 我好害怕。' },
+      { role: 'user', content: '侦探: 都别动！' },
+    ]);
+    expect(contents).toEqual([
+      { role: 'user', parts: [{ text: '[旁白]: 灯灭了' }, { text: '[导演 -> 管家]: 点燃蜡烛' }] },
+      { role: 'model', parts: [{ text: '管家: 我去拿蜡烛。' }, { text: '女仆: 我好害怕。' }] },
+      { role: 'user', parts: [{ text: '侦探: 都别动！' }] },
+    ]);
+    // 合并后 user 和 model 严格交替
+    expect(contents.map(content => content.role)).toEqual(['user', 'model', 'user']);
+    warn.mockRestore();
+  });
+
+  it('以 assistant 开头的历史保留为 model，并给出警告', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const contents = GoogleLLM.mapMessagesToGoogleContent([
+      { role: 'assistant', content: '开场白' },
+      { role: 'user', content: '你好' },
+    ]);
+    expect(contents.map(content => content.role)).toEqual(['model', 'user']);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('未以用户消息开始'));
+    warn.mockRestore();
+  });
+
+  it('空历史得到空列表', () => {
+    expect(GoogleLLM.mapMessagesToGoogleContent([])).toEqual([]);
+  });
+});
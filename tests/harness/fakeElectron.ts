@@ -0,0 +1,86 @@
+/**
+ * 测试中代替 electron 模块 (见 vitest.config.ts 中的别名)
+ * - app.getPath 指向每个测试文件独立的临时目录，主进程的存储代码读写真实文件
+ * - ipcMain 把处理程序保存在内存中，测试通过 invokeIpc 直接调用
+ * - 发送给渲染进程的消息 (例如流式数据块) 记录在 FakeWebContents 中
+ */
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+// 临时根目录由 globalSetup.ts 创建并在测试结束后删除
+const userDataDir = fs.mkdtempSync(path.join(process.env.IMPROV_THEATER_TEST_ROOT ?? os.tmpdir(), 'user-data-'));
+
+export const app = {
+  getPath: (name: string): string => (name === 'temp' ? os.tmpdir() : userDataDir),
+  getVersion: (): string => '0.0.0-test',
+  isPackaged: false,
+  on: () => app,
+  whenReady: (): Promise<void> => Promise.resolve(),
+};
+
+/**
+ * 渲染进程的替身：记录主进程发送的所有消息，并把它们转发给监听者
+ */
+export class FakeWebContents {
+  readonly sent: { channel: string; args: unknown[] }[] = [];
+  private readonly listeners = new Map<string, ((...args: unknown[]) => void)[]>();
+  private destroyed = false;
+
+  send(channel: string, ...args: unknown[]): void {
+    this.sent.push({ channel, args });
+    this.listeners.get(channel)?.forEach(listener => listener(...args));
+  }
+
+  on(channel: string, listener: (...args: unknown[]) => void): () => void {
+    this.listeners.set(channel, [...(this.listeners.get(channel) ?? []), listener]);
+    return () => this.listeners.set(channel, (this.listeners.get(channel) ?? []).filter(l => l !== listener));
+  }
+
+  isDestroyed(): boolean {
+    return this.destroyed;
+  }
+
+  destroy(): void {
+    this.destroyed = true;
+  }
+}
+
+export class BrowserWindow {
+  readonly webContents = new FakeWebContents();
+  static getAllWindows(): BrowserWindow[] {
+    return [];
+  }
+}
+
+type IpcHandler = (event: { sender: FakeWebContents }, ...args: unknown[]) => unknown;
+const handlers = new Map<string, IpcHandler>();
+
+export const ipcMain = {
+  handle: (channel: string, handler: IpcHandler): void => {
+    handlers.set(channel, handler);
+  },
+  removeHandler: (channel: string): void => {
+    handlers.delete(channel);
+  },
+  on: () => ipcMain,
+};
+
+/**
+ * 以渲染进程的身份调用已注册的 IPC 处理程序 (相当于 ipcRenderer.invoke)
+ * @param sender 作为 event.sender 的渲染进程替身
+ */
+export async function invokeIpc<T>(sender: FakeWebContents, channel: string, ...args: unknown[]): Promise<T> {
+  const handler = handlers.get(channel);
+  if (!handler) {
+    throw new Error(`IPC 处理程序 "${channel}" 未注册`);
+  }
+  return (await handler({ sender }, ...args)) as T;
+}
+
+export const dialog = {};
+export const shell = {};
+export const Menu = { setApplicationMenu: (): void => undefined };
+export const session = { defaultSession: { setProxy: (): Promise<void> => Promise.resolve() } };
+export const contextBridge = { exposeInMainWorld: (): void => undefined };
+export const ipcRenderer = {};
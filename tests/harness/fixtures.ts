@@ -0,0 +1,36 @@
+/**
+ * 测试中共用的剧本和角色
+ */
+import type { AICharacter, Script } from '../../src/types';
+
+export const detective: AICharacter = {
+  id: 'char-detective',
+  name: '侦探',
+  identity: '私家侦探',
+  personality: '冷静、多疑',
+  secrets: '曾经是嫌疑人的同伙',
+  catchphrase: '真相只有一个',
+};
+
+export const butler: AICharacter = {
+  id: 'char-butler',
+  name: '管家',
+  identity: '庄园管家',
+  personality: '沉稳、话少',
+};
+
+export const maid: AICharacter = {
+  id: 'char-maid',
+  name: '女仆',
+  identity: '新来的女仆',
+  personality: '胆小、好奇',
+  talkativeness: 8,
+};
+
+export const mansionScript: Script = {
+  id: 'script-mansion',
+  title: '庄园疑案',
+  scene: '深夜的庄园书房，主人倒在书桌旁',
+  genre: '悬疑',
+  characterIds: [detective.id, butler.id, maid.id],
+};
@@ -0,0 +1,12 @@
+/**
+ * 为整个测试运行创建一个临时根目录，各测试文件的数据目录都建在其中 (见 fakeElectron.ts)，运行结束后删除
+ */
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+export default function setup(): () => void {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'improv-theater-test-'));
+  process.env.IMPROV_THEATER_TEST_ROOT = root;
+  return () => fs.rmSync(root, { recursive: true, force: true });
+}
@@ -0,0 +1,334 @@
+/**
+ * 无界面的场景测试工具：不启动 Electron 和 React，用模拟服务商跑完整的多 AI 场景
+ * 主进程部分使用真实的 IPC 处理程序 (AI 配置、故障转移、请求日志、会话保存)，
+ * 渲染进程部分使用与 useConversationEngine 相同的发言调度 (TurnScheduler、StreamingReplies)，
+ * 生成请求按该 hook 的方式构造 (提示词模板、上下文裁剪、历史转换)。
+ */
+import { BrowserWindow, invokeIpc } from './fakeElectron';
+import { registerAllIpcHandlers } from '../../electron/ipcHandlers';
+import { initChatLogger } from '../../electron/utils/chatLoggerUtil';
+import type { LLMChatOptions, LLMResponse, StreamChunk } from '../../electron/llm/BaseLLM';
+import type { MockProviderOptions } from '../../electron/llm/Mock';
+import type {
+  AICharacter,
+  AIConfig,
+  AutoPlaySettings,
+  ChatConfig,
+  ChatMessage,
+  ChatMode,
+  ChatPageStateSnapshot,
+  LLMRequestRecord,
+  RetryPolicy,
+  Script,
+  SplitSystemPrompt,
+  TurnStrategy,
+  UsageRecord,
+} from '../../src/types';
+import { buildSessionPrompts } from '../../src/utils/promptTemplates';
+import { DEFAULT_CONTEXT_SETTINGS, fitContext } from '../../src/utils/contextBudget';
+import { resolveGenerationParams } from '../../src/utils/generationParams';
+import { addPathToTree, createEmptyTree, normalizePath, removeFromTree } from '../../src/utils/messageTree';
+import { DEFAULT_AUTO_PLAY_SETTINGS, StreamingReplies, TurnScheduler } from '../../src/utils/turnScheduler';
+import type { AutoPlayResult, NotifyLevel } from '../../src/utils/turnScheduler';
+import { toSpeakerLLMMessage } from '../../src/utils/promptBuilder';
+import { createDirectorMessage, directorMessageToLLMMessage } from '../../src/utils/aiDirector';
+
+type IpcResult<T> = { success: boolean; data?: T; error?: string };
+
+// 所有场景共用一个主窗口替身；处理程序只注册一次 (ipcMain 是模块级单例)
+const mainWindow = new BrowserWindow();
+let handlersRegistered = false;
+
+export interface SceneOptions {
+  mode: Exclude<ChatMode, 'singleUserSingleAI'>;
+  script: Script;
+  characters: AICharacter[]; // 参与的角色 (按勾选顺序)
+  userCharacterId?: string | null; // 单人多 AI 模式中用户扮演的角色
+  model?: string; // 模拟服务商的模型 (缺省 mock-echo)
+  mock?: Partial<MockProviderOptions>; // 模拟服务商的选项 (缺省无延迟)
+  streaming?: boolean; // 是否使用流式生成
+  turnStrategy?: TurnStrategy;
+}
+
+/**
+ * 一个正在进行的场景 (相当于一个打开的聊天页面)
+ */
+export class SceneHarness {
+  messages: ChatMessage[] = [];
+  readonly notices: { level: NotifyLevel; content: string }[] = []; // 页面会显示给用户的提示
+  readonly scheduler: TurnScheduler;
+  private tree = createEmptyTree();
+  private readonly prompts: Record<string, SplitSystemPrompt>;
+  private readonly streamingReplies: StreamingReplies;
+  private readonly sentOffset = mainWindow.webContents.sent.length; // 本场景创建前已发送的消息数
+  private pendingSaves: Promise<unknown>[] = [];
+
+  private constructor(
+    readonly sessionId: string,
+    readonly config: ChatConfig,
+    readonly aiCharacters: AICharacter[],
+    private readonly streaming: boolean,
+  ) {
+    this.prompts = buildSessionPrompts(config, aiCharacters);
+    const notify = (level: NotifyLevel, content: string) => {
+      this.notices.push({ level, content });
+    };
+    this.streamingReplies = new StreamingReplies({
+      getMessages: () => this.messages,
+      updateMessages: updater => this.updateMessages(updater),
+      removeMessageNode: messageId => {
+        this.tree = removeFromTree(this.tree, messageId);
+      },
+      notify,
+    });
+    this.scheduler = new TurnScheduler({
+      sessionId,
+      aiCharacters,
+      turnStrategy: config.turnStrategy,
+      selectedTargetAIIds: aiCharacters.map(c => c.id),
+      autoPlaySettings: DEFAULT_AUTO_PLAY_SETTINGS,
+      getMessages: () => this.messages,
+      generateReply: (aiChar, history) => this.generateReply(aiChar, history),
+      saveSession: () => {
+        this.pendingSaves.push(this.save());
+      },
+      notify,
+    });
+  }
+
+  /**
+   * 启动主进程部分，通过 IPC 添加一个模拟服务商的 AI 配置，并为所有 AI 角色使用该配置
+   */
+  static async create(options: SceneOptions): Promise<SceneHarness> {
+    const added = await addMockConfig(options.mock);
+    const model = options.model ?? 'mock-echo';
+    const aiCharacters = options.characters.filter(c => c.id !== options.userCharacterId);
+    const config: ChatConfig = {
+      mode: options.mode,
+      script: options.script,
+      participatingCharacters: options.characters,
+      userCharacterId: options.userCharacterId ?? null,
+      aiConfigs: Object.fromEntries(aiCharacters.map(c => [c.id, { configId: added.id, providerId: 'mock', modelName: model }])),
+      turnStrategy: options.turnStrategy,
+    };
+    const sessionId = `${options.mode === 'director' ? 'director-' : ''}${options.script.id}-${Date.now()}`;
+    return new SceneHarness(sessionId, config, aiCharacters, options.streaming ?? false);
+  }
+
+  /** 某个 AI 角色的系统提示词 (前置与后置部分) */
+  systemPrompt(characterId: string): SplitSystemPrompt {
+    return this.prompts[characterId];
+  }
+
+  // 与 useConversationEngine.updateMessages 相同：新的路径合并进消息树
+  private updateMessages(updater: (prev: ChatMessage[]) => ChatMessage[]): void {
+    this.messages = normalizePath(updater(this.messages));
+    this.tree = addPathToTree(this.tree, this.messages);
+  }
+
+  private append(message: ChatMessage): void {
+    this.updateMessages(prev => [...prev, message]);
+  }
+
+  // 等待发言过程中触发的会话保存完成
+  private async flushSaves(): Promise<void> {
+    const saves = this.pendingSaves;
+    this.pendingSaves = [];
+    await Promise.all(saves);
+  }
+
+  /** 用户扮演的角色发言 */
+  say(character: AICharacter, content: string): void {
+    this.append({ role: 'user', characterId: character.id, characterName: character.name, content, timestamp: Date.now() });
+  }
+
+  /** 导演模式：发出导演指令 */
+  direct(content: string, targets: AICharacter[]): void {
+    this.append(createDirectorMessage('command', content, targets.map(c => c.name)));
+  }
+
+  /** 导演模式：插入旁白 */
+  narrate(content: string): void {
+    this.append(createDirectorMessage('narration', content, []));
+  }
+
+  /**
+   * 按发言策略选出发言者并让他们依次回复 (TurnScheduler.runTurn)
+   * @param targetIds 本轮的回复对象，缺省为全部 AI 角色
+   * @returns 本轮产生的回复
+   */
+  async runTurn(targetIds: string[] = this.aiCharacters.map(c => c.id)): Promise<ChatMessage[]> {
+    const replies = await this.scheduler.runTurn(targetIds);
+    await this.flushSaves();
+    return replies;
+  }
+
+  /**
+   * 与聊天页面的 "全部停止" 相同：不再触发后续的 AI，并取消本会话下所有流
+   */
+  async stopAll(): Promise<void> {
+    this.scheduler.stop();
+    await ipc<number>('llm-cancel-stream', this.sessionId);
+  }
+
+  /**
+   * 自动演出 (TurnScheduler.startAutoPlay)，缺省没有间隔；期间按主进程发出的用量通知统计 token
+   */
+  async autoPlay(settings: Partial<AutoPlaySettings> = {}): Promise<AutoPlayResult | null> {
+    this.scheduler.host = { ...this.scheduler.host, autoPlaySettings: { ...DEFAULT_AUTO_PLAY_SETTINGS, delayMs: 0, ...settings } };
+    const unsubscribe = mainWindow.webContents.on('usage-recorded', payload => {
+      const record = payload as UsageRecord;
+      this.scheduler.recordUsage(record.sessionId, record.promptTokens + record.completionTokens);
+    });
+    try {
+      return await this.scheduler.startAutoPlay();
+    } finally {
+      unsubscribe();
+      await this.flushSaves();
+    }
+  }
+
+  /**
+   * 让一个 AI 角色基于给定历史回复 (与 useConversationEngine.generateReply 相同的请求构造)
+   * @returns 回复消息，生成失败、停止或没有输出时为 null
+   */
+  async generateReply(aiChar: AICharacter, history: ChatMessage[] = this.messages): Promise<ChatMessage | null> {
+    const aiConfig = this.config.aiConfigs[aiChar.id];
+    const prompt = this.prompts[aiChar.id];
+    const toLLMMessage = this.config.mode === 'director' ? directorMessageToLLMMessage : toSpeakerLLMMessage;
+    const context = await fitContext({
+      history,
+      llmMessages: history.map(toLLMMessage),
+      prePrompt: prompt.prePrompt,
+      postPrompt: prompt.postPrompt,
+      model: aiConfig.modelName,
+      settings: DEFAULT_CONTEXT_SETTINGS,
+      summarizer: { configId: aiConfig.configId, model: aiConfig.modelName, sessionId: this.sessionId },
+    });
+    const options: LLMChatOptions = {
+      model: aiConfig.modelName,
+      messages: context.messages,
+      systemPrompt: context.systemPrompt,
+      stream: this.streaming,
+      ...resolveGenerationParams(aiConfig.generationParams, this.config.generationParams),
+    };
+
+    if (this.streaming) {
+      return this.generateStream(aiChar, options);
+    }
+    const result = await invokeRaw<LLMResponse>('llm-generate-chat', aiConfig.configId, options, aiChar.id, this.sessionId, aiConfig.fallbacks ?? []);
+    if (!result.success || !result.data?.content) {
+      if (!result.data?.cancelled) {
+        this.notices.push({ level: 'error', content: `AI (${aiChar.name}) 回复失败: ${result.error || '未知错误'}` });
+      }
+      return null;
+    }
+    const data = result.data;
+    this.append({
+      role: 'assistant', characterId: aiChar.id, characterName: aiChar.name, content: data.content.trim(), timestamp: Date.now(),
+      aiConfigId: data.configId, modelUsed: data.modelUsed,
+      requestRef: data.requestId ? { sessionId: this.sessionId, requestId: data.requestId } : undefined,
+    });
+    return this.messages[this.messages.length - 1];
+  }
+
+  /**
+   * 流式生成：插入占位消息，把主进程发给渲染进程的数据块交给 StreamingReplies，直到收到结束块
+   */
+  private async generateStream(aiChar: AICharacter, options: LLMChatOptions): Promise<ChatMessage | null> {
+    const aiConfig = this.config.aiConfigs[aiChar.id];
+    const completion = this.streamingReplies.start(aiChar, this.sessionId);
+    const unsubscribe = mainWindow.webContents.on('llm-stream-chunk', payload => {
+      const { chunk, sourceId } = payload as { chunk: StreamChunk; sourceId?: string };
+      this.streamingReplies.handleChunk(sourceId, chunk);
+    });
+    try {
+      const started = await invokeRaw<never>('llm-generate-chat-stream', aiConfig.configId, options, aiChar.id, this.sessionId, aiConfig.fallbacks ?? []);
+      if (!started.success && this.streamingReplies.isActive(aiChar.id)) {
+        this.notices.push({ level: 'error', content: `启动 AI (${aiChar.name}) 流式响应失败: ${started.error || '未知错误'}` });
+        this.streamingReplies.finish(aiChar.id);
+      }
+    } finally {
+      unsubscribe();
+    }
+    return completion;
+  }
+
+  /** 本场景中主进程发给某个角色的全部流式数据块 (按发送顺序) */
+  sentStreamChunks(characterId: string): StreamChunk[] {
+    return mainWindow.webContents.sent.slice(this.sentOffset)
+      .filter(({ channel }) => channel === 'llm-stream-chunk')
+      .map(({ args }) => args[0] as { chunk: StreamChunk; sourceId?: string })
+      .filter(({ sourceId }) => sourceId === characterId)
+      .map(({ chunk }) => chunk);
+  }
+
+  /** 读取生成某条回复的请求记录 */
+  async requestRecord(message: ChatMessage): Promise<LLMRequestRecord | null> {
+    if (!message.requestRef) return null;
+    return (await ipc<LLMRequestRecord | null>('llm-get-request-record', message.requestRef.sessionId, message.requestRef.requestId)) ?? null;
+  }
+
+  /** 当前场景的会话快照 (与聊天页面保存的内容相同) */
+  snapshot(): ChatPageStateSnapshot {
+    return {
+      chatConfig: this.config,
+      messages: this.messages,
+      messageTree: this.tree,
+      inputValue: '',
+      systemPrompts: this.prompts,
+      chatSessionId: this.sessionId,
+      isStreamingEnabled: this.streaming,
+      selectedTargetAIIds: this.aiCharacters.map(c => c.id),
+    };
+  }
+
+  /** 通过 save-chat-session 保存会话 */
+  async save(): Promise<IpcResult<never>> {
+    return invokeIpc<IpcResult<never>>(mainWindow.webContents, 'save-chat-session', this.sessionId, this.snapshot());
+  }
+}
+
+/**
+ * 像应用启动一样初始化聊天日志并注册 IPC 处理程序 (只执行一次)
+ */
+export async function startMainProcess(): Promise<void> {
+  if (handlersRegistered) return;
+  handlersRegistered = true;
+  await initChatLogger();
+  registerAllIpcHandlers(() => mainWindow as unknown as Electron.BrowserWindow);
+  // 测试中不需要真实的退避等待
+  await ipc<RetryPolicy>('llm-set-retry-policy', { maxAttempts: 2, initialDelayMs: 0, maxDelayMs: 0 });
+}
+
+/**
+ * 通过 IPC 添加一个模拟服务商的 AI 配置 (缺省无延迟)
+ */
+export async function addMockConfig(mock?: Partial<MockProviderOptions>): Promise<AIConfig> {
+  await startMainProcess();
+  const mockOptions: Partial<MockProviderOptions> = { latencyMs: 0, chunkDelayMs: 0, ...mock };
+  return ipc<AIConfig>('add-ai-config', {
+    name: `模拟配置-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`,
+    serviceProvider: 'mock',
+    apiKey: '',
+    providerOptions: JSON.stringify(mockOptions),
+  });
+}
+
+/**
+ * 调用 IPC 处理程序，失败时抛出错误
+ */
+export async function ipc<T>(channel: string, ...args: unknown[]): Promise<T> {
+  const result = await invokeIpc<IpcResult<T>>(mainWindow.webContents, channel, ...args);
+  if (!result.success) {
+    throw new Error(`${channel} 失败: ${result.error ?? '未知错误'}`);
+  }
+  return result.data as T;
+}
+
+/**
+ * 以渲染进程的身份直接调用 IPC 处理程序，返回原始的 { success, data, error } 结果
+ */
+export function invokeRaw<T>(channel: string, ...args: unknown[]): Promise<IpcResult<T>> {
+  return invokeIpc<IpcResult<T>>(mainWindow.webContents, channel, ...args);
+}
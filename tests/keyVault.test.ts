@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import { app } from './harness/fakeElectron';
+import { setupKeyVault, revealAIConfig } from '../electron/storage/keyVault';
+import { getAIConfigs } from '../electron/storage/jsonStore';
+
+const storageDir = path.join(app.getPath('userData'), 'TheLLMAIImprovTheaterData');
+
+const writeJson = (relativePath: string, data: unknown) => {
+  const filePath = path.join(storageDir, relativePath);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(data, null, 2));
+  return filePath;
+};
+
+describe('密钥库', () => {
+  it('设置主密码后迁移并加密旧配置，删除明文文件，并加密备份中的明文 API Key', async () => {
+    const legacyFile = writeJson('legacy_ai_config.json', { openai: { apiKey: 'sk-legacy-0001' } });
+    const snapshotConfig = writeJson('backups/snapshots/2026-01-01T00-00-00-000Z-daily/aiConfigurations.json', {
+      kind: 'aiConfigs', version: 1, data: [{ id: 'a', name: '快照中的配置', serviceProvider: 'openai', apiKey: 'sk-snapshot-0002' }],
+    });
+    const snapshotLegacy = writeJson('backups/snapshots/2026-01-01T00-00-00-000Z-daily/legacy_ai_config.json', { google: { apiKey: 'sk-legacy-0003' } });
+    const migrationBackup = writeJson('backups/migrations/aiConfigurations.v0.1767225600000.json', [
+      { id: 'b', name: '迁移前的配置', serviceProvider: 'google', apiKey: 'sk-migration-0004' },
+    ]);
+    const unrelated = writeJson('backups/snapshots/2026-01-01T00-00-00-000Z-daily/characters/c.json', { apiKey: 'not-a-config' });
+
+    await setupKeyVault('主密码');
+
+    expect(fs.existsSync(legacyFile)).toBe(false);
+    const [config] = await getAIConfigs();
+    expect(config.apiKey.startsWith('enc:v1:')).toBe(true);
+    expect(revealAIConfig(config).apiKey).toBe('sk-legacy-0001');
+
+    for (const file of [snapshotConfig, snapshotLegacy, migrationBackup]) {
+      const content = fs.readFileSync(file, 'utf8');
+      expect(content).not.toMatch(/sk-(snapshot|legacy|migration)/);
+      expect(content).toContain('enc:v1:');
+    }
+    const [backedUp] = JSON.parse(fs.readFileSync(migrationBackup, 'utf8')) as { apiKey: string; name: string }[];
+    expect(backedUp.name).toBe('迁移前的配置');
+    expect(revealAIConfig({ ...config, apiKey: backedUp.apiKey }).apiKey).toBe('sk-migration-0004');
+    expect(JSON.parse(fs.readFileSync(unrelated, 'utf8'))).toEqual({ apiKey: 'not-a-config' });
+  });
+});
@@ -0,0 +1,66 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { OpenAICompatibleLLM } from '../electron/llm/OpenAICompatible';
+import type { AIConfig } from '../src/types';
+
+// 本地模拟的兼容接口服务，记录收到的请求
+const requests: { url?: string; authorization?: string; body?: Record<string, unknown> }[] = [];
+let server: http.Server;
+let baseURL = '';
+
+const config = (overrides: Partial<AIConfig> = {}): AIConfig => ({
+  id: 'compat', name: '本地兼容接口', serviceProvider: 'openai-compatible', apiKey: '', baseURL, ...overrides,
+});
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => { raw += chunk; });
+    req.on('end', () => {
+      requests.push({ url: req.url, authorization: req.headers.authorization, body: raw ? JSON.parse(raw) : undefined });
+      res.setHeader('Content-Type', 'application/json');
+      if (req.url === '/v1/models') {
+        res.end(JSON.stringify({ object: 'list', data: [{ id: 'qwen2', object: 'model' }, { id: 'llama3', object: 'model' }] }));
+        return;
+      }
+      res.end(JSON.stringify({
+        id: 'chatcmpl-1', object: 'chat.completion', created: 0, model: 'llama3:8b',
+        choices: [{ index: 0, message: { role: 'assistant', content: '晚上好。' }, finish_reason: 'stop' }],
+        usage: { prompt_tokens: 5, completion_tokens: 3, total_tokens: 8 },
+      }));
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+describe('OpenAICompatibleLLM', () => {
+  it('未配置 Base URL 时不创建客户端，请求返回错误', async () => {
+    const llm = new OpenAICompatibleLLM(config({ baseURL: undefined }));
+    expect(await llm.discoverModels()).toEqual([]);
+    expect(await llm.generateChatCompletion({ model: 'llama3', messages: [] })).toEqual({ content: '', error: 'OpenAI 兼容接口未配置 Base URL 或客户端初始化失败' });
+  });
+
+  it('通过 /models 发现模型，未配置 API Key 时不发送 Authorization 请求头', async () => {
+    const llm = new OpenAICompatibleLLM(config());
+    expect(await llm.discoverModels()).toEqual(['llama3', 'qwen2']);
+    expect(requests.at(-1)).toMatchObject({ url: '/v1/models', authorization: undefined });
+  });
+
+  it('沿用 OpenAILLM 的请求处理，停止序列不按 OpenAI 的上限截取', async () => {
+    const llm = new OpenAICompatibleLLM(config({ apiKey: 'sk-local' }));
+    const stopSequences = ['一', '二', '三', '四', '五'];
+    const response = await llm.generateChatCompletion({ model: 'llama3', messages: [{ role: 'user', content: '你好' }], systemPrompt: '你是管家。', stopSequences });
+    expect(response).toMatchObject({ content: '晚上好。', modelUsed: 'llama3:8b', finishReason: 'stop', usage: { totalTokens: 8 } });
+    expect(requests.at(-1)).toMatchObject({
+      url: '/v1/chat/completions',
+      authorization: 'Bearer sk-local',
+      body: { stop: stopSequences, messages: [{ role: 'system', content: '你是管家。' }, { role: 'user', content: '你好' }] },
+    });
+  });
+});
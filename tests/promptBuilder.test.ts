@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { formatCharacterDetails, formatScriptSettings, formatSpeakerLine, toSpeakerLLMMessage } from '../src/utils/promptBuilder';
+import { buildSessionPrompts } from '../src/utils/promptTemplates';
+import type { ChatConfig, ChatMessage } from '../src/types';
+import { butler, detective, maid, mansionScript } from './harness/fixtures';
+
+describe('formatCharacterDetails', () => {
+  it('按字段顺序输出缩进的 "标签: 内容"，忽略空字段', () => {
+    expect(formatCharacterDetails(detective, false)).toBe([
+      '  姓名: 侦探',
+      '  身份: 私家侦探',
+      '  性格: 冷静、多疑',
+      '  秘密: 曾经是嫌疑人的同伙',
+      '  口头禅: 真相只有一个',
+    ].join('\n'));
+  });
+
+  it('hideSecrets 时不输出秘密', () => {
+    const details = formatCharacterDetails(detective, true);
+    expect(details).not.toContain('秘密');
+    expect(details).toContain('  口头禅: 真相只有一个');
+  });
+
+  it('去掉内容首尾的空白，只有空白的字段视为空', () => {
+    const details = formatCharacterDetails({ ...butler, background: '   ', goals: '  守住庄园的秘密 ' }, false);
+    expect(details).not.toContain('背景故事');
+    expect(details).toContain('  目标/动机: 守住庄园的秘密');
+  });
+
+  it('数字字段按字符串输出，不在标签表中的字段不输出', () => {
+    const details = formatCharacterDetails({ ...maid, age: '19' }, false);
+    expect(details).toContain('  年龄: 19');
+    expect(details).not.toContain('8'); // talkativeness 不属于提示词字段
+  });
+});
+
+describe('formatScriptSettings', () => {
+  it('输出非空的剧本字段，标签数组以逗号连接', () => {
+    expect(formatScriptSettings({ ...mansionScript, tags: ['推理', '古典'], themes: '' })).toBe([
+      '剧本名字: 庄园疑案',
+      '场景描述: 深夜的庄园书房，主人倒在书桌旁',
+      '类型/题材: 悬疑',
+      '标签: 推理, 古典',
+    ].join('\n'));
+  });
+});
+
+describe('历史消息的默认格式', () => {
+  const message: ChatMessage = { role: 'assistant', characterId: butler.id, characterName: butler.name, content: '老爷一直在书房。', timestamp: 1 };
+
+  it('以 "角色名: 内容" 呈现消息', () => {
+    expect(formatSpeakerLine(message)).toBe('管家: 老爷一直在书房。');
+  });
+
+  it('保留 user / assistant 角色', () => {
+    expect(toSpeakerLLMMessage(message)).toEqual({ role: 'assistant', content: '管家: 老爷一直在书房。' });
+    expect(toSpeakerLLMMessage({ ...message, role: 'user' }).role).toBe('user');
+  });
+});
+
+describe('buildSessionPrompts', () => {
+  const config: ChatConfig = {
+    mode: 'director',
+    script: mansionScript,
+    participatingCharacters: [detective, butler, maid],
+    userCharacterId: null,
+    aiConfigs: {},
+  };
+
+  it('每个 AI 角色的提示词包含自己的秘密，不包含其他角色的秘密', () => {
+    const prompts = buildSessionPrompts(config, [detective, butler]);
+    expect(Object.keys(prompts)).toEqual([detective.id, butler.id]);
+    expect(prompts[detective.id].prePrompt).toContain('  秘密: 曾经是嫌疑人的同伙');
+    expect(prompts[butler.id].prePrompt).toContain('庄园疑案');
+    expect(prompts[butler.id].prePrompt).toContain('- 侦探 (身份: 私家侦探)');
+    expect(prompts[butler.id].prePrompt).not.toContain('曾经是嫌疑人的同伙');
+    expect(prompts[butler.id].postPrompt).toContain('**管家**');
+  });
+
+  it('使用会话选择的模板', () => {
+    const promptTemplate = { id: 'custom', name: '自定义', mode: 'director' as const, prePrompt: '你是{{character.name}}，身处{{script.title}}', postPrompt: '' };
+    const prompts = buildSessionPrompts({ ...config, promptTemplate }, [maid]);
+    expect(prompts[maid.id]).toEqual({ prePrompt: '你是女仆，身处庄园疑案', postPrompt: '' });
+  });
+});
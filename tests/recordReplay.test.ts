@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { llmServiceManager } from '../electron/llm/LLMServiceManager';
+import type { LLMChatOptions, LLMResponse, StreamChunk } from '../electron/llm/BaseLLM';
+import type { RecordReplayOptions } from '../electron/llm/RecordReplay';
+import type { AIConfig } from '../src/types';
+import { addMockConfig, invokeRaw, ipc } from './harness/sceneHarness';
+
+const addRecordReplayConfig = (options: Partial<RecordReplayOptions>) => ipc<AIConfig>('add-ai-config', {
+  name: `录制回放-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`,
+  serviceProvider: 'record-replay',
+  apiKey: '',
+  providerOptions: JSON.stringify(options),
+});
+
+const request = (content: string, model: string): LLMChatOptions => ({
+  model,
+  messages: [{ role: 'user', content }],
+  systemPrompt: '你是庄园的管家。',
+});
+
+const collect = async (configId: string, options: LLMChatOptions): Promise<StreamChunk[]> => {
+  const chunks: StreamChunk[] = [];
+  for await (const chunk of llmServiceManager.generateStreamWithFailover([{ configId, modelName: options.model }], { ...options, stream: true })) {
+    chunks.push(chunk);
+  }
+  return chunks;
+};
+
+describe('录制 / 回放服务商', () => {
+  it('录制上游的回复后，回放模式不访问上游也得到同样的回复', async () => {
+    const cassetteDir = fs.mkdtempSync(path.join(process.env.IMPROV_THEATER_TEST_ROOT ?? os.tmpdir(), 'cassette-'));
+    // mock-script 每次请求返回下一句，回放得到的仍是录制时的那一句
+    const upstream = await addMockConfig({ responses: ['录制时的回复', '上游的第二句'] });
+    const recorder = await addRecordReplayConfig({ mode: 'record', upstream: upstream.id, cassetteDir });
+    const replayer = await addRecordReplayConfig({ mode: 'replay', cassetteDir });
+
+    const recorded = await ipc<LLMResponse>('llm-generate-chat', recorder.id, request('晚餐准备好了吗？', 'mock-script'));
+    expect(recorded.content).toBe('录制时的回复');
+    expect(fs.readdirSync(cassetteDir)).toHaveLength(1);
+
+    const replayed = await ipc<LLMResponse>('llm-generate-chat', replayer.id, request('晚餐准备好了吗？', 'mock-script'));
+    expect(replayed).toMatchObject({ content: '录制时的回复', modelUsed: 'mock-script', usage: recorded.usage });
+
+    const miss = await invokeRaw<LLMResponse>('llm-generate-chat', replayer.id, request('客人到了吗？', 'mock-script'));
+    expect(miss.success).toBe(false);
+    expect(miss.error).toContain('回放未命中');
+  });
+
+  it('流式回放按录制的数据块输出', async () => {
+    const cassetteDir = fs.mkdtempSync(path.join(process.env.IMPROV_THEATER_TEST_ROOT ?? os.tmpdir(), 'cassette-'));
+    const upstream = await addMockConfig({ loremWords: 12, chunkSize: 5 });
+    const recorder = await addRecordReplayConfig({ mode: 'auto', upstream: upstream.id, cassetteDir });
+    const replayer = await addRecordReplayConfig({ mode: 'replay', cassetteDir });
+
+    const recorded = await collect(recorder.id, request('说点什么。', 'mock-lorem'));
+    const replayed = await collect(replayer.id, request('说点什么。', 'mock-lorem'));
+    const texts = (chunks: StreamChunk[]) => chunks.filter(chunk => chunk.text).map(chunk => chunk.text);
+    expect(texts(recorded).length).toBeGreaterThan(1);
+    expect(texts(replayed)).toEqual(texts(recorded));
+    expect(replayed.at(-1)).toMatchObject({ done: true, finishReason: 'stop', configId: replayer.id });
+  });
+});
@@ -0,0 +1,158 @@
+import { describe, expect, it } from 'vitest';
+import { SceneHarness, ipc } from './harness/sceneHarness';
+import type { LLMRequestRecord, UsageSummary } from '../src/types';
+import { butler, detective, maid, mansionScript } from './harness/fixtures';
+
+describe('多 AI 场景 (单人多 AI)', () => {
+  it('一轮中 AI 按顺序依次回复，每位 AI 都能看到前一位 AI 的回复', async () => {
+    const scene = await SceneHarness.create({
+      mode: 'singleUserMultiAI', script: mansionScript, characters: [detective, butler, maid], userCharacterId: detective.id,
+    });
+    scene.say(detective, '主人是什么时候倒下的？');
+    const replies = await scene.runTurn();
+
+    // mock-echo 回显最后一条消息：管家回显侦探的提问，女仆回显管家的回复
+    expect(replies.map(reply => reply.characterId)).toEqual([butler.id, maid.id]);
+    expect(replies[0].content).toBe('侦探: 主人是什么时候倒下的？');
+    expect(replies[1].content).toBe('管家: 侦探: 主人是什么时候倒下的？');
+
+    const butlerRequest = await scene.requestRecord(replies[0]);
+    const maidRequest = await scene.requestRecord(replies[1]);
+    expect(butlerRequest?.messages).toEqual([{ role: 'user', content: '侦探: 主人是什么时候倒下的？' }]);
+    expect(maidRequest?.messages).toEqual([
+      { role: 'user', content: '侦探: 主人是什么时候倒下的？' },
+      { role: 'assistant', content: '管家: 侦探: 主人是什么时候倒下的？' },
+    ]);
+    expect(maidRequest?.systemPrompt).toContain('**女仆**');
+    expect(maidRequest).toMatchObject({ sessionId: scene.sessionId, characterId: maid.id, providerId: 'mock', model: 'mock-echo', streaming: false });
+  });
+
+  it('只选中部分 AI 时只有它们回复，按选中的顺序', async () => {
+    const scene = await SceneHarness.create({
+      mode: 'singleUserMultiAI', script: mansionScript, characters: [detective, butler, maid], userCharacterId: detective.id, model: 'mock-script',
+      mock: { responses: ['第一句', '第二句', '第三句'] },
+    });
+    scene.say(detective, '你们两个谁先说？');
+    const replies = await scene.runTurn([maid.id, butler.id]);
+    expect(replies.map(reply => [reply.characterName, reply.content])).toEqual([['女仆', '第一句'], ['管家', '第二句']]);
+  });
+
+  it('被点名策略下只有被点名的角色接话', async () => {
+    const scene = await SceneHarness.create({
+      mode: 'singleUserMultiAI', script: mansionScript, characters: [detective, butler, maid], userCharacterId: detective.id,
+      turnStrategy: { type: 'addressed' },
+    });
+    scene.say(detective, '女仆，你听到什么声音了吗？');
+    const replies = await scene.runTurn();
+    expect(replies.map(reply => reply.characterId)).toEqual([maid.id]);
+  });
+
+  it('流式生成得到与非流式相同的回复，并带有请求记录', async () => {
+    const scene = await SceneHarness.create({
+      mode: 'singleUserMultiAI', script: mansionScript, characters: [detective, butler, maid], userCharacterId: detective.id,
+      streaming: true, model: 'mock-lorem', mock: { chunkSize: 5, loremWords: 12 },
+    });
+    scene.say(detective, '说说你们今晚都做了什么。');
+    const replies = await scene.runTurn();
+    expect(replies).toHaveLength(2);
+    expect(replies[0].content.split(' ')).toHaveLength(12);
+    expect(replies[0].content).not.toBe(replies[1].content); // 女仆的请求包含管家的回复，得到不同的文本
+
+    const record = await scene.requestRecord(replies[1]);
+    expect(record?.streaming).toBe(true);
+    expect(record?.finishReason).toBe('stop');
+    expect(record?.messages).toHaveLength(2);
+  });
+
+  it('服务出错时重试后仍然得到回复，注入的不可重试错误使该角色不回复', async () => {
+    const retrying = await SceneHarness.create({
+      mode: 'singleUserMultiAI', script: mansionScript, characters: [detective, butler], userCharacterId: detective.id,
+      mock: { errorEvery: 2, errorType: 'server' },
+    });
+    retrying.say(detective, '第一问');
+    await retrying.runTurn();
+    retrying.say(detective, '第二问');
+    // 第二次请求注入服务端错误，重试 (第三次请求) 成功
+    expect((await retrying.runTurn()).map(reply => reply.content)).toEqual(['侦探: 第二问']);
+
+    const failing = await SceneHarness.create({
+      mode: 'singleUserMultiAI', script: mansionScript, characters: [detective, butler], userCharacterId: detective.id,
+      mock: { errorEvery: 1, errorType: 'auth' },
+    });
+    failing.say(detective, '有人吗？');
+    expect(await failing.runTurn()).toEqual([]);
+    expect(failing.messages).toHaveLength(1);
+  });
+
+  it('流式请求出错时只发送一个带请求记录的结束块，且不记录用量', async () => {
+    const scene = await SceneHarness.create({
+      mode: 'singleUserMultiAI', script: mansionScript, characters: [detective, butler], userCharacterId: detective.id,
+      streaming: true, mock: { errorEvery: 1, errorType: 'auth', errorAfterChunks: 1, chunkSize: 2 },
+    });
+    scene.say(detective, '有人吗？');
+    // 出错前已输出的部分保留在回复中，并引用出错请求的记录
+    const [partial] = await scene.runTurn();
+    expect(partial.content).toBe('侦探');
+    expect(scene.notices).toEqual([{ level: 'error', content: expect.stringContaining('AI (管家) 流式响应出错: 401') }]);
+
+    const chunks = scene.sentStreamChunks(butler.id);
+    const terminal = chunks.filter(chunk => chunk.done);
+    expect(terminal).toHaveLength(1);
+    expect(chunks[chunks.length - 1]).toBe(terminal[0]);
+    expect(terminal[0].error).toContain('401');
+    expect(terminal[0].requestId).toBeTruthy();
+    expect(partial.requestRef).toEqual({ sessionId: scene.sessionId, requestId: terminal[0].requestId });
+
+    const record = await ipc<LLMRequestRecord | null>('llm-get-request-record', scene.sessionId, terminal[0].requestId);
+    expect(record?.error).toContain('401');
+    expect(await ipc<UsageSummary>('usage-get-session-summary', scene.sessionId)).toMatchObject({ requests: 0, totalTokens: 0 });
+  });
+});
+
+describe('多 AI 场景 (导演模式)', () => {
+  it('导演指令和旁白以各自的前缀发送给模型，AI 回复不加前缀', async () => {
+    const scene = await SceneHarness.create({
+      mode: 'director', script: mansionScript, characters: [detective, butler, maid], model: 'mock-script',
+      mock: { responses: ['我马上去。', '外面有脚步声！', '都不许动。'] },
+    });
+    scene.narrate('午夜的钟声响起');
+    scene.direct('去查看窗户', [butler]);
+    const replies = await scene.runTurn();
+    expect(replies.map(reply => [reply.characterName, reply.content])).toEqual([
+      ['侦探', '我马上去。'],
+      ['管家', '外面有脚步声！'],
+      ['女仆', '都不许动。'],
+    ]);
+
+    const maidRequest = await scene.requestRecord(replies[2]);
+    expect(maidRequest?.messages).toEqual([
+      { role: 'user', content: '[旁白]: 午夜的钟声响起' },
+      { role: 'user', content: '[导演 -> 管家]: 去查看窗户' },
+      { role: 'assistant', content: '我马上去。' },
+      { role: 'assistant', content: '外面有脚步声！' },
+    ]);
+    expect(maidRequest?.systemPrompt).toContain('[导演 -> 目标角色]');
+  });
+
+  it('规则匹配最后一条消息，让指定角色回应导演指令', async () => {
+    const scene = await SceneHarness.create({
+      mode: 'director', script: mansionScript, characters: [butler, maid],
+      mock: { rules: [{ match: '^\\[导演 -> 女仆\\]', reply: '是，导演。' }] },
+    });
+    scene.direct('向侦探行礼', [maid]);
+    const [reply] = await scene.runTurn([maid.id]);
+    expect(reply.content).toBe('是，导演。');
+  });
+
+  it('整场演出保存后可以恢复出同样的消息和分支树', async () => {
+    const scene = await SceneHarness.create({ mode: 'director', script: mansionScript, characters: [butler, maid], model: 'mock-lorem', mock: { loremWords: 6 } });
+    scene.narrate('雨越下越大');
+    await scene.runTurn();
+    scene.direct('互相指责', [butler, maid]);
+    await scene.runTurn();
+    expect(scene.messages).toHaveLength(6);
+    expect(new Set(scene.messages.map(message => message.id)).size).toBe(6);
+    expect(scene.messages.every((message, index) => index === 0 || message.parentId === scene.messages[index - 1].id)).toBe(true);
+    expect(await scene.save()).toEqual({ success: true });
+  });
+});
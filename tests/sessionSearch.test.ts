@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import { app } from './harness/fakeElectron';
+import { SceneHarness, ipc } from './harness/sceneHarness';
+import type { SessionSearchResult } from '../src/types';
+import { butler, detective, maid, mansionScript } from './harness/fixtures';
+
+const chatFile = (sessionId: string) => path.join(app.getPath('userData'), 'TheLLMAIImprovTheaterData', 'chats', `${sessionId}.json`);
+
+describe('search-chat-sessions', () => {
+  it('按索引记录筛选，并在消息内容中查找文本', async () => {
+    const director = await SceneHarness.create({ mode: 'director', script: mansionScript, characters: [butler, maid] });
+    director.narrate('书房的门从里面反锁了');
+    await director.save();
+    const multi = await SceneHarness.create({
+      mode: 'singleUserMultiAI', script: { ...mansionScript, id: 'script-other' }, characters: [detective, butler], userCharacterId: detective.id,
+    });
+    multi.say(detective, '门是从里面反锁的吗？');
+    await multi.save();
+
+    const all = await ipc<SessionSearchResult[]>('search-chat-sessions', { text: '反锁' });
+    expect(all.map(result => result.entry.sessionId)).toEqual(expect.arrayContaining([director.sessionId, multi.sessionId]));
+
+    const byMode = await ipc<SessionSearchResult[]>('search-chat-sessions', { text: '反锁', mode: 'director' });
+    expect(byMode.map(result => result.entry.sessionId)).toContain(director.sessionId);
+    expect(byMode.map(result => result.entry.sessionId)).not.toContain(multi.sessionId);
+
+    const byCharacter = await ipc<SessionSearchResult[]>('search-chat-sessions', { characterId: detective.id, scriptId: 'script-other' });
+    expect(byCharacter.map(result => result.entry.sessionId)).toEqual([multi.sessionId]);
+    expect(byCharacter[0].entry.branchCount).toBe(1);
+
+    const [hit] = (await ipc<SessionSearchResult[]>('search-chat-sessions', { text: '反锁', scriptId: 'script-other' }))[0].hits;
+    expect(hit).toMatchObject({ messageIndex: 0, characterName: '侦探', snippet: '门是从里面反锁的吗？' });
+  });
+
+  it('已保存过的会话直接使用缓存的消息，不再读取会话文件', async () => {
+    const scene = await SceneHarness.create({ mode: 'director', script: mansionScript, characters: [butler, maid] });
+    scene.narrate('壁炉里藏着一封烧了一半的信');
+    await scene.save();
+    fs.writeFileSync(chatFile(scene.sessionId), '不是 JSON');
+
+    const results = await ipc<SessionSearchResult[]>('search-chat-sessions', { text: '烧了一半' });
+    expect(results.map(result => result.entry.sessionId)).toEqual([scene.sessionId]);
+  });
+});
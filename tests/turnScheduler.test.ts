@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { SceneHarness } from './harness/sceneHarness';
+import { butler, detective, maid, mansionScript } from './harness/fixtures';
+
+const multiAIScene = (options: Partial<Parameters<typeof SceneHarness.create>[0]> = {}) => SceneHarness.create({
+  mode: 'singleUserMultiAI', script: mansionScript, characters: [detective, butler, maid], userCharacterId: detective.id, ...options,
+});
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('TurnScheduler 的一轮发言', () => {
+  it('上一轮尚未结束时不开始新的一轮，并提示用户等待', async () => {
+    const scene = await multiAIScene({ mock: { latencyMs: 20 } });
+    scene.say(detective, '都过来一下。');
+    const first = scene.runTurn();
+    expect(scene.scheduler.running).toBe(true);
+    expect(await scene.runTurn([maid.id])).toEqual([]);
+    expect(scene.notices).toEqual([{ level: 'warning', content: '请等待当前 AI 回复完成后再发言。' }]);
+
+    expect((await first).map(reply => reply.characterId)).toEqual([butler.id, maid.id]);
+    expect(scene.scheduler.running).toBe(false);
+  });
+
+  it('全部停止后取消正在输出的回复 (保留已输出的部分)，本轮后续的 AI 不再发言', async () => {
+    const scene = await multiAIScene({ streaming: true, model: 'mock-lorem', mock: { loremWords: 40, chunkSize: 4, chunkDelayMs: 30 } });
+    scene.say(detective, '说说你们今晚都做了什么。');
+    const turn = scene.runTurn();
+    await sleep(80);
+    await scene.stopAll();
+
+    const replies = await turn;
+    expect(replies.map(reply => reply.characterId)).toEqual([butler.id]);
+    expect(replies[0].content).not.toBe('');
+    expect(replies[0].content.split(' ').length).toBeLessThan(40);
+    expect(scene.sentStreamChunks(butler.id).at(-1)).toMatchObject({ done: true, cancelled: true });
+    expect(scene.sentStreamChunks(maid.id)).toEqual([]);
+    expect(scene.scheduler.stopped).toBe(true);
+  });
+
+  it('全部停止也会取消进行中的非流式回复，且不提示回复失败', async () => {
+    const scene = await multiAIScene({ mock: { latencyMs: 10000 } });
+    scene.say(detective, '说说你们今晚都做了什么。');
+    const turn = scene.runTurn();
+    await sleep(30);
+    await scene.stopAll();
+
+    expect(await turn).toEqual([]);
+    expect(scene.messages).toHaveLength(1);
+    expect(scene.notices).toEqual([]);
+  });
+
+  it('流式回复没有任何输出就出错时移除占位消息 (包括消息树中的节点)', async () => {
+    const scene = await multiAIScene({ streaming: true, mock: { errorEvery: 1, errorType: 'auth' } });
+    scene.say(detective, '有人吗？');
+    expect(await scene.runTurn([butler.id])).toEqual([]);
+    expect(scene.messages).toHaveLength(1);
+    expect(Object.keys(scene.snapshot().messageTree?.nodes ?? {})).toEqual([scene.messages[0].id]);
+  });
+});
+
+describe('TurnScheduler 的自动演出', () => {
+  it('按顺序轮流发言，达到最大轮数时结束', async () => {
+    const scene = await SceneHarness.create({ mode: 'director', script: mansionScript, characters: [butler, maid], model: 'mock-script', mock: { responses: ['一', '二', '三', '四'] } });
+    scene.narrate('灯灭了');
+    expect(await scene.autoPlay({ maxTurns: 3 })).toEqual({ turns: 3, stopReason: '已达到最大轮数 (3)' });
+    expect(scene.messages.slice(1).map(reply => [reply.characterName, reply.content])).toEqual([['管家', '一'], ['女仆', '二'], ['管家', '三']]);
+    expect(scene.scheduler.autoPlayStatus).toBe('idle');
+    expect(scene.notices.at(-1)).toEqual({ level: 'info', content: '自动演出结束：已达到最大轮数 (3)' });
+  });
+
+  it('回复中出现停止关键词或用完 token 预算时结束', async () => {
+    const scripted = await SceneHarness.create({ mode: 'director', script: mansionScript, characters: [butler, maid], model: 'mock-script', mock: { responses: ['开始吧。', '今天就到这里。', '不应出现'] } });
+    expect(await scripted.autoPlay({ stopPhrase: '就到这里' })).toEqual({ turns: 2, stopReason: '女仆 的回复中出现了停止关键词「就到这里」' });
+
+    const budgeted = await SceneHarness.create({ mode: 'director', script: mansionScript, characters: [butler, maid] });
+    budgeted.narrate('雨越下越大');
+    expect(await budgeted.autoPlay({ tokenBudget: 1 })).toEqual({ turns: 1, stopReason: '已用完 token 预算 (1)' });
+  });
+
+  it('回复失败时结束，避免反复请求出错的配置', async () => {
+    const scene = await SceneHarness.create({ mode: 'director', script: mansionScript, characters: [butler, maid], mock: { errorEvery: 1, errorType: 'auth' } });
+    scene.narrate('门铃响了');
+    expect(await scene.autoPlay()).toEqual({ turns: 0, stopReason: '管家 的回复失败' });
+  });
+
+  it('暂停期间不再发言，恢复后继续', async () => {
+    const scene = await SceneHarness.create({ mode: 'director', script: mansionScript, characters: [butler, maid] });
+    scene.narrate('钟声响起');
+    const playing = scene.autoPlay({ maxTurns: 2 });
+    scene.scheduler.pauseAutoPlay();
+    await sleep(50);
+    expect(scene.scheduler.autoPlayStatus).toBe('paused');
+    expect(scene.messages).toHaveLength(1);
+
+    scene.scheduler.resumeAutoPlay();
+    expect(await playing).toEqual({ turns: 2, stopReason: '已达到最大轮数 (2)' });
+  });
+});
@@ -0,0 +1,117 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { findAddressedCharacters, pickWeightedRandom, selectSpeakers } from '../src/utils/turnStrategy';
+import type { SelectSpeakersParams } from '../src/utils/turnStrategy';
+import type { AICharacter, ChatMessage } from '../src/types';
+import { butler, detective, maid } from './harness/fixtures';
+
+const candidates = [butler, maid, detective];
+
+const message = (speaker: AICharacter, content: string, role: ChatMessage['role'] = 'assistant'): ChatMessage => ({
+  role, characterId: speaker.id, characterName: speaker.name, content, timestamp: 1,
+});
+
+const params = (overrides: Partial<SelectSpeakersParams>): SelectSpeakersParams => ({
+  strategy: { type: 'roundRobin' },
+  candidates,
+  history: [],
+  scope: 'turn',
+  cursor: 0,
+  sessionId: 'test-session',
+  ...overrides,
+});
+
+describe('selectSpeakers', () => {
+  it('按顺序轮流时，一整轮由所有候选角色按勾选顺序依次回复', async () => {
+    expect(await selectSpeakers(params({}))).toEqual([butler, maid, detective]);
+  });
+
+  it('自动演出时按轮数循环选出下一位', async () => {
+    const picks = [];
+    for (let cursor = 0; cursor < 4; cursor += 1) {
+      picks.push((await selectSpeakers(params({ scope: 'next', cursor })))[0].id);
+    }
+    expect(picks).toEqual([butler.id, maid.id, detective.id, butler.id]);
+  });
+
+  it('没有候选角色时不选人', async () => {
+    expect(await selectSpeakers(params({ candidates: [] }))).toEqual([]);
+  });
+
+  it('被点名者按点名顺序接话，自动演出时只取第一位', async () => {
+    const history = [message(detective, '女仆，你和管家昨晚在哪里？', 'user')];
+    expect(await selectSpeakers(params({ strategy: { type: 'addressed' }, history }))).toEqual([maid, butler]);
+    expect(await selectSpeakers(params({ strategy: { type: 'addressed' }, history, scope: 'next' }))).toEqual([maid]);
+  });
+
+  it('无人被点名时退回为按顺序轮流', async () => {
+    const history = [message(detective, '大家都冷静一下。', 'user')];
+    expect(await selectSpeakers(params({ strategy: { type: 'addressed' }, history }))).toEqual(candidates);
+  });
+
+  it('按健谈程度随机时只选出一位，且不是刚发过言的角色', async () => {
+    const history = [message(butler, '请随我来。')];
+    for (let i = 0; i < 20; i += 1) {
+      const speakers = await selectSpeakers(params({ strategy: { type: 'weightedRandom' }, history }));
+      expect(speakers).toHaveLength(1);
+      expect(speakers[0].id).not.toBe(butler.id);
+    }
+  });
+});
+
+describe('findAddressedCharacters', () => {
+  it('不包括发言者自己', () => {
+    expect(findAddressedCharacters(message(butler, '我是管家，女仆刚来。'), candidates)).toEqual([maid]);
+  });
+});
+
+describe('pickWeightedRandom', () => {
+  it('按健谈程度 (缺省 5) 加权', () => {
+    // 权重：管家 5、女仆 8、侦探 5，共 18
+    expect(pickWeightedRandom(candidates, undefined, () => 0)).toBe(butler);
+    expect(pickWeightedRandom(candidates, undefined, () => 4.9 / 18)).toBe(butler);
+    expect(pickWeightedRandom(candidates, undefined, () => 5.1 / 18)).toBe(maid);
+    expect(pickWeightedRandom(candidates, undefined, () => 12.9 / 18)).toBe(maid);
+    expect(pickWeightedRandom(candidates, undefined, () => 13.1 / 18)).toBe(detective);
+  });
+
+  it('排除刚发过言的角色，只有一位候选时仍然选他', () => {
+    expect(pickWeightedRandom([butler, maid], butler.id, () => 0)).toBe(maid);
+    expect(pickWeightedRandom([butler], butler.id, () => 0.5)).toBe(butler);
+  });
+
+  it('权重全为 0 时选第一位', () => {
+    expect(pickWeightedRandom([{ ...butler, talkativeness: 0 }, { ...maid, talkativeness: 0 }], undefined, () => 0.9)?.id).toBe(butler.id);
+  });
+});
+
+describe('AI 裁判', () => {
+  const judge = { configId: 'judge-config', providerId: 'mock', modelName: 'judge-model' };
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const stubJudge = (result: { success: boolean; data?: { content: string }; error?: string }) => {
+    const llmGenerateChat = vi.fn().mockResolvedValue(result);
+    vi.stubGlobal('window', { electronAPI: { llmGenerateChat } });
+    return llmGenerateChat;
+  };
+
+  it('选出裁判回答中的角色，请求计入本会话', async () => {
+    const llmGenerateChat = stubJudge({ success: true, data: { content: '我认为应该是女仆。' } });
+    const history = [message(detective, '刚才谁在尖叫？', 'user')];
+    expect(await selectSpeakers(params({ strategy: { type: 'llmJudge', judge }, history }))).toEqual([maid]);
+    const [configId, options, characterId, sessionId] = llmGenerateChat.mock.calls[0];
+    expect(configId).toBe('judge-config');
+    expect(options.model).toBe('judge-model');
+    expect(options.messages[0].content).toContain('侦探: 刚才谁在尖叫？');
+    expect(characterId).toBeUndefined();
+    expect(sessionId).toBe('test-session');
+  });
+
+  it('裁判请求失败或未配置裁判时退回为按顺序轮流', async () => {
+    stubJudge({ success: false, error: '500' });
+    expect(await selectSpeakers(params({ strategy: { type: 'llmJudge', judge } }))).toEqual(candidates);
+    expect(await selectSpeakers(params({ strategy: { type: 'llmJudge' } }))).toEqual(candidates);
+  });
+});
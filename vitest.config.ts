@@ -0,0 +1,20 @@
+import { defineConfig } from 'vitest/config';
+import path from 'node:path';
+
+// 测试配置 (独立于 vite.config.ts，不加载 Electron 插件)
+// 主进程代码中的 electron 模块替换为 tests/harness/fakeElectron.ts：数据目录指向临时目录，IPC 处理程序可以在测试中直接调用
+export default defineConfig({
+  resolve: {
+    alias: {
+      electron: path.resolve(__dirname, 'tests/harness/fakeElectron.ts'),
+    },
+  },
+  test: {
+    include: ['tests/**/*.test.ts'],
+    environment: 'node',
+    globalSetup: ['tests/harness/globalSetup.ts'],
+    testTimeout: 20000,
+    // 主进程的信息日志很多，只显示警告和错误
+    onConsoleLog: (_log, type) => type === 'stderr',
+  },
+});